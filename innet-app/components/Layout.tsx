@@ -3,6 +3,9 @@ import { ReactNode, useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import { legalContactInfo } from '../data/legal';
 import SeoHead, { SeoHeadProps } from './SeoHead';
+import { useSubscription } from '../hooks/useSubscription';
+import { useOutboxCount } from '../hooks/useOutbox';
+import { settleReferralOnce } from '../lib/referralsClient';
 
 interface LayoutProps {
   children: ReactNode;
@@ -23,6 +26,8 @@ export default function Layout({ children, seo }: LayoutProps) {
   const isLandingHome = pathname === '/';
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [hydrated, setHydrated] = useState(false);
+  const subscription = useSubscription();
+  const pendingOutbox = useOutboxCount();
 
   useEffect(() => {
     setHydrated(true);
@@ -44,6 +49,12 @@ export default function Layout({ children, seo }: LayoutProps) {
       window.removeEventListener('innet-auth-refresh', handleStorage);
     };
   }, []);
+
+  useEffect(() => {
+    if (isAppRoute && isAuthenticated) {
+      settleReferralOnce();
+    }
+  }, [isAppRoute, isAuthenticated]);
   /* const [notifications, setNotifications] = useState<AppNotification[]>([]);
 
   useEffect(() => {
@@ -139,6 +150,14 @@ export default function Layout({ children, seo }: LayoutProps) {
         <Link href={brandHref} className="text-2xl font-bold text-primary">
           InNet
         </Link>
+        {isAppRoute && pendingOutbox > 0 && (
+          <span
+            className="rounded-full border border-amber-500/40 bg-amber-500/10 px-3 py-1 text-xs text-amber-100"
+            title="Обмены и изменения, сделанные без сети, отправятся автоматически, когда связь вернётся."
+          >
+            Ждут сети: {pendingOutbox}
+          </span>
+        )}
         {/* Центрированное меню на десктопе */}
         {isAppRoute && (
           <nav className="hidden md:flex space-x-6 text-sm absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
@@ -237,6 +256,16 @@ export default function Layout({ children, seo }: LayoutProps) {
           </div>
         )}
       </header>
+      {isAppRoute && subscription?.notice && subscription.status !== 'active' && (
+        <div className="px-4 pt-4">
+          <Link
+            href="/app/upgrade"
+            className="block rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-100 transition hover:bg-amber-500/20"
+          >
+            {subscription.notice}
+          </Link>
+        </div>
+      )}
       {/* {isAppRoute && notifications.length > 0 && (
         <div className="px-4 pt-4 space-y-3">
           {notifications.map((notification) => (
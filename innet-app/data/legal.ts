@@ -91,17 +91,17 @@ export const tokenEconomyExplainer = {
   })),
   notes: [
     'Токены списываются автоматически при действиях сверх бесплатных лимитов.',
-    'Баланс хранится локально и синхронизируется вместе с остальными данными.',
-    'В следующем релизе подключим YooKassa, пока используем заглушку и тестовые значения.',
+    'Баланс хранится на сервере InNet и одинаков на всех ваших устройствах.',
+    'Пакеты токенов оплачиваются через YooKassa.',
   ],
 };
 
 export const digitalDeliveryInfo = {
   title: 'Как вы получаете доступ',
   items: [
-    'Сервис полностью цифровой: после покупки токенов мы мгновенно пополняем баланс и показываем уведомление.',
+    'Сервис полностью цифровой: как только YooKassa подтвердит оплату, мы пополняем баланс и показываем уведомление.',
     'Доступ к новым действиям появляется сразу — перезагружать страницу не нужно.',
-    'Чеки и документы придут на почту после подключения настоящего эквайринга (сейчас демо-режим).',
+    'Счёт и закрывающие документы пришлём по запросу в поддержку.',
     'Автопродлений нет: покупаете токены по мере необходимости и тратите их в своём темпе.',
   ],
 };
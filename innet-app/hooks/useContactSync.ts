@@ -0,0 +1,86 @@
+import { useEffect } from 'react';
+import { usePlan } from './usePlan';
+import { syncContacts } from '../lib/contactSync';
+import { CONTACTS_UPDATED_EVENT } from '../lib/storage';
+
+const PUSH_DEBOUNCE_MS = 1500;
+const PULL_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps the local contacts in sync with `/api/contacts` for plans that allow
+ * cross-device sync: pulls on mount, focus and reconnect, and pushes local
+ * edits shortly after they are saved.
+ */
+export function useContactSync(): void {
+  const { entitlements } = usePlan();
+  const allowSync = entitlements.allowSyncAcrossDevices;
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !allowSync) return;
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+
+    let cancelled = false;
+    let running = false;
+    let queued = false;
+    let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const run = async () => {
+      if (cancelled) return;
+      if (running) {
+        queued = true;
+        return;
+      }
+      running = true;
+      try {
+        const result = await syncContacts();
+        if (!result.ok) {
+          console.warn('[contactSync] Sync failed', result.message);
+        }
+      } catch (error) {
+        console.warn('[contactSync] Sync crashed', error);
+      } finally {
+        running = false;
+        if (queued && !cancelled) {
+          queued = false;
+          void run();
+        }
+      }
+    };
+
+    const schedulePush = () => {
+      if (pushTimer) {
+        clearTimeout(pushTimer);
+      }
+      pushTimer = setTimeout(() => {
+        pushTimer = null;
+        void run();
+      }, PUSH_DEBOUNCE_MS);
+    };
+
+    const handleContactsUpdated = (event: CustomEvent<{ source: 'local' | 'sync' }>) => {
+      if (event.detail?.source === 'local') {
+        schedulePush();
+      }
+    };
+    const handleWake = () => {
+      void run();
+    };
+
+    void run();
+    const pullId = window.setInterval(handleWake, PULL_INTERVAL_MS);
+    window.addEventListener(CONTACTS_UPDATED_EVENT, handleContactsUpdated);
+    window.addEventListener('focus', handleWake);
+    window.addEventListener('online', handleWake);
+
+    return () => {
+      cancelled = true;
+      if (pushTimer) {
+        clearTimeout(pushTimer);
+      }
+      window.clearInterval(pullId);
+      window.removeEventListener(CONTACTS_UPDATED_EVENT, handleContactsUpdated);
+      window.removeEventListener('focus', handleWake);
+      window.removeEventListener('online', handleWake);
+    };
+  }, [allowSync]);
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { replayQueuedFacts } from '../lib/factsRemote';
+import {
+  countOutbox,
+  flushOutbox,
+  nextOutboxAttemptAt,
+  OUTBOX_UPDATED_EVENT,
+  type OutboxUpdatedDetail,
+} from '../lib/outbox';
+
+const REPLAYS = { facts: replayQueuedFacts };
+
+/**
+ * Replays requests queued while offline: at once when the browser comes
+ * back online, otherwise when the next entry's backoff runs out.
+ */
+export function useOutboxReplay(): void {
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    let cancelled = false;
+    let running = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = async () => {
+      const dueAt = await nextOutboxAttemptAt();
+      if (cancelled) return;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (dueAt === null) return;
+      timer = setTimeout(() => void run(false), Math.max(0, dueAt - Date.now()));
+    };
+
+    const run = async (force: boolean) => {
+      if (cancelled || running) return;
+      running = true;
+      try {
+        await flushOutbox({ force, replays: REPLAYS });
+      } catch (error) {
+        console.warn('[outbox] Replay crashed', error);
+      } finally {
+        running = false;
+      }
+      await schedule();
+    };
+
+    const handleOnline = () => void run(true);
+    const handleUpdated = () => {
+      if (!running) void schedule();
+    };
+
+    void run(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener(OUTBOX_UPDATED_EVENT, handleUpdated);
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener(OUTBOX_UPDATED_EVENT, handleUpdated);
+    };
+  }, []);
+}
+
+/** Number of requests still waiting for the network. */
+export function useOutboxCount(): number {
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    let cancelled = false;
+    const refresh = () => {
+      void countOutbox().then((count) => {
+        if (!cancelled) setPending(count);
+      });
+    };
+    const handleUpdated = (event: CustomEvent<OutboxUpdatedDetail>) => setPending(event.detail.pending);
+
+    refresh();
+    window.addEventListener(OUTBOX_UPDATED_EVENT, handleUpdated);
+    // Another tab may have sent the queue.
+    window.addEventListener('focus', refresh);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(OUTBOX_UPDATED_EVENT, handleUpdated);
+      window.removeEventListener('focus', refresh);
+    };
+  }, []);
+
+  return pending;
+}
@@ -28,8 +28,21 @@ import {
   getDailyReminderCount,
   setDailyReminderCount,
   pruneDailyReminderLog,
+  isSameReminderCadence,
+  isServerReminderChannel,
+  needsServerSchedules,
+  REMINDER_DAILY_LIMIT,
+  reminderInteractionId,
 } from '../lib/reminders';
-import { loadContacts, type Contact } from '../lib/storage';
+import { pushReminderSchedules } from '../lib/remindersRemote';
+import {
+  CONTACTS_UPDATED_EVENT,
+  createContactInteraction,
+  loadContacts,
+  logContactInteraction,
+  type Contact,
+} from '../lib/storage';
+import { hydrateRepository, REPOSITORY_CHANGED_EVENT, type RepositoryChangedDetail } from '../lib/repository';
 
 type PermissionStatus = NotificationPermission | 'unsupported';
 
@@ -53,8 +66,29 @@ type ReminderQueueItem = {
 };
 
 const ReminderContext = createContext<ReminderContextValue | null>(null);
-const DAILY_LIMIT = 2;
 const SNOOZE_KEEP_DAYS = 45;
+const SCHEDULE_PUSH_DEBOUNCE_MS = 2000;
+
+function scheduleSignature(schedule: ContactReminderSchedule): string {
+  return JSON.stringify({ ...schedule, updatedAt: undefined });
+}
+
+/**
+ * Stamp schedules this device changed so the server merge prefers them.
+ * New schedules stay unstamped: a fresh device must not override what
+ * another device or the delivery job already stored.
+ */
+function stampScheduleChanges(previous: ReminderState, next: ReminderState, now: number): ReminderState {
+  Object.values(next.contactSchedules).forEach((schedule) => {
+    const before = previous.contactSchedules[schedule.contactId];
+    if (!before) {
+      schedule.updatedAt = schedule.updatedAt ?? 0;
+    } else if (scheduleSignature(before) !== scheduleSignature(schedule)) {
+      schedule.updatedAt = now;
+    }
+  });
+  return next;
+}
 
 export function ReminderProvider({ children }: { children: ReactNode }) {
   const isNotificationSupported =
@@ -62,6 +96,8 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
 
   const [settings, setSettings] = useState<ReminderSettings>(() => loadReminderSettings());
   const [state, setState] = useState<ReminderState>(() => loadReminderState());
+  // Reminders are evaluated only once the stored schedules have loaded.
+  const [hydrated, setHydrated] = useState(false);
   const [permission, setPermission] = useState<PermissionStatus>(() =>
     isNotificationSupported ? Notification.permission : 'unsupported'
   );
@@ -82,10 +118,12 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
   const persistState = useCallback((recipe: (draft: ReminderState) => ReminderState | void) => {
     setState((prev) => {
       const draft: ReminderState = {
-        contactSchedules: { ...prev.contactSchedules },
+        contactSchedules: Object.fromEntries(
+          Object.entries(prev.contactSchedules).map(([id, schedule]) => [id, { ...schedule }])
+        ),
         dailyReminderLog: pruneDailyReminderLog(prev.dailyReminderLog, SNOOZE_KEEP_DAYS),
       };
-      const result = recipe(draft) ?? draft;
+      const result = stampScheduleChanges(prev, recipe(draft) ?? draft, Date.now());
       saveReminderState(result);
       stateRef.current = result;
       return result;
@@ -102,7 +140,9 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
           window.dispatchEvent(new Event(REMINDER_SETTINGS_UPDATED_EVENT));
         }
         // Пересчитаем график напоминаний под новые параметры.
-        const contacts = typeof window !== 'undefined' ? loadContacts() : [];
+        // Channel and calendar switches leave the schedule as it is.
+        const reschedule = next.enabled !== prev.enabled || !isSameReminderCadence(next.cadence, prev.cadence);
+        const contacts = typeof window !== 'undefined' && reschedule ? loadContacts() : [];
         if (contacts.length) {
           persistState((draft) => {
             cleanupMissingSchedules(draft, contacts);
@@ -110,7 +150,7 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
             contacts.forEach((contact) => {
               const schedule = ensureScheduleForContact(contact, draft, next, reference);
               if (!schedule.disabled && next.enabled) {
-                schedule.nextReminderAt = computeNextReminderTimestamp(next, reference);
+                schedule.nextReminderAt = computeNextReminderTimestamp(next, reference, schedule.cadence);
               }
             });
             return draft;
@@ -163,7 +203,7 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
           const entry = draft.contactSchedules[contact.id];
           if (!entry || entry.disabled) return draft;
           entry.lastNotifiedAt = now;
-          entry.nextReminderAt = computeNextReminderTimestamp(settingsRef.current, now);
+          entry.nextReminderAt = computeNextReminderTimestamp(settingsRef.current, now, entry.cadence);
           const dayKey = formatDayKey(now);
           const count = getDailyReminderCount(draft, dayKey);
           setDailyReminderCount(draft, dayKey, count + 1);
@@ -210,8 +250,11 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
     const map = new Map<string, Contact>(contacts.map((contact) => [contact.id, contact]));
 
     const currentState = stateRef.current;
+    // Copies, so cadence and name updates below are stamped for the server sync.
     const working: ReminderState = {
-      contactSchedules: { ...currentState.contactSchedules },
+      contactSchedules: Object.fromEntries(
+        Object.entries(currentState.contactSchedules).map(([id, schedule]) => [id, { ...schedule }])
+      ),
       dailyReminderLog: pruneDailyReminderLog(currentState.dailyReminderLog, SNOOZE_KEEP_DAYS),
     };
     const reference = Date.now();
@@ -221,9 +264,11 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
     });
 
     persistState(() => working);
+    // The server delivers reminders for accounts that picked push, email or Telegram.
+    if (isServerReminderChannel(settingsRef.current.channel)) return;
 
     const dayKey = formatDayKey(reference);
-    let remaining = Math.max(0, DAILY_LIMIT - getDailyReminderCount(working, dayKey));
+    let remaining = Math.max(0, REMINDER_DAILY_LIMIT - getDailyReminderCount(working, dayKey));
     if (remaining <= 0) return;
 
     const due = Object.values(working.contactSchedules)
@@ -291,7 +336,10 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
         return;
       }
 
-      if (action === 'snooze') {
+      if (action === 'complete') {
+        // The logged touch resets the schedule on the next evaluation.
+        logContactInteraction(contact.id, createContactInteraction('reminder'));
+      } else if (action === 'snooze') {
         persistState((draft) => {
           const entry = draft.contactSchedules[contact.id];
           if (!entry) return draft;
@@ -315,24 +363,101 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
   );
 
   useEffect(() => {
-    if (typeof window === 'undefined') return;
+    let cancelled = false;
+    void hydrateRepository().then(() => {
+      if (cancelled) return;
+      const nextState = loadReminderState();
+      stateRef.current = nextState;
+      setSettings(loadReminderSettings());
+      setState(nextState);
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !hydrated) return;
     const run = () => evaluateReminders();
     if (settings.enabled) {
       run();
     }
     const id = window.setInterval(run, 60_000);
+    // Cadence overrides on a contact or tag reschedule it right away.
+    window.addEventListener(CONTACTS_UPDATED_EVENT, run);
     return () => {
       window.clearInterval(id);
+      window.removeEventListener(CONTACTS_UPDATED_EVENT, run);
+    };
+  }, [evaluateReminders, hydrated, settings.enabled]);
+
+  const serverSync = hydrated && needsServerSchedules(settings);
+  const syncedSignatureRef = useRef<string | null>(null);
+
+  const syncSchedules = useCallback(async () => {
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+    const local = Object.values(stateRef.current.contactSchedules);
+    const result = await pushReminderSchedules(local);
+    if (!result.ok) {
+      console.warn('[reminders] Schedule sync failed', result.message);
+      return;
+    }
+    const current = stateRef.current;
+    const next: ReminderState = {
+      contactSchedules: { ...current.contactSchedules },
+      dailyReminderLog: current.dailyReminderLog,
+    };
+    result.schedules.forEach((schedule) => {
+      // Skip contacts removed while the request was in flight.
+      if (next.contactSchedules[schedule.contactId]) {
+        next.contactSchedules[schedule.contactId] = schedule;
+      }
+    });
+    // A "done" pressed in a notification is logged here, once per device thanks to the fixed id.
+    const contacts = new Map(loadContacts().map((contact) => [contact.id, contact]));
+    result.schedules.forEach(({ contactId, actedAt }) => {
+      if (!actedAt) return;
+      const id = reminderInteractionId(actedAt);
+      const contact = contacts.get(contactId);
+      if (contact && !contact.interactions?.some((interaction) => interaction.id === id)) {
+        logContactInteraction(contactId, { id, channel: 'reminder', at: actedAt });
+      }
+    });
+    syncedSignatureRef.current = JSON.stringify(next.contactSchedules);
+    saveReminderState(next);
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  useEffect(() => {
+    if (!serverSync) return;
+    void syncSchedules();
+    const handleFocus = () => void syncSchedules();
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('online', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('online', handleFocus);
+    };
+  }, [serverSync, syncSchedules]);
+
+  useEffect(() => {
+    if (!serverSync || JSON.stringify(state.contactSchedules) === syncedSignatureRef.current) return;
+    const timer = window.setTimeout(() => void syncSchedules(), SCHEDULE_PUSH_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
     };
-  }, [evaluateReminders, settings.enabled]);
+  }, [serverSync, state.contactSchedules, syncSchedules]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === REMINDER_SETTINGS_KEY) {
+    const handleRepository = (event: CustomEvent<RepositoryChangedDetail>) => {
+      if (event.detail.source !== 'tab') return;
+      if (event.detail.store === REMINDER_SETTINGS_KEY) {
         setSettings(loadReminderSettings());
       }
-      if (event.key === REMINDER_STATE_KEY) {
+      if (event.detail.store === REMINDER_STATE_KEY) {
         setState(loadReminderState());
       }
     };
@@ -340,10 +465,10 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
       setSettings(loadReminderSettings());
       setState(loadReminderState());
     };
-    window.addEventListener('storage', handleStorage);
+    window.addEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
     window.addEventListener(REMINDER_SETTINGS_UPDATED_EVENT, handleCustom);
     return () => {
-      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
       window.removeEventListener(REMINDER_SETTINGS_UPDATED_EVENT, handleCustom);
     };
   }, []);
@@ -395,7 +520,7 @@ export function ReminderProvider({ children }: { children: ReactNode }) {
       nextReminderPreview,
       lastReminderMeta,
       activeSchedulesCount,
-      dailyLimit: DAILY_LIMIT,
+      dailyLimit: REMINDER_DAILY_LIMIT,
     }),
     [
       activeSchedulesCount,
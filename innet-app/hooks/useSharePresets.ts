@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  loadActiveSharePresetId,
+  loadSharePresets,
+  saveActiveSharePresetId,
+  saveSharePresets,
+  SHARE_PRESET_STORAGE_KEYS,
+  SHARE_PRESETS_UPDATED_EVENT,
+  syncSharePresets,
+  type SharePreset,
+} from '../lib/sharePresets';
+
+const PUSH_DEBOUNCE_MS = 1500;
+
+/**
+ * Share presets for the QR screen. Signed-in users get them synced through
+ * `/api/share-presets`: pulled on mount, focus and reconnect, pushed shortly
+ * after a local edit.
+ */
+export function useSharePresets() {
+  const [presets, setPresets] = useState<SharePreset[]>([]);
+  const [activeId, setActiveIdState] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const reload = () => {
+      setPresets(loadSharePresets());
+      setActiveIdState(loadActiveSharePresetId());
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (!event.key || SHARE_PRESET_STORAGE_KEYS.includes(event.key)) {
+        reload();
+      }
+    };
+    reload();
+    window.addEventListener(SHARE_PRESETS_UPDATED_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(SHARE_PRESETS_UPDATED_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+
+    let cancelled = false;
+    let running = false;
+    let queued = false;
+    let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const run = async () => {
+      if (cancelled) return;
+      if (running) {
+        queued = true;
+        return;
+      }
+      running = true;
+      try {
+        const result = await syncSharePresets();
+        if (!result.ok) {
+          console.warn('[sharePresets] Sync failed', result.message);
+        }
+      } catch (error) {
+        console.warn('[sharePresets] Sync crashed', error);
+      } finally {
+        running = false;
+        if (queued && !cancelled) {
+          queued = false;
+          void run();
+        }
+      }
+    };
+
+    const handleUpdated = (event: CustomEvent<{ source: 'local' | 'sync' }>) => {
+      if (event.detail?.source !== 'local') return;
+      if (pushTimer) {
+        clearTimeout(pushTimer);
+      }
+      pushTimer = setTimeout(() => {
+        pushTimer = null;
+        void run();
+      }, PUSH_DEBOUNCE_MS);
+    };
+    const handleWake = () => {
+      void run();
+    };
+
+    void run();
+    window.addEventListener(SHARE_PRESETS_UPDATED_EVENT, handleUpdated);
+    window.addEventListener('focus', handleWake);
+    window.addEventListener('online', handleWake);
+
+    return () => {
+      cancelled = true;
+      if (pushTimer) {
+        clearTimeout(pushTimer);
+      }
+      window.removeEventListener(SHARE_PRESETS_UPDATED_EVENT, handleUpdated);
+      window.removeEventListener('focus', handleWake);
+      window.removeEventListener('online', handleWake);
+    };
+  }, []);
+
+  const setActiveId = useCallback((id: string | null) => {
+    saveActiveSharePresetId(id);
+    setActiveIdState(id);
+  }, []);
+
+  const savePreset = useCallback((preset: SharePreset) => {
+    const current = loadSharePresets();
+    const exists = current.some((item) => item.id === preset.id);
+    saveSharePresets(exists ? current.map((item) => (item.id === preset.id ? preset : item)) : [...current, preset]);
+  }, []);
+
+  const removePreset = useCallback(
+    (id: string) => {
+      saveSharePresets(loadSharePresets().filter((item) => item.id !== id));
+      if (loadActiveSharePresetId() === id) {
+        setActiveId(null);
+      }
+    },
+    [setActiveId]
+  );
+
+  // A preset deleted on another device falls back to sharing the plain selection.
+  const activePreset = presets.find((preset) => preset.id === activeId) ?? null;
+
+  return { presets, activePreset, setActiveId, savePreset, removePreset };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { fetchSubscription, type SubscriptionInfo } from '../lib/payments/client';
+import { syncPlanWithSubscription } from '../lib/subscription';
+
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+let cached: { subscription: SubscriptionInfo | null; fetchedAt: number } | null = null;
+const listeners = new Set<(subscription: SubscriptionInfo | null) => void>();
+
+/**
+ * Put a subscription the server just returned (after a cancellation or a
+ * refund) into the cache, sync the plan and update every mounted hook.
+ */
+export function storeSubscription(subscription: SubscriptionInfo | null): void {
+  cached = { subscription, fetchedAt: Date.now() };
+  syncPlanWithSubscription(subscription);
+  listeners.forEach((listener) => listener(subscription));
+}
+
+/**
+ * Server-side subscription of the signed-in account. Loading it also syncs
+ * the cached plan, so an expired subscription downgrades this device.
+ */
+export function useSubscription(): SubscriptionInfo | null {
+  const [subscription, setSubscription] = useState<SubscriptionInfo | null>(cached?.subscription ?? null);
+
+  useEffect(() => {
+    listeners.add(setSubscription);
+    return () => {
+      listeners.delete(setSubscription);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+    if (cached && Date.now() - cached.fetchedAt < REFRESH_INTERVAL_MS) return;
+
+    void fetchSubscription().then((result) => {
+      if (result.ok) storeSubscription(result.subscription);
+    });
+  }, []);
+
+  return subscription;
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { getTokenBalance, subscribeToTokenBalance } from '../lib/tokens';
+import { getTokenBalance, refreshTokenBalance, subscribeToTokenBalance } from '../lib/tokens';
 
 export function useTokens(): { balance: number } {
   const [balance, setBalance] = useState(() => getTokenBalance());
@@ -8,6 +8,10 @@ export function useTokens(): { balance: number } {
     const unsubscribe = subscribeToTokenBalance(() => {
       setBalance(getTokenBalance());
     });
+    if (localStorage.getItem('innet_logged_in') === 'true') {
+      // The server ledger is the source of truth; the cached value only avoids a flash of zero.
+      void refreshTokenBalance();
+    }
     return () => {
       unsubscribe();
     };
@@ -1,9 +1,26 @@
 import type { UserAccount } from './storage';
+import { fetchOrQueue } from './outbox';
+import { adoptProfileId, getOrCreateProfileId, signProfileClaim } from './share';
+import { syncShareKeys } from './shareKeysClient';
+import { getSupabaseAccessToken } from './supabaseClient';
 
 type ApiResponse<T> =
   | ({ ok: true } & T)
   | { ok: false; message: string };
 
+const NETWORK_ERROR_MESSAGE = 'Не удалось связаться с сервером. Проверьте соединение и попробуйте ещё раз.';
+
+async function readPayload<T>(response: Response): Promise<ApiResponse<T>> {
+  const payload = (await response.json().catch(() => null)) as ApiResponse<T> | null;
+  if (!payload) {
+    return {
+      ok: false,
+      message: 'Сервер вернул пустой ответ. Попробуйте позже.',
+    };
+  }
+  return payload;
+}
+
 async function request<T>(
   url: string,
   options: RequestInit
@@ -16,55 +33,91 @@ async function request<T>(
         ...(options.headers ?? {}),
       },
     });
-
-    const payload = (await response.json().catch(() => null)) as ApiResponse<T> | null;
-    if (!payload) {
-      return {
-        ok: false,
-        message: 'Сервер вернул пустой ответ. Попробуйте позже.',
-      };
-    }
-
-    if (!response.ok) {
-      return payload;
-    }
-
-    return payload;
+    return await readPayload<T>(response);
   } catch (error) {
     console.error('[accountRemote] Request failed', error);
-    return {
-      ok: false,
-      message: 'Не удалось связаться с сервером. Проверьте соединение и попробуйте ещё раз.',
-    };
+    return { ok: false, message: NETWORK_ERROR_MESSAGE };
+  }
+}
+
+type AccountSession = { user: Omit<UserAccount, 'password'>; profileId: string };
+
+async function rememberProfileId(
+  result: ApiResponse<AccountSession>,
+  password: string
+): Promise<ApiResponse<AccountSession>> {
+  if (result.ok) {
+    adoptProfileId(result.profileId);
+    await syncShareKeys({ signedIn: true, password });
   }
+  return result;
 }
 
 export async function registerRemoteAccount(
   user: UserAccount,
   password: string
-): Promise<ApiResponse<{ user: Omit<UserAccount, 'password'> }>> {
-  return request<{ user: Omit<UserAccount, 'password'> }>('/api/account/register', {
+): Promise<ApiResponse<AccountSession>> {
+  const result = await request<AccountSession>('/api/account/register', {
     method: 'POST',
-    body: JSON.stringify({ user, password }),
+    body: JSON.stringify({
+      user,
+      password,
+      profileClaim: signProfileClaim(getOrCreateProfileId()),
+      supabaseAccessToken: await getSupabaseAccessToken(),
+    }),
   });
+  return rememberProfileId(result, password);
 }
 
 export async function loginRemoteAccount(
   identifier: string,
   password: string
-): Promise<ApiResponse<{ user: Omit<UserAccount, 'password'> }>> {
-  return request<{ user: Omit<UserAccount, 'password'> }>('/api/account/login', {
+): Promise<ApiResponse<AccountSession>> {
+  const result = await request<AccountSession>('/api/account/login', {
     method: 'POST',
-    body: JSON.stringify({ identifier, password }),
+    body: JSON.stringify({ identifier, password, profileClaim: signProfileClaim(getOrCreateProfileId()) }),
   });
+  return rememberProfileId(result, password);
 }
 
+export async function logoutRemoteAccount(): Promise<ApiResponse<Record<string, never>>> {
+  return request<Record<string, never>>('/api/account/logout', { method: 'POST' });
+}
+
+/**
+ * Save profile changes of the signed-in account. Offline, the latest
+ * snapshot waits in the outbox (`queued: true`); a new password never does.
+ */
 export async function updateRemoteAccount(
   user: UserAccount,
   password?: string
-): Promise<ApiResponse<Record<string, never>>> {
-  return request<Record<string, never>>('/api/account/update', {
-    method: 'PUT',
-    body: JSON.stringify({ user, password: password ?? null }),
-  });
+): Promise<ApiResponse<{ queued?: boolean }>> {
+  const supabaseAccessToken = await getSupabaseAccessToken();
+  if (password) {
+    const result = await request<Record<string, never>>('/api/account/update', {
+      method: 'PUT',
+      body: JSON.stringify({ user, password, supabaseAccessToken }),
+    });
+    if (result.ok) {
+      // The wrapped share keys must open with the new password.
+      await syncShareKeys({ signedIn: true, password });
+    }
+    return result;
+  }
+  try {
+    const response = await fetchOrQueue({
+      kind: 'account-update',
+      url: '/api/account/update',
+      method: 'PUT',
+      body: { user, password: null, supabaseAccessToken },
+      dedupeKey: 'account-update',
+    });
+    if (!response) {
+      return { ok: true, queued: true };
+    }
+    return await readPayload<Record<string, never>>(response);
+  } catch (error) {
+    console.error('[accountRemote] Request failed', error);
+    return { ok: false, message: NETWORK_ERROR_MESSAGE };
+  }
 }
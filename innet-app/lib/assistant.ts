@@ -1,4 +1,11 @@
-import type { Contact } from './storage';
+import { contactLastTouch, type Contact } from './storage';
+
+/**
+ * Message suggestions for a contact card. `/api/assistant` asks the
+ * configured LLM provider using the prompt built here from the contact's
+ * facts, notes and tags; the templates below are the fallback when no
+ * provider is configured or it fails.
+ */
 
 const GREETINGS = [
   'Привет',
@@ -37,42 +44,208 @@ function firstNameFrom(contactName: string): string {
   return trimmed.split(/\s+/)[0];
 }
 
+export type AiSuggestionTone = 'friendly' | 'catch-up' | 'meetup';
+
 export type AiSuggestion = {
   id: string;
   text: string;
-  tone: 'friendly' | 'catch-up' | 'meetup';
+  tone: AiSuggestionTone;
   title: string;
 };
 
-export function buildAiSuggestions(contact: Contact): AiSuggestion[] {
-  const now = Date.now();
+/** Where the suggestions came from: the LLM provider or the built-in templates. */
+export type AssistantSource = 'provider' | 'templates';
+
+/**
+ * The part of a contact the assistant sees. The client sends it with the
+ * request because contacts may live only in the browser.
+ */
+export type AssistantContact = {
+  id: string;
+  name: string;
+  groups: { name: string; facts: string[] }[];
+  notes: string[];
+  tags: string[];
+  lastTouchAt: number;
+};
+
+export type AssistantResponse =
+  | { ok: true; suggestions: AiSuggestion[]; source: AssistantSource }
+  | { ok: false; message: string };
+
+export type AssistantMessage = { role: 'system' | 'user'; content: string };
+
+const SUGGESTION_TONES: AiSuggestionTone[] = ['friendly', 'catch-up', 'meetup'];
+
+const TONE_TITLES: Record<AiSuggestionTone, string> = {
+  friendly: 'Мягкое касание',
+  'catch-up': 'Продолжить разговор',
+  meetup: 'Предложить встречу',
+};
+
+const TONE_ID_SUFFIX: Record<AiSuggestionTone, string> = {
+  friendly: 'friendly',
+  'catch-up': 'follow-up',
+  meetup: 'meetup',
+};
+
+// Keeps prompts short and bounds what a client can make the server send on.
+const ASSISTANT_GROUP_MAX = 10;
+const ASSISTANT_FACT_MAX = 20;
+const ASSISTANT_NOTE_MAX = 7;
+const ASSISTANT_TAG_MAX = 20;
+const ASSISTANT_TEXT_LIMIT = 300;
+const SUGGESTION_TEXT_LIMIT = 500;
+const SUGGESTION_TITLE_LIMIT = 60;
+
+function clipText(value: unknown, limit: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, limit) : '';
+}
+
+function clipList(values: unknown, max: number): string[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .map((value) => clipText(value, ASSISTANT_TEXT_LIMIT))
+    .filter(Boolean)
+    .slice(0, max);
+}
+
+export function toAssistantContact(contact: Contact): AssistantContact {
+  return {
+    id: contact.id,
+    name: contact.name,
+    groups: contact.groups
+      .map((group) => ({
+        name: clipText(group.name, ASSISTANT_TEXT_LIMIT),
+        facts: clipList(
+          group.facts.map((fact) => fact.text),
+          ASSISTANT_FACT_MAX
+        ),
+      }))
+      .filter((group) => group.facts.length)
+      .slice(0, ASSISTANT_GROUP_MAX),
+    notes: clipList(
+      contact.notes.map((note) => note.text),
+      ASSISTANT_NOTE_MAX
+    ),
+    tags: clipList(
+      contact.tags.map((tag) => tag.label),
+      ASSISTANT_TAG_MAX
+    ),
+    lastTouchAt: contactLastTouch(contact),
+  };
+}
+
+/** Validate a contact posted to `/api/assistant`, applying the same limits. */
+export function normalizeAssistantContact(raw: unknown): AssistantContact | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const id = clipText(record.id, 100);
+  const name = clipText(record.name, ASSISTANT_TEXT_LIMIT);
+  if (!id || !name) return null;
+  const groups = Array.isArray(record.groups)
+    ? record.groups
+        .map((group) => {
+          const item = (group ?? {}) as Record<string, unknown>;
+          return {
+            name: clipText(item.name, ASSISTANT_TEXT_LIMIT),
+            facts: clipList(item.facts, ASSISTANT_FACT_MAX),
+          };
+        })
+        .filter((group) => group.facts.length)
+        .slice(0, ASSISTANT_GROUP_MAX)
+    : [];
+  const lastTouchAt = Number(record.lastTouchAt);
+  return {
+    id,
+    name,
+    groups,
+    notes: clipList(record.notes, ASSISTANT_NOTE_MAX),
+    tags: clipList(record.tags, ASSISTANT_TAG_MAX),
+    lastTouchAt: Number.isFinite(lastTouchAt) && lastTouchAt > 0 ? lastTouchAt : Date.now(),
+  };
+}
+
+function daysSinceTouch(contact: AssistantContact, now = Date.now()): number {
+  return Math.max(1, Math.round((now - contact.lastTouchAt) / (1000 * 60 * 60 * 24)));
+}
+
+export function buildTemplateSuggestions(contact: AssistantContact): AiSuggestion[] {
   const baseSeed = contact.id.split('-').reduce((acc, part) => acc + part.charCodeAt(0), 0);
   const name = firstNameFrom(contact.name);
-  const lastInteraction = contact.lastUpdated || contact.connectedAt;
-  const daysSince = Math.max(1, Math.round((now - lastInteraction) / (1000 * 60 * 60 * 24)));
+  const daysSince = daysSinceTouch(contact);
 
   const friendly = `${pickRandom(GREETINGS, baseSeed)}, ${name}! Уже ${daysSince} дн. не пересекались, как ты?`;
   const followUp = `${pickRandom(FOLLOW_UPS, baseSeed + 3)}. Расскажешь, как продвигается?`;
   const invite = `${name}, ${pickRandom(MEETING_INVITES, baseSeed + 7)} ${daysSince > 14 ? 'Соскучился по апдейтам!' : ''}`.trim();
 
   return [
-    {
-      id: `${contact.id}-friendly`,
-      text: friendly,
-      tone: 'friendly',
-      title: 'Мягкое касание',
-    },
-    {
-      id: `${contact.id}-follow-up`,
-      text: followUp,
-      tone: 'catch-up',
-      title: 'Продолжить разговор',
-    },
-    {
-      id: `${contact.id}-meetup`,
-      text: invite,
-      tone: 'meetup',
-      title: 'Предложить встречу',
-    },
+    { id: suggestionId(contact, 'friendly'), text: friendly, tone: 'friendly', title: TONE_TITLES.friendly },
+    { id: suggestionId(contact, 'catch-up'), text: followUp, tone: 'catch-up', title: TONE_TITLES['catch-up'] },
+    { id: suggestionId(contact, 'meetup'), text: invite, tone: 'meetup', title: TONE_TITLES.meetup },
   ];
 }
+
+function suggestionId(contact: AssistantContact, tone: AiSuggestionTone): string {
+  return `${contact.id}-${TONE_ID_SUFFIX[tone]}`;
+}
+
+const SYSTEM_PROMPT = [
+  'Ты помогаешь человеку поддерживать связь со знакомыми.',
+  'Напиши три коротких сообщения, которые он может отправить контакту: на «ты», по-русски, до 280 символов каждое.',
+  'Опирайся на факты, заметки и теги контакта; не выдумывай того, чего в них нет.',
+  'Тоны: "friendly" — мягкое касание, "catch-up" — продолжить прошлый разговор, "meetup" — предложить встречу или созвон.',
+  'Ответь только JSON без пояснений: {"suggestions":[{"tone":"friendly","title":"...","text":"..."}, ...]}.',
+].join('\n');
+
+/** Chat messages for an OpenAI-style completion about `contact`. */
+export function buildAssistantPrompt(contact: AssistantContact): AssistantMessage[] {
+  const lines = [`Контакт: ${contact.name}`, `Последний контакт: ${daysSinceTouch(contact)} дн. назад`];
+  if (contact.tags.length) {
+    lines.push(`Теги: ${contact.tags.join(', ')}`);
+  }
+  for (const group of contact.groups) {
+    lines.push(`${group.name || 'Факты'}:`, ...group.facts.map((fact) => `- ${fact}`));
+  }
+  if (contact.notes.length) {
+    lines.push('Заметки:', ...contact.notes.map((note) => `- ${note}`));
+  }
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: lines.join('\n') },
+  ];
+}
+
+/**
+ * Read suggestions from a provider reply. Models sometimes wrap the JSON in
+ * prose or code fences, so the outermost object is cut out first. Returns
+ * null when nothing usable is found.
+ */
+export function parseAssistantReply(reply: string, contact: AssistantContact): AiSuggestion[] | null {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  const items = (parsed as { suggestions?: unknown } | null)?.suggestions;
+  if (!Array.isArray(items)) return null;
+
+  const suggestions: AiSuggestion[] = [];
+  for (const item of items) {
+    const record = (item ?? {}) as Record<string, unknown>;
+    const tone = SUGGESTION_TONES.find((value) => value === record.tone);
+    const text = clipText(record.text, SUGGESTION_TEXT_LIMIT);
+    if (!tone || !text || suggestions.some((suggestion) => suggestion.tone === tone)) continue;
+    suggestions.push({
+      id: suggestionId(contact, tone),
+      text,
+      tone,
+      title: clipText(record.title, SUGGESTION_TITLE_LIMIT) || TONE_TITLES[tone],
+    });
+  }
+  return suggestions.length ? suggestions : null;
+}
@@ -0,0 +1,41 @@
+import {
+  buildTemplateSuggestions,
+  toAssistantContact,
+  type AiSuggestion,
+  type AssistantResponse,
+  type AssistantSource,
+} from './assistant';
+import type { Contact } from './storage';
+
+const ASSISTANT_ENDPOINT = '/api/assistant';
+
+/**
+ * Suggestions for `contact` from `/api/assistant`. Guests and failed
+ * requests get the local templates so the card always has something to
+ * offer.
+ */
+export async function fetchAssistantSuggestions(
+  contact: Contact
+): Promise<{ suggestions: AiSuggestion[]; source: AssistantSource }> {
+  const payload = toAssistantContact(contact);
+  const fallback = { suggestions: buildTemplateSuggestions(payload), source: 'templates' as const };
+  if (typeof window === 'undefined' || window.localStorage.getItem('innet_logged_in') !== 'true') {
+    return fallback;
+  }
+  try {
+    const response = await fetch(ASSISTANT_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contact: payload }),
+    });
+    const data = (await response.json().catch(() => null)) as AssistantResponse | null;
+    if (!response.ok || !data?.ok) {
+      console.warn('[assistantClient] Falling back to templates', data && !data.ok ? data.message : response.status);
+      return fallback;
+    }
+    return { suggestions: data.suggestions, source: data.source };
+  } catch (error) {
+    console.warn('[assistantClient] fetchAssistantSuggestions failed', error);
+    return fallback;
+  }
+}
@@ -0,0 +1,373 @@
+import { gunzipSync, gzipSync, strFromU8, strToU8 } from 'fflate';
+import {
+  Contact,
+  ContactTombstones,
+  FactGroup,
+  UserAccount,
+  loadContactTombstones,
+  loadContacts,
+  loadFactGroups,
+  loadUsers,
+  normalizeContactTombstones,
+  normalizeContacts,
+  normalizeFactGroups,
+  saveContactTombstones,
+  saveContacts,
+  saveFactGroups,
+  saveUsers,
+} from './storage';
+import { REMINDER_SETTINGS_KEY, normalizeReminderSettings, type ReminderSettings } from './reminders';
+import { REPOSITORY_VALUE_KEYS, readValue, writeValue, type RepositoryValueKey } from './repository';
+import { PRIVACY_STORAGE_KEY_NAME, mapPrivacyLevel } from './privacy';
+
+/**
+ * Full account backup covering every `innet_*` key, whether it lives in
+ * localStorage or in the IndexedDB repository. Fact groups, contacts and
+ * local accounts are stored as typed sections and re-validated on restore;
+ * everything else is kept as raw key/value pairs.
+ *
+ * Archive history:
+ * - v1 — flat `storage` map of raw localStorage strings.
+ * - v2 — typed sections plus `settings` for the remaining keys.
+ */
+
+export const BACKUP_FORMAT = 'innet-backup';
+export const BACKUP_VERSION = 2;
+export const BACKUP_JSON_MIME = 'application/json';
+export const BACKUP_GZIP_MIME = 'application/gzip';
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  v: number;
+  exportedAt: number;
+  factGroups: FactGroup[];
+  contacts: Contact[];
+  contactTombstones: ContactTombstones;
+  users: UserAccount[];
+  /** Raw values of every other `innet_*` key, by key name. */
+  settings: Record<string, string>;
+}
+
+export interface BackupSummary {
+  exportedAt: number;
+  factGroups: number;
+  contacts: number;
+  settings: number;
+}
+
+export type BackupParseResult =
+  | { ok: true; archive: BackupArchive }
+  | { ok: false; message: string };
+
+const KEY_PREFIX = 'innet_';
+const FACT_KEY = 'innet_fact_groups';
+const CONTACT_KEY = 'innet_contacts';
+const CONTACT_TOMBSTONE_KEY = 'innet_contacts_deleted';
+const USER_KEY = 'innet_users';
+const SECTION_KEYS = new Set([FACT_KEY, CONTACT_KEY, CONTACT_TOMBSTONE_KEY, USER_KEY]);
+/** Short-lived OAuth handshake values; restoring them would break the next sign-in. */
+const TRANSIENT_KEY_PREFIX = 'innet_oauth_';
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+type ArchiveMigration = (raw: Record<string, unknown>) => Record<string, unknown>;
+
+/** Upgrades an archive of version `n` to `n + 1`. */
+const ARCHIVE_MIGRATIONS: Record<number, ArchiveMigration> = {
+  1: (raw) => {
+    const storage = toStringRecord(raw.storage);
+    const parse = (key: string): unknown => {
+      const value = storage[key];
+      delete storage[key];
+      if (value == null) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    };
+    return {
+      format: BACKUP_FORMAT,
+      v: 2,
+      exportedAt: raw.exportedAt,
+      factGroups: parse(FACT_KEY),
+      contacts: parse(CONTACT_KEY),
+      contactTombstones: parse(CONTACT_TOMBSTONE_KEY),
+      users: parse(USER_KEY),
+      settings: storage,
+    };
+  },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Export                                   */
+/* -------------------------------------------------------------------------- */
+
+export function createBackupArchive(): BackupArchive {
+  const settings: Record<string, string> = {};
+  if (typeof window !== 'undefined') {
+    listBackupKeys().forEach((key) => {
+      if (SECTION_KEYS.has(key)) return;
+      const value = readSetting(key);
+      if (value != null) settings[key] = value;
+    });
+  }
+  return {
+    format: BACKUP_FORMAT,
+    v: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    factGroups: loadFactGroups(),
+    contacts: loadContacts(),
+    contactTombstones: loadContactTombstones(),
+    users: loadUsers(),
+    settings,
+  };
+}
+
+/** Serialize an archive, gzip-compressed with fflate when `compress` is set. */
+export function encodeBackupArchive(archive: BackupArchive, options?: { compress?: boolean }): Uint8Array {
+  const bytes = strToU8(JSON.stringify(archive));
+  return options?.compress ? gzipSync(bytes, { level: 9 }) : bytes;
+}
+
+export function backupFileName(compress: boolean, timestamp = Date.now()): string {
+  const date = new Date(timestamp).toISOString().slice(0, 10);
+  return `innet-backup-${date}.${compress ? 'json.gz' : 'json'}`;
+}
+
+export function downloadBackup(options?: { compress?: boolean }): void {
+  if (typeof window === 'undefined') return;
+  const compress = Boolean(options?.compress);
+  const archive = createBackupArchive();
+  const bytes = encodeBackupArchive(archive, { compress });
+  const blob = new Blob([bytes as BlobPart], { type: compress ? BACKUP_GZIP_MIME : BACKUP_JSON_MIME });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = backupFileName(compress, archive.exportedAt);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Import                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Decode and validate an archive file (plain or gzipped JSON). Older
+ * versions are migrated step by step; unreadable, unknown or newer
+ * archives are rejected with a user-facing message.
+ */
+export function parseBackupArchive(bytes: Uint8Array): BackupParseResult {
+  let json: string;
+  try {
+    const isGzip = bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+    json = strFromU8(isGzip ? gunzipSync(bytes) : bytes);
+  } catch {
+    return { ok: false, message: 'Не удалось распаковать файл резервной копии.' };
+  }
+
+  let raw: Record<string, unknown> | null;
+  try {
+    raw = toRecord(JSON.parse(json));
+  } catch {
+    raw = null;
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT) {
+    return { ok: false, message: 'Файл не похож на резервную копию InNet.' };
+  }
+
+  let version = typeof raw.v === 'number' ? raw.v : 0;
+  if (version > BACKUP_VERSION) {
+    return {
+      ok: false,
+      message: 'Копия создана более новой версией приложения. Обновите страницу и попробуйте снова.',
+    };
+  }
+  while (version < BACKUP_VERSION) {
+    const migrate = ARCHIVE_MIGRATIONS[version];
+    if (!migrate) {
+      return { ok: false, message: `Версия резервной копии ${version} не поддерживается.` };
+    }
+    raw = migrate(raw);
+    version += 1;
+  }
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    v: BACKUP_VERSION,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : Date.now(),
+    factGroups: normalizeFactGroups(raw.factGroups),
+    contacts: normalizeContacts(raw.contacts),
+    contactTombstones: normalizeContactTombstones(raw.contactTombstones),
+    users: normalizeUsers(raw.users),
+    settings: normalizeSettings(raw.settings),
+  };
+  return { ok: true, archive };
+}
+
+export function summarizeBackup(archive: BackupArchive): BackupSummary {
+  return {
+    exportedAt: archive.exportedAt,
+    factGroups: archive.factGroups.length,
+    contacts: archive.contacts.length,
+    settings: Object.keys(archive.settings).length,
+  };
+}
+
+/**
+ * Write an archive into local storage.
+ *
+ * `replace` drops every existing `innet_*` key first. `merge` keeps local
+ * data: fact groups and accounts are added by id, contacts keep whichever
+ * copy was updated last, and settings are only filled where absent.
+ * Contacts are saved without change tracking so their sync stamps survive.
+ */
+export function restoreBackupArchive(archive: BackupArchive, mode: BackupRestoreMode): void {
+  if (typeof window === 'undefined') return;
+
+  if (mode === 'replace') {
+    listBackupKeys()
+      .filter((key) => !SECTION_KEYS.has(key))
+      .forEach((key) => writeSetting(key, null));
+    Object.entries(archive.settings).forEach(([key, value]) => writeSetting(key, value));
+    saveFactGroups(archive.factGroups);
+    saveUsers(archive.users);
+    saveContactTombstones(archive.contactTombstones);
+    saveContacts(archive.contacts, { trackChanges: false });
+    return;
+  }
+
+  Object.entries(archive.settings).forEach(([key, value]) => {
+    if (readSetting(key) == null) writeSetting(key, value);
+  });
+  saveFactGroups(mergeById(loadFactGroups(), archive.factGroups));
+  saveUsers(mergeById(loadUsers(), archive.users));
+
+  const tombstones = loadContactTombstones();
+  Object.entries(archive.contactTombstones).forEach(([id, removedAt]) => {
+    tombstones[id] = Math.max(tombstones[id] ?? 0, removedAt);
+  });
+  saveContactTombstones(tombstones);
+  saveContacts(mergeContacts(loadContacts(), archive.contacts, tombstones), { trackChanges: false });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+function listBackupKeys(): string[] {
+  const keys: string[] = REPOSITORY_VALUE_KEYS.filter((key) => readValue(key) !== undefined);
+  for (let index = 0; index < localStorage.length; index += 1) {
+    const key = localStorage.key(index);
+    if (key && key.startsWith(KEY_PREFIX) && !key.startsWith(TRANSIENT_KEY_PREFIX)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+function isRepositoryValueKey(key: string): key is RepositoryValueKey {
+  return (REPOSITORY_VALUE_KEYS as string[]).includes(key);
+}
+
+/** Raw string form of a setting, matching what localStorage used to hold. */
+function readSetting(key: string): string | null {
+  if (!isRepositoryValueKey(key)) return localStorage.getItem(key);
+  const value = readValue(key);
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function writeSetting(key: string, value: string | null): void {
+  if (!isRepositoryValueKey(key)) {
+    if (value == null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+    return;
+  }
+  if (value == null) {
+    writeValue(key, undefined);
+    return;
+  }
+  try {
+    writeValue(key, JSON.parse(value));
+  } catch {
+    console.warn(`[backup] Skipping unreadable setting ${key}`);
+  }
+}
+
+function mergeById<T extends { id: string }>(local: T[], incoming: T[]): T[] {
+  const known = new Set(local.map((item) => item.id));
+  return [...local, ...incoming.filter((item) => !known.has(item.id))];
+}
+
+function mergeContacts(local: Contact[], incoming: Contact[], tombstones: ContactTombstones): Contact[] {
+  const merged = new Map(local.map((contact) => [contact.id, contact]));
+  const byRemoteId = new Map(local.map((contact) => [contact.remoteId, contact.id]));
+  incoming.forEach((contact) => {
+    const removedAt = tombstones[contact.id];
+    if (removedAt && removedAt >= contact.lastUpdated) return;
+    const existingId = merged.has(contact.id) ? contact.id : byRemoteId.get(contact.remoteId);
+    const existing = existingId ? merged.get(existingId) : undefined;
+    if (!existing) {
+      merged.set(contact.id, contact);
+      byRemoteId.set(contact.remoteId, contact.id);
+      return;
+    }
+    if (contact.lastUpdated > existing.lastUpdated) {
+      merged.set(existing.id, { ...contact, id: existing.id, connectedAt: existing.connectedAt });
+    }
+  });
+  return Array.from(merged.values());
+}
+
+function normalizeUsers(raw: unknown): UserAccount[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((item): item is UserAccount => {
+    const record = toRecord(item);
+    return Boolean(record && typeof record.id === 'string' && typeof record.email === 'string');
+  });
+}
+
+function normalizeSettings(raw: unknown): Record<string, string> {
+  const settings = toStringRecord(raw);
+  Object.keys(settings).forEach((key) => {
+    if (!key.startsWith(KEY_PREFIX) || key.startsWith(TRANSIENT_KEY_PREFIX) || SECTION_KEYS.has(key)) {
+      delete settings[key];
+    }
+  });
+  if (settings[REMINDER_SETTINGS_KEY] != null) {
+    let parsed: ReminderSettings | null = null;
+    try {
+      parsed = JSON.parse(settings[REMINDER_SETTINGS_KEY]) as ReminderSettings;
+    } catch {
+      parsed = null;
+    }
+    settings[REMINDER_SETTINGS_KEY] = JSON.stringify(normalizeReminderSettings(parsed));
+  }
+  if (settings[PRIVACY_STORAGE_KEY_NAME] != null) {
+    settings[PRIVACY_STORAGE_KEY_NAME] = mapPrivacyLevel(settings[PRIVACY_STORAGE_KEY_NAME]);
+  }
+  return settings;
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  const record = toRecord(value);
+  if (!record) return {};
+  return Object.entries(record).reduce<Record<string, string>>((acc, [key, item]) => {
+    if (typeof item === 'string') acc[key] = item;
+    return acc;
+  }, {});
+}
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return null;
+}
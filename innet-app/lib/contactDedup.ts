@@ -0,0 +1,294 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CONTACT_INTERACTION_MAX,
+  CONTACT_NOTE_MAX,
+  Contact,
+  ContactConnection,
+  ContactGroup,
+  ContactInteraction,
+  ContactNote,
+  ContactTag,
+  loadContacts,
+  saveContacts,
+} from './storage';
+import { loadReminderState, saveReminderState, type ContactReminderSchedule } from './reminders';
+import { normalizePhone } from '../utils/contact';
+
+/**
+ * Detects contacts that describe the same person (added manually, scanned
+ * from a QR code and received through an exchange) and folds them into one
+ * record. Phone numbers and handles are strong signals; similar names alone
+ * are only reported as a weaker suggestion.
+ */
+
+export type DuplicateReason = 'remote' | 'phone' | 'telegram' | 'instagram' | 'name';
+
+export interface DuplicateCluster {
+  /** Contacts ordered oldest first; the first one is the suggested primary. */
+  contacts: Contact[];
+  reasons: DuplicateReason[];
+}
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+const MIN_NAME_LENGTH = 4;
+const HANDLE_PATTERN = /^[a-z0-9_.]{2,64}$/;
+
+/**
+ * Keys that identify a person regardless of how the contact was added. Phone
+ * numbers compare by their last ten digits so "+7 900…" and "8 900…" match.
+ */
+export function contactIdentityKeys(data: {
+  phone?: string;
+  telegram?: string;
+  instagram?: string;
+  remoteId?: string;
+}): string[] {
+  const keys: string[] = [];
+  const digits = normalizePhone(data.phone).replace(/\D/g, '');
+  if (digits.length >= 6) keys.push(`phone:${digits.slice(-10)}`);
+  const telegram = normalizeHandle(data.telegram);
+  if (telegram) keys.push(`telegram:${telegram}`);
+  const instagram = normalizeHandle(data.instagram);
+  if (instagram) keys.push(`instagram:${instagram}`);
+  if (data.remoteId) keys.push(`remote:${data.remoteId}`);
+  return keys;
+}
+
+/**
+ * Group contacts that share an identity key or have near-identical names.
+ * Only clusters with at least two contacts are returned.
+ */
+export function findDuplicateContacts(contacts: Contact[]): DuplicateCluster[] {
+  const parent = contacts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    parent[rootB] = rootA;
+    reasons.delete(rootB);
+    reasons.set(rootA, merged);
+  };
+
+  const firstByKey = new Map<string, number>();
+  contacts.forEach((contact, index) => {
+    contactIdentityKeys(contact).forEach((key) => {
+      const seen = firstByKey.get(key);
+      if (seen === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        union(seen, index, key.slice(0, key.indexOf(':')) as DuplicateReason);
+      }
+    });
+  });
+
+  const names = contacts.map((contact) => normalizeName(contact.name));
+  for (let i = 0; i < contacts.length; i += 1) {
+    if (names[i].length < MIN_NAME_LENGTH) continue;
+    for (let j = i + 1; j < contacts.length; j += 1) {
+      if (names[j].length < MIN_NAME_LENGTH || find(i) === find(j)) continue;
+      if (nameSimilarity(names[i], names[j]) >= NAME_SIMILARITY_THRESHOLD) {
+        union(i, j, 'name');
+      }
+    }
+  }
+
+  const clusters = new Map<number, Contact[]>();
+  contacts.forEach((contact, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), contact]);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      contacts: [...members].sort((a, b) => a.connectedAt - b.connectedAt),
+      reasons: Array.from(reasons.get(root) ?? []),
+    }));
+}
+
+/**
+ * Fold `duplicates` into `primary`. The primary's own values win; empty
+ * fields are filled from the duplicates. Groups merge by id (facts by text),
+ * tags by label, connections and interactions by id, and only the newest
+ * `CONTACT_NOTE_MAX` notes are kept.
+ */
+export function mergeContactRecords(primary: Contact, duplicates: Contact[]): Contact {
+  const all = [primary, ...duplicates];
+  const pick = <K extends 'avatar' | 'phone' | 'telegram' | 'instagram' | 'shareKey'>(field: K) =>
+    all.map((contact) => contact[field]).find((value) => Boolean(value));
+
+  return {
+    ...primary,
+    avatar: pick('avatar'),
+    phone: pick('phone'),
+    telegram: pick('telegram'),
+    instagram: pick('instagram'),
+    shareKey: pick('shareKey'),
+    connectedAt: Math.min(...all.map((contact) => contact.connectedAt)),
+    lastUpdated: Date.now(),
+    groups: mergeGroups(all.flatMap((contact) => contact.groups)),
+    notes: mergeNotes(all.flatMap((contact) => contact.notes)),
+    tags: mergeTags(all.flatMap((contact) => contact.tags)),
+    interactions: mergeInteractions(all.flatMap((contact) => contact.interactions ?? [])),
+    connections: mergeConnections(all.flatMap((contact) => contact.connections ?? [])),
+  };
+}
+
+/**
+ * Merge the stored contacts `duplicateIds` into `primaryId` and carry their
+ * reminder schedules over. Removed duplicates get tombstones through
+ * `saveContacts`, so the sync deletes them on other devices too.
+ */
+export function mergeDuplicateContacts(primaryId: string, duplicateIds: string[]): Contact | null {
+  const contacts = loadContacts();
+  const primary = contacts.find((contact) => contact.id === primaryId);
+  const removeIds = new Set(duplicateIds.filter((id) => id !== primaryId));
+  const duplicates = contacts.filter((contact) => removeIds.has(contact.id));
+  if (!primary || duplicates.length === 0) return null;
+
+  const merged = mergeContactRecords(primary, duplicates);
+  saveContacts(
+    contacts
+      .filter((contact) => !removeIds.has(contact.id))
+      .map((contact) => (contact.id === primaryId ? merged : contact))
+  );
+
+  const state = loadReminderState();
+  const schedules = [primaryId, ...removeIds]
+    .map((id) => state.contactSchedules[id])
+    .filter((schedule): schedule is ContactReminderSchedule => Boolean(schedule));
+  removeIds.forEach((id) => {
+    delete state.contactSchedules[id];
+  });
+  if (schedules.length) {
+    state.contactSchedules[primaryId] = mergeSchedules(merged, schedules);
+  }
+  saveReminderState(state);
+
+  return merged;
+}
+
+function mergeSchedules(contact: Contact, schedules: ContactReminderSchedule[]): ContactReminderSchedule {
+  const active = schedules.filter((schedule) => !schedule.disabled);
+  const upcoming = active
+    .map((schedule) => schedule.nextReminderAt)
+    .filter((value): value is number => typeof value === 'number');
+  const notified = schedules
+    .map((schedule) => schedule.lastNotifiedAt)
+    .filter((value): value is number => typeof value === 'number');
+  return {
+    contactId: contact.id,
+    contactName: contact.name,
+    nextReminderAt: upcoming.length ? Math.min(...upcoming) : null,
+    lastNotifiedAt: notified.length ? Math.max(...notified) : null,
+    disabled: active.length === 0,
+  };
+}
+
+function mergeGroups(groups: ContactGroup[]): ContactGroup[] {
+  const map = new Map<string, ContactGroup>();
+  groups.forEach((group) => {
+    const existing = map.get(group.id);
+    if (!existing) {
+      map.set(group.id, { ...group, facts: [...group.facts] });
+      return;
+    }
+    const texts = new Set(existing.facts.map((fact) => fact.text));
+    group.facts.forEach((fact) => {
+      if (fact.text && !texts.has(fact.text)) {
+        existing.facts.push({ id: fact.id || uuidv4(), text: fact.text });
+        texts.add(fact.text);
+      }
+    });
+  });
+  return Array.from(map.values());
+}
+
+function mergeNotes(notes: ContactNote[]): ContactNote[] {
+  const seen = new Set<string>();
+  return [...notes]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .filter((note) => {
+      const key = note.text.trim().toLowerCase();
+      if (seen.has(note.id) || seen.has(key)) return false;
+      seen.add(note.id);
+      seen.add(key);
+      return true;
+    })
+    .slice(0, CONTACT_NOTE_MAX);
+}
+
+function mergeInteractions(interactions: ContactInteraction[]): ContactInteraction[] | undefined {
+  const seen = new Set<string>();
+  const merged = [...interactions]
+    .sort((a, b) => b.at - a.at)
+    .filter((interaction) => {
+      if (seen.has(interaction.id)) return false;
+      seen.add(interaction.id);
+      return true;
+    })
+    .slice(0, CONTACT_INTERACTION_MAX);
+  return merged.length ? merged : undefined;
+}
+
+function mergeTags(tags: ContactTag[]): ContactTag[] {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tag.label.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function mergeConnections(connections: ContactConnection[]): ContactConnection[] {
+  const map = new Map<string, ContactConnection>();
+  connections.forEach((connection) => {
+    if (!map.has(connection.id)) map.set(connection.id, connection);
+  });
+  return Array.from(map.values());
+}
+
+function normalizeHandle(value?: string): string | undefined {
+  const handle = (value ?? '').trim().replace(/^@+/, '').toLowerCase();
+  return HANDLE_PATTERN.test(handle) ? handle : undefined;
+}
+
+/** Lower-case, fold "ё", drop punctuation and sort words so "Иванов Иван" matches "иван иванов". */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest ? 1 - levenshtein(a, b) / longest : 0;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,282 @@
+import {
+  CONTACT_SYNC_FIELDS,
+  loadContacts,
+  loadContactTombstones,
+  saveContacts,
+  saveContactTombstones,
+  type Contact,
+  type ContactConnection,
+  type ContactSyncField,
+  type ContactTombstones,
+} from './storage';
+import { fetchRemoteConnections, fetchRemoteContacts, pushRemoteContacts } from './contactsRemote';
+import { hydrateRepository } from './repository';
+
+/** Most records `PUT /api/contacts` accepts at once. */
+export const CONTACT_SYNC_BATCH_LIMIT = 100;
+/** Target request size; inline avatars make single contacts large. */
+export const CONTACT_SYNC_BYTE_LIMIT = 1_000_000;
+
+const SYNC_STATE_STORAGE_KEY = 'innet_contacts_sync';
+const MAX_PULL_PAGES = 50;
+
+export type ContactSnapshot = {
+  contacts: Contact[];
+  deleted: ContactTombstones;
+};
+
+export type ContactSyncResult =
+  | { ok: true; contacts: Contact[]; syncedAt: number }
+  | { ok: false; message: string };
+
+function fieldTimestamp(contact: Contact, field: ContactSyncField): number {
+  return contact.fieldUpdatedAt?.[field] ?? contact.lastUpdated;
+}
+
+function copyField<K extends ContactSyncField>(target: Contact, source: Contact, field: K): void {
+  target[field] = source[field];
+}
+
+/**
+ * Merge two copies of the same contact field by field: every field keeps
+ * the value from the side that changed it last. Ties favour `local`.
+ */
+export function mergeContactRecords(local: Contact, remote: Contact): Contact {
+  const merged: Contact = { ...local };
+  const stamps: Partial<Record<ContactSyncField, number>> = {};
+
+  CONTACT_SYNC_FIELDS.forEach((field) => {
+    const localAt = fieldTimestamp(local, field);
+    const remoteAt = fieldTimestamp(remote, field);
+    copyField(merged, remoteAt > localAt ? remote : local, field);
+    stamps[field] = Math.max(localAt, remoteAt);
+  });
+
+  merged.connectedAt = Math.min(local.connectedAt, remote.connectedAt);
+  merged.lastUpdated = Math.max(local.lastUpdated, remote.lastUpdated);
+  merged.fieldUpdatedAt = stamps;
+  return merged;
+}
+
+function mergeTombstones(a: ContactTombstones, b: ContactTombstones): ContactTombstones {
+  const result: ContactTombstones = { ...a };
+  Object.entries(b).forEach(([id, deletedAt]) => {
+    result[id] = Math.max(result[id] ?? 0, deletedAt);
+  });
+  return result;
+}
+
+function lastModified(contact: Contact): number {
+  const stamps = Object.values(contact.fieldUpdatedAt ?? {});
+  return Math.max(contact.lastUpdated, ...stamps);
+}
+
+function isBuried(contact: Contact, deleted: ContactTombstones): boolean {
+  const deletedAt = deleted[contact.id];
+  return typeof deletedAt === 'number' && deletedAt >= lastModified(contact);
+}
+
+/**
+ * Combine two contact snapshots. Records are paired by `id` and, for
+ * contacts created independently on two devices from the same QR, by
+ * `remoteId`. A contact stays deleted unless it was edited after removal.
+ * Used both by the client and by `/api/contacts`.
+ */
+export function mergeContactSnapshots(local: ContactSnapshot, remote: ContactSnapshot): ContactSnapshot {
+  const deleted = mergeTombstones(local.deleted, remote.deleted);
+  const merged = local.contacts.map((contact) => ({ ...contact }));
+  const byId = new Map(merged.map((contact, index) => [contact.id, index]));
+  const byRemoteId = new Map(merged.map((contact, index) => [contact.remoteId, index]));
+
+  remote.contacts.forEach((incoming) => {
+    const index = byId.get(incoming.id) ?? byRemoteId.get(incoming.remoteId);
+    if (index === undefined) {
+      byId.set(incoming.id, merged.length);
+      byRemoteId.set(incoming.remoteId, merged.length);
+      merged.push(incoming);
+      return;
+    }
+    merged[index] = mergeContactRecords(merged[index], incoming);
+  });
+
+  return {
+    contacts: merged.filter((contact) => !isBuried(contact, deleted)),
+    deleted,
+  };
+}
+
+/**
+ * Where this device stands with `/api/contacts`: the revision it has pulled
+ * up to and when it last pushed, so only later edits are sent again.
+ */
+type ContactSyncState = {
+  revision: number;
+  pushedAt: number;
+};
+
+function loadContactSyncState(): ContactSyncState {
+  if (typeof window === 'undefined') return { revision: 0, pushedAt: 0 };
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SYNC_STATE_STORAGE_KEY) ?? 'null') as Partial<ContactSyncState> | null;
+    const revision = Number(parsed?.revision);
+    const pushedAt = Number(parsed?.pushedAt);
+    return {
+      revision: Number.isInteger(revision) && revision >= 0 ? revision : 0,
+      pushedAt: Number.isFinite(pushedAt) && pushedAt >= 0 ? pushedAt : 0,
+    };
+  } catch (error) {
+    console.error('[contactSync] Failed to parse sync state', error);
+    return { revision: 0, pushedAt: 0 };
+  }
+}
+
+function saveContactSyncState(state: ContactSyncState): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(state));
+}
+
+const encoder = new TextEncoder();
+
+function byteSize(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length;
+}
+
+/**
+ * A contact that does not fit into a request on its own is sent without its
+ * avatar. The zero stamp makes the server keep whatever avatar it has.
+ */
+function fitForSync(contact: Contact): Contact {
+  if (byteSize(contact) <= CONTACT_SYNC_BYTE_LIMIT || !contact.avatar) return contact;
+  console.warn('[contactSync] Avatar too large to sync', contact.id);
+  return { ...contact, avatar: undefined, fieldUpdatedAt: { ...contact.fieldUpdatedAt, avatar: 0 } };
+}
+
+/** Split changed records into requests within the count and size limits. */
+function batchChanges(changes: ContactSnapshot): ContactSnapshot[] {
+  const batches: ContactSnapshot[] = [];
+  let current: ContactSnapshot = { contacts: [], deleted: {} };
+  let count = 0;
+  let bytes = 0;
+  const add = (size: number, apply: (batch: ContactSnapshot) => void) => {
+    if (count && (count >= CONTACT_SYNC_BATCH_LIMIT || bytes + size > CONTACT_SYNC_BYTE_LIMIT)) {
+      batches.push(current);
+      current = { contacts: [], deleted: {} };
+      count = 0;
+      bytes = 0;
+    }
+    apply(current);
+    count += 1;
+    bytes += size;
+  };
+
+  changes.contacts.forEach((contact) => {
+    const record = fitForSync(contact);
+    add(byteSize(record), (batch) => batch.contacts.push(record));
+  });
+  Object.entries(changes.deleted).forEach(([id, deletedAt]) => {
+    add(id.length + 32, (batch) => {
+      batch.deleted[id] = deletedAt;
+    });
+  });
+  if (count) batches.push(current);
+  return batches;
+}
+
+/**
+ * Push contacts edited since the last sync in batches, pull the records
+ * other devices changed since the stored revision and merge both into local
+ * storage.
+ */
+export async function syncContacts(): Promise<ContactSyncResult> {
+  // Pushing before the repository has loaded would miss local edits.
+  await hydrateRepository();
+  const state = loadContactSyncState();
+  const startedAt = Date.now();
+  const remote: ContactSnapshot = { contacts: [], deleted: {} };
+
+  const changes: ContactSnapshot = {
+    contacts: loadContacts().filter((contact) => lastModified(contact) > state.pushedAt),
+    deleted: Object.fromEntries(
+      Object.entries(loadContactTombstones()).filter(([, deletedAt]) => deletedAt > state.pushedAt)
+    ),
+  };
+  for (const batch of batchChanges(changes)) {
+    const response = await pushRemoteContacts(batch.contacts, batch.deleted);
+    if (!response.ok) {
+      return response;
+    }
+    remote.contacts.push(...response.contacts);
+    Object.assign(remote.deleted, response.deleted);
+  }
+  state.pushedAt = startedAt;
+  saveContactSyncState(state);
+
+  for (let page = 0; page < MAX_PULL_PAGES; page += 1) {
+    const response = await fetchRemoteContacts(state.revision);
+    if (!response.ok) {
+      applyRemoteChanges(remote);
+      return response;
+    }
+    remote.contacts.push(...response.contacts);
+    Object.assign(remote.deleted, response.deleted);
+    state.revision = response.revision ?? state.revision;
+    if (!response.hasMore) break;
+  }
+
+  const contacts = applyRemoteChanges(remote);
+  saveContactSyncState(state);
+  return { ok: true, contacts, syncedAt: Date.now() };
+}
+
+function applyRemoteChanges(remote: ContactSnapshot): Contact[] {
+  if (!remote.contacts.length && !Object.keys(remote.deleted).length) {
+    return loadContacts();
+  }
+  // Re-read local state: the user may have edited contacts while the requests were in flight.
+  const result = mergeContactSnapshots(
+    { contacts: loadContacts(), deleted: loadContactTombstones() },
+    mergeContactSnapshots({ contacts: [], deleted: {} }, remote)
+  );
+  saveContactTombstones(result.deleted);
+  saveContacts(result.contacts, { trackChanges: false });
+  return result.contacts;
+}
+
+function sameConnections(a: ContactConnection[] | undefined, b: ContactConnection[]): boolean {
+  const left = a ?? [];
+  if (left.length !== b.length) return false;
+  const byId = new Map(left.map((connection) => [connection.id, connection]));
+  return b.every((connection) => {
+    const current = byId.get(connection.id);
+    return current?.name === connection.name && current.avatar === connection.avatar;
+  });
+}
+
+/**
+ * Replace `Contact.connections` with the friend-of-friend links computed by
+ * the server. Only changed contacts are touched; their `connections` stamp
+ * moves forward so the next sync carries the new list to other devices.
+ */
+export async function refreshContactConnections(): Promise<ContactSyncResult> {
+  const response = await fetchRemoteConnections();
+  if (!response.ok) {
+    return response;
+  }
+
+  const now = Date.now();
+  let changed = false;
+  const contacts = loadContacts().map((contact) => {
+    const next = response.connections[contact.remoteId] ?? [];
+    if (sameConnections(contact.connections, next)) return contact;
+    changed = true;
+    return {
+      ...contact,
+      connections: next,
+      fieldUpdatedAt: { ...contact.fieldUpdatedAt, connections: now },
+    };
+  });
+  if (changed) {
+    saveContacts(contacts, { trackChanges: false });
+  }
+  return { ok: true, contacts, syncedAt: now };
+}
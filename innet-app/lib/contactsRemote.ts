@@ -0,0 +1,97 @@
+import type { Contact, ContactConnection, ContactTombstones } from './storage';
+
+type RemoteContactsSuccess = {
+  ok: true;
+  contacts: Contact[];
+  deleted: ContactTombstones;
+  /** Pull cursor; only `fetchRemoteContacts` returns it. */
+  revision?: number;
+  hasMore?: boolean;
+};
+
+type RemoteContactsError = {
+  ok: false;
+  message: string;
+};
+
+export type RemoteContactsResponse = RemoteContactsSuccess | RemoteContactsError;
+
+const CONTACTS_ENDPOINT = '/api/contacts';
+
+/** One page of contacts and tombstones that changed after the `since` revision. */
+export async function fetchRemoteContacts(since: number): Promise<RemoteContactsResponse> {
+  try {
+    const response = await fetch(`${CONTACTS_ENDPOINT}?since=${since}`, { method: 'GET' });
+    const payload = (await response.json()) as RemoteContactsResponse;
+    if (!response.ok || !payload.ok) {
+      return {
+        ok: false,
+        message:
+          ('message' in payload && payload.message) ||
+          'Не удалось загрузить контакты из облака.',
+      };
+    }
+    return payload;
+  } catch (error) {
+    console.error('[contactsRemote] fetchRemoteContacts failed', error);
+    return { ok: false, message: 'Не удалось связаться с сервером синхронизации.' };
+  }
+}
+
+/**
+ * Send one batch of changed contacts and tombstones to the server. The
+ * server merges them with what other devices uploaded and responds with the
+ * stored records.
+ */
+export async function pushRemoteContacts(
+  contacts: Contact[],
+  deleted: ContactTombstones
+): Promise<RemoteContactsResponse> {
+  try {
+    const response = await fetch(CONTACTS_ENDPOINT, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contacts, deleted }),
+    });
+    const payload = (await response.json()) as RemoteContactsResponse;
+    if (!response.ok || !payload.ok) {
+      return {
+        ok: false,
+        message:
+          ('message' in payload && payload.message) ||
+          'Не удалось сохранить контакты в Supabase.',
+      };
+    }
+    return payload;
+  } catch (error) {
+    console.error('[contactsRemote] pushRemoteContacts failed', error);
+    return { ok: false, message: 'Ошибка сети при попытке синхронизации контактов.' };
+  }
+}
+
+type RemoteConnectionsResponse =
+  | { ok: true; connections: Record<string, ContactConnection[]> }
+  | RemoteContactsError;
+
+/**
+ * Friend-of-friend links the server derived from `fact_exchanges`, keyed by
+ * the contact's `remoteId`.
+ */
+export async function fetchRemoteConnections(): Promise<RemoteConnectionsResponse> {
+  try {
+    const response = await fetch('/api/connections', { method: 'GET' });
+    const payload = (await response.json()) as RemoteConnectionsResponse;
+    if (!response.ok || !payload.ok) {
+      return {
+        ok: false,
+        message:
+          ('message' in payload && payload.message) ||
+          'Не удалось загрузить связи контактов.',
+      };
+    }
+    return payload;
+  } catch (error) {
+    console.error('[contactsRemote] fetchRemoteConnections failed', error);
+    return { ok: false, message: 'Не удалось связаться с сервером.' };
+  }
+}
@@ -1,30 +1,50 @@
 import type { SharePayload } from './share';
+import { mergeContactFromShare, parseShareToken, type MergeResult } from './share';
+import { confirmShareKeyBinding } from './shareKeysClient';
+import { fetchOrQueue } from './outbox';
 
 export type RemoteExchange = {
   id: string;
   initiatorId: string;
   createdAt: string;
   payload: SharePayload;
+  token?: string;
 };
 
 type ExchangeSuccess = {
   ok: true;
   exchanges: RemoteExchange[];
+  nextCursor: string | null;
+  /** Sent offline: the exchange waits in the outbox and goes out when the network returns. */
+  queued?: boolean;
 };
 
 type ExchangeResponse = ExchangeSuccess | { ok: false; message: string };
 
-export async function sendExchange(
-  initiatorId: string,
-  targetId: string,
-  payload: SharePayload
-): Promise<ExchangeResponse> {
+type ActionResponse = { ok: true } | { ok: false; message: string };
+
+export type FetchExchangesOptions = {
+  /** `nextCursor` from the previous page. */
+  cursor?: string | null;
+  limit?: number;
+};
+
+/**
+ * Deliver a share token to another profile. Generate it with
+ * `generateShareToken(payload, { recipientBoxKey })` so only the recipient
+ * can read the facts.
+ */
+export async function sendExchange(targetId: string, token: string): Promise<ExchangeResponse> {
   try {
-    const response = await fetch('/api/exchange', {
+    const response = await fetchOrQueue({
+      kind: 'exchange',
+      url: '/api/exchange',
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ initiatorId, targetId, payload }),
+      body: { targetId, token },
     });
+    if (!response) {
+      return { ok: true, exchanges: [], nextCursor: null, queued: true };
+    }
     const data = (await response.json()) as ExchangeResponse;
     if (!response.ok || !data.ok) {
       return {
@@ -34,20 +54,23 @@ export async function sendExchange(
           'Не удалось зафиксировать обмен на сервере.',
       };
     }
-    return { ok: true, exchanges: [] };
+    return { ok: true, exchanges: [], nextCursor: null };
   } catch (error) {
     console.error('[exchangeClient] sendExchange failed', error);
     return { ok: false, message: 'Ошибка сети при отправке обмена.' };
   }
 }
 
-export async function fetchPendingExchanges(profileId: string): Promise<ExchangeResponse> {
-  if (!profileId) {
-    return { ok: false, message: 'Не указан идентификатор профиля.' };
-  }
-
+/** Newest exchanges addressed to this profile that were not accepted or declined yet. */
+export async function fetchPendingExchanges(
+  options: FetchExchangesOptions = {}
+): Promise<ExchangeResponse> {
+  const params = new URLSearchParams();
+  if (options.cursor) params.set('cursor', options.cursor);
+  if (options.limit) params.set('limit', String(options.limit));
+  const query = params.toString();
   try {
-    const response = await fetch(`/api/exchange?profileId=${encodeURIComponent(profileId)}`);
+    const response = await fetch(query ? `/api/exchange?${query}` : '/api/exchange');
     const data = (await response.json().catch(() => ({}))) as ExchangeResponse;
     if (!response.ok || !data || !('ok' in data)) {
       return {
@@ -72,7 +95,7 @@ export async function fetchPendingExchanges(profileId: string): Promise<Exchange
       (error instanceof Error && error.name === 'AbortError');
     if (isAbortError) {
       console.debug('[exchangeClient] fetchPendingExchanges aborted', error);
-      return { ok: true, exchanges: [] };
+      return { ok: true, exchanges: [], nextCursor: null };
     }
     console.warn('[exchangeClient] fetchPendingExchanges failed', error);
     return {
@@ -81,3 +104,53 @@ export async function fetchPendingExchanges(profileId: string): Promise<Exchange
     };
   }
 }
+
+/**
+ * The payload to merge: the signed token when the server kept it, since
+ * facts for the recipient are encrypted inside. Throws when the token no
+ * longer verifies.
+ */
+export function readExchangePayload(exchange: RemoteExchange): SharePayload {
+  // A stored payload without its token carries no signature, whatever it claims.
+  return exchange.token ? parseShareToken(exchange.token) : { ...exchange.payload, verification: 'unverified' };
+}
+
+/**
+ * Merge an exchange into local contacts and only then tell the server it
+ * was accepted, so a failed merge leaves it in the inbox.
+ */
+export async function acceptExchange(exchange: RemoteExchange): Promise<MergeResult> {
+  const outcome = mergeContactFromShare(await confirmShareKeyBinding(readExchangePayload(exchange)));
+  const result = await settleExchanges('accept', [exchange.id]);
+  if (!result.ok) {
+    console.warn('[exchangeClient] Failed to confirm exchange', result.message);
+  }
+  return outcome;
+}
+
+export function declineExchanges(ids: string[]): Promise<ActionResponse> {
+  return settleExchanges('decline', ids);
+}
+
+async function settleExchanges(action: 'accept' | 'decline', ids: string[]): Promise<ActionResponse> {
+  try {
+    const response = await fetch('/api/exchange', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ids }),
+    });
+    const data = (await response.json()) as ActionResponse;
+    if (!response.ok || !data.ok) {
+      return {
+        ok: false,
+        message:
+          ('message' in data && data.message) ||
+          'Не удалось обновить обмен на сервере.',
+      };
+    }
+    return data;
+  } catch (error) {
+    console.error('[exchangeClient] settleExchanges failed', error);
+    return { ok: false, message: 'Ошибка сети при обработке обмена.' };
+  }
+}
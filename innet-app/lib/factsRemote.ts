@@ -1,30 +1,104 @@
-import type { FactGroup } from './storage';
+import type { Fact, FactGroup, FactGroupVisibility } from './storage';
+import { factGroupVisibility, loadFactGroups, normalizeFactGroups, saveFactGroups } from './storage';
+import { enqueueOutbox, isNetworkError, type OutboxEntry } from './outbox';
+import { hydrateRepository } from './repository';
 
 type RemoteFactsSuccess = {
   ok: true;
   groups: FactGroup[];
   syncEnabled: boolean;
+  revision: number;
   updatedAt?: string;
 };
 
 type RemoteFactsError = {
   ok: false;
   message: string;
+  /** The push waits in the outbox and is retried when the network returns. */
+  queued?: boolean;
 };
 
-export type RemoteFactsResponse = RemoteFactsSuccess | RemoteFactsError;
+type RemoteFactsConflict = {
+  ok: false;
+  conflict: true;
+  message: string;
+  groups: FactGroup[];
+  syncEnabled: boolean;
+  revision: number;
+  updatedAt?: string;
+};
+
+export type RemoteFactsResponse = RemoteFactsSuccess | RemoteFactsError | RemoteFactsConflict;
+
+/**
+ * An edit made on both sides that could not be merged automatically.
+ * `local`/`remote` hold the competing values; `null` means that side
+ * deleted the fact (or the whole group).
+ */
+export type FactConflict =
+  | {
+      kind: 'fact';
+      groupId: string;
+      groupName: string;
+      factId: string;
+      local: string | null;
+      remote: string | null;
+    }
+  | {
+      kind: 'group';
+      groupId: string;
+      groupName: string;
+      local: FactGroup | null;
+      remote: FactGroup | null;
+    };
+
+export type FactMergeResult = {
+  groups: FactGroup[];
+  conflicts: FactConflict[];
+};
+
+export type FactSyncResult =
+  | { ok: true; groups: FactGroup[]; syncEnabled: boolean; conflicts: FactConflict[] }
+  | { ok: false; message: string; queued?: boolean };
 
 const FACTS_ENDPOINT = '/api/facts';
+const SYNC_BASE_STORAGE_KEY = 'innet_fact_sync_base';
+const MAX_PUSH_ATTEMPTS = 3;
+
+type FactSyncBase = {
+  revision: number;
+  groups: FactGroup[];
+};
 
-export async function fetchRemoteFacts(profileId: string): Promise<RemoteFactsResponse> {
-  if (!profileId) {
-    return { ok: false, message: 'Отсутствует идентификатор профиля для загрузки фактов.' };
+/**
+ * The last state both this device and the server agreed on. It is the
+ * common ancestor for three-way merges after a conflict.
+ */
+export function loadFactSyncBase(): FactSyncBase {
+  if (typeof window === 'undefined') return { revision: 0, groups: [] };
+  try {
+    const raw = localStorage.getItem(SYNC_BASE_STORAGE_KEY);
+    if (!raw) return { revision: 0, groups: [] };
+    const parsed = JSON.parse(raw) as Partial<FactSyncBase> | null;
+    const revision = Number(parsed?.revision);
+    return {
+      revision: Number.isInteger(revision) && revision >= 0 ? revision : 0,
+      groups: normalizeFactGroups(parsed?.groups),
+    };
+  } catch (error) {
+    console.error('[factsRemote] Failed to parse sync base', error);
+    return { revision: 0, groups: [] };
   }
+}
+
+export function saveFactSyncBase(base: FactSyncBase): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SYNC_BASE_STORAGE_KEY, JSON.stringify(base));
+}
 
+export async function fetchRemoteFacts(): Promise<RemoteFactsResponse> {
   try {
-    const response = await fetch(`${FACTS_ENDPOINT}?profileId=${encodeURIComponent(profileId)}`, {
-      method: 'GET',
-    });
+    const response = await fetch(FACTS_ENDPOINT, { method: 'GET' });
     const payload = (await response.json()) as RemoteFactsResponse;
     if (!response.ok || !payload.ok) {
       return {
@@ -42,21 +116,20 @@ export async function fetchRemoteFacts(profileId: string): Promise<RemoteFactsRe
 }
 
 export async function upsertRemoteFacts(
-  profileId: string,
   groups: FactGroup[],
-  syncEnabled: boolean
+  syncEnabled: boolean,
+  baseRevision: number
 ): Promise<RemoteFactsResponse> {
-  if (!profileId) {
-    return { ok: false, message: 'Отсутствует идентификатор профиля для синхронизации.' };
-  }
-
   try {
     const response = await fetch(FACTS_ENDPOINT, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ profileId, groups, syncEnabled }),
+      body: JSON.stringify({ groups, syncEnabled, baseRevision }),
     });
     const payload = (await response.json()) as RemoteFactsResponse;
+    if (response.status === 409 && 'conflict' in payload) {
+      return payload;
+    }
     if (!response.ok || !payload.ok) {
       return {
         ok: false,
@@ -68,6 +141,260 @@ export async function upsertRemoteFacts(
     return payload;
   } catch (error) {
     console.error('[factsRemote] upsertRemoteFacts failed', error);
+    // The queued entry only remembers the flag: groups and base revision are re-read on replay.
+    if (
+      isNetworkError(error) &&
+      (await enqueueOutbox({
+        kind: 'facts',
+        url: FACTS_ENDPOINT,
+        method: 'PUT',
+        body: { syncEnabled },
+        dedupeKey: 'facts',
+      }))
+    ) {
+      return {
+        ok: false,
+        queued: true,
+        message: 'Нет сети: факты сохранены на устройстве и отправятся, когда связь вернётся.',
+      };
+    }
     return { ok: false, message: 'Ошибка сети при попытке синхронизации фактов.' };
   }
 }
+
+/**
+ * Save local groups on the server. When another device saved first, the
+ * remote groups are merged with the local ones against the last synced
+ * base and the merge result is pushed instead.
+ */
+export async function pushFactsWithMerge(
+  groups: FactGroup[],
+  syncEnabled: boolean
+): Promise<FactSyncResult> {
+  let base = loadFactSyncBase();
+  let candidate = groups;
+  let conflicts: FactConflict[] = [];
+
+  for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt += 1) {
+    const response = await upsertRemoteFacts(candidate, syncEnabled, base.revision);
+    if (response.ok) {
+      saveFactSyncBase({ revision: response.revision, groups: response.groups });
+      return { ok: true, groups: candidate, syncEnabled: response.syncEnabled, conflicts };
+    }
+    if (!('conflict' in response)) {
+      return response;
+    }
+    const merged = mergeFactGroups(base.groups, candidate, response.groups);
+    candidate = merged.groups;
+    conflicts = merged.conflicts;
+    base = { revision: response.revision, groups: response.groups };
+  }
+
+  return { ok: false, message: 'Факты часто меняются на других устройствах. Повторите попытку.' };
+}
+
+/**
+ * Outbox replay for a facts push made offline: merges and pushes the groups
+ * stored now, since the revision the original request was based on is stale.
+ */
+export async function replayQueuedFacts(entry: OutboxEntry): Promise<'done' | 'retry'> {
+  const syncEnabled = Boolean((entry.body as { syncEnabled?: unknown } | null)?.syncEnabled);
+  await hydrateRepository();
+  const local = loadFactGroups();
+  const result = await pushFactsWithMerge(local, syncEnabled);
+  if (!result.ok) {
+    return result.queued ? 'retry' : 'done';
+  }
+  if (JSON.stringify(result.groups) !== JSON.stringify(local)) {
+    saveFactGroups(result.groups);
+  }
+  return 'done';
+}
+
+/**
+ * Merge remote groups into local ones on load. The merged result is not
+ * pushed here; the regular autosave does that with the new base revision.
+ */
+export function mergeFetchedFacts(
+  local: FactGroup[],
+  remote: { groups: FactGroup[]; revision: number }
+): FactMergeResult {
+  const base = loadFactSyncBase();
+  const merged =
+    base.revision === remote.revision
+      ? { groups: local, conflicts: [] }
+      : mergeFactGroups(base.groups, local, remote.groups);
+  saveFactSyncBase({ revision: remote.revision, groups: remote.groups });
+  return merged;
+}
+
+function indexById<T extends { id: string }>(items: T[]): Map<string, T> {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+function sameGroup(a: FactGroup, b: FactGroup): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function pickScalar(base: string | undefined, local: string, remote: string): string {
+  if (local === remote) return local;
+  if (base === local) return remote;
+  return local;
+}
+
+/**
+ * Three-way merge of fact groups. Each group, and each fact inside a group,
+ * takes the side that changed relative to `base`. When both sides changed
+ * the same fact differently the local value is kept for now and a conflict
+ * is reported; deletions that clash with edits keep the edited version.
+ */
+export function mergeFactGroups(
+  base: FactGroup[],
+  local: FactGroup[],
+  remote: FactGroup[]
+): FactMergeResult {
+  const baseMap = indexById(base);
+  const localMap = indexById(local);
+  const remoteMap = indexById(remote);
+  const conflicts: FactConflict[] = [];
+  const groups: FactGroup[] = [];
+
+  const ids = [
+    ...local.map((group) => group.id),
+    ...remote.filter((group) => !localMap.has(group.id)).map((group) => group.id),
+  ];
+
+  ids.forEach((id) => {
+    const baseGroup = baseMap.get(id);
+    const localGroup = localMap.get(id);
+    const remoteGroup = remoteMap.get(id);
+
+    if (localGroup && remoteGroup) {
+      groups.push(mergeGroup(baseGroup, localGroup, remoteGroup, conflicts));
+      return;
+    }
+
+    const survivor = localGroup ?? remoteGroup;
+    if (!survivor) return;
+    if (!baseGroup) {
+      groups.push(survivor);
+      return;
+    }
+    if (sameGroup(baseGroup, survivor)) {
+      // Deleted on the other side and untouched here.
+      return;
+    }
+    groups.push(survivor);
+    conflicts.push({
+      kind: 'group',
+      groupId: id,
+      groupName: survivor.name,
+      local: localGroup ?? null,
+      remote: remoteGroup ?? null,
+    });
+  });
+
+  return { groups, conflicts };
+}
+
+function mergeGroup(
+  base: FactGroup | undefined,
+  local: FactGroup,
+  remote: FactGroup,
+  conflicts: FactConflict[]
+): FactGroup {
+  const name = pickScalar(base?.name, local.name, remote.name);
+  const color = pickScalar(base?.color, local.color, remote.color);
+  const visibility = pickScalar(
+    base ? factGroupVisibility(base) : undefined,
+    factGroupVisibility(local),
+    factGroupVisibility(remote)
+  ) as FactGroupVisibility;
+  const baseFacts = indexById(base?.facts ?? []);
+  const localFacts = indexById(local.facts);
+  const remoteFacts = indexById(remote.facts);
+  const facts: Fact[] = [];
+
+  // Facts are stored newest first, so facts that only exist remotely go on top.
+  const ids = [
+    ...remote.facts.filter((fact) => !localFacts.has(fact.id)).map((fact) => fact.id),
+    ...local.facts.map((fact) => fact.id),
+  ];
+
+  ids.forEach((factId) => {
+    const baseText = baseFacts.get(factId)?.text;
+    const localText = localFacts.get(factId)?.text;
+    const remoteText = remoteFacts.get(factId)?.text;
+
+    if (localText !== undefined && remoteText !== undefined) {
+      if (localText !== remoteText && baseText !== localText && baseText !== remoteText) {
+        conflicts.push({
+          kind: 'fact',
+          groupId: local.id,
+          groupName: name,
+          factId,
+          local: localText,
+          remote: remoteText,
+        });
+      }
+      facts.push({ id: factId, text: pickScalar(baseText, localText, remoteText) });
+      return;
+    }
+
+    const survivor = localText ?? remoteText;
+    if (survivor === undefined) return;
+    if (baseText === undefined) {
+      facts.push({ id: factId, text: survivor });
+      return;
+    }
+    if (baseText === survivor) {
+      return;
+    }
+    facts.push({ id: factId, text: survivor });
+    conflicts.push({
+      kind: 'fact',
+      groupId: local.id,
+      groupName: name,
+      factId,
+      local: localText ?? null,
+      remote: remoteText ?? null,
+    });
+  });
+
+  return { id: local.id, name, color, facts, visibility };
+}
+
+/**
+ * Apply the user's choice for a conflict to the merged groups.
+ */
+export function resolveFactConflict(
+  groups: FactGroup[],
+  conflict: FactConflict,
+  choice: 'local' | 'remote'
+): FactGroup[] {
+  if (conflict.kind === 'group') {
+    const chosen = choice === 'local' ? conflict.local : conflict.remote;
+    if (!chosen) {
+      return groups.filter((group) => group.id !== conflict.groupId);
+    }
+    const exists = groups.some((group) => group.id === conflict.groupId);
+    return exists
+      ? groups.map((group) => (group.id === conflict.groupId ? chosen : group))
+      : [...groups, chosen];
+  }
+
+  const text = choice === 'local' ? conflict.local : conflict.remote;
+  return groups.map((group) => {
+    if (group.id !== conflict.groupId) return group;
+    if (text === null) {
+      return { ...group, facts: group.facts.filter((fact) => fact.id !== conflict.factId) };
+    }
+    const exists = group.facts.some((fact) => fact.id === conflict.factId);
+    return {
+      ...group,
+      facts: exists
+        ? group.facts.map((fact) => (fact.id === conflict.factId ? { ...fact, text } : fact))
+        : [{ id: conflict.factId, text }, ...group.facts],
+    };
+  });
+}
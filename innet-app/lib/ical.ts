@@ -0,0 +1,163 @@
+import type { ContactReminderSchedule } from './reminders';
+import type { Contact } from './storage';
+
+/**
+ * iCalendar (RFC 5545) output: the subscribable reminder feed served by
+ * `/api/reminders/calendar` and one-off meeting invites downloaded from a
+ * contact card. Every event links back to the contact in the app.
+ */
+
+export const ICAL_MIME = 'text/calendar;charset=utf-8';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const PRODUCT_ID = '-//InNet//Reminders//RU';
+const REMINDER_EVENT_MINUTES = 15;
+
+export type CalendarEvent = {
+  /** Stable across feed refreshes so calendars update events instead of duplicating them. */
+  uid: string;
+  start: number;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  url?: string;
+  /** When the event last changed; defaults to now. */
+  stamp?: number;
+};
+
+export function buildCalendar(events: CalendarEvent[], name: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(eventLines),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+export function contactUrl(baseUrl: string, contactId: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/app/contacts/${encodeURIComponent(contactId)}`;
+}
+
+/** One short event per active schedule, at the time the reminder is due. */
+export function reminderCalendarEvents(schedules: ContactReminderSchedule[], baseUrl: string): CalendarEvent[] {
+  return schedules
+    .filter((schedule) => !schedule.disabled && typeof schedule.nextReminderAt === 'number')
+    .sort((a, b) => (a.nextReminderAt ?? 0) - (b.nextReminderAt ?? 0))
+    .map((schedule) => {
+      const url = contactUrl(baseUrl, schedule.contactId);
+      return {
+        uid: `reminder-${schedule.contactId}@innet`,
+        start: schedule.nextReminderAt as number,
+        durationMinutes: REMINDER_EVENT_MINUTES,
+        summary: `Связаться: ${schedule.contactName}`,
+        description: `Пора напомнить о себе. Карточка контакта: ${url}`,
+        url,
+        stamp: schedule.updatedAt || undefined,
+      };
+    });
+}
+
+/** A meeting with `contact`, carrying their phone and handles in the description. */
+export function contactMeetingEvent(
+  contact: Contact,
+  start: number,
+  durationMinutes: number,
+  baseUrl: string
+): CalendarEvent {
+  const url = contactUrl(baseUrl, contact.id);
+  const details = [
+    contact.phone ? `Телефон: ${contact.phone}` : null,
+    contact.telegram ? `Telegram: ${contact.telegram}` : null,
+    contact.instagram ? `Instagram: ${contact.instagram}` : null,
+    `Карточка в InNet: ${url}`,
+  ].filter(Boolean);
+  return {
+    uid: `meeting-${contact.id}-${start}@innet`,
+    start,
+    durationMinutes,
+    summary: `Встреча: ${contact.name}`,
+    description: details.join('\n'),
+    url,
+  };
+}
+
+/** Suggest a safe `.ics` file name for an event title. */
+export function calendarFileName(name: string): string {
+  const base = name.replace(/[\\/:*?"<>|\r\n\t]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return `${base.slice(0, 60) || 'event'}.ics`;
+}
+
+export function downloadCalendar(fileName: string, content: string): void {
+  if (typeof window === 'undefined') return;
+  const url = URL.createObjectURL(new Blob([content], { type: ICAL_MIME }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function eventLines(event: CalendarEvent): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeText(event.uid)}`,
+    `DTSTAMP:${formatTimestamp(event.stamp ?? Date.now())}`,
+    `DTSTART:${formatTimestamp(event.start)}`,
+    `DTEND:${formatTimestamp(event.start + event.durationMinutes * 60_000)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.url) lines.push(`URL;VALUE=URI:${event.url}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** Fold a content line at 75 octets without splitting UTF-8 sequences. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
@@ -0,0 +1,125 @@
+import type { SharePayload } from './share';
+import { mergeContactFromShare, type MergeResult } from './share';
+
+export type IntroductionStatus = 'pending' | 'forwarded' | 'declined';
+
+/** How the signed-in profile takes part in an introduction. */
+export type IntroductionRole = 'requester' | 'via' | 'target';
+
+export type Introduction = {
+  id: string;
+  role: IntroductionRole;
+  status: IntroductionStatus;
+  requesterId: string;
+  viaId: string;
+  targetId: string;
+  targetName?: string;
+  message?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Facts offered by the requester; only sent to the mutual contact. */
+  requesterPayload?: SharePayload;
+  /** Forwarded contact waiting to be merged on this device. */
+  delivery?: SharePayload;
+};
+
+type IntroductionsSuccess = {
+  ok: true;
+  introductions: Introduction[];
+};
+
+type IntroductionsResponse = IntroductionsSuccess | { ok: false; message: string };
+
+type ActionResponse = { ok: true } | { ok: false; message: string };
+
+const INTRODUCTIONS_ENDPOINT = '/api/introductions';
+
+export async function fetchIntroductions(): Promise<IntroductionsResponse> {
+  try {
+    const response = await fetch(INTRODUCTIONS_ENDPOINT);
+    const data = (await response.json()) as IntroductionsResponse;
+    if (!response.ok || !data.ok) {
+      return {
+        ok: false,
+        message:
+          ('message' in data && data.message) ||
+          'Не удалось получить запросы на знакомство.',
+      };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[introductionsClient] fetchIntroductions failed', error);
+    return { ok: false, message: 'Ошибка сети при запросе знакомств.' };
+  }
+}
+
+/** Ask the contact `viaId` to introduce this profile to their connection `targetId`. */
+export function requestIntroduction(
+  viaId: string,
+  targetId: string,
+  payload: SharePayload,
+  message?: string
+): Promise<ActionResponse> {
+  return postAction({ action: 'request', viaId, targetId, payload, message });
+}
+
+/**
+ * Accept a request addressed to this profile as the mutual contact: the
+ * requester receives `targetPayload`, the target receives the requester's
+ * groups listed in `requesterGroupIds`.
+ */
+export function forwardIntroduction(
+  id: string,
+  requesterGroupIds: string[],
+  targetPayload: SharePayload
+): Promise<ActionResponse> {
+  return postAction({ action: 'forward', id, requesterGroupIds, targetPayload });
+}
+
+export function declineIntroduction(id: string): Promise<ActionResponse> {
+  return postAction({ action: 'decline', id });
+}
+
+/**
+ * Merge every forwarded contact waiting for this device and confirm the
+ * delivery afterwards, so a crash before the merge leaves it pending.
+ * Forwarded payloads are never signed by their owner and merge as such.
+ */
+export async function applyIntroductionDeliveries(
+  introductions: Introduction[],
+  canAdd: (payload: SharePayload) => boolean | Promise<boolean> = () => true
+): Promise<MergeResult[]> {
+  const results: MergeResult[] = [];
+  for (const introduction of introductions) {
+    if (!introduction.delivery || !(await canAdd(introduction.delivery))) continue;
+    results.push(mergeContactFromShare({ ...introduction.delivery, verification: 'unverified' }));
+    const ack = await postAction({ action: 'ack', id: introduction.id });
+    if (!ack.ok) {
+      console.warn('[introductionsClient] Failed to confirm delivery', ack.message);
+    }
+  }
+  return results;
+}
+
+async function postAction(body: Record<string, unknown>): Promise<ActionResponse> {
+  try {
+    const response = await fetch(INTRODUCTIONS_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = (await response.json()) as ActionResponse;
+    if (!response.ok || !data.ok) {
+      return {
+        ok: false,
+        message:
+          ('message' in data && data.message) ||
+          'Не удалось обработать запрос на знакомство.',
+      };
+    }
+    return data;
+  } catch (error) {
+    console.error('[introductionsClient] request failed', error);
+    return { ok: false, message: 'Ошибка сети при обработке знакомства.' };
+  }
+}
@@ -0,0 +1,222 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/** Requests that are worth replaying after a network failure. */
+export type OutboxKind = 'exchange' | 'share-alias' | 'account-update' | 'facts';
+
+export type OutboxEntry = {
+  id: string;
+  kind: OutboxKind;
+  url: string;
+  method: 'POST' | 'PUT';
+  body: unknown;
+  /** Entries with the same key replace each other: only the latest state is sent. */
+  dedupeKey?: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+export type OutboxRequest = Pick<OutboxEntry, 'kind' | 'url' | 'method' | 'body' | 'dedupeKey'>;
+
+/** `retry` keeps the entry and backs off; `done` removes it. */
+export type OutboxReplay = (entry: OutboxEntry) => Promise<'done' | 'retry'>;
+
+export type OutboxUpdatedDetail = { pending: number };
+
+declare global {
+  interface WindowEventMap {
+    'innet-outbox-updated': CustomEvent<OutboxUpdatedDetail>;
+  }
+}
+
+export const OUTBOX_UPDATED_EVENT = 'innet-outbox-updated';
+
+const DB_NAME = 'innet-outbox';
+const DB_VERSION = 1;
+const STORE = 'entries';
+const LOCK_NAME = 'innet-outbox-flush';
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof window === 'undefined' || !('indexedDB' in window)) {
+    return Promise.resolve(null);
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private mode in some browsers: the app keeps working without an outbox.
+        console.warn('[outbox] IndexedDB unavailable', request.error);
+        dbPromise = null;
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = (await withStore<OutboxEntry[]>('readonly', (store) => store.getAll())) ?? [];
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function countOutbox(): Promise<number> {
+  return (await withStore<number>('readonly', (store) => store.count())) ?? 0;
+}
+
+/** Earliest time an entry may be retried, or null when the outbox is empty. */
+export async function nextOutboxAttemptAt(): Promise<number | null> {
+  const entries = await listOutbox();
+  return entries.length ? Math.min(...entries.map((entry) => entry.nextAttemptAt)) : null;
+}
+
+async function notifyUpdated(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  const pending = await countOutbox();
+  window.dispatchEvent(
+    new CustomEvent<OutboxUpdatedDetail>(OUTBOX_UPDATED_EVENT, { detail: { pending } })
+  );
+}
+
+/**
+ * Queue a request for replay. An entry with the same `dedupeKey` is updated
+ * in place, so its backoff survives repeated offline edits. Resolves to
+ * false when the browser has no IndexedDB.
+ */
+export async function enqueueOutbox(request: OutboxRequest): Promise<boolean> {
+  const now = Date.now();
+  const existing = request.dedupeKey
+    ? (await listOutbox()).find((entry) => entry.dedupeKey === request.dedupeKey)
+    : undefined;
+  const entry: OutboxEntry = existing
+    ? { ...existing, ...request }
+    : { ...request, id: uuidv4(), createdAt: now, attempts: 0, nextAttemptAt: now + BASE_RETRY_MS };
+  try {
+    const db = await openDb();
+    if (!db) return false;
+    await withStore('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.warn('[outbox] enqueueOutbox failed', error);
+    return false;
+  }
+  await notifyUpdated();
+  return true;
+}
+
+/** `fetch` rejects with a TypeError when the request never reached the server. */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+function sendRequest(request: Pick<OutboxRequest, 'url' | 'method' | 'body'>): Promise<Response> {
+  return fetch(request.url, {
+    method: request.method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request.body),
+  });
+}
+
+/**
+ * `fetch` a JSON request, queueing it when the network is down. Resolves to
+ * null once the request is safely queued; other failures are rethrown.
+ */
+export async function fetchOrQueue(request: OutboxRequest): Promise<Response | null> {
+  try {
+    return await sendRequest(request);
+  } catch (error) {
+    if (isNetworkError(error) && (await enqueueOutbox(request))) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function replayRequest(entry: OutboxEntry): Promise<'done' | 'retry'> {
+  const response = await sendRequest(entry);
+  if (response.ok) return 'done';
+  if (response.status >= 500 || response.status === 408 || response.status === 429) return 'retry';
+  // The server looked at it and said no; sending it again would not help.
+  console.warn('[outbox] Dropping rejected request', { kind: entry.kind, status: response.status });
+  return 'done';
+}
+
+async function withFlushLock(run: () => Promise<void>): Promise<void> {
+  // Two open tabs must not send the same entry twice.
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(LOCK_NAME, run);
+    return;
+  }
+  await run();
+}
+
+/**
+ * Replay queued requests that are due, or all of them with `force` (e.g.
+ * when the browser comes back online). Kinds that cannot be resent as they
+ * were stored get a handler from `replays`.
+ */
+export async function flushOutbox(options: {
+  force?: boolean;
+  replays?: Partial<Record<OutboxKind, OutboxReplay>>;
+} = {}): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+  await withFlushLock(async () => {
+    const now = Date.now();
+    const due = (await listOutbox()).filter((entry) => options.force || entry.nextAttemptAt <= now);
+    for (const entry of due) {
+      const replay = options.replays?.[entry.kind] ?? replayRequest;
+      let outcome: 'done' | 'retry';
+      let lastError: string | undefined;
+      try {
+        outcome = await replay(entry);
+      } catch (error) {
+        outcome = 'retry';
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      // Re-read: a newer edit may have replaced the body while this one was in flight.
+      const current = await withStore<OutboxEntry | undefined>('readonly', (store) => store.get(entry.id));
+      if (outcome === 'done') {
+        if (current && JSON.stringify(current.body) !== JSON.stringify(entry.body)) {
+          await withStore('readwrite', (store) => store.put({ ...current, attempts: 0, nextAttemptAt: Date.now() }));
+        } else {
+          await withStore('readwrite', (store) => store.delete(entry.id));
+        }
+        continue;
+      }
+      const attempts = entry.attempts + 1;
+      const delay = Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+      if (current) {
+        await withStore('readwrite', (store) =>
+          store.put({ ...current, attempts, nextAttemptAt: Date.now() + delay, lastError })
+        );
+      }
+    }
+  });
+  await notifyUpdated();
+}
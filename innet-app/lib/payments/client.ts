@@ -1,10 +1,14 @@
 import type { PlanProduct } from '../plans';
+import type { PaymentStatus as LedgerStatus } from './store';
+import type { SubscriptionStatus } from '../server/subscriptions';
 
 type CreatePaymentSuccess = {
   ok: true;
   paymentId: string;
   confirmationUrl: string;
-  planId: PlanProduct;
+  planId?: PlanProduct;
+  packId?: string;
+  amount: number;
 };
 
 type CreatePaymentError = {
@@ -12,13 +16,14 @@ type CreatePaymentError = {
   message: string;
 };
 
-type PaymentStatus = 'pending' | 'succeeded' | 'canceled' | 'unknown';
+type PaymentStatus = LedgerStatus | 'unknown';
 
 type PaymentStatusSuccess = {
   ok: true;
   status: PaymentStatus;
   userId?: string;
   planId?: PlanProduct;
+  packId?: string;
 };
 
 type PaymentStatusError = {
@@ -26,13 +31,58 @@ type PaymentStatusError = {
   message: string;
 };
 
-export type StartPaymentParams = {
-  planId: PlanProduct;
-  userId: string;
-  email?: string;
-  returnUrl?: string;
+export type SubscriptionInfo = {
+  planProduct: PlanProduct;
+  status: SubscriptionStatus;
+  /** A saved card is charged automatically before `currentPeriodEnd`. */
+  autoRenew: boolean;
+  paymentMethodTitle: string | null;
+  currentPeriodEnd: number;
+  graceUntil: number | null;
+  /** Dunning message to show while a renewal keeps failing. */
+  notice: string | null;
+};
+
+type SubscriptionResponse =
+  | { ok: true; subscription: SubscriptionInfo | null }
+  | { ok: false; message: string };
+
+/** One line of the billing history: a plan or token pack payment and its refund, if any. */
+export type BillingHistoryEntry = {
+  paymentId: string;
+  planId: PlanProduct | null;
+  packId: string | null;
+  status: LedgerStatus;
+  amount: number;
+  currency: string;
+  createdAt: string;
+  refundedAt: string | null;
 };
 
+type BillingHistoryResponse =
+  | { ok: true; payments: BillingHistoryEntry[] }
+  | { ok: false; message: string };
+
+type RefundResponse =
+  | { ok: true; status: LedgerStatus }
+  | { ok: false; message: string };
+
+export type StartPaymentParams =
+  | {
+      product?: 'plan';
+      planId: PlanProduct;
+      returnUrl?: string;
+      /** Save the card so the plan renews automatically. */
+      autoRenew?: boolean;
+      promoCode?: string;
+    }
+  | {
+      product: 'pack';
+      packId: string;
+      returnUrl?: string;
+      promoCode?: string;
+    };
+
 export async function startPayment(params: StartPaymentParams): Promise<CreatePaymentSuccess> {
   const response = await fetch('/api/payments/create', {
     method: 'POST',
@@ -75,4 +125,81 @@ export async function getPaymentStatus(paymentId: string): Promise<PaymentStatus
   return payload;
 }
 
+export async function fetchSubscription(): Promise<SubscriptionResponse> {
+  try {
+    const response = await fetch('/api/payments/subscription');
+    const payload = (await response.json().catch(() => null)) as SubscriptionResponse | null;
+    if (!payload) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при проверке подписки.' };
+    }
+    if (!response.ok || !payload.ok) {
+      return { ok: false, message: payload.ok ? 'Не удалось получить подписку.' : payload.message };
+    }
+    return payload;
+  } catch (error) {
+    console.warn('[payments/client] fetchSubscription failed', error);
+    return { ok: false, message: 'Ошибка сети при проверке подписки.' };
+  }
+}
+
+/** Turn auto-renewal off; the plan stays until the end of the paid period. */
+export async function cancelSubscription(): Promise<SubscriptionResponse> {
+  try {
+    const response = await fetch('/api/payments/subscription', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'cancel' }),
+    });
+    const payload = (await response.json().catch(() => null)) as SubscriptionResponse | null;
+    if (!payload) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при отмене подписки.' };
+    }
+    if (!response.ok || !payload.ok) {
+      return { ok: false, message: payload.ok ? 'Не удалось отменить подписку.' : payload.message };
+    }
+    return payload;
+  } catch (error) {
+    console.warn('[payments/client] cancelSubscription failed', error);
+    return { ok: false, message: 'Ошибка сети при отмене подписки.' };
+  }
+}
+
+export async function requestRefund(paymentId: string): Promise<RefundResponse> {
+  try {
+    const response = await fetch('/api/payments/refund', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paymentId }),
+    });
+    const payload = (await response.json().catch(() => null)) as RefundResponse | null;
+    if (!payload) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при оформлении возврата.' };
+    }
+    if (!response.ok || !payload.ok) {
+      return { ok: false, message: payload.ok ? 'Не удалось оформить возврат.' : payload.message };
+    }
+    return payload;
+  } catch (error) {
+    console.warn('[payments/client] requestRefund failed', error);
+    return { ok: false, message: 'Ошибка сети при оформлении возврата.' };
+  }
+}
+
+export async function fetchBillingHistory(): Promise<BillingHistoryResponse> {
+  try {
+    const response = await fetch('/api/payments/history');
+    const payload = (await response.json().catch(() => null)) as BillingHistoryResponse | null;
+    if (!payload) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при загрузке платежей.' };
+    }
+    if (!response.ok || !payload.ok) {
+      return { ok: false, message: payload.ok ? 'Не удалось получить историю платежей.' : payload.message };
+    }
+    return payload;
+  } catch (error) {
+    console.warn('[payments/client] fetchBillingHistory failed', error);
+    return { ok: false, message: 'Ошибка сети при загрузке платежей.' };
+  }
+}
+
 export type { PaymentStatus };
@@ -1,41 +1,303 @@
-import type { PlanProduct } from '../plans';
+import type { PlanId, PlanProduct } from '../plans';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
 
-type PaymentStatus = 'pending' | 'succeeded' | 'canceled';
+export type PaymentStatus =
+  | 'created'
+  | 'pending'
+  | 'waiting_for_capture'
+  | 'succeeded'
+  | 'canceled'
+  | 'refunded';
 
-type StoredPayment = {
+/** Where a status change came from, kept in the history for support requests. */
+export type PaymentStatusSource = 'api' | 'webhook';
+
+export type StoredPayment = {
   paymentId: string;
   userId: string;
-  planType: PlanProduct;
+  /** Paid plan for subscription payments, null for token packs. */
+  planType: PlanProduct | null;
+  /** Token pack id (`TOKEN_PACKS`) for pack purchases. */
+  packId: string | null;
+  status: PaymentStatus;
+  amount: number;
+  currency: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A payment as shown in the billing history, with the refund date if it was returned. */
+export type BillingEntry = StoredPayment & {
+  refundedAt: string | null;
+};
+
+export type PaymentStatusChange = {
+  paymentId: string;
   status: PaymentStatus;
-  createdAt: number;
+  source: PaymentStatusSource;
+  event: string | null;
+  createdAt: string;
+};
+
+export type PlanChange = {
+  userId: string;
+  paymentId: string | null;
+  previousPlan: PlanId | null;
+  nextPlan: PlanId;
+  previousProduct: PlanProduct | null;
+  nextProduct: PlanProduct | null;
+  expiresAt: number | null;
+  reason: string;
+};
+
+type PaymentRow = {
+  payment_id: string;
+  user_id: string;
+  plan_product: PlanProduct | null;
+  pack_id: string | null;
+  status: PaymentStatus;
+  amount: number | string;
+  currency: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type PaymentEventRow = {
+  payment_id: string;
+  status: PaymentStatus;
+  source: PaymentStatusSource;
+  event: string | null;
+  created_at: string;
+};
+
+const PAYMENTS_TABLE = 'payments';
+const PAYMENT_EVENTS_TABLE = 'payment_events';
+const WEBHOOK_EVENTS_TABLE = 'payment_webhook_events';
+const PLAN_AUDIT_TABLE = 'plan_change_audit';
+const UNIQUE_VIOLATION = '23505';
+
+const PAYMENT_STATUSES: PaymentStatus[] = [
+  'created',
+  'pending',
+  'waiting_for_capture',
+  'succeeded',
+  'canceled',
+  'refunded',
+];
+
+// Statuses a payment may move to from each status. Webhooks can arrive out of
+// order, so a late `waiting_for_capture` must not undo `succeeded`.
+const ALLOWED_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  created: ['pending', 'waiting_for_capture', 'succeeded', 'canceled'],
+  pending: ['waiting_for_capture', 'succeeded', 'canceled'],
+  waiting_for_capture: ['succeeded', 'canceled'],
+  succeeded: ['refunded'],
+  canceled: [],
+  refunded: [],
 };
 
-const payments = new Map<string, StoredPayment>();
+export function normalizePaymentStatus(value: string | null | undefined): PaymentStatus | null {
+  return PAYMENT_STATUSES.includes(value as PaymentStatus) ? (value as PaymentStatus) : null;
+}
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: платежи негде сохранить.');
+  }
+  return client;
+}
+
+function toStoredPayment(row: PaymentRow): StoredPayment {
+  return {
+    paymentId: row.payment_id,
+    userId: row.user_id,
+    planType: row.plan_product,
+    packId: row.pack_id ?? null,
+    status: row.status,
+    amount: Number(row.amount),
+    currency: row.currency,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+async function appendStatusChange(
+  paymentId: string,
+  status: PaymentStatus,
+  source: PaymentStatusSource,
+  event: string | null = null
+): Promise<void> {
+  const { error } = await requireClient()
+    .from(PAYMENT_EVENTS_TABLE)
+    .insert({ payment_id: paymentId, status, source, event });
+  if (error) {
+    console.error('[payments/store] Failed to append status change', { paymentId, status, error });
+  }
+}
 
-export function rememberPayment(paymentId: string, userId: string, planType: PlanProduct) {
-  payments.set(paymentId, {
-    paymentId,
-    userId,
-    planType,
-    status: 'pending',
-    createdAt: Date.now(),
+/**
+ * Record a payment right after YooKassa created it. The history starts with
+ * `created`, followed by the status YooKassa reported (usually `pending`).
+ */
+export async function rememberPayment(params: {
+  paymentId: string;
+  userId: string;
+  planType?: PlanProduct | null;
+  packId?: string | null;
+  amount: number;
+  currency?: string;
+  status?: string;
+}): Promise<void> {
+  const status = normalizePaymentStatus(params.status) ?? 'pending';
+  const { error } = await requireClient().from(PAYMENTS_TABLE).insert({
+    payment_id: params.paymentId,
+    user_id: params.userId,
+    plan_product: params.planType ?? null,
+    pack_id: params.packId ?? null,
+    amount: params.amount,
+    currency: params.currency ?? 'RUB',
+    status,
   });
+  if (error?.code === UNIQUE_VIOLATION) {
+    // Idempotent retries return the same YooKassa payment; it is already recorded.
+    return;
+  }
+  if (error) {
+    throw new Error(`Не удалось сохранить платёж: ${error.message}`);
+  }
+  await appendStatusChange(params.paymentId, 'created', 'api');
+  if (status !== 'created') {
+    await appendStatusChange(params.paymentId, status, 'api');
+  }
+}
+
+/**
+ * Move a payment to `status` and log the change. Returns the updated payment,
+ * the unchanged one when the transition is not allowed (duplicate or late
+ * notifications), or null when the payment is unknown.
+ */
+export async function markPaymentStatus(
+  paymentId: string,
+  status: PaymentStatus,
+  source: PaymentStatusSource,
+  event?: string
+): Promise<StoredPayment | null> {
+  const current = await getPayment(paymentId);
+  if (!current) return null;
+  if (!ALLOWED_TRANSITIONS[current.status].includes(status)) {
+    return current;
+  }
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await requireClient()
+    .from(PAYMENTS_TABLE)
+    .update({ status, updated_at: updatedAt })
+    .eq('payment_id', paymentId)
+    .eq('status', current.status);
+  if (error) {
+    throw new Error(`Не удалось обновить статус платежа: ${error.message}`);
+  }
+  await appendStatusChange(paymentId, status, source, event ?? null);
+  return { ...current, status, updatedAt };
+}
+
+export async function getPayment(paymentId: string): Promise<StoredPayment | null> {
+  const { data, error } = await requireClient()
+    .from(PAYMENTS_TABLE)
+    .select('*')
+    .eq('payment_id', paymentId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить платёж: ${error.message}`);
+  }
+  return data ? toStoredPayment(data as PaymentRow) : null;
+}
+
+/** The user's payments, newest first, for the billing history. */
+export async function listUserPayments(userId: string, limit = 50): Promise<BillingEntry[]> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from(PAYMENTS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new Error(`Не удалось получить платежи: ${error.message}`);
+  }
+  const payments = (data ?? []).map((row: PaymentRow) => toStoredPayment(row));
+  const refundedIds = payments.filter((payment) => payment.status === 'refunded').map((payment) => payment.paymentId);
+  const refundedAt = new Map<string, string>();
+  if (refundedIds.length) {
+    const { data: events, error: eventsError } = await client
+      .from(PAYMENT_EVENTS_TABLE)
+      .select('payment_id,created_at')
+      .in('payment_id', refundedIds)
+      .eq('status', 'refunded');
+    if (eventsError) {
+      throw new Error(`Не удалось получить возвраты: ${eventsError.message}`);
+    }
+    for (const event of (events ?? []) as Pick<PaymentEventRow, 'payment_id' | 'created_at'>[]) {
+      refundedAt.set(event.payment_id, event.created_at);
+    }
+  }
+  return payments.map((payment) => ({ ...payment, refundedAt: refundedAt.get(payment.paymentId) ?? null }));
+}
+
+export async function getPaymentHistory(paymentId: string): Promise<PaymentStatusChange[]> {
+  const { data, error } = await requireClient()
+    .from(PAYMENT_EVENTS_TABLE)
+    .select('payment_id,status,source,event,created_at')
+    .eq('payment_id', paymentId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(`Не удалось получить историю платежа: ${error.message}`);
+  }
+  return (data ?? []).map((row: PaymentEventRow) => ({
+    paymentId: row.payment_id,
+    status: row.status,
+    source: row.source,
+    event: row.event,
+    createdAt: row.created_at,
+  }));
 }
 
-export function markPaymentStatus(paymentId: string, status: PaymentStatus) {
-  const entry = payments.get(paymentId);
-  if (!entry) return;
-  entry.status = status;
-  payments.set(paymentId, entry);
+/**
+ * Claim a webhook notification by its idempotency key. Returns false when
+ * the same notification was already processed, so the caller can skip it.
+ */
+export async function claimWebhookEvent(key: string, paymentId: string, event: string): Promise<boolean> {
+  const { error } = await requireClient()
+    .from(WEBHOOK_EVENTS_TABLE)
+    .insert({ idempotency_key: key, payment_id: paymentId, event });
+  if (!error) return true;
+  if (error.code === UNIQUE_VIOLATION) return false;
+  throw new Error(`Не удалось зафиксировать уведомление: ${error.message}`);
 }
 
-export function getPayment(paymentId: string): StoredPayment | undefined {
-  return payments.get(paymentId);
+/** Forget a claimed notification so YooKassa's retry is processed again. */
+export async function releaseWebhookEvent(key: string): Promise<void> {
+  const { error } = await requireClient().from(WEBHOOK_EVENTS_TABLE).delete().eq('idempotency_key', key);
+  if (error) {
+    console.error('[payments/store] Failed to release webhook event', { key, error });
+  }
 }
 
-export function consumePayment(paymentId: string): StoredPayment | undefined {
-  const entry = payments.get(paymentId);
-  if (!entry) return undefined;
-  payments.delete(paymentId);
-  return entry;
+export async function recordPlanChange(change: PlanChange): Promise<void> {
+  const { error } = await requireClient()
+    .from(PLAN_AUDIT_TABLE)
+    .insert({
+      user_id: change.userId,
+      payment_id: change.paymentId,
+      previous_plan: change.previousPlan,
+      next_plan: change.nextPlan,
+      previous_product: change.previousProduct,
+      next_product: change.nextProduct,
+      expires_at: change.expiresAt ? new Date(change.expiresAt).toISOString() : null,
+      reason: change.reason,
+    });
+  if (error) {
+    console.error('[payments/store] Failed to record plan change', { change, error });
+  }
 }
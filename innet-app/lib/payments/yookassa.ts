@@ -1,4 +1,5 @@
 import crypto from 'node:crypto';
+import { isLocalYookassa, localYookassaRefund, localYookassaRequest } from './yookassaLocal';
 
 type Currency = 'RUB';
 
@@ -15,6 +16,35 @@ type CreatePaymentParams = {
   userId: string;
   email?: string;
   metadata?: Record<string, string>;
+  /** Ask YooKassa to keep the card for later charges without the user. */
+  savePaymentMethod?: boolean;
+};
+
+type ChargeSavedMethodParams = {
+  amount: number;
+  currency?: Currency;
+  description: string;
+  paymentMethodId: string;
+  userId: string;
+  metadata?: Record<string, string>;
+  /** Reuse the same key when retrying one charge so YooKassa never bills twice. */
+  idempotenceKey: string;
+};
+
+type CreateRefundParams = {
+  paymentId: string;
+  amount: number;
+  currency?: Currency;
+  description?: string;
+  /** One key per refunded payment, so a retried request never refunds twice. */
+  idempotenceKey: string;
+};
+
+export type YookassaPaymentMethod = {
+  id: string;
+  type?: string;
+  saved?: boolean;
+  title?: string;
 };
 
 type YookassaConfirmation =
@@ -27,12 +57,23 @@ export type YookassaPayment = {
   amount: Amount;
   description?: string;
   confirmation?: YookassaConfirmation;
+  payment_method?: YookassaPaymentMethod;
+  cancellation_details?: { party?: string; reason?: string };
   metadata?: Record<string, string>;
   created_at?: string;
   paid?: boolean;
   test?: boolean;
 };
 
+export type YookassaRefund = {
+  id: string;
+  payment_id: string;
+  status: 'pending' | 'succeeded' | 'canceled';
+  amount: Amount;
+  description?: string;
+  created_at?: string;
+};
+
 function toMinorAmount(amount: number): string {
   return amount.toFixed(2);
 }
@@ -54,9 +95,8 @@ export async function createPayment({
   userId,
   email,
   metadata,
+  savePaymentMethod,
 }: CreatePaymentParams): Promise<YookassaPayment> {
-  const { shopId, secretKey } = getCredentials();
-  const idempotenceKey = crypto.randomUUID();
   const body: Record<string, unknown> = {
     amount: {
       value: toMinorAmount(amount),
@@ -74,6 +114,10 @@ export async function createPayment({
     },
   };
 
+  if (savePaymentMethod) {
+    body.save_payment_method = true;
+  }
+
   if (email) {
     body.receipt = {
       customer: { email },
@@ -91,7 +135,77 @@ export async function createPayment({
     };
   }
 
-  const response = await fetch('https://api.yookassa.ru/v3/payments', {
+  return postPayment(body, crypto.randomUUID());
+}
+
+/** Charge a card saved by an earlier payment; no confirmation from the user is needed. */
+export async function chargeSavedPaymentMethod({
+  amount,
+  currency = 'RUB',
+  description,
+  paymentMethodId,
+  userId,
+  metadata,
+  idempotenceKey,
+}: ChargeSavedMethodParams): Promise<YookassaPayment> {
+  return postPayment(
+    {
+      amount: {
+        value: toMinorAmount(amount),
+        currency,
+      },
+      capture: true,
+      description,
+      payment_method_id: paymentMethodId,
+      metadata: {
+        ...(metadata ?? {}),
+        userId,
+      },
+    },
+    idempotenceKey
+  );
+}
+
+/** Return the money of a succeeded payment; YooKassa confirms with `refund.succeeded`. */
+export async function createRefund({
+  paymentId,
+  amount,
+  currency = 'RUB',
+  description,
+  idempotenceKey,
+}: CreateRefundParams): Promise<YookassaRefund> {
+  const body: Record<string, unknown> = {
+    payment_id: paymentId,
+    amount: {
+      value: toMinorAmount(amount),
+      currency,
+    },
+  };
+  if (description) {
+    body.description = description;
+  }
+
+  if (isLocalYookassa()) {
+    return localYookassaRefund(body, idempotenceKey);
+  }
+  return postYookassa<YookassaRefund>('refunds', body, idempotenceKey, 'Не удалось оформить возврат');
+}
+
+async function postPayment(body: Record<string, unknown>, idempotenceKey: string): Promise<YookassaPayment> {
+  if (isLocalYookassa()) {
+    return localYookassaRequest(body, idempotenceKey);
+  }
+  return postYookassa<YookassaPayment>('payments', body, idempotenceKey, 'Не удалось создать платёж');
+}
+
+async function postYookassa<T>(
+  resource: 'payments' | 'refunds',
+  body: Record<string, unknown>,
+  idempotenceKey: string,
+  failureMessage: string
+): Promise<T> {
+  const { shopId, secretKey } = getCredentials();
+  const response = await fetch(`https://api.yookassa.ru/v3/${resource}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -101,13 +215,13 @@ export async function createPayment({
     body: JSON.stringify(body),
   });
 
-  const payload = (await response.json()) as YookassaPayment & { type?: string; title?: string; detail?: string };
+  const payload = (await response.json()) as T & { type?: string; title?: string; detail?: string };
 
   if (!response.ok) {
     const message =
       payload?.type === 'error'
         ? `${payload.title ?? 'Ошибка ЮKassa'}: ${payload.detail ?? 'Неизвестная ошибка'}`
-        : `Не удалось создать платёж: статус ${response.status}`;
+        : `${failureMessage}: статус ${response.status}`;
     throw new Error(message);
   }
 
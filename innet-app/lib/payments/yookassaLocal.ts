@@ -0,0 +1,153 @@
+import crypto from 'node:crypto';
+import type { YookassaPayment, YookassaRefund } from './yookassa';
+
+type LocalPayment = {
+  payment: YookassaPayment;
+  returnUrl: string | null;
+  savePaymentMethod: boolean;
+};
+
+type LocalState = {
+  payments: Map<string, LocalPayment>;
+  byIdempotenceKey: Map<string, string>;
+  refunds: Map<string, YookassaRefund>;
+};
+
+// Kept on globalThis so the dev server's module reloads do not forget payments.
+const globalState = globalThis as typeof globalThis & { __innetLocalYookassa?: LocalState };
+
+function getState(): LocalState {
+  if (!globalState.__innetLocalYookassa) {
+    globalState.__innetLocalYookassa = { payments: new Map(), byIdempotenceKey: new Map(), refunds: new Map() };
+  }
+  return globalState.__innetLocalYookassa;
+}
+
+/**
+ * `YOOKASSA_MODE=local` swaps the YooKassa API for this in-process stand-in,
+ * so payments, saved cards and renewals work without network or credentials.
+ */
+export function isLocalYookassa(): boolean {
+  return process.env.YOOKASSA_MODE === 'local';
+}
+
+/**
+ * Answer a `POST /v3/payments` request. Redirect payments stay `pending`
+ * until `/api/payments/local-confirm` is opened; charges of a saved card
+ * succeed at once, or are declined when `YOOKASSA_LOCAL_DECLINE=1`.
+ */
+export async function localYookassaRequest(
+  body: Record<string, unknown>,
+  idempotenceKey: string
+): Promise<YookassaPayment> {
+  const state = getState();
+  const knownId = state.byIdempotenceKey.get(idempotenceKey);
+  const known = knownId ? state.payments.get(knownId) : undefined;
+  if (known) {
+    return known.payment;
+  }
+
+  const id = `local-${crypto.randomUUID()}`;
+  const amount = body.amount as YookassaPayment['amount'];
+  const metadata = (body.metadata ?? {}) as Record<string, string>;
+  const savedMethodId = typeof body.payment_method_id === 'string' ? body.payment_method_id : null;
+  let entry: LocalPayment;
+
+  if (savedMethodId) {
+    const declined = process.env.YOOKASSA_LOCAL_DECLINE === '1';
+    entry = {
+      returnUrl: null,
+      savePaymentMethod: false,
+      payment: {
+        id,
+        status: declined ? 'canceled' : 'succeeded',
+        paid: !declined,
+        amount,
+        description: body.description as string | undefined,
+        metadata,
+        payment_method: { id: savedMethodId, type: 'bank_card', saved: true, title: 'Тестовая карта *4477' },
+        ...(declined
+          ? { cancellation_details: { party: 'payment_network', reason: 'insufficient_funds' } }
+          : {}),
+        created_at: new Date().toISOString(),
+        test: true,
+      },
+    };
+  } else {
+    const confirmation = body.confirmation as { return_url?: string } | undefined;
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000';
+    entry = {
+      returnUrl: confirmation?.return_url ?? null,
+      savePaymentMethod: body.save_payment_method === true,
+      payment: {
+        id,
+        status: 'pending',
+        paid: false,
+        amount,
+        description: body.description as string | undefined,
+        metadata,
+        confirmation: {
+          type: 'redirect',
+          confirmation_url: `${siteUrl}/api/payments/local-confirm?paymentId=${encodeURIComponent(id)}`,
+        },
+        created_at: new Date().toISOString(),
+        test: true,
+      },
+    };
+  }
+
+  state.payments.set(id, entry);
+  state.byIdempotenceKey.set(idempotenceKey, id);
+  return entry.payment;
+}
+
+/**
+ * Answer a `POST /v3/refunds` request. Refunds of a paid stand-in payment
+ * succeed at once; the caller delivers `refund.succeeded` itself.
+ */
+export async function localYookassaRefund(
+  body: Record<string, unknown>,
+  idempotenceKey: string
+): Promise<YookassaRefund> {
+  const state = getState();
+  const known = state.refunds.get(idempotenceKey);
+  if (known) {
+    return known;
+  }
+
+  const paymentId = body.payment_id as string;
+  const entry = state.payments.get(paymentId);
+  if (!entry || entry.payment.status !== 'succeeded') {
+    throw new Error('Платёж не найден в локальной ЮKassa или ещё не оплачен.');
+  }
+
+  const refund: YookassaRefund = {
+    id: `local-refund-${crypto.randomUUID()}`,
+    payment_id: paymentId,
+    status: 'succeeded',
+    amount: body.amount as YookassaRefund['amount'],
+    description: body.description as string | undefined,
+    created_at: new Date().toISOString(),
+  };
+  state.refunds.set(idempotenceKey, refund);
+  return refund;
+}
+
+/** Play the part of the user paying on YooKassa's page. */
+export function confirmLocalPayment(paymentId: string): { payment: YookassaPayment; returnUrl: string | null } | null {
+  const entry = getState().payments.get(paymentId);
+  if (!entry || entry.payment.status !== 'pending') return null;
+  entry.payment = {
+    ...entry.payment,
+    status: 'succeeded',
+    paid: true,
+    confirmation: undefined,
+    payment_method: {
+      id: `local-pm-${crypto.randomUUID()}`,
+      type: 'bank_card',
+      saved: entry.savePaymentMethod,
+      title: 'Тестовая карта *4477',
+    },
+  };
+  return { payment: entry.payment, returnUrl: entry.returnUrl };
+}
@@ -14,6 +14,13 @@ export type PlanEntitlements = {
   allowCustomTags: boolean;
 };
 
+export type PlanProductMeta = {
+  amount: number;
+  description: string;
+  /** Length of one paid period; subscriptions renew this many days after the last charge. */
+  periodDays: number;
+};
+
 export type PlanMeta = {
   id: PlanId;
   label: string;
@@ -62,6 +69,22 @@ export const PLAN_CATALOG: Record<PlanId, PlanMeta> = {
   },
 };
 
+export const PLAN_PRODUCT_CATALOG: Record<PlanProduct, PlanProductMeta> = {
+  'pro-monthly': {
+    amount: 190,
+    description: 'Пакет токенов «Стартовый 40»',
+    periodDays: 30,
+  },
+  'pro-annual': {
+    amount: 1190,
+    description: 'Пакет токенов «Агент влияния 360»',
+    periodDays: 365,
+  },
+};
+
+/** Plan payments the user can return without contacting support, counted from the payment. */
+export const PLAN_REFUND_WINDOW_DAYS = 14;
+
 export function normalizePlanProduct(value: string | null | undefined): PlanProduct | null {
   if (!value) return null;
   if (value === 'pro-monthly' || value === 'pro-annual') {
@@ -1,5 +1,5 @@
+/** Profile fields mirrored to `profiles`; the row is keyed by the session email. */
 export type RemoteProfilePayload = {
-  email: string;
   name?: string;
   surname?: string;
   phone?: string;
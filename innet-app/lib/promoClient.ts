@@ -0,0 +1,63 @@
+/**
+ * `percent` takes `value` percent off the next payment, `pro-days` adds
+ * `value` days of Pro and `tokens` credits `value` tokens right away.
+ */
+export type PromoKind = 'percent' | 'pro-days' | 'tokens';
+
+export type PromoCode = {
+  code: string;
+  kind: PromoKind;
+  value: number;
+  /** Total redemptions allowed; null means unlimited. */
+  maxRedemptions: number | null;
+  redeemedCount: number;
+  expiresAt: number | null;
+};
+
+export type PromoRedemption =
+  | { ok: true; kind: 'percent'; code: string; percent: number }
+  | { ok: true; kind: 'pro-days'; code: string; days: number; planExpiresAt: number }
+  | { ok: true; kind: 'tokens'; code: string; tokens: number; balance: number }
+  | { ok: false; message: string };
+
+const PROMO_ENDPOINT = '/api/promo';
+const PROMO_CODE_PATTERN = /^[A-Z0-9-]{3,32}$/;
+
+/** Codes are case-insensitive and stored upper-case; null when the input cannot be a code. */
+export function normalizePromoCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toUpperCase();
+  return PROMO_CODE_PATTERN.test(code) ? code : null;
+}
+
+/** Price after a percent code, rounded to whole roubles; YooKassa does not accept zero. */
+export function applyPromoDiscount(amount: number, percent: number): number {
+  const discounted = Math.round((amount * (100 - percent)) / 100);
+  return Math.max(1, discounted);
+}
+
+/**
+ * Redeem a code for the signed-in user. Token and Pro-day codes are applied
+ * at once; a percent code is only checked here and is spent by the payment
+ * it is passed to.
+ */
+export async function redeemPromoCode(code: string): Promise<PromoRedemption> {
+  try {
+    const response = await fetch(PROMO_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    });
+    const data = (await response.json().catch(() => null)) as PromoRedemption | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при проверке промокода.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось применить промокод.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[promoClient] redeemPromoCode failed', error);
+    return { ok: false, message: 'Ошибка сети при проверке промокода.' };
+  }
+}
@@ -0,0 +1,150 @@
+import type { PrivacyLevel } from './privacy';
+import { SHARE_VERSION, type ShareGroup, type SharePayload } from './share';
+
+export type PublicProfileSettings = {
+  handle: string;
+  privacy: PrivacyLevel;
+  updatedAt: string;
+};
+
+/** How the viewer of `/u/<handle>` relates to its owner, from `fact_exchanges`. */
+export type PublicProfileRelation = 'self' | 'contact' | 'second-degree' | 'stranger';
+
+/** What one viewer may see of a public profile; fields withheld from them are null. */
+export type PublicProfileView = {
+  handle: string;
+  name: string;
+  avatar: string | null;
+  phone: string | null;
+  telegram: string | null;
+  instagram: string | null;
+  groups: ShareGroup[];
+  relation: PublicProfileRelation;
+  /** The owner's privacy level kept channels or facts from this viewer. */
+  restricted: boolean;
+  /** Built from public groups only, so it is safe for search engines and link previews. */
+  description: string;
+  indexable: boolean;
+};
+
+type SettingsResponse =
+  | { ok: true; settings: PublicProfileSettings | null; factsSynced: boolean }
+  | { ok: false; message: string };
+
+type SaveResponse = { ok: true; settings: PublicProfileSettings } | { ok: false; message: string };
+
+type RemoveResponse = { ok: true } | { ok: false; message: string };
+
+const PUBLIC_PROFILE_ENDPOINT = '/api/public-profile';
+const HANDLE_PATTERN = /^[a-z0-9][a-z0-9_-]{2,29}$/;
+// Handles that would read as the service itself rather than a person.
+const RESERVED_HANDLES = new Set([
+  'admin',
+  'api',
+  'app',
+  'help',
+  'innet',
+  'login',
+  'register',
+  'settings',
+  'share',
+  'support',
+]);
+
+/** Handles are case-insensitive and stored lower-case; null when the input cannot be one. */
+export function normalizeHandle(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const handle = value.trim().replace(/^@+/, '').toLowerCase();
+  if (!HANDLE_PATTERN.test(handle) || RESERVED_HANDLES.has(handle)) return null;
+  return handle;
+}
+
+export function publicProfilePath(handle: string): string {
+  return `/u/${encodeURIComponent(handle)}`;
+}
+
+/**
+ * Contacts added from a public page are keyed by the handle: the page does
+ * not reveal the owner's profile id.
+ */
+export function publicProfileRemoteId(handle: string): string {
+  return `public:${handle}`;
+}
+
+/**
+ * Payload for `mergeContactFromShare`. The page is rendered from server data
+ * rather than a signed token, so the contact is merged as unverified.
+ */
+export function publicProfileToSharePayload(view: PublicProfileView): SharePayload {
+  return {
+    v: SHARE_VERSION,
+    owner: {
+      id: publicProfileRemoteId(view.handle),
+      name: view.name,
+      avatar: view.avatar ?? undefined,
+      phone: view.phone ?? undefined,
+      telegram: view.telegram ?? undefined,
+      instagram: view.instagram ?? undefined,
+    },
+    groups: view.groups,
+    generatedAt: Date.now(),
+    verification: 'unverified',
+  };
+}
+
+export async function fetchPublicProfileSettings(): Promise<SettingsResponse> {
+  try {
+    const response = await fetch(PUBLIC_PROFILE_ENDPOINT);
+    const data = (await response.json().catch(() => null)) as SettingsResponse | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при загрузке публичной страницы.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось загрузить публичную страницу.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[publicProfileClient] fetchPublicProfileSettings failed', error);
+    return { ok: false, message: 'Ошибка сети при загрузке публичной страницы.' };
+  }
+}
+
+/** Claim `handle` (or move the page to it) and publish the current privacy level. */
+export async function savePublicProfile(params: { handle: string; privacy: PrivacyLevel }): Promise<SaveResponse> {
+  try {
+    const response = await fetch(PUBLIC_PROFILE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    });
+    const data = (await response.json().catch(() => null)) as SaveResponse | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при сохранении адреса.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось сохранить адрес страницы.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[publicProfileClient] savePublicProfile failed', error);
+    return { ok: false, message: 'Ошибка сети при сохранении адреса.' };
+  }
+}
+
+/** Take the page down and free the handle. */
+export async function removePublicProfile(): Promise<RemoveResponse> {
+  try {
+    const response = await fetch(PUBLIC_PROFILE_ENDPOINT, { method: 'DELETE' });
+    const data = (await response.json().catch(() => null)) as RemoveResponse | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при удалении страницы.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось удалить публичную страницу.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[publicProfileClient] removePublicProfile failed', error);
+    return { ok: false, message: 'Ошибка сети при удалении страницы.' };
+  }
+}
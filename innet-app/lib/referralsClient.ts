@@ -0,0 +1,43 @@
+export type ReferralStats = {
+  invited: number;
+  rewarded: number;
+};
+
+/** Referrers on Pro get days, everyone else tokens. */
+export const REFERRAL_REWARD_TOKENS = 20;
+export const REFERRAL_REWARD_PRO_DAYS = 7;
+
+type StatsResponse = { ok: true; stats: ReferralStats } | { ok: false; message: string };
+
+const REFERRALS_ENDPOINT = '/api/referrals';
+
+let settleRequested = false;
+
+export async function fetchReferralStats(): Promise<StatsResponse> {
+  try {
+    const response = await fetch(REFERRALS_ENDPOINT);
+    const data = (await response.json().catch(() => null)) as StatsResponse | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при загрузке приглашений.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось загрузить приглашения.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[referralsClient] fetchReferralStats failed', error);
+    return { ok: false, message: 'Ошибка сети при загрузке приглашений.' };
+  }
+}
+
+/**
+ * Ask the server to reward whoever invited this account. It only pays out
+ * once the email is confirmed, so the app asks once per page load.
+ */
+export function settleReferralOnce(): void {
+  if (settleRequested) return;
+  settleRequested = true;
+  void fetch(REFERRALS_ENDPOINT, { method: 'POST' }).catch((error) => {
+    console.warn('[referralsClient] settleReferral failed', error);
+  });
+}
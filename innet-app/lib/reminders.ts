@@ -1,17 +1,52 @@
+import { readValue, writeValue } from './repository';
 import type { Contact } from './storage';
 
 export type ReminderCadenceUnit = 'week' | 'month';
 
+export type ReminderCadence = {
+  value: number;
+  unit: ReminderCadenceUnit;
+};
+
+/**
+ * Where a contact's cadence comes from: its own override, an override on
+ * one of its tags, or the global `ReminderSettings.cadence`.
+ */
+export type ReminderCadenceSource = 'contact' | 'tag' | 'global';
+
+export type ResolvedReminderCadence = {
+  cadence: ReminderCadence;
+  source: ReminderCadenceSource;
+  /** Label of the tag the cadence was taken from. */
+  tagLabel?: string;
+};
+
+/**
+ * How due reminders reach the user. `browser` fires only while a tab is
+ * open; the other channels are delivered by the server
+ * (`lib/server/reminderDelivery.ts`) even when the app is closed.
+ */
+export type ReminderChannel = 'browser' | 'push' | 'email' | 'telegram';
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ['browser', 'push', 'email', 'telegram'];
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  browser: 'Во вкладке браузера',
+  push: 'Push-уведомления',
+  email: 'Письмо на почту',
+  telegram: 'Telegram-бот',
+};
+
 export type ReminderSettings = {
   enabled: boolean;
-  cadence: {
-    value: number;
-    unit: ReminderCadenceUnit;
-  };
+  cadence: ReminderCadence;
   /**
    * Percentage (0..1) used to randomise the interval around the baseline.
    */
   jitterPercent?: number;
+  channel?: ReminderChannel;
+  /** Upcoming reminders are published as an iCalendar feed (`/api/reminders/calendar`). */
+  calendarFeed?: boolean;
 };
 
 export type ContactReminderSchedule = {
@@ -20,6 +55,24 @@ export type ContactReminderSchedule = {
   nextReminderAt: number | null;
   lastNotifiedAt?: number | null;
   disabled?: boolean;
+  /**
+   * Cadence the schedule was planned with, resolved from the contact and
+   * its tags. The server reschedules deliveries with it.
+   */
+  cadence?: ReminderCadence;
+  /** Newest logged interaction the schedule was reset for. */
+  lastInteractionAt?: number | null;
+  /**
+   * When the reminder was last marked done from a push, email or Telegram
+   * notification. Devices log it as a `reminder` interaction on sync
+   * (`reminderInteractionId` keeps that idempotent).
+   */
+  actedAt?: number | null;
+  /**
+   * Last change made on a device or by the server (delivery, snooze and
+   * "done" from a notification). Schedules merge newest-wins on this.
+   */
+  updatedAt?: number;
 };
 
 export type ReminderState = {
@@ -33,6 +86,8 @@ export type ReminderState = {
 export const REMINDER_SETTINGS_KEY = 'innet_reminder_settings';
 export const REMINDER_STATE_KEY = 'innet_reminder_state';
 export const REMINDER_SETTINGS_UPDATED_EVENT = 'innet-reminder-settings-updated';
+/** Reminders shown per day at most, in the tab and by the server alike. */
+export const REMINDER_DAILY_LIMIT = 2;
 
 const DEFAULT_JITTER_PERCENT = 0.35;
 const MAX_WEEKS = 12;
@@ -45,6 +100,7 @@ export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
     unit: 'week',
   },
   jitterPercent: DEFAULT_JITTER_PERCENT,
+  channel: 'browser',
 };
 
 export const DEFAULT_REMINDER_STATE: ReminderState = {
@@ -54,10 +110,6 @@ export const DEFAULT_REMINDER_STATE: ReminderState = {
 
 export function normalizeReminderSettings(raw: ReminderSettings | null | undefined): ReminderSettings {
   const base = raw ?? DEFAULT_REMINDER_SETTINGS;
-  const unit = base.cadence?.unit === 'month' ? 'month' : 'week';
-  const rawValue = Number(base.cadence?.value ?? DEFAULT_REMINDER_SETTINGS.cadence.value);
-  const maxValue = unit === 'week' ? MAX_WEEKS : MAX_MONTHS;
-  const value = clamp(Math.round(rawValue) || DEFAULT_REMINDER_SETTINGS.cadence.value, 1, maxValue);
   const jitter =
     typeof base.jitterPercent === 'number' && base.jitterPercent > 0
       ? Math.min(base.jitterPercent, 0.75)
@@ -65,41 +117,122 @@ export function normalizeReminderSettings(raw: ReminderSettings | null | undefin
 
   return {
     enabled: Boolean(base.enabled),
-    cadence: { unit, value },
+    cadence: normalizeReminderCadence(base.cadence) ?? DEFAULT_REMINDER_SETTINGS.cadence,
     jitterPercent: jitter,
+    channel: REMINDER_CHANNELS.find((channel) => channel === base.channel) ?? 'browser',
+    calendarFeed: base.calendarFeed === true,
   };
 }
 
+/** Clamp a stored cadence to 1..12 weeks or months; null when it is missing. */
+export function normalizeReminderCadence(raw: unknown): ReminderCadence | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as { value?: unknown; unit?: unknown };
+  const unit: ReminderCadenceUnit = record.unit === 'month' ? 'month' : 'week';
+  const rawValue = Math.round(Number(record.value));
+  if (!rawValue) return null;
+  const maxValue = unit === 'week' ? MAX_WEEKS : MAX_MONTHS;
+  return { unit, value: clamp(rawValue, 1, maxValue) };
+}
+
+export function isSameReminderCadence(a: ReminderCadence | undefined, b: ReminderCadence | undefined): boolean {
+  return a?.unit === b?.unit && a?.value === b?.value;
+}
+
+/**
+ * Cadence for one contact: its own override, else the most frequent
+ * override among its tags, else the global setting.
+ */
+export function resolveContactCadence(contact: Contact, settings: ReminderSettings): ResolvedReminderCadence {
+  if (contact.reminderCadence) {
+    return { cadence: contact.reminderCadence, source: 'contact' };
+  }
+  const tagged = contact.tags
+    .filter((tag) => tag.reminderCadence)
+    .sort(
+      (a, b) =>
+        computeCadenceIntervalMs(a.reminderCadence as ReminderCadence) -
+        computeCadenceIntervalMs(b.reminderCadence as ReminderCadence)
+    )[0];
+  if (tagged?.reminderCadence) {
+    return { cadence: tagged.reminderCadence, source: 'tag', tagLabel: tagged.label };
+  }
+  return { cadence: normalizeReminderSettings(settings).cadence, source: 'global' };
+}
+
+export function isServerReminderChannel(channel: ReminderChannel | undefined): boolean {
+  return channel != null && channel !== 'browser';
+}
+
+/** Whether the server needs this device's schedules: to deliver them or to publish the calendar feed. */
+export function needsServerSchedules(settings: ReminderSettings): boolean {
+  return isServerReminderChannel(settings.channel) || settings.calendarFeed === true;
+}
+
+export function normalizeReminderSchedules(raw: unknown): ContactReminderSchedule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const record = item as Record<string, unknown>;
+    if (typeof record.contactId !== 'string' || !record.contactId) return [];
+    return [
+      {
+        contactId: record.contactId,
+        contactName:
+          typeof record.contactName === 'string' && record.contactName ? record.contactName : 'Контакт',
+        nextReminderAt: ensureNumberOrNull(record.nextReminderAt),
+        lastNotifiedAt: ensureNumberOrNull(record.lastNotifiedAt),
+        disabled: record.disabled === true,
+        cadence: normalizeReminderCadence(record.cadence) ?? undefined,
+        lastInteractionAt: ensureNumberOrNull(record.lastInteractionAt),
+        actedAt: ensureNumberOrNull(record.actedAt),
+        updatedAt: ensureNumberOrNull(record.updatedAt) ?? 0,
+      },
+    ];
+  });
+}
+
+/**
+ * Merge two schedule lists: membership follows `primary` (the device that
+ * knows which contacts exist), values follow whichever side changed last.
+ * `actedAt` keeps the newer value from either side, so a device that changed
+ * the schedule before it heard of a "done" does not drop it.
+ */
+export function mergeReminderSchedules(
+  primary: ContactReminderSchedule[],
+  secondary: ContactReminderSchedule[]
+): ContactReminderSchedule[] {
+  const other = new Map(secondary.map((schedule) => [schedule.contactId, schedule]));
+  return primary.map((schedule) => {
+    const counterpart = other.get(schedule.contactId);
+    if (!counterpart) return schedule;
+    const newer = (counterpart.updatedAt ?? 0) > (schedule.updatedAt ?? 0) ? counterpart : schedule;
+    const actedAt = Math.max(schedule.actedAt ?? 0, counterpart.actedAt ?? 0) || null;
+    return actedAt === (newer.actedAt ?? null) ? newer : { ...newer, actedAt };
+  });
+}
+
+/** Id of the interaction a server-side "done" becomes, the same on every device. */
+export function reminderInteractionId(actedAt: number): string {
+  return `reminder-${actedAt}`;
+}
+
 export function loadReminderSettings(): ReminderSettings {
   if (typeof window === 'undefined') return DEFAULT_REMINDER_SETTINGS;
-  try {
-    const raw = window.localStorage.getItem(REMINDER_SETTINGS_KEY);
-    if (!raw) return DEFAULT_REMINDER_SETTINGS;
-    const parsed = JSON.parse(raw) as ReminderSettings | null;
-    return normalizeReminderSettings(parsed ?? undefined);
-  } catch (error) {
-    console.error('[reminders] Failed to parse reminder settings', error);
-    return DEFAULT_REMINDER_SETTINGS;
-  }
+  const stored = readValue<ReminderSettings | null>(REMINDER_SETTINGS_KEY);
+  return stored ? normalizeReminderSettings(stored) : DEFAULT_REMINDER_SETTINGS;
 }
 
 export function saveReminderSettings(settings: ReminderSettings): void {
   if (typeof window === 'undefined') return;
   const normalized = normalizeReminderSettings(settings);
-  window.localStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify(normalized));
+  writeValue(REMINDER_SETTINGS_KEY, normalized);
 }
 
 export function loadReminderState(): ReminderState {
   if (typeof window === 'undefined') return DEFAULT_REMINDER_STATE;
-  try {
-    const raw = window.localStorage.getItem(REMINDER_STATE_KEY);
-    if (!raw) return DEFAULT_REMINDER_STATE;
-    const parsed = JSON.parse(raw) as ReminderState | LegacyReminderState | null;
-    return migrateReminderState(parsed ?? null);
-  } catch (error) {
-    console.error('[reminders] Failed to parse reminder state', error);
-    return DEFAULT_REMINDER_STATE;
-  }
+  const stored = readValue<ReminderState | LegacyReminderState | null>(REMINDER_STATE_KEY);
+  return stored ? migrateReminderState(structuredClone(stored)) : DEFAULT_REMINDER_STATE;
 }
 
 export function saveReminderState(state: ReminderState): void {
@@ -108,15 +241,20 @@ export function saveReminderState(state: ReminderState): void {
     contactSchedules: state.contactSchedules ?? {},
     dailyReminderLog: state.dailyReminderLog ?? {},
   };
-  window.localStorage.setItem(REMINDER_STATE_KEY, JSON.stringify(payload));
+  writeValue(REMINDER_STATE_KEY, payload);
 }
 
+/**
+ * Next reminder time, `cadence` (defaults to the global one) plus the
+ * settings' jitter and a random time of day.
+ */
 export function computeNextReminderTimestamp(
   settings: ReminderSettings,
-  referenceDate = Date.now()
+  referenceDate = Date.now(),
+  cadence?: ReminderCadence
 ): number {
   const normalized = normalizeReminderSettings(settings);
-  const base = computeBaseIntervalMs(normalized);
+  const base = computeCadenceIntervalMs(cadence ?? normalized.cadence);
   const jitter = normalized.jitterPercent ?? DEFAULT_JITTER_PERCENT;
   const factor = randomBetween(1 - jitter, 1 + jitter);
   const daytimeOffset = randomBetween(2 * HOUR, 18 * HOUR);
@@ -138,20 +276,41 @@ export function ensureScheduleForContact(
   settings: ReminderSettings,
   referenceDate = Date.now()
 ): ContactReminderSchedule {
+  const { cadence } = resolveContactCadence(contact, settings);
+  const touchedAt = contact.interactions?.[0]?.at ?? null;
   const existing = state.contactSchedules[contact.id];
   if (existing) {
     // Обновим имя, если оно изменилось.
     if (existing.contactName !== contact.name) {
       existing.contactName = contact.name;
     }
+    // Schedules from before per-contact cadences were planned with the global one.
+    const plannedWith = existing.cadence ?? normalizeReminderSettings(settings).cadence;
+    if (!isSameReminderCadence(plannedWith, cadence)) {
+      if (!existing.disabled) {
+        existing.nextReminderAt = computeNextReminderTimestamp(settings, referenceDate, cadence);
+      }
+    }
+    if (!isSameReminderCadence(existing.cadence, cadence)) {
+      existing.cadence = cadence;
+    }
+    // A newly logged interaction restarts the countdown from that moment.
+    if (touchedAt != null && touchedAt > (existing.lastInteractionAt ?? 0)) {
+      existing.lastInteractionAt = touchedAt;
+      if (!existing.disabled) {
+        existing.nextReminderAt = computeNextReminderTimestamp(settings, touchedAt, cadence);
+      }
+    }
     return existing;
   }
   const schedule: ContactReminderSchedule = {
     contactId: contact.id,
     contactName: contact.name,
-    nextReminderAt: computeNextReminderTimestamp(settings, referenceDate),
+    nextReminderAt: computeNextReminderTimestamp(settings, referenceDate, cadence),
     lastNotifiedAt: null,
     disabled: false,
+    cadence,
+    lastInteractionAt: touchedAt,
   };
   state.contactSchedules[contact.id] = schedule;
   return schedule;
@@ -206,7 +365,10 @@ export function formatDayKey(timestamp = Date.now()): string {
 }
 
 export function computeBaseIntervalMs(settings: ReminderSettings): number {
-  const cadence = settings.cadence ?? DEFAULT_REMINDER_SETTINGS.cadence;
+  return computeCadenceIntervalMs(settings.cadence ?? DEFAULT_REMINDER_SETTINGS.cadence);
+}
+
+export function computeCadenceIntervalMs(cadence: ReminderCadence): number {
   const value = Math.max(1, Math.round(cadence.value));
   if (cadence.unit === 'month') {
     return value * APPROX_MONTH;
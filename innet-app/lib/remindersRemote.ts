@@ -0,0 +1,139 @@
+import {
+  normalizeReminderSchedules,
+  type ContactReminderSchedule,
+  type ReminderChannel,
+  type ReminderSettings,
+} from './reminders';
+
+/** What a delivered reminder lets the user do without opening the app. */
+export type ReminderAction = 'done' | 'snooze' | 'disable';
+
+export const REMINDER_ACTIONS: ReminderAction[] = ['done', 'snooze', 'disable'];
+
+/** The account's server-side delivery setup, as `/api/reminders` reports it. */
+export type ReminderDelivery = {
+  channel: ReminderChannel;
+  settings: ReminderSettings;
+  email: string | null;
+  pushSubscribed: boolean;
+  telegramLinked: boolean;
+  /** Which server channels this deployment has credentials for. */
+  available: Record<Exclude<ReminderChannel, 'browser'>, boolean>;
+  vapidPublicKey: string | null;
+  /** Secret iCalendar feed URL of upcoming reminders; null while the feed is off. */
+  calendarFeedUrl: string | null;
+};
+
+type RemoteError = { ok: false; message: string };
+
+export type ReminderDeliveryResponse = { ok: true; delivery: ReminderDelivery } | RemoteError;
+
+export type ReminderDeliverySaveResponse =
+  | { ok: true; delivery: ReminderDelivery; telegramLink: string | null }
+  | RemoteError;
+
+/** `enable` keeps an existing feed URL, `rotate` issues a new one, `disable` revokes it. */
+export type ReminderCalendarAction = 'enable' | 'rotate' | 'disable';
+
+export type ReminderSchedulesResponse = { ok: true; schedules: ContactReminderSchedule[] } | RemoteError;
+
+const REMINDERS_ENDPOINT = '/api/reminders';
+const CALENDAR_ENDPOINT = '/api/reminders/calendar';
+
+async function request<T extends { ok: boolean }>(
+  init: RequestInit,
+  fallback: string,
+  endpoint = REMINDERS_ENDPOINT
+): Promise<T | RemoteError> {
+  try {
+    const response = await fetch(endpoint, {
+      ...init,
+      headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+    });
+    const payload = (await response.json()) as T | RemoteError;
+    if (!response.ok || !payload.ok) {
+      return { ok: false, message: ('message' in payload && payload.message) || fallback };
+    }
+    return payload;
+  } catch (error) {
+    console.error('[remindersRemote] Request failed', error);
+    return { ok: false, message: 'Ошибка сети при работе с напоминаниями.' };
+  }
+}
+
+export function fetchReminderDelivery(): Promise<ReminderDeliveryResponse> {
+  return request({ method: 'GET' }, 'Не удалось загрузить настройки напоминаний.');
+}
+
+export function saveReminderDelivery(update: {
+  channel: ReminderChannel;
+  settings: ReminderSettings;
+  email?: string | null;
+  subscription?: PushSubscriptionJSON | null;
+}): Promise<ReminderDeliverySaveResponse> {
+  return request(
+    { method: 'POST', body: JSON.stringify(update) },
+    'Не удалось сохранить способ доставки напоминаний.'
+  );
+}
+
+export function updateReminderCalendarFeed(action: ReminderCalendarAction): Promise<ReminderDeliveryResponse> {
+  return request(
+    { method: 'POST', body: JSON.stringify({ action }) },
+    'Не удалось обновить ссылку на календарь.',
+    CALENDAR_ENDPOINT
+  );
+}
+
+/**
+ * Upload this device's schedules; the server merges them with snoozes and
+ * deliveries made while the app was closed and returns the result.
+ */
+export async function pushReminderSchedules(
+  schedules: ContactReminderSchedule[]
+): Promise<ReminderSchedulesResponse> {
+  const result = await request<ReminderSchedulesResponse>(
+    { method: 'PUT', body: JSON.stringify({ schedules }) },
+    'Не удалось синхронизировать расписание напоминаний.'
+  );
+  return result.ok ? { ok: true, schedules: normalizeReminderSchedules(result.schedules) } : result;
+}
+
+/**
+ * Subscribe this browser to Web Push with the server's VAPID key. Needs
+ * the service worker, which is only registered in production builds.
+ */
+export async function subscribeToReminderPush(
+  vapidPublicKey: string
+): Promise<{ ok: true; subscription: PushSubscriptionJSON } | RemoteError> {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator) || !('PushManager' in window)) {
+    return { ok: false, message: 'Этот браузер не поддерживает push-уведомления.' };
+  }
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    return { ok: false, message: 'Push-уведомления доступны в установленной версии приложения.' };
+  }
+  try {
+    const existing = await registration.pushManager.getSubscription();
+    const subscription =
+      existing ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeBase64Url(vapidPublicKey),
+      }));
+    return { ok: true, subscription: subscription.toJSON() };
+  } catch (error) {
+    console.warn('[remindersRemote] Push subscription failed', error);
+    return { ok: false, message: 'Не удалось подписаться на push. Разрешите уведомления для сайта.' };
+  }
+}
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
@@ -0,0 +1,412 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Contact } from './storage';
+
+/**
+ * IndexedDB-backed persistence for the larger client data. Every store is
+ * mirrored in memory once `hydrateRepository()` resolves, so `storage.ts`
+ * keeps its synchronous API while writes only touch the records that
+ * changed. Returned records are the cache itself: copy before mutating.
+ */
+
+export type RepositoryCollection = 'contacts' | 'factGroups' | 'users';
+
+/** Single values; the names are the localStorage keys they lived under. */
+export type RepositoryValueKey =
+  | 'innet_contacts_deleted'
+  | 'innet_reminder_settings'
+  | 'innet_reminder_state'
+  | 'innet_token_balance';
+
+export type RepositoryStore = RepositoryCollection | RepositoryValueKey;
+
+export type RepositoryChangedDetail = {
+  store: RepositoryStore;
+  /** `tab` when another tab wrote the change. */
+  source: 'local' | 'tab';
+};
+
+declare global {
+  interface WindowEventMap {
+    'innet-repository-changed': CustomEvent<RepositoryChangedDetail>;
+  }
+}
+
+export const REPOSITORY_CHANGED_EVENT = 'innet-repository-changed';
+
+export const REPOSITORY_VALUE_KEYS: RepositoryValueKey[] = [
+  'innet_contacts_deleted',
+  'innet_reminder_settings',
+  'innet_reminder_state',
+  'innet_token_balance',
+];
+
+type Identified = { id: string };
+
+type StoredRecord = {
+  id: string;
+  value: Identified;
+  remoteId?: string;
+  connectedAt?: number;
+  tags?: string[];
+  email?: string;
+};
+
+type CollectionCache = { order: string[]; byId: Map<string, Identified> };
+
+const DB_NAME = 'innet';
+const DB_VERSION = 1;
+const VALUE_STORE = 'values';
+const ORDER_PREFIX = 'order:';
+const MIGRATED_KEY = 'meta:migrated';
+const CHANNEL_NAME = 'innet-repository';
+const COLLECTIONS: RepositoryCollection[] = ['contacts', 'factGroups', 'users'];
+/** Where collections lived before; still used when IndexedDB cannot be opened. */
+const LEGACY_COLLECTION_KEYS: Record<RepositoryCollection, string> = {
+  contacts: 'innet_contacts',
+  factGroups: 'innet_fact_groups',
+  users: 'innet_users',
+};
+
+const collections = new Map<RepositoryCollection, CollectionCache>(
+  COLLECTIONS.map((name) => [name, { order: [], byId: new Map() }])
+);
+const values = new Map<RepositoryValueKey, unknown>();
+let database: IDBDatabase | null = null;
+let channel: BroadcastChannel | null = null;
+let ready = false;
+let hydration: Promise<void> | null = null;
+const deferredWrites: Array<() => void> = [];
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function indexFields(name: RepositoryCollection, record: Identified): Omit<StoredRecord, 'id' | 'value'> {
+  if (name === 'contacts') {
+    const contact = record as Contact;
+    return {
+      remoteId: contact.remoteId,
+      connectedAt: contact.connectedAt,
+      tags: Array.isArray(contact.tags)
+        ? contact.tags.flatMap((tag) => (typeof tag?.label === 'string' ? [tag.label.toLowerCase()] : []))
+        : [],
+    };
+  }
+  if (name === 'users') {
+    const email = (record as { email?: unknown }).email;
+    return typeof email === 'string' ? { email: email.toLowerCase() } : {};
+  }
+  return {};
+}
+
+function toStored(name: RepositoryCollection, record: Identified): StoredRecord {
+  return { id: record.id, value: record, ...indexFields(name, record) };
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!('indexedDB' in window)) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const contacts = db.createObjectStore('contacts', { keyPath: 'id' });
+      contacts.createIndex('remoteId', 'remoteId');
+      contacts.createIndex('connectedAt', 'connectedAt');
+      contacts.createIndex('tags', 'tags', { multiEntry: true });
+      db.createObjectStore('factGroups', { keyPath: 'id' });
+      const users = db.createObjectStore('users', { keyPath: 'id' });
+      users.createIndex('email', 'email');
+      db.createObjectStore(VALUE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('[repository] IndexedDB unavailable, staying on localStorage', request.error);
+      resolve(null);
+    };
+  });
+}
+
+function parseLegacy(raw: string | null): unknown {
+  if (raw == null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function legacyRecords(name: RepositoryCollection): Identified[] {
+  const raw = parseLegacy(localStorage.getItem(LEGACY_COLLECTION_KEYS[name]));
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+    .map((item) => (typeof item.id === 'string' ? (item as Identified) : { ...item, id: uuidv4() }));
+}
+
+/** One-time copy of the `innet_*` localStorage keys; they are removed once the copy is committed. */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const check = db.transaction(VALUE_STORE, 'readonly');
+  if (await requestResult(check.objectStore(VALUE_STORE).get(MIGRATED_KEY))) return;
+
+  const transaction = db.transaction([...COLLECTIONS, VALUE_STORE], 'readwrite');
+  const valueStore = transaction.objectStore(VALUE_STORE);
+  COLLECTIONS.forEach((name) => {
+    const records = legacyRecords(name);
+    const store = transaction.objectStore(name);
+    records.forEach((record) => store.put(toStored(name, record)));
+    valueStore.put(
+      records.map((record) => record.id),
+      ORDER_PREFIX + name
+    );
+  });
+  REPOSITORY_VALUE_KEYS.forEach((key) => {
+    const value = parseLegacy(localStorage.getItem(key));
+    if (value !== undefined) valueStore.put(value, key);
+  });
+  valueStore.put(Date.now(), MIGRATED_KEY);
+  await transactionDone(transaction);
+
+  [...Object.values(LEGACY_COLLECTION_KEYS), ...REPOSITORY_VALUE_KEYS].forEach((key) =>
+    localStorage.removeItem(key)
+  );
+}
+
+async function loadCollection(db: IDBDatabase, name: RepositoryCollection): Promise<CollectionCache> {
+  const transaction = db.transaction([name, VALUE_STORE], 'readonly');
+  const [rows, storedOrder] = await Promise.all([
+    requestResult(transaction.objectStore(name).getAll() as IDBRequest<StoredRecord[]>),
+    requestResult(transaction.objectStore(VALUE_STORE).get(ORDER_PREFIX + name) as IDBRequest<unknown>),
+  ]);
+  const byId = new Map(rows.map((row) => [row.id, row.value]));
+  const order = Array.isArray(storedOrder)
+    ? storedOrder.filter((id): id is string => typeof id === 'string' && byId.has(id))
+    : [];
+  const listed = new Set(order);
+  rows.forEach((row) => {
+    if (!listed.has(row.id)) order.push(row.id);
+  });
+  return { order, byId };
+}
+
+async function loadValue(db: IDBDatabase, key: RepositoryValueKey): Promise<unknown> {
+  return requestResult(db.transaction(VALUE_STORE, 'readonly').objectStore(VALUE_STORE).get(key));
+}
+
+function loadLegacyCache(): void {
+  COLLECTIONS.forEach((name) => {
+    const records = legacyRecords(name);
+    collections.set(name, {
+      order: records.map((record) => record.id),
+      byId: new Map(records.map((record) => [record.id, record])),
+    });
+  });
+  REPOSITORY_VALUE_KEYS.forEach((key) => {
+    values.set(key, parseLegacy(localStorage.getItem(key)));
+  });
+}
+
+function emitChange(store: RepositoryStore, source: RepositoryChangedDetail['source']): void {
+  window.dispatchEvent(
+    new CustomEvent<RepositoryChangedDetail>(REPOSITORY_CHANGED_EVENT, { detail: { store, source } })
+  );
+}
+
+async function reloadFromOtherTab(store: RepositoryStore): Promise<void> {
+  if (!database) return;
+  if ((COLLECTIONS as string[]).includes(store)) {
+    collections.set(store as RepositoryCollection, await loadCollection(database, store as RepositoryCollection));
+  } else {
+    values.set(store as RepositoryValueKey, await loadValue(database, store as RepositoryValueKey));
+  }
+  emitChange(store, 'tab');
+}
+
+/**
+ * Open the database, migrate legacy localStorage data on first run and
+ * fill the in-memory cache. Safe to call repeatedly; resolves immediately
+ * on the server.
+ */
+export function hydrateRepository(): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+  if (!hydration) {
+    hydration = (async () => {
+      try {
+        database = await openDatabase();
+        if (database) {
+          const db = database;
+          await migrateFromLocalStorage(db);
+          for (const name of COLLECTIONS) {
+            collections.set(name, await loadCollection(db, name));
+          }
+          for (const key of REPOSITORY_VALUE_KEYS) {
+            values.set(key, await loadValue(db, key));
+          }
+          if ('BroadcastChannel' in window) {
+            channel = new BroadcastChannel(CHANNEL_NAME);
+            channel.onmessage = (event: MessageEvent<{ store: RepositoryStore }>) => {
+              void reloadFromOtherTab(event.data.store).catch((error) =>
+                console.warn('[repository] Failed to reload a store changed in another tab', error)
+              );
+            };
+          }
+        } else {
+          loadLegacyCache();
+        }
+      } catch (error) {
+        console.error('[repository] Hydration failed, falling back to localStorage', error);
+        database = null;
+        loadLegacyCache();
+      }
+      ready = true;
+      deferredWrites.splice(0).forEach((write) => write());
+    })();
+  }
+  return hydration;
+}
+
+/**
+ * Writes issued before hydration cannot know what is stored yet, so they
+ * are replayed afterwards as upserts and never delete anything.
+ */
+function whenReady(write: (deferred: boolean) => void): void {
+  if (typeof window === 'undefined') return;
+  if (ready) {
+    write(false);
+    return;
+  }
+  deferredWrites.push(() => write(true));
+}
+
+function persistCollection(
+  name: RepositoryCollection,
+  puts: Identified[],
+  deletes: string[],
+  order: string[] | null
+): void {
+  if (!database) {
+    try {
+      localStorage.setItem(LEGACY_COLLECTION_KEYS[name], JSON.stringify(readCollection(name)));
+    } catch (error) {
+      console.error(`[repository] Failed to save ${name}`, error);
+    }
+    return;
+  }
+  const transaction = database.transaction([name, VALUE_STORE], 'readwrite');
+  const store = transaction.objectStore(name);
+  puts.forEach((record) => store.put(toStored(name, record)));
+  deletes.forEach((id) => store.delete(id));
+  if (order) {
+    transaction.objectStore(VALUE_STORE).put(order, ORDER_PREFIX + name);
+  }
+  transactionDone(transaction)
+    .then(() => channel?.postMessage({ store: name }))
+    .catch((error) => console.error(`[repository] Failed to save ${name}`, error));
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+export function readCollection<T extends Identified>(name: RepositoryCollection): T[] {
+  const cache = collections.get(name);
+  if (!cache) return [];
+  return cache.order.map((id) => cache.byId.get(id) as T);
+}
+
+/** Replace a collection; only records that differ from the cache are written. */
+export function writeCollection<T extends Identified>(name: RepositoryCollection, records: T[]): void {
+  whenReady((deferred) => {
+    const cache = collections.get(name);
+    if (!cache) return;
+    const changed = records.filter((record) => {
+      const previous = cache.byId.get(record.id);
+      return !previous || JSON.stringify(previous) !== JSON.stringify(record);
+    });
+    const nextIds = new Set(records.map((record) => record.id));
+    const removed = deferred ? [] : cache.order.filter((id) => !nextIds.has(id));
+    const order = deferred
+      ? [...cache.order, ...records.map((record) => record.id).filter((id) => !cache.byId.has(id))]
+      : records.map((record) => record.id);
+    const orderChanged = !sameOrder(order, cache.order);
+    if (!changed.length && !removed.length && !orderChanged) return;
+
+    changed.forEach((record) => cache.byId.set(record.id, record));
+    removed.forEach((id) => cache.byId.delete(id));
+    cache.order = order;
+    persistCollection(name, changed, removed, orderChanged ? order : null);
+    emitChange(name, 'local');
+  });
+}
+
+/** Insert or update one record in place, without touching the rest. */
+export function putRecord<T extends Identified>(name: RepositoryCollection, record: T): void {
+  whenReady(() => {
+    const cache = collections.get(name);
+    if (!cache) return;
+    const isNew = !cache.byId.has(record.id);
+    cache.byId.set(record.id, record);
+    if (isNew) {
+      cache.order = [...cache.order, record.id];
+    }
+    persistCollection(name, [record], [], isNew ? cache.order : null);
+    emitChange(name, 'local');
+  });
+}
+
+export function readValue<T>(key: RepositoryValueKey): T | undefined {
+  return values.get(key) as T | undefined;
+}
+
+export function writeValue(key: RepositoryValueKey, value: unknown): void {
+  whenReady(() => {
+    values.set(key, value);
+    if (!database) {
+      try {
+        if (value === undefined) {
+          localStorage.removeItem(key);
+        } else {
+          localStorage.setItem(key, JSON.stringify(value));
+        }
+      } catch (error) {
+        console.error(`[repository] Failed to save ${key}`, error);
+      }
+    } else {
+      const transaction = database.transaction(VALUE_STORE, 'readwrite');
+      transaction.objectStore(VALUE_STORE).put(value, key);
+      transactionDone(transaction)
+        .then(() => channel?.postMessage({ store: key }))
+        .catch((error) => console.error(`[repository] Failed to save ${key}`, error));
+    }
+    emitChange(key, 'local');
+  });
+}
+
+/**
+ * Look records up through an IndexedDB index (`remoteId`, `connectedAt`,
+ * `tags` on contacts; `email` on users). Resolves to null without
+ * IndexedDB, so callers can fall back to filtering the cached list.
+ */
+export async function queryIndex<T extends Identified>(
+  name: RepositoryCollection,
+  index: string,
+  query: IDBValidKey | IDBKeyRange
+): Promise<T[] | null> {
+  await hydrateRepository();
+  if (!database) return null;
+  const transaction = database.transaction(name, 'readonly');
+  const rows = await requestResult(
+    transaction.objectStore(name).index(index).getAll(query) as IDBRequest<StoredRecord[]>
+  );
+  return rows.map((row) => row.value as T);
+}
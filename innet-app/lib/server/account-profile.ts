@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { verifyProfileClaim, type SharePayload } from '../share';
+
+const TABLE_NAME = 'user_accounts';
+const KEYS_TABLE = 'share_keys';
+const EXCHANGE_TABLE = 'fact_exchanges';
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+/**
+ * The signing key the server already associates with `profileId`: the one
+ * bound in `share_keys`, else the key of its latest exchange payload.
+ * `undefined` means the id never reached the server; `null` means it did,
+ * but without a key it could be checked against.
+ */
+async function knownSigningKey(client: SupabaseClient, profileId: string): Promise<string | null | undefined> {
+  const { data: bound, error: boundError } = await client
+    .from(KEYS_TABLE)
+    .select('sign_public_key')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+  if (boundError) throw boundError;
+  if (bound) return bound.sign_public_key as string;
+
+  const [sent, received] = await Promise.all([
+    client
+      .from(EXCHANGE_TABLE)
+      .select('payload')
+      .eq('initiator_profile_id', profileId)
+      .order('created_at', { ascending: false })
+      .limit(1),
+    client.from(EXCHANGE_TABLE).select('id').eq('target_profile_id', profileId).limit(1),
+  ]);
+  if (sent.error || received.error) throw sent.error ?? received.error;
+  const payload = (sent.data?.[0]?.payload ?? null) as SharePayload | null;
+  if (typeof payload?.owner?.key === 'string') return payload.owner.key;
+  return sent.data?.length || received.data?.length ? null : undefined;
+}
+
+/**
+ * Pick the share profile id for an account. Profile ids are public — QR
+ * tokens and share links carry them — so the device's id is only kept when
+ * `claim` proves the device holds its signing key, the key matches the one
+ * the server already knows for the id, and no other account owns it.
+ * Otherwise a fresh id is generated.
+ */
+export async function resolveAccountProfileId(
+  client: SupabaseClient,
+  accountId: string,
+  claim: unknown
+): Promise<string> {
+  const verified = verifyProfileClaim(claim);
+  if (!verified || !PROFILE_ID_PATTERN.test(verified.profileId)) {
+    return uuidv4();
+  }
+  const candidate = verified.profileId;
+
+  try {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select('id')
+      .eq('profile_id', candidate)
+      .maybeSingle();
+    if (error) throw error;
+    if (data && data.id !== accountId) return uuidv4();
+
+    const knownKey = await knownSigningKey(client, candidate);
+    return knownKey === undefined || knownKey === verified.key ? candidate : uuidv4();
+  } catch (error) {
+    console.warn('[account-profile] Failed to check profile id owner', error);
+    return uuidv4();
+  }
+}
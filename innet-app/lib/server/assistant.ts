@@ -0,0 +1,202 @@
+import {
+  buildAssistantPrompt,
+  buildTemplateSuggestions,
+  parseAssistantReply,
+  type AiSuggestion,
+  type AssistantContact,
+  type AssistantMessage,
+  type AssistantSource,
+} from '../assistant';
+import { PLAN_ENTITLEMENTS, type PlanId } from '../plans';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+
+/**
+ * LLM providers for `/api/assistant`, picked by `ASSISTANT_PROVIDER`:
+ * `openai` — any OpenAI-compatible `/chat/completions` API
+ * (`ASSISTANT_API_URL`, `ASSISTANT_API_KEY`, `ASSISTANT_MODEL`); `local` —
+ * an Ollama-style `/api/chat` endpoint without a key; `mock` — a canned
+ * reply built from the prompt, for working offline. Anything else means
+ * no provider and the templates from `lib/assistant.ts` are used.
+ */
+
+export type AssistantProviderId = 'openai' | 'local' | 'mock';
+
+type AssistantProvider = {
+  id: AssistantProviderId;
+  /** Raw reply text; `parseAssistantReply` turns it into suggestions. */
+  complete(messages: AssistantMessage[], signal: AbortSignal): Promise<string>;
+};
+
+const ACCOUNTS_TABLE = 'user_accounts';
+const CLAIM_FUNCTION = 'claim_assistant_request';
+/** Suggestion requests per account per UTC day; each may cost a provider call. */
+export const ASSISTANT_DAILY_LIMIT = 50;
+/** Provider error bodies can echo the prompt or be whole HTML pages; only this much reaches the logs. */
+const ERROR_BODY_LIMIT = 300;
+const DEFAULT_OPENAI_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_LOCAL_URL = 'http://localhost:11434';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const PROVIDER_TIMEOUT_MS = 20_000;
+const TEMPERATURE = 0.7;
+
+function baseUrl(fallback: string): string {
+  return (process.env.ASSISTANT_API_URL || fallback).replace(/\/$/, '');
+}
+
+async function readJson(response: Response, provider: AssistantProviderId): Promise<unknown> {
+  if (!response.ok) {
+    const body = (await response.text().catch(() => '')).slice(0, ERROR_BODY_LIMIT);
+    throw new Error(`[assistant] ${provider} provider responded ${response.status}: ${body}`);
+  }
+  return response.json();
+}
+
+const openAiProvider: AssistantProvider = {
+  id: 'openai',
+  async complete(messages, signal) {
+    const response = await fetch(`${baseUrl(DEFAULT_OPENAI_URL)}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.ASSISTANT_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: process.env.ASSISTANT_MODEL || DEFAULT_OPENAI_MODEL,
+        messages,
+        temperature: TEMPERATURE,
+        response_format: { type: 'json_object' },
+      }),
+      signal,
+    });
+    const data = (await readJson(response, 'openai')) as {
+      choices?: { message?: { content?: unknown } }[];
+    };
+    const content = data.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content : '';
+  },
+};
+
+const localProvider: AssistantProvider = {
+  id: 'local',
+  async complete(messages, signal) {
+    const response = await fetch(`${baseUrl(DEFAULT_LOCAL_URL)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: process.env.ASSISTANT_MODEL || DEFAULT_LOCAL_MODEL,
+        messages,
+        stream: false,
+        format: 'json',
+        options: { temperature: TEMPERATURE },
+      }),
+      signal,
+    });
+    const data = (await readJson(response, 'local')) as { message?: { content?: unknown } };
+    const content = data.message?.content;
+    return typeof content === 'string' ? content : '';
+  },
+};
+
+/** Echoes the first fact and tag from the prompt so the whole pipeline can be exercised offline. */
+const mockProvider: AssistantProvider = {
+  id: 'mock',
+  async complete(messages) {
+    const prompt = messages.find((message) => message.role === 'user')?.content ?? '';
+    const name = /^Контакт: (.+)$/m.exec(prompt)?.[1]?.split(/\s+/)[0] ?? 'друг';
+    const fact = /^- (.+)$/m.exec(prompt)?.[1];
+    const tags = /^Теги: (.+)$/m.exec(prompt)?.[1];
+    return JSON.stringify({
+      suggestions: [
+        { tone: 'friendly', title: 'Мягкое касание', text: `Привет, ${name}! Давно не общались, как ты?` },
+        {
+          tone: 'catch-up',
+          title: 'Продолжить разговор',
+          text: fact ? `Вспомнил, что ${fact}. Как с этим сейчас?` : 'Как продвигается то, о чём мы говорили?',
+        },
+        {
+          tone: 'meetup',
+          title: 'Предложить встречу',
+          text: tags ? `Давай созвонимся на неделе — есть что обсудить про ${tags}.` : 'Давай выпьем кофе на неделе?',
+        },
+      ],
+    });
+  },
+};
+
+function getAssistantProvider(): AssistantProvider | null {
+  switch (process.env.ASSISTANT_PROVIDER) {
+    case 'openai':
+      if (!process.env.ASSISTANT_API_KEY) {
+        console.warn('[assistant] ASSISTANT_API_KEY is not configured, using templates');
+        return null;
+      }
+      return openAiProvider;
+    case 'local':
+      return localProvider;
+    case 'mock':
+      return mockProvider;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether the account's plan includes AI suggestions, judged by the plan
+ * the server stored: only payments and renewals write `user_accounts.plan`
+ * and `planExpiresAt`, account updates from the client cannot. Without
+ * Supabase the plan cannot be checked and local setups are let through.
+ */
+export async function isAssistantAllowed(userId: string): Promise<boolean> {
+  const client = getSupabaseAdminClient();
+  if (!client) return true;
+
+  const { data, error } = await client.from(ACCOUNTS_TABLE).select('plan, data').eq('id', userId).maybeSingle();
+  if (error) {
+    console.error('[assistant] Failed to load the account plan', { userId, error });
+    return false;
+  }
+  const plan = (data?.plan ?? 'free') as PlanId;
+  const expiresAt = (data?.data as { planExpiresAt?: number | null } | null)?.planExpiresAt;
+  if (typeof expiresAt === 'number' && expiresAt < Date.now()) return false;
+  return PLAN_ENTITLEMENTS[plan]?.allowAiSuggestions ?? false;
+}
+
+/**
+ * Count one suggestion request against the account's daily quota. The
+ * check and the increment happen in one statement (`claim_assistant_request`),
+ * so parallel requests cannot overshoot. Without Supabase nothing is counted.
+ */
+export async function claimAssistantRequest(userId: string): Promise<boolean> {
+  const client = getSupabaseAdminClient();
+  if (!client) return true;
+
+  const { data, error } = await client.rpc(CLAIM_FUNCTION, {
+    p_user_id: userId,
+    p_limit: ASSISTANT_DAILY_LIMIT,
+  });
+  if (error) {
+    throw new Error(`[assistant] Failed to count the request: ${error.message}`);
+  }
+  return data === true;
+}
+
+/** Ask the configured provider; any failure falls back to the templates. */
+export async function generateAssistantSuggestions(
+  contact: AssistantContact
+): Promise<{ suggestions: AiSuggestion[]; source: AssistantSource }> {
+  const provider = getAssistantProvider();
+  if (provider) {
+    try {
+      const reply = await provider.complete(buildAssistantPrompt(contact), AbortSignal.timeout(PROVIDER_TIMEOUT_MS));
+      const suggestions = parseAssistantReply(reply, contact);
+      if (suggestions) {
+        return { suggestions, source: 'provider' };
+      }
+      console.warn('[assistant] Provider reply had no usable suggestions', { provider: provider.id });
+    } catch (error) {
+      console.warn('[assistant] Provider request failed', { provider: provider.id, error });
+    }
+  }
+  return { suggestions: buildTemplateSuggestions(contact), source: 'templates' };
+}
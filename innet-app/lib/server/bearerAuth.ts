@@ -0,0 +1,14 @@
+import type { NextApiRequest } from 'next';
+import crypto from 'node:crypto';
+
+/**
+ * Whether the request carries `Authorization: Bearer <secret>`. An unset
+ * secret never matches, so a missing environment variable locks the route.
+ */
+export function hasBearerSecret(req: NextApiRequest, secret: string | undefined): boolean {
+  if (!secret) return false;
+  const header = req.headers.authorization ?? '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(header);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,202 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ContactConnection } from '../storage';
+import type { SharePayload } from '../share';
+import { mapPrivacyLevel } from '../privacy';
+
+const EXCHANGE_TABLE = 'fact_exchanges';
+/** Neighbours kept per profile, and friends looked at per request. */
+const MAX_NEIGHBOURS = 500;
+/** Friends of friends whose names are looked up per request. */
+const MAX_CANDIDATES = 2000;
+/** Profile ids per `.in()` filter, so request URLs stay short. */
+const ID_CHUNK = 100;
+/** Rows per request; PostgREST cuts longer responses at 1000 by default. */
+const PAGE_SIZE = 1000;
+/** Rows one lookup reads at most, however dense the graph gets. */
+const MAX_ROWS = 20_000;
+/** Only exchanges the recipient merged link two profiles; `delivered` is the pre-inbox name for `accepted`. */
+const LINKED_STATUSES = ['accepted', 'delivered'];
+
+type ExchangeEdge = {
+  initiator_profile_id: string;
+  target_profile_id: string;
+};
+
+type ExchangeProfileRow = {
+  initiator_profile_id: string;
+  payload: SharePayload | null;
+};
+
+type PageResult<T> = { data: T[] | null; error: unknown };
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += ID_CHUNK) {
+    chunks.push(items.slice(index, index + ID_CHUNK));
+  }
+  return chunks;
+}
+
+/**
+ * Read `page(from, to)` range by range until it runs dry, `enough()` says
+ * so or `budget.rows` is spent. The budget is shared by all reads of one
+ * lookup, so a dense graph shortens the answer instead of the server's memory.
+ */
+async function readPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  budget: { rows: number },
+  onRows: (rows: T[]) => void,
+  enough: () => boolean
+): Promise<void> {
+  for (let from = 0; budget.rows > 0 && !enough(); from += PAGE_SIZE) {
+    const size = Math.min(PAGE_SIZE, budget.rows);
+    const { data, error } = await page(from, from + size - 1);
+    if (error) throw error;
+    const rows = data ?? [];
+    budget.rows -= rows.length;
+    onRows(rows);
+    if (rows.length < size) return;
+  }
+}
+
+/**
+ * Work out friend-of-friend links for `profileId` from `fact_exchanges`:
+ * if A exchanged with B and B with C, A's contact B lists C. Returns the
+ * connections keyed by B's profile id.
+ *
+ * C is only revealed when the latest payload C shared allows it: `public`
+ * and `second-degree` are visible to friends of friends, `direct-only`
+ * keeps C out of everyone else's graph. Profiles that never shared a
+ * payload are hidden too, since their preference is unknown.
+ */
+export async function loadSecondDegreeConnections(
+  client: SupabaseClient,
+  profileId: string
+): Promise<Record<string, ContactConnection[]>> {
+  const direct = await loadNeighbours(client, [profileId]);
+  const friends = Array.from(direct.get(profileId) ?? []).slice(0, MAX_NEIGHBOURS);
+  if (!friends.length) return {};
+
+  const friendNeighbours = await loadNeighbours(client, friends);
+  const candidateIds = new Set<string>();
+  friendNeighbours.forEach((ids) =>
+    ids.forEach((id) => {
+      if (candidateIds.size < MAX_CANDIDATES && id !== profileId) candidateIds.add(id);
+    })
+  );
+  if (!candidateIds.size) return {};
+
+  const visible = await loadVisibleProfiles(client, Array.from(candidateIds));
+  const result: Record<string, ContactConnection[]> = {};
+  friends.forEach((friendId) => {
+    const connections = Array.from(friendNeighbours.get(friendId) ?? [])
+      .filter((id) => id !== profileId && id !== friendId)
+      .map((id) => visible.get(id))
+      .filter((connection): connection is ContactConnection => Boolean(connection));
+    if (connections.length) {
+      result[friendId] = connections;
+    }
+  });
+  return result;
+}
+
+/**
+ * Everyone each of `ids` exchanged with, in either direction, up to
+ * `MAX_NEIGHBOURS` per profile. A pending exchange is not a link: anyone
+ * who knows a profile id can send one.
+ */
+export async function loadNeighbours(client: SupabaseClient, ids: string[]): Promise<Map<string, Set<string>>> {
+  const wanted = new Set(ids);
+  const neighbours = new Map<string, Set<string>>();
+  const link = (from: string, to: string) => {
+    if (!wanted.has(from) || !to || from === to) return;
+    const set = neighbours.get(from) ?? new Set<string>();
+    if (set.size >= MAX_NEIGHBOURS) return;
+    set.add(to);
+    neighbours.set(from, set);
+  };
+  const onRows = (rows: ExchangeEdge[]) =>
+    rows.forEach((row) => {
+      link(row.initiator_profile_id, row.target_profile_id);
+      link(row.target_profile_id, row.initiator_profile_id);
+    });
+
+  const budget = { rows: MAX_ROWS };
+  for (const group of chunk(Array.from(wanted))) {
+    const full = () => group.every((id) => (neighbours.get(id)?.size ?? 0) >= MAX_NEIGHBOURS);
+    for (const column of ['initiator_profile_id', 'target_profile_id']) {
+      await readPages(
+        (from, to) =>
+          client
+            .from(EXCHANGE_TABLE)
+            .select('initiator_profile_id,target_profile_id')
+            .in('status', LINKED_STATUSES)
+            .in(column, group)
+            .order('id', { ascending: true })
+            .range(from, to)
+            .returns<ExchangeEdge[]>(),
+        budget,
+        onRows,
+        full
+      );
+    }
+  }
+  return neighbours;
+}
+
+/** Whether `a` and `b` have an accepted exchange between them, in either direction. */
+export async function hasAcceptedExchange(client: SupabaseClient, a: string, b: string): Promise<boolean> {
+  const edge = (from: string, to: string) =>
+    client
+      .from(EXCHANGE_TABLE)
+      .select('id')
+      .eq('initiator_profile_id', from)
+      .eq('target_profile_id', to)
+      .in('status', LINKED_STATUSES)
+      .limit(1);
+  const [forward, backward] = await Promise.all([edge(a, b), edge(b, a)]);
+  if (forward.error || backward.error) {
+    throw forward.error ?? backward.error;
+  }
+  return Boolean(forward.data?.length || backward.data?.length);
+}
+
+/** Name and avatar from each profile's latest payload, unless it opted out. */
+export async function loadVisibleProfiles(
+  client: SupabaseClient,
+  ids: string[]
+): Promise<Map<string, ContactConnection>> {
+  const latest = new Map<string, SharePayload>();
+  const budget = { rows: MAX_ROWS };
+  for (const group of chunk(Array.from(new Set(ids)))) {
+    await readPages(
+      (from, to) =>
+        client
+          .from(EXCHANGE_TABLE)
+          .select('initiator_profile_id,payload')
+          .in('initiator_profile_id', group)
+          .order('created_at', { ascending: false })
+          .range(from, to)
+          .returns<ExchangeProfileRow[]>(),
+      budget,
+      (rows) =>
+        rows.forEach((row) => {
+          if (row.payload && !latest.has(row.initiator_profile_id)) {
+            latest.set(row.initiator_profile_id, row.payload);
+          }
+        }),
+      () => group.every((id) => latest.has(id))
+    );
+  }
+
+  const visible = new Map<string, ContactConnection>();
+  latest.forEach((payload, id) => {
+    if (mapPrivacyLevel(payload.privacy) === 'direct-only') return;
+    visible.set(id, {
+      id,
+      name: payload.owner?.name?.toString().trim() || 'Контакт',
+      avatar: typeof payload.owner?.avatar === 'string' ? payload.owner.avatar : undefined,
+    });
+  });
+  return visible;
+}
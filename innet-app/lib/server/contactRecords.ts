@@ -0,0 +1,176 @@
+import { CONTACT_SYNC_BATCH_LIMIT, mergeContactSnapshots, type ContactSnapshot } from '../contactSync';
+import { normalizeContacts, type Contact } from '../storage';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+
+/**
+ * Per-contact storage behind `/api/contacts`: one `contact_records` row per
+ * contact or tombstone. A database trigger gives every written row a fresh
+ * `revision` from a sequence, which serves both as the pull cursor and as
+ * the optimistic lock for writes (see SUPABASE.md).
+ */
+
+type ContactRecordRow = {
+  contact_id: string;
+  contact: unknown;
+  deleted_at: number | null;
+  revision: number;
+  updated_at: string;
+};
+
+export type ContactChangesPage = ContactSnapshot & {
+  /** Cursor for the next pull: the revision of the last returned row. */
+  revision: number;
+  hasMore: boolean;
+};
+
+const RECORDS_TABLE = 'contact_records';
+const UNIQUE_VIOLATION = '23505';
+const WRITE_ATTEMPTS = 3;
+const PAGE_LIMIT = 200;
+/**
+ * Revisions are taken when a write starts, so a slow write can commit after
+ * a faster one with a higher revision. Rows younger than this are held back
+ * from pulls until every earlier write has certainly committed.
+ */
+const SETTLE_MS = 5_000;
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: контакты негде хранить.');
+  }
+  return client;
+}
+
+function rowSnapshot(row: ContactRecordRow | undefined): ContactSnapshot {
+  return {
+    contacts: row ? normalizeContacts([row.contact]) : [],
+    deleted: row?.deleted_at != null ? { [row.contact_id]: row.deleted_at } : {},
+  };
+}
+
+function addToSnapshot(snapshot: ContactSnapshot, row: ContactRecordRow): void {
+  const record = rowSnapshot(row);
+  snapshot.contacts.push(...record.contacts);
+  Object.assign(snapshot.deleted, record.deleted);
+}
+
+/** Contacts and tombstones written after `since`, oldest first. */
+export async function loadContactChanges(profileId: string, since: number): Promise<ContactChangesPage> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from(RECORDS_TABLE)
+    .select('contact_id,contact,deleted_at,revision,updated_at')
+    .eq('profile_id', profileId)
+    .gt('revision', since)
+    .order('revision', { ascending: true })
+    .limit(PAGE_LIMIT + 1);
+  if (error) throw error;
+
+  const rows = (data ?? []) as ContactRecordRow[];
+  const settledBefore = Date.now() - SETTLE_MS;
+  const unsettled = rows.findIndex((row) => Date.parse(row.updated_at) > settledBefore);
+  const settled = unsettled === -1 ? rows : rows.slice(0, unsettled);
+  const page = settled.slice(0, PAGE_LIMIT);
+
+  const snapshot: ContactSnapshot = { contacts: [], deleted: {} };
+  page.forEach((row) => addToSnapshot(snapshot, row));
+  return {
+    ...snapshot,
+    revision: page.length ? page[page.length - 1].revision : since,
+    hasMore: settled.length > PAGE_LIMIT,
+  };
+}
+
+function changedIds(incoming: ContactSnapshot): string[] {
+  return Array.from(new Set([...incoming.contacts.map((contact) => contact.id), ...Object.keys(incoming.deleted)]));
+}
+
+function incomingFor(incoming: ContactSnapshot, id: string): ContactSnapshot {
+  return {
+    contacts: incoming.contacts.filter((contact) => contact.id === id),
+    deleted: incoming.deleted[id] != null ? { [id]: incoming.deleted[id] } : {},
+  };
+}
+
+/**
+ * Merge incoming contacts and tombstones into their stored rows field by
+ * field and return the stored result. A row is only updated if its
+ * revision is still the one that was read; when another device wrote in
+ * between, the row is re-read and merged again.
+ */
+export async function saveContactChanges(profileId: string, incoming: ContactSnapshot): Promise<ContactSnapshot> {
+  const client = requireClient();
+  const result: ContactSnapshot = { contacts: [], deleted: {} };
+  let pending = changedIds(incoming);
+  if (pending.length > CONTACT_SYNC_BATCH_LIMIT) {
+    throw new Error(`[contactRecords] Batch of ${pending.length} records exceeds the limit`);
+  }
+
+  for (let attempt = 0; attempt < WRITE_ATTEMPTS && pending.length; attempt += 1) {
+    const { data, error } = await client
+      .from(RECORDS_TABLE)
+      .select('contact_id,contact,deleted_at,revision,updated_at')
+      .eq('profile_id', profileId)
+      .in('contact_id', pending);
+    if (error) throw error;
+    const stored = new Map(((data ?? []) as ContactRecordRow[]).map((row) => [row.contact_id, row]));
+
+    const retry: string[] = [];
+    const inserts: { row: Record<string, unknown>; merged: ContactSnapshot }[] = [];
+
+    for (const id of pending) {
+      const current = stored.get(id);
+      const merged = mergeContactSnapshots(rowSnapshot(current), incomingFor(incoming, id));
+      const contact: Contact | null = merged.contacts[0] ?? null;
+      const deletedAt = merged.deleted[id] ?? null;
+
+      // Re-sent records that add nothing keep their revision, so other devices do not pull them again.
+      if (current && JSON.stringify(rowSnapshot(current)) === JSON.stringify(merged)) {
+        addToSnapshot(result, current);
+        continue;
+      }
+
+      const row = { profile_id: profileId, contact_id: id, contact, deleted_at: deletedAt };
+      if (!current) {
+        inserts.push({ row, merged });
+        continue;
+      }
+      const { data: written, error: writeError } = await client
+        .from(RECORDS_TABLE)
+        .update(row)
+        .eq('profile_id', profileId)
+        .eq('contact_id', id)
+        .eq('revision', current.revision)
+        .select('contact_id');
+      if (writeError) throw writeError;
+      if (!written?.length) {
+        retry.push(id);
+        continue;
+      }
+      result.contacts.push(...merged.contacts);
+      Object.assign(result.deleted, merged.deleted);
+    }
+
+    if (inserts.length) {
+      const { error: insertError } = await client.from(RECORDS_TABLE).insert(inserts.map((item) => item.row));
+      if (insertError && insertError.code !== UNIQUE_VIOLATION) throw insertError;
+      if (insertError) {
+        // Another device created one of these rows meanwhile; merge them all again.
+        retry.push(...inserts.map((item) => item.row.contact_id as string));
+      } else {
+        inserts.forEach(({ merged }) => {
+          result.contacts.push(...merged.contacts);
+          Object.assign(result.deleted, merged.deleted);
+        });
+      }
+    }
+
+    pending = retry;
+  }
+
+  if (pending.length) {
+    throw new Error(`[contactRecords] Gave up on ${pending.length} contested records`);
+  }
+  return result;
+}
@@ -0,0 +1,51 @@
+/**
+ * Transactional email through the Resend HTTP API (`RESEND_API_KEY`,
+ * sender in `EMAIL_FROM`). Account confirmation emails are sent by
+ * Supabase Auth instead (see SUPABASE.md).
+ */
+
+export type OutgoingEmail = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const RESEND_ENDPOINT = 'https://api.resend.com/emails';
+
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.RESEND_API_KEY && process.env.EMAIL_FROM);
+}
+
+export async function sendEmail(email: OutgoingEmail): Promise<boolean> {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.EMAIL_FROM;
+  if (!apiKey || !from) {
+    console.warn('[email] RESEND_API_KEY or EMAIL_FROM is not configured');
+    return false;
+  }
+  try {
+    const response = await fetch(RESEND_ENDPOINT, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, ...email }),
+    });
+    if (!response.ok) {
+      console.warn('[email] Resend rejected the message', response.status, await response.text());
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn('[email] Failed to reach Resend', error);
+    return false;
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
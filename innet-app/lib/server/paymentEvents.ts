@@ -0,0 +1,209 @@
+import {
+  claimWebhookEvent,
+  markPaymentStatus,
+  releaseWebhookEvent,
+  type PaymentStatus,
+} from '../payments/store';
+import type { YookassaPayment } from '../payments/yookassa';
+import { normalizePlanProduct, type PlanProduct } from '../plans';
+import { findTokenPack } from '../tokens';
+import { extendSubscription, getSubscription, recordRenewalFailure, revokeSubscriptionPeriod } from './subscriptions';
+import { applyTokenDelta, getTokenBalanceForUser } from './tokenLedger';
+import { confirmPromoReservation, releasePromoReservation } from './promoCodes';
+
+export type PaymentNotification = {
+  event?: string;
+  object?: Partial<YookassaPayment> & {
+    /** Set on refund notifications, where `id` is the refund id. */
+    payment_id?: string;
+  };
+};
+
+/**
+ * `processed` and `duplicate` should be answered with 200, `retry` with 500
+ * so YooKassa sends the notification again, `invalid` with 400.
+ */
+export type NotificationOutcome = 'processed' | 'duplicate' | 'retry' | 'invalid';
+
+const EVENT_STATUSES: Record<string, PaymentStatus> = {
+  'payment.waiting_for_capture': 'waiting_for_capture',
+  'payment.succeeded': 'succeeded',
+  'payment.canceled': 'canceled',
+  'refund.succeeded': 'refunded',
+};
+
+/**
+ * Apply a YooKassa notification to the ledger, the subscription and the
+ * account plan, once per event. The webhook, the renewal job and the local
+ * YooKassa stand-in all go through here, so a charge the job already handled
+ * is ignored when its webhook arrives.
+ */
+export async function handlePaymentNotification(notification: PaymentNotification): Promise<NotificationOutcome> {
+  const event = notification.event ?? '';
+  const object = notification.object ?? {};
+  const objectId = object.id;
+  const paymentId = event.startsWith('refund.') ? object.payment_id : objectId;
+
+  if (!paymentId || !objectId) {
+    return 'invalid';
+  }
+
+  const nextStatus = EVENT_STATUSES[event];
+  if (!nextStatus) {
+    console.info('[payments] received event', event);
+    return 'processed';
+  }
+
+  const idempotencyKey = `${event}:${objectId}`;
+  try {
+    const isNew = await claimWebhookEvent(idempotencyKey, paymentId, event);
+    if (!isNew) {
+      console.info('[payments] duplicate notification ignored', idempotencyKey);
+      return 'duplicate';
+    }
+  } catch (error) {
+    console.error('[payments] Failed to claim notification', { idempotencyKey, error });
+    return 'retry';
+  }
+
+  try {
+    const storedEntry = await markPaymentStatus(paymentId, nextStatus, 'webhook', event);
+    if (!storedEntry) {
+      console.warn('[payments] payment not found in ledger', paymentId);
+    }
+
+    const metadata = object.metadata ?? {};
+    const userId = metadata.userId ?? storedEntry?.userId ?? null;
+
+    const packId = metadata.product === 'pack' ? metadata.packId : storedEntry?.packId;
+
+    if (event === 'payment.succeeded' && packId) {
+      await creditTokenPack({
+        userId,
+        packId,
+        paymentId,
+        paidAmount: object.amount?.value,
+        expectedAmount: storedEntry?.amount,
+      });
+    } else if (event === 'payment.succeeded') {
+      const planProduct = normalizePlanProduct(metadata.planId) ?? storedEntry?.planType ?? null;
+      console.info('[payments] payment succeeded', paymentId, metadata);
+      if (userId && planProduct) {
+        const trialDays = Number.parseInt(metadata.trialDays ?? '', 10);
+        const result = await extendSubscription({
+          userId,
+          planProduct,
+          paymentId,
+          paymentMethod: object.payment_method,
+          trialDays: Number.isFinite(trialDays) ? trialDays : undefined,
+        });
+        if (result === 'failed') {
+          throw new Error('Subscription update failed');
+        }
+      } else {
+        console.warn('[payments] Missing user or plan metadata for payment', { paymentId, metadata, storedEntry });
+      }
+    } else if (event === 'refund.succeeded') {
+      await rollBackRefundedPayment({ userId, paymentId, planProduct: storedEntry?.planType ?? null, packId });
+    } else if (event === 'payment.canceled' && metadata.renewal === '1' && userId) {
+      const subscription = await getSubscription(userId);
+      if (subscription && subscription.status !== 'expired' && subscription.status !== 'canceled') {
+        await recordRenewalFailure(subscription, object.cancellation_details?.reason ?? '');
+      }
+    } else {
+      console.info('[payments] payment status changed', paymentId, nextStatus);
+    }
+
+    if (event === 'payment.succeeded' && metadata.promoCode && userId) {
+      await spendPaymentPromoCode(metadata.promoCode, userId, paymentId);
+    } else if (event === 'payment.canceled' && metadata.promoCode && userId) {
+      await releasePromoReservation(metadata.promoCode, userId, paymentId);
+    }
+    return 'processed';
+  } catch (error) {
+    console.error('[payments] Failed to process notification', { idempotencyKey, error });
+    await releaseWebhookEvent(idempotencyKey);
+    return 'retry';
+  }
+}
+
+/**
+ * Add the tokens of a paid pack. The amount is checked against the price
+ * recorded at creation so a tampered payment cannot buy a bigger pack; the
+ * ledger credits each payment once.
+ */
+async function creditTokenPack(params: {
+  userId: string | null;
+  packId: string;
+  paymentId: string;
+  paidAmount?: string;
+  /** Price recorded when the payment was created, after any promo discount. */
+  expectedAmount?: number;
+}): Promise<void> {
+  const { userId, packId, paymentId, paidAmount, expectedAmount } = params;
+  const pack = findTokenPack(packId);
+  if (!userId || !pack) {
+    console.warn('[payments] Missing user or pack for token payment', { paymentId, packId, userId });
+    return;
+  }
+  if (paidAmount != null && Number(paidAmount) < (expectedAmount ?? pack.priceRub)) {
+    console.warn('[payments] Token pack paid with a wrong amount', { paymentId, packId, paidAmount });
+    return;
+  }
+  const { balance } = await applyTokenDelta({
+    userId,
+    delta: pack.tokens + pack.bonusTokens,
+    reason: 'purchase',
+    paymentId,
+  });
+  console.info('[payments] token pack credited', { paymentId, packId, balance });
+}
+
+/**
+ * Undo what a refunded payment bought: the paid period of a plan, or the
+ * tokens of a pack. Tokens already spent cannot be taken back, so the debit
+ * stops at zero.
+ */
+async function rollBackRefundedPayment(params: {
+  userId: string | null;
+  paymentId: string;
+  planProduct: PlanProduct | null;
+  packId?: string | null;
+}): Promise<void> {
+  const { userId, paymentId, planProduct, packId } = params;
+  if (!userId) {
+    console.warn('[payments] Refund for an unknown payment', { paymentId });
+    return;
+  }
+  if (planProduct) {
+    const result = await revokeSubscriptionPeriod({ userId, planProduct, paymentId });
+    if (result === 'failed') {
+      throw new Error('Subscription rollback failed');
+    }
+    return;
+  }
+  const pack = findTokenPack(packId);
+  if (pack) {
+    const balance = await getTokenBalanceForUser(userId);
+    const debit = Math.min(balance, pack.tokens + pack.bonusTokens);
+    if (debit > 0) {
+      await applyTokenDelta({ userId, delta: -debit, reason: 'refund', paymentId });
+    }
+  }
+}
+
+/**
+ * Spend the use reserved for this payment when it was created. Only a
+ * reservation that ran out before payment can fail here; the discount is
+ * already paid for, so that is only logged.
+ */
+async function spendPaymentPromoCode(code: string, userId: string, paymentId: string): Promise<void> {
+  try {
+    const claim = await confirmPromoReservation(code, userId, paymentId);
+    if (!claim.ok) {
+      console.warn('[payments] Promo code used past its limits', { code, userId, paymentId, reason: claim.message });
+    }
+  } catch (error) {
+    console.error('[payments] Failed to record promo code use', { code, paymentId, error });
+  }
+}
@@ -0,0 +1,285 @@
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+import type { PromoCode, PromoKind, PromoRedemption } from '../promoClient';
+import { grantProDays } from './subscriptions';
+import { applyTokenDelta } from './tokenLedger';
+
+type PromoCodeRow = {
+  code: string;
+  kind: PromoKind;
+  value: number;
+  max_redemptions: number | null;
+  expires_at: string | null;
+};
+
+/** Result of `redeem_promo_code`, see SUPABASE.md. */
+type ClaimStatus = 'ok' | 'unknown' | 'expired' | 'exhausted' | 'used' | 'reserved';
+
+export type PromoCheck = { ok: true; promo: PromoCode } | { ok: false; message: string };
+
+const PROMO_CODES_TABLE = 'promo_codes';
+const REDEMPTIONS_TABLE = 'promo_redemptions';
+const REDEEM_FUNCTION = 'redeem_promo_code';
+const UNIQUE_VIOLATION = '23505';
+/**
+ * How long a percent code stays reserved for an unpaid payment. Cancel
+ * notifications release it earlier; past this it frees itself.
+ */
+const RESERVATION_MINUTES = 60;
+const PROMO_KINDS: PromoKind[] = ['percent', 'pro-days', 'tokens'];
+
+const CLAIM_MESSAGES: Record<Exclude<ClaimStatus, 'ok'>, string> = {
+  unknown: 'Такого промокода нет.',
+  expired: 'Срок действия промокода истёк.',
+  exhausted: 'Промокод уже использовали максимальное число раз.',
+  used: 'Вы уже использовали этот промокод.',
+  reserved: 'Промокод уже применён к неоплаченному платежу. Завершите его или попробуйте через час.',
+};
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: промокоды негде хранить.');
+  }
+  return client;
+}
+
+function toPromoCode(row: PromoCodeRow, redeemedCount: number): PromoCode {
+  return {
+    code: row.code,
+    kind: row.kind,
+    value: row.value,
+    maxRedemptions: row.max_redemptions,
+    redeemedCount,
+    expiresAt: row.expires_at ? Date.parse(row.expires_at) : null,
+  };
+}
+
+/** Spent uses plus reservations that have not run out yet. */
+async function countRedemptions(code: string, userId?: string): Promise<number> {
+  let query = requireClient()
+    .from(REDEMPTIONS_TABLE)
+    .select('code', { count: 'exact', head: true })
+    .eq('code', code)
+    .or(`status.eq.redeemed,reserved_until.gt."${new Date().toISOString()}"`);
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Не удалось проверить использование промокода: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+/** Check that `userId` may use `code` without spending it. */
+export async function checkPromoCode(code: string, userId: string): Promise<PromoCheck> {
+  const { data, error } = await requireClient().from(PROMO_CODES_TABLE).select('*').eq('code', code).maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить промокод: ${error.message}`);
+  }
+  if (!data) {
+    return { ok: false, message: CLAIM_MESSAGES.unknown };
+  }
+  const row = data as PromoCodeRow;
+  if (row.expires_at && Date.parse(row.expires_at) <= Date.now()) {
+    return { ok: false, message: CLAIM_MESSAGES.expired };
+  }
+  const redeemedCount = await countRedemptions(code);
+  if (row.max_redemptions != null && redeemedCount >= row.max_redemptions) {
+    return { ok: false, message: CLAIM_MESSAGES.exhausted };
+  }
+  if ((await countRedemptions(code, userId)) > 0) {
+    return { ok: false, message: CLAIM_MESSAGES.used };
+  }
+  return { ok: true, promo: toPromoCode(row, redeemedCount) };
+}
+
+/**
+ * Spend one use of `code` for `userId`. Expiry, the usage limit and the
+ * one-use-per-user rule are checked in the same transaction, so concurrent
+ * redemptions cannot exceed the limit.
+ */
+export async function claimPromoCode(
+  code: string,
+  userId: string,
+  paymentId?: string
+): Promise<{ ok: true } | { ok: false; message: string }> {
+  const { data, error } = await requireClient().rpc(REDEEM_FUNCTION, {
+    p_code: code,
+    p_user_id: userId,
+    p_payment_id: paymentId ?? null,
+  });
+  if (error) {
+    throw new Error(`Не удалось применить промокод: ${error.message}`);
+  }
+  const status = data as ClaimStatus;
+  return status === 'ok' ? { ok: true } : { ok: false, message: CLAIM_MESSAGES[status] ?? CLAIM_MESSAGES.unknown };
+}
+
+/**
+ * Hold one use of a percent code for a payment about to be created, under
+ * the same checks and lock as `claimPromoCode`. Parallel payments cannot all
+ * get the discount: each one needs its own reservation.
+ */
+export async function reservePromoCode(
+  code: string,
+  userId: string
+): Promise<{ ok: true } | { ok: false; message: string }> {
+  const { data, error } = await requireClient().rpc(REDEEM_FUNCTION, {
+    p_code: code,
+    p_user_id: userId,
+    p_payment_id: null,
+    p_hold_minutes: RESERVATION_MINUTES,
+  });
+  if (error) {
+    throw new Error(`Не удалось зарезервировать промокод: ${error.message}`);
+  }
+  const status = data as ClaimStatus;
+  return status === 'ok' ? { ok: true } : { ok: false, message: CLAIM_MESSAGES[status] ?? CLAIM_MESSAGES.unknown };
+}
+
+/** Tie the reservation made by `reservePromoCode` to the created payment. */
+export async function attachPromoReservation(code: string, userId: string, paymentId: string): Promise<void> {
+  const { error } = await requireClient()
+    .from(REDEMPTIONS_TABLE)
+    .update({ payment_id: paymentId })
+    .eq('code', code)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .is('payment_id', null);
+  if (error) {
+    console.error('[promoCodes] Failed to attach reservation to payment', { code, paymentId, error });
+  }
+}
+
+/**
+ * Turn the payment's reservation into a spent use. When the reservation ran
+ * out before the payment went through, the use is claimed anew.
+ */
+export async function confirmPromoReservation(
+  code: string,
+  userId: string,
+  paymentId: string
+): Promise<{ ok: true } | { ok: false; message: string }> {
+  const { data, error } = await requireClient()
+    .from(REDEMPTIONS_TABLE)
+    .update({ status: 'redeemed', reserved_until: null })
+    .eq('code', code)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .eq('payment_id', paymentId)
+    .select('code');
+  if (error) {
+    throw new Error(`Не удалось подтвердить промокод: ${error.message}`);
+  }
+  return data?.length ? { ok: true } : claimPromoCode(code, userId, paymentId);
+}
+
+/**
+ * Drop a reservation whose payment was canceled or never created
+ * (`paymentId` null). Spent uses are never touched.
+ */
+export async function releasePromoReservation(code: string, userId: string, paymentId: string | null): Promise<void> {
+  let query = requireClient()
+    .from(REDEMPTIONS_TABLE)
+    .delete()
+    .eq('code', code)
+    .eq('user_id', userId)
+    .eq('status', 'pending');
+  query = paymentId ? query.eq('payment_id', paymentId) : query.is('payment_id', null);
+  const { error } = await query;
+  if (error) {
+    console.error('[promoCodes] Failed to release reservation', { code, paymentId, error });
+  }
+}
+
+/** Give a use back after the grant it paid for could not be applied. */
+async function releasePromoCode(code: string, userId: string): Promise<void> {
+  const { error } = await requireClient().from(REDEMPTIONS_TABLE).delete().eq('code', code).eq('user_id', userId);
+  if (error) {
+    console.error('[promoCodes] Failed to release redemption', { code, userId, error });
+  }
+}
+
+/**
+ * Redeem a code from the upgrade page. Token and Pro-day codes are granted at
+ * once; percent codes are only checked and travel with the next payment.
+ */
+export async function redeemPromoCode(code: string, userId: string): Promise<PromoRedemption> {
+  const check = await checkPromoCode(code, userId);
+  if (!check.ok) return check;
+  const { promo } = check;
+  if (promo.kind === 'percent') {
+    return { ok: true, kind: 'percent', code, percent: promo.value };
+  }
+
+  const claim = await claimPromoCode(code, userId);
+  if (!claim.ok) return claim;
+
+  try {
+    if (promo.kind === 'tokens') {
+      const { balance } = await applyTokenDelta({ userId, delta: promo.value, reason: 'promo' });
+      return { ok: true, kind: 'tokens', code, tokens: promo.value, balance };
+    }
+    const { result, periodEnd } = await grantProDays({ userId, days: promo.value, reason: `promo:${code}` });
+    if (result === 'failed') {
+      throw new Error('Plan update failed');
+    }
+    return { ok: true, kind: 'pro-days', code, days: promo.value, planExpiresAt: periodEnd };
+  } catch (error) {
+    console.error('[promoCodes] Failed to apply promo code', { code, userId, error });
+    await releasePromoCode(code, userId);
+    return { ok: false, message: 'Не удалось применить промокод. Попробуйте ещё раз.' };
+  }
+}
+
+export async function createPromoCode(input: {
+  code: string;
+  kind: PromoKind;
+  value: number;
+  maxRedemptions: number | null;
+  expiresAt: number | null;
+}): Promise<{ ok: true; promo: PromoCode } | { ok: false; message: string }> {
+  if (!PROMO_KINDS.includes(input.kind)) {
+    return { ok: false, message: 'Неизвестный тип промокода.' };
+  }
+  const value = Math.floor(input.value);
+  if (!Number.isFinite(value) || value < 1 || (input.kind === 'percent' && value > 99)) {
+    return { ok: false, message: 'Некорректное значение промокода.' };
+  }
+  const row: PromoCodeRow = {
+    code: input.code,
+    kind: input.kind,
+    value,
+    max_redemptions: input.maxRedemptions,
+    expires_at: input.expiresAt ? new Date(input.expiresAt).toISOString() : null,
+  };
+  const { error } = await requireClient().from(PROMO_CODES_TABLE).insert(row);
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { ok: false, message: 'Такой промокод уже существует.' };
+  }
+  if (error) {
+    throw new Error(`Не удалось создать промокод: ${error.message}`);
+  }
+  return { ok: true, promo: toPromoCode(row, 0) };
+}
+
+export async function listPromoCodes(): Promise<PromoCode[]> {
+  const client = requireClient();
+  const { data, error } = await client.from(PROMO_CODES_TABLE).select('*').order('created_at', { ascending: false });
+  if (error) {
+    throw new Error(`Не удалось получить промокоды: ${error.message}`);
+  }
+  const { data: redemptions, error: redemptionsError } = await client
+    .from(REDEMPTIONS_TABLE)
+    .select('code')
+    .or(`status.eq.redeemed,reserved_until.gt."${new Date().toISOString()}"`);
+  if (redemptionsError) {
+    throw new Error(`Не удалось получить использование промокодов: ${redemptionsError.message}`);
+  }
+  const counts = new Map<string, number>();
+  for (const { code } of (redemptions ?? []) as { code: string }[]) {
+    counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  return ((data ?? []) as PromoCodeRow[]).map((row) => toPromoCode(row, counts.get(row.code) ?? 0));
+}
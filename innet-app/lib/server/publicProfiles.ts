@@ -0,0 +1,216 @@
+import { mapPrivacyLevel, type PrivacyLevel } from '../privacy';
+import type {
+  PublicProfileRelation,
+  PublicProfileSettings,
+  PublicProfileView,
+} from '../publicProfileClient';
+import { normalizeSharePayload, SHARE_VERSION } from '../share';
+import { factGroupVisibility, normalizeFactGroups, type FactGroup, type UserAccount } from '../storage';
+import { groupToShare } from '../shareUtils';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+import { hasAcceptedExchange, loadNeighbours } from './connections';
+import type { Session } from './session';
+
+type PublicProfileRow = {
+  handle: string;
+  user_id: string;
+  profile_id: string;
+  privacy: string;
+  updated_at: string;
+};
+
+type StoredCollection = {
+  groups: unknown;
+  sync_enabled: boolean | null;
+};
+
+const PROFILES_TABLE = 'public_profiles';
+const ACCOUNTS_TABLE = 'user_accounts';
+const FACTS_TABLE = 'fact_collections';
+const UNIQUE_VIOLATION = '23505';
+const DESCRIPTION_LIMIT = 160;
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: публичные страницы негде хранить.');
+  }
+  return client;
+}
+
+function toSettings(row: PublicProfileRow): PublicProfileSettings {
+  return { handle: row.handle, privacy: mapPrivacyLevel(row.privacy), updatedAt: row.updated_at };
+}
+
+export async function getPublicProfileSettings(userId: string): Promise<PublicProfileSettings | null> {
+  const { data, error } = await requireClient()
+    .from(PROFILES_TABLE)
+    .select('handle,user_id,profile_id,privacy,updated_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить публичную страницу: ${error.message}`);
+  }
+  return data ? toSettings(data as PublicProfileRow) : null;
+}
+
+/** Whether the page has facts to show: only synced facts reach the server. */
+export async function hasSyncedFacts(profileId: string): Promise<boolean> {
+  const { data, error } = await requireClient()
+    .from(FACTS_TABLE)
+    .select('sync_enabled')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось проверить синхронизацию фактов: ${error.message}`);
+  }
+  return Boolean(data?.sync_enabled);
+}
+
+/**
+ * Claim `handle` for the account, moving its page there if it already had
+ * one, and publish the privacy level the page is rendered with.
+ */
+export async function claimPublicProfile(params: {
+  userId: string;
+  profileId: string;
+  handle: string;
+  privacy: PrivacyLevel;
+}): Promise<{ ok: true; settings: PublicProfileSettings } | { ok: false; message: string }> {
+  const row: PublicProfileRow = {
+    handle: params.handle,
+    user_id: params.userId,
+    profile_id: params.profileId,
+    privacy: params.privacy,
+    updated_at: new Date().toISOString(),
+  };
+  const { error } = await requireClient().from(PROFILES_TABLE).upsert(row, { onConflict: 'user_id' });
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { ok: false, message: 'Этот адрес уже занят. Попробуйте другой.' };
+  }
+  if (error) {
+    throw new Error(`Не удалось сохранить публичную страницу: ${error.message}`);
+  }
+  return { ok: true, settings: toSettings(row) };
+}
+
+export async function removePublicProfile(userId: string): Promise<void> {
+  const { error } = await requireClient().from(PROFILES_TABLE).delete().eq('user_id', userId);
+  if (error) {
+    throw new Error(`Не удалось удалить публичную страницу: ${error.message}`);
+  }
+}
+
+async function resolveRelation(ownerProfileId: string, viewer: Session | null): Promise<PublicProfileRelation> {
+  if (!viewer) return 'stranger';
+  if (viewer.profileId === ownerProfileId) return 'self';
+  const client = requireClient();
+  if (await hasAcceptedExchange(client, ownerProfileId, viewer.profileId)) return 'contact';
+  const direct = (await loadNeighbours(client, [ownerProfileId])).get(ownerProfileId) ?? new Set<string>();
+  const viewerContacts = (await loadNeighbours(client, [viewer.profileId])).get(viewer.profileId);
+  if (viewerContacts && Array.from(viewerContacts).some((id) => direct.has(id))) {
+    return 'second-degree';
+  }
+  return 'stranger';
+}
+
+/**
+ * `public` shows channels to everyone, `second-degree` to contacts and their
+ * contacts, `direct-only` to contacts alone — matching what the owner's QR
+ * shares reveal. Strangers of a `direct-only` owner see no facts either.
+ */
+function channelsVisible(privacy: PrivacyLevel, relation: PublicProfileRelation): boolean {
+  if (relation === 'self' || relation === 'contact') return true;
+  if (privacy === 'public') return true;
+  return privacy === 'second-degree' && relation === 'second-degree';
+}
+
+function visibleGroups(groups: FactGroup[], privacy: PrivacyLevel, relation: PublicProfileRelation): FactGroup[] {
+  const isContact = relation === 'self' || relation === 'contact';
+  if (!isContact && privacy === 'direct-only') return [];
+  return groups.filter((group) => {
+    const visibility = factGroupVisibility(group);
+    return visibility === 'public' || (isContact && visibility === 'contacts');
+  });
+}
+
+function buildDescription(name: string, groups: FactGroup[]): string {
+  const facts = groups
+    .flatMap((group) => group.facts.map((fact) => fact.text.replace(/\s+/g, ' ').trim()))
+    .filter(Boolean);
+  const text = facts.length ? `${name}: ${facts.join(' · ')}` : `${name} в InNet — цифровая визитка и факты.`;
+  return text.length > DESCRIPTION_LIMIT ? `${text.slice(0, DESCRIPTION_LIMIT - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Render data for `/u/<handle>` as `viewer` may see it: card details from
+ * the account, facts from the synced `fact_collections` row, filtered by
+ * each group's visibility and the owner's published privacy level.
+ */
+export async function loadPublicProfileView(
+  handle: string,
+  viewer: Session | null
+): Promise<PublicProfileView | null> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from(PROFILES_TABLE)
+    .select('handle,user_id,profile_id,privacy,updated_at')
+    .eq('handle', handle)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить публичную страницу: ${error.message}`);
+  }
+  if (!data) return null;
+  const row = data as PublicProfileRow;
+  const privacy = mapPrivacyLevel(row.privacy);
+
+  const [{ data: account, error: accountError }, { data: facts, error: factsError }] = await Promise.all([
+    client.from(ACCOUNTS_TABLE).select('data').eq('id', row.user_id).maybeSingle(),
+    client.from(FACTS_TABLE).select('groups,sync_enabled').eq('profile_id', row.profile_id).maybeSingle(),
+  ]);
+  if (accountError || factsError) {
+    throw new Error(`Не удалось собрать публичную страницу: ${(accountError ?? factsError)?.message}`);
+  }
+  if (!account) return null;
+
+  const user = (account.data ?? {}) as Partial<UserAccount>;
+  const collection = facts as StoredCollection | null;
+  const groups = collection?.sync_enabled ? normalizeFactGroups(collection.groups) : [];
+  const relation = await resolveRelation(row.profile_id, viewer);
+  const showChannels = channelsVisible(privacy, relation);
+  const shownGroups = visibleGroups(groups, privacy, relation);
+  const publicGroups = visibleGroups(groups, privacy, 'stranger');
+
+  // Reuse the share sanitizer so the page never shows more than a QR token could carry.
+  const card = normalizeSharePayload({
+    v: SHARE_VERSION,
+    owner: {
+      id: row.profile_id,
+      name: [user.name, user.surname].filter(Boolean).join(' ').trim(),
+      avatar: user.avatar,
+      phone: showChannels ? user.phone : undefined,
+      telegram: showChannels ? user.telegram : undefined,
+      instagram: showChannels ? user.instagram : undefined,
+    },
+    groups: shownGroups.map(groupToShare),
+    generatedAt: Date.parse(row.updated_at) || Date.now(),
+    privacy,
+  });
+
+  const withheldGroups = groups.some(
+    (group) => factGroupVisibility(group) !== 'hidden' && !shownGroups.includes(group)
+  );
+  return {
+    handle: row.handle,
+    name: card.owner.name,
+    avatar: card.owner.avatar ?? null,
+    phone: card.owner.phone ?? null,
+    telegram: card.owner.telegram ?? null,
+    instagram: card.owner.instagram ?? null,
+    groups: card.groups.filter((group) => group.facts.length > 0),
+    relation,
+    restricted: !showChannels || withheldGroups,
+    description: buildDescription(card.owner.name, privacy === 'public' ? publicGroups : []),
+    indexable: privacy === 'public',
+  };
+}
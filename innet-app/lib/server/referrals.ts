@@ -0,0 +1,172 @@
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+import { REFERRAL_REWARD_PRO_DAYS, REFERRAL_REWARD_TOKENS, type ReferralStats } from '../referralsClient';
+import { getSubscription, grantProDays } from './subscriptions';
+import { applyTokenDelta } from './tokenLedger';
+
+export type ReferralStatus = 'pending' | 'rewarded';
+
+export type SettleOutcome = 'rewarded' | 'pending' | 'none';
+
+type ReferralRow = {
+  referee_user_id: string;
+  referrer_user_id: string;
+  referrer_profile_id: string;
+  status: ReferralStatus;
+};
+
+const REFERRALS_TABLE = 'referrals';
+const ACCOUNTS_TABLE = 'user_accounts';
+const UNIQUE_VIOLATION = '23505';
+/** A quick signup only counts as a referral right after the account was created. */
+const ATTRIBUTION_WINDOW_MS = 60 * 60 * 1000;
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: приглашения негде хранить.');
+  }
+  return client;
+}
+
+/**
+ * Attribute a fresh quick signup to the owner of the QR code it came from.
+ * Each account can be referred once, never by itself, and only within
+ * `ATTRIBUTION_WINDOW_MS` of its creation.
+ */
+export async function recordReferral(params: {
+  refereeUserId: string;
+  referrerProfileId: string;
+}): Promise<boolean> {
+  const { refereeUserId, referrerProfileId } = params;
+  const client = requireClient();
+
+  const { data: referee, error: refereeError } = await client
+    .from(ACCOUNTS_TABLE)
+    .select('id,profile_id,created_at')
+    .eq('id', refereeUserId)
+    .maybeSingle();
+  if (refereeError) {
+    throw new Error(`Не удалось получить аккаунт приглашённого: ${refereeError.message}`);
+  }
+  if (!referee || referee.profile_id === referrerProfileId) return false;
+  if (Date.now() - Date.parse(referee.created_at as string) > ATTRIBUTION_WINDOW_MS) return false;
+
+  const { data: referrer, error: referrerError } = await client
+    .from(ACCOUNTS_TABLE)
+    .select('id')
+    .eq('profile_id', referrerProfileId)
+    .maybeSingle();
+  if (referrerError) {
+    throw new Error(`Не удалось найти пригласившего: ${referrerError.message}`);
+  }
+  if (!referrer || referrer.id === refereeUserId) return false;
+
+  const { error } = await client.from(REFERRALS_TABLE).insert({
+    referee_user_id: refereeUserId,
+    referrer_user_id: referrer.id,
+    referrer_profile_id: referrerProfileId,
+    status: 'pending',
+  });
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) {
+    throw new Error(`Не удалось сохранить приглашение: ${error.message}`);
+  }
+  return true;
+}
+
+/**
+ * Email confirmed in Supabase Auth, the same signal the login page trusts.
+ * `supabase_uid` is only written from a verified Supabase session token
+ * (`lib/server/supabaseAuth.ts`), so a client cannot borrow another uid.
+ */
+async function isAccountVerified(userId: string): Promise<boolean> {
+  const client = requireClient();
+  const { data, error } = await client.from(ACCOUNTS_TABLE).select('supabase_uid').eq('id', userId).maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить аккаунт: ${error.message}`);
+  }
+  const supabaseUid = data?.supabase_uid as string | null | undefined;
+  if (!supabaseUid) return false;
+  const { data: authData, error: authError } = await client.auth.admin.getUserById(supabaseUid);
+  if (authError) {
+    console.warn('[referrals] Failed to read Supabase user', { userId, error: authError });
+    return false;
+  }
+  return Boolean(authData.user?.email_confirmed_at);
+}
+
+async function rewardReferrer(referrerUserId: string, refereeUserId: string): Promise<string> {
+  const subscription = await getSubscription(referrerUserId);
+  if (subscription && subscription.status !== 'expired') {
+    const { result } = await grantProDays({
+      userId: referrerUserId,
+      days: REFERRAL_REWARD_PRO_DAYS,
+      reason: `referral:${refereeUserId}`,
+    });
+    if (result === 'failed') {
+      throw new Error('Plan update failed');
+    }
+    return `pro-days:${REFERRAL_REWARD_PRO_DAYS}`;
+  }
+  await applyTokenDelta({ userId: referrerUserId, delta: REFERRAL_REWARD_TOKENS, reason: 'referral' });
+  return `tokens:${REFERRAL_REWARD_TOKENS}`;
+}
+
+/**
+ * Reward the referrer of `refereeUserId` once the referee confirmed their
+ * email. The row is moved to `rewarded` before the reward is granted, so
+ * two devices settling at once cannot reward twice.
+ */
+export async function settleReferral(refereeUserId: string): Promise<SettleOutcome> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from(REFERRALS_TABLE)
+    .select('referee_user_id,referrer_user_id,referrer_profile_id,status')
+    .eq('referee_user_id', refereeUserId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить приглашение: ${error.message}`);
+  }
+  const referral = data as ReferralRow | null;
+  if (!referral || referral.status !== 'pending') return 'none';
+  if (!(await isAccountVerified(refereeUserId))) return 'pending';
+
+  const { data: claimed, error: claimError } = await client
+    .from(REFERRALS_TABLE)
+    .update({ status: 'rewarded', rewarded_at: new Date().toISOString() })
+    .eq('referee_user_id', refereeUserId)
+    .eq('status', 'pending')
+    .select('referee_user_id');
+  if (claimError) {
+    throw new Error(`Не удалось обновить приглашение: ${claimError.message}`);
+  }
+  if (!claimed?.length) return 'none';
+
+  try {
+    const reward = await rewardReferrer(referral.referrer_user_id, refereeUserId);
+    await client.from(REFERRALS_TABLE).update({ reward }).eq('referee_user_id', refereeUserId);
+    return 'rewarded';
+  } catch (rewardError) {
+    console.error('[referrals] Failed to reward referrer', { refereeUserId, error: rewardError });
+    await client
+      .from(REFERRALS_TABLE)
+      .update({ status: 'pending', rewarded_at: null })
+      .eq('referee_user_id', refereeUserId);
+    throw rewardError;
+  }
+}
+
+export async function getReferralStats(referrerUserId: string): Promise<ReferralStats> {
+  const { data, error } = await requireClient()
+    .from(REFERRALS_TABLE)
+    .select('status')
+    .eq('referrer_user_id', referrerUserId);
+  if (error) {
+    throw new Error(`Не удалось получить приглашения: ${error.message}`);
+  }
+  const rows = (data ?? []) as Pick<ReferralRow, 'status'>[];
+  return {
+    invited: rows.length,
+    rewarded: rows.filter((row) => row.status === 'rewarded').length,
+  };
+}
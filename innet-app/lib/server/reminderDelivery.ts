@@ -0,0 +1,702 @@
+import crypto from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+import {
+  computeNextReminderTimestamp,
+  computeSnoozeTimestamp,
+  isServerReminderChannel,
+  mergeReminderSchedules,
+  normalizeReminderCadence,
+  normalizeReminderSettings,
+  REMINDER_DAILY_LIMIT,
+  type ContactReminderSchedule,
+  type ReminderCadence,
+  type ReminderChannel,
+  type ReminderSettings,
+} from '../reminders';
+import type { ReminderAction, ReminderCalendarAction, ReminderDelivery } from '../remindersRemote';
+import { escapeHtml, isEmailConfigured, sendEmail } from './email';
+import { signScopedToken, verifyScopedToken } from './session';
+import { isTelegramConfigured, sendTelegramMessage, telegramStartLink, type TelegramButton } from './telegram';
+import { getVapidPublicKey, sendWebPush, type WebPushSubscription } from './webPush';
+
+export type ReminderDeliveryUpdate = {
+  channel: ReminderChannel;
+  settings: ReminderSettings;
+  email?: string | null;
+  subscription?: WebPushSubscription | null;
+};
+
+export type ReminderDeliverySummary = {
+  sent: number;
+  failed: number;
+  /** Accounts passed over because they already got today's reminders. */
+  skipped: number;
+};
+
+type Failure = { ok: false; message: string };
+
+type DeliveryRow = {
+  profile_id: string;
+  channel: ReminderChannel;
+  settings: ReminderSettings | null;
+  email: string | null;
+  push_subscription: WebPushSubscription | null;
+  telegram_chat_id: string | null;
+  telegram_link_code: string | null;
+  calendar_token: string | null;
+};
+
+type ScheduleRow = {
+  profile_id: string;
+  contact_id: string;
+  contact_name: string;
+  next_reminder_at: string | null;
+  last_notified_at: string | null;
+  disabled: boolean;
+  cadence: ReminderCadence | null;
+  last_interaction_at: string | null;
+  acted_at: string | null;
+  updated_at: string;
+};
+
+const DELIVERIES_TABLE = 'reminder_deliveries';
+const SCHEDULES_TABLE = 'reminder_schedules';
+const ACTION_AUDIENCE = 'reminder-action';
+const ACTION_TOKEN_TTL_SECONDS = 14 * 24 * 60 * 60;
+/** Due reminders handled per scheduler run; the rest wait for the next one. */
+const DELIVERY_BATCH = 500;
+/** Delivery settings read per query, keeping each `profile_id in (…)` filter short. */
+const ACCOUNTS_PAGE = 200;
+const NOT_CONFIGURED: Failure = {
+  ok: false,
+  message: 'Supabase не настроен. Напоминания с сервера недоступны.',
+};
+
+const toIso = (value: number | null | undefined) => (value == null ? null : new Date(value).toISOString());
+const fromIso = (value: string | null) => (value ? Date.parse(value) : null);
+
+function siteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000';
+}
+
+function calendarFeedUrl(token: string): string {
+  return `${siteUrl()}/api/reminders/calendar?token=${encodeURIComponent(token)}`;
+}
+
+function availableChannels(): ReminderDelivery['available'] {
+  return {
+    push: getVapidPublicKey() != null,
+    email: isEmailConfigured(),
+    telegram: isTelegramConfigured(),
+  };
+}
+
+function toDelivery(row: DeliveryRow | null): ReminderDelivery {
+  return {
+    channel: row?.channel ?? 'browser',
+    settings: normalizeReminderSettings(row?.settings ?? undefined),
+    email: row?.email ?? null,
+    pushSubscribed: Boolean(row?.push_subscription),
+    telegramLinked: Boolean(row?.telegram_chat_id),
+    available: availableChannels(),
+    vapidPublicKey: getVapidPublicKey(),
+    calendarFeedUrl: row?.calendar_token ? calendarFeedUrl(row.calendar_token) : null,
+  };
+}
+
+function toSchedule(row: ScheduleRow): ContactReminderSchedule {
+  return {
+    contactId: row.contact_id,
+    contactName: row.contact_name,
+    nextReminderAt: fromIso(row.next_reminder_at),
+    lastNotifiedAt: fromIso(row.last_notified_at),
+    disabled: row.disabled,
+    cadence: normalizeReminderCadence(row.cadence) ?? undefined,
+    lastInteractionAt: fromIso(row.last_interaction_at),
+    actedAt: fromIso(row.acted_at),
+    updatedAt: fromIso(row.updated_at) ?? 0,
+  };
+}
+
+function toScheduleRow(profileId: string, schedule: ContactReminderSchedule): ScheduleRow {
+  return {
+    profile_id: profileId,
+    contact_id: schedule.contactId,
+    contact_name: schedule.contactName,
+    next_reminder_at: toIso(schedule.nextReminderAt),
+    last_notified_at: toIso(schedule.lastNotifiedAt),
+    disabled: Boolean(schedule.disabled),
+    cadence: schedule.cadence ?? null,
+    last_interaction_at: toIso(schedule.lastInteractionAt),
+    acted_at: toIso(schedule.actedAt),
+    updated_at: new Date(schedule.updatedAt ?? 0).toISOString(),
+  };
+}
+
+export async function loadReminderDelivery(
+  profileId: string
+): Promise<{ ok: true; delivery: ReminderDelivery } | Failure> {
+  const client = getSupabaseAdminClient();
+  if (!client) return { ok: true, delivery: toDelivery(null) };
+  const { data, error } = await client
+    .from(DELIVERIES_TABLE)
+    .select('*')
+    .eq('profile_id', profileId)
+    .maybeSingle<DeliveryRow>();
+  if (error) {
+    console.error('[reminderDelivery] Failed to load delivery settings', error);
+    return { ok: false, message: 'Не удалось загрузить настройки доставки напоминаний.' };
+  }
+  return { ok: true, delivery: toDelivery(data) };
+}
+
+/**
+ * Store the channel and cadence chosen on the profile page. Choosing
+ * Telegram before the bot knows the chat returns a deep link that
+ * finishes the linking.
+ */
+export async function saveReminderDelivery(
+  profileId: string,
+  update: ReminderDeliveryUpdate
+): Promise<{ ok: true; delivery: ReminderDelivery; telegramLink: string | null } | Failure> {
+  const client = getSupabaseAdminClient();
+  if (!client) return NOT_CONFIGURED;
+
+  const current = await client
+    .from(DELIVERIES_TABLE)
+    .select('*')
+    .eq('profile_id', profileId)
+    .maybeSingle<DeliveryRow>();
+  if (current.error) {
+    console.error('[reminderDelivery] Failed to load delivery settings', current.error);
+    return { ok: false, message: 'Не удалось сохранить настройки доставки напоминаний.' };
+  }
+
+  const available = availableChannels();
+  if (update.channel !== 'browser' && !available[update.channel]) {
+    return { ok: false, message: 'Этот способ доставки пока не настроен на сервере.' };
+  }
+  const previous = current.data;
+  const row: DeliveryRow = {
+    profile_id: profileId,
+    channel: update.channel,
+    settings: normalizeReminderSettings({ ...update.settings, channel: update.channel }),
+    email: update.email !== undefined ? update.email : (previous?.email ?? null),
+    push_subscription:
+      update.subscription !== undefined ? update.subscription : (previous?.push_subscription ?? null),
+    telegram_chat_id: previous?.telegram_chat_id ?? null,
+    telegram_link_code: previous?.telegram_link_code ?? null,
+    calendar_token: previous?.calendar_token ?? null,
+  };
+  if (row.channel === 'push' && !row.push_subscription) {
+    return { ok: false, message: 'Разрешите уведомления в браузере, чтобы получать push.' };
+  }
+  if (row.channel === 'email' && !row.email) {
+    return { ok: false, message: 'Укажите почту для напоминаний.' };
+  }
+  if (row.channel === 'telegram' && !row.telegram_chat_id && !row.telegram_link_code) {
+    row.telegram_link_code = crypto.randomBytes(12).toString('base64url');
+  }
+
+  const { error } = await client
+    .from(DELIVERIES_TABLE)
+    .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: 'profile_id' });
+  if (error) {
+    console.error('[reminderDelivery] Failed to save delivery settings', error);
+    return { ok: false, message: 'Не удалось сохранить настройки доставки напоминаний.' };
+  }
+
+  const telegramLink =
+    row.channel === 'telegram' && !row.telegram_chat_id && row.telegram_link_code
+      ? telegramStartLink(row.telegram_link_code)
+      : null;
+  return { ok: true, delivery: toDelivery(row), telegramLink };
+}
+
+/**
+ * Merge the device's schedules with the stored ones. The device decides
+ * which contacts have schedules; for each contact the newer side wins, so
+ * a snooze pressed in a notification survives the next upload.
+ */
+export async function syncReminderSchedules(
+  profileId: string,
+  incoming: ContactReminderSchedule[]
+): Promise<{ ok: true; schedules: ContactReminderSchedule[] } | Failure> {
+  const client = getSupabaseAdminClient();
+  if (!client) return NOT_CONFIGURED;
+
+  const { data, error } = await client
+    .from(SCHEDULES_TABLE)
+    .select('*')
+    .eq('profile_id', profileId)
+    .returns<ScheduleRow[]>();
+  if (error) {
+    console.error('[reminderDelivery] Failed to load schedules', error);
+    return { ok: false, message: 'Не удалось загрузить расписание напоминаний.' };
+  }
+
+  const stored = (data ?? []).map(toSchedule);
+  const merged = mergeReminderSchedules(incoming, stored);
+  const keep = new Set(merged.map((schedule) => schedule.contactId));
+  const removed = stored.filter((schedule) => !keep.has(schedule.contactId)).map((schedule) => schedule.contactId);
+
+  if (merged.length) {
+    const { error: upsertError } = await client.from(SCHEDULES_TABLE).upsert(
+      merged.map((schedule) => toScheduleRow(profileId, schedule)),
+      { onConflict: 'profile_id,contact_id' }
+    );
+    if (upsertError) {
+      console.error('[reminderDelivery] Failed to save schedules', upsertError);
+      return { ok: false, message: 'Не удалось сохранить расписание напоминаний.' };
+    }
+  }
+  if (removed.length) {
+    const { error: deleteError } = await client
+      .from(SCHEDULES_TABLE)
+      .delete()
+      .eq('profile_id', profileId)
+      .in('contact_id', removed);
+    if (deleteError) {
+      console.warn('[reminderDelivery] Failed to drop schedules of removed contacts', deleteError);
+    }
+  }
+  return { ok: true, schedules: merged };
+}
+
+/**
+ * Turn the account's iCalendar feed on or off. The feed URL carries a
+ * random secret; rotating it cuts off every calendar that subscribed.
+ */
+export async function updateReminderCalendarFeed(
+  profileId: string,
+  action: ReminderCalendarAction
+): Promise<{ ok: true; delivery: ReminderDelivery } | Failure> {
+  const client = getSupabaseAdminClient();
+  if (!client) return NOT_CONFIGURED;
+
+  const current = await client
+    .from(DELIVERIES_TABLE)
+    .select('calendar_token')
+    .eq('profile_id', profileId)
+    .maybeSingle<Pick<DeliveryRow, 'calendar_token'>>();
+  if (current.error) {
+    console.error('[reminderDelivery] Failed to load calendar feed', current.error);
+    return { ok: false, message: 'Не удалось обновить ссылку на календарь.' };
+  }
+  const token =
+    action === 'disable'
+      ? null
+      : action === 'enable' && current.data?.calendar_token
+        ? current.data.calendar_token
+        : crypto.randomBytes(24).toString('base64url');
+
+  const { error } = await client
+    .from(DELIVERIES_TABLE)
+    .upsert(
+      { profile_id: profileId, calendar_token: token, updated_at: new Date().toISOString() },
+      { onConflict: 'profile_id' }
+    );
+  if (error) {
+    console.error('[reminderDelivery] Failed to save calendar feed', error);
+    return { ok: false, message: 'Не удалось обновить ссылку на календарь.' };
+  }
+  return loadReminderDelivery(profileId);
+}
+
+/** Schedules behind a calendar feed URL; fails for unknown or revoked tokens. */
+export async function loadReminderCalendar(
+  token: string
+): Promise<{ ok: true; schedules: ContactReminderSchedule[] } | Failure> {
+  const client = getSupabaseAdminClient();
+  if (!client) return NOT_CONFIGURED;
+  if (!token) return { ok: false, message: 'Календарь не найден.' };
+
+  const owner = await client
+    .from(DELIVERIES_TABLE)
+    .select('profile_id')
+    .eq('calendar_token', token)
+    .maybeSingle<{ profile_id: string }>();
+  if (owner.error) {
+    console.error('[reminderDelivery] Failed to resolve calendar feed', owner.error);
+    return { ok: false, message: 'Не удалось загрузить календарь.' };
+  }
+  if (!owner.data) return { ok: false, message: 'Календарь не найден.' };
+
+  const { data, error } = await client
+    .from(SCHEDULES_TABLE)
+    .select('*')
+    .eq('profile_id', owner.data.profile_id)
+    .eq('disabled', false)
+    .not('next_reminder_at', 'is', null)
+    .returns<ScheduleRow[]>();
+  if (error) {
+    console.error('[reminderDelivery] Failed to load calendar schedules', error);
+    return { ok: false, message: 'Не удалось загрузить календарь.' };
+  }
+  return { ok: true, schedules: (data ?? []).map(toSchedule) };
+}
+
+export function signReminderAction(profileId: string, contactId: string): string | null {
+  return signScopedToken({ pid: profileId, cid: contactId }, ACTION_AUDIENCE, ACTION_TOKEN_TTL_SECONDS);
+}
+
+export function readReminderActionToken(token: string): { profileId: string; contactId: string } | null {
+  const claims = verifyScopedToken(token, ACTION_AUDIENCE);
+  if (!claims || typeof claims.pid !== 'string' || typeof claims.cid !== 'string') return null;
+  return { profileId: claims.pid, contactId: claims.cid };
+}
+
+function actionUrl(token: string, action: ReminderAction): string {
+  return `${siteUrl()}/api/reminders/action?token=${encodeURIComponent(token)}&action=${action}`;
+}
+
+/** Snooze, mark done or turn off the reminder of one contact. */
+export async function applyReminderAction(
+  profileId: string,
+  contactId: string,
+  action: ReminderAction,
+  now = Date.now()
+): Promise<{ ok: true; schedule: ContactReminderSchedule } | Failure> {
+  const client = getSupabaseAdminClient();
+  if (!client) return NOT_CONFIGURED;
+
+  const [scheduleResult, deliveryResult] = await Promise.all([
+    client
+      .from(SCHEDULES_TABLE)
+      .select('*')
+      .eq('profile_id', profileId)
+      .eq('contact_id', contactId)
+      .maybeSingle<ScheduleRow>(),
+    loadReminderDelivery(profileId),
+  ]);
+  if (scheduleResult.error || !deliveryResult.ok) {
+    console.error('[reminderDelivery] Failed to load reminder for action', scheduleResult.error);
+    return { ok: false, message: 'Не удалось обновить напоминание.' };
+  }
+  if (!scheduleResult.data) {
+    return { ok: false, message: 'Напоминание не найдено — возможно, контакт удалён.' };
+  }
+
+  const schedule = toSchedule(scheduleResult.data);
+  const next: ContactReminderSchedule = { ...schedule, updatedAt: now };
+  if (action === 'snooze') {
+    next.disabled = false;
+    next.nextReminderAt = computeSnoozeTimestamp(now);
+  } else if (action === 'disable') {
+    next.disabled = true;
+    next.nextReminderAt = null;
+  } else {
+    // Devices log this as the contact's "reminder" interaction on their next sync.
+    next.disabled = false;
+    next.actedAt = now;
+    next.lastInteractionAt = now;
+    next.nextReminderAt = computeNextReminderTimestamp(deliveryResult.delivery.settings, now, schedule.cadence);
+  }
+
+  const { error } = await client
+    .from(SCHEDULES_TABLE)
+    .update(toScheduleRow(profileId, next))
+    .eq('profile_id', profileId)
+    .eq('contact_id', contactId);
+  if (error) {
+    console.error('[reminderDelivery] Failed to apply reminder action', error);
+    return { ok: false, message: 'Не удалось обновить напоминание.' };
+  }
+  return { ok: true, schedule: next };
+}
+
+/** Finish Telegram linking: `/start <code>` from the chat that should get reminders. */
+export async function linkTelegramChat(code: string, chatId: string): Promise<boolean> {
+  const client = getSupabaseAdminClient();
+  if (!client || !code) return false;
+  const { data, error } = await client
+    .from(DELIVERIES_TABLE)
+    .update({ telegram_chat_id: chatId, telegram_link_code: null, updated_at: new Date().toISOString() })
+    .eq('telegram_link_code', code)
+    .select('profile_id');
+  if (error) {
+    console.error('[reminderDelivery] Failed to link Telegram chat', error);
+    return false;
+  }
+  const profileId = (data as { profile_id: string }[] | null)?.[0]?.profile_id;
+  if (!profileId) return false;
+  // One chat serves one account; a chat linked again moves to the new account.
+  await client
+    .from(DELIVERIES_TABLE)
+    .update({ telegram_chat_id: null })
+    .eq('telegram_chat_id', chatId)
+    .neq('profile_id', profileId);
+  return true;
+}
+
+export async function findProfileByTelegramChat(chatId: string): Promise<string | null> {
+  const client = getSupabaseAdminClient();
+  if (!client) return null;
+  const { data, error } = await client
+    .from(DELIVERIES_TABLE)
+    .select('profile_id')
+    .eq('telegram_chat_id', chatId)
+    .maybeSingle<{ profile_id: string }>();
+  if (error) {
+    console.error('[reminderDelivery] Failed to find Telegram chat', error);
+    return null;
+  }
+  return data?.profile_id ?? null;
+}
+
+function reminderTitle(schedule: ContactReminderSchedule): string {
+  return `Напомни о себе ${schedule.contactName}`;
+}
+
+const REMINDER_BODY = 'Давно не общались — напишите пару слов или договоритесь о встрече.';
+
+function contactUrl(schedule: ContactReminderSchedule): string {
+  return `${siteUrl()}/app/contacts/${encodeURIComponent(schedule.contactId)}`;
+}
+
+async function deliverPush(
+  row: DeliveryRow,
+  schedules: ContactReminderSchedule[]
+): Promise<{ delivered: ContactReminderSchedule[]; gone: boolean }> {
+  const delivered: ContactReminderSchedule[] = [];
+  if (!row.push_subscription) return { delivered, gone: false };
+  for (const schedule of schedules) {
+    const token = signReminderAction(row.profile_id, schedule.contactId);
+    const result = await sendWebPush(row.push_subscription, {
+      type: 'reminder',
+      title: reminderTitle(schedule),
+      body: REMINDER_BODY,
+      tag: `innet-reminder-${schedule.contactId}`,
+      url: `/app/contacts/${encodeURIComponent(schedule.contactId)}`,
+      token,
+    });
+    if (result === 'gone') return { delivered, gone: true };
+    if (result === 'sent') delivered.push(schedule);
+  }
+  return { delivered, gone: false };
+}
+
+async function deliverEmail(row: DeliveryRow, schedules: ContactReminderSchedule[]): Promise<boolean> {
+  if (!row.email) return false;
+  const items = schedules.map((schedule) => {
+    const token = signReminderAction(row.profile_id, schedule.contactId);
+    return {
+      name: schedule.contactName,
+      open: contactUrl(schedule),
+      done: token ? actionUrl(token, 'done') : null,
+      snooze: token ? actionUrl(token, 'snooze') : null,
+    };
+  });
+  const text = [
+    'Пора напомнить о себе:',
+    '',
+    ...items.map((item) =>
+      [
+        `• ${item.name} — ${item.open}`,
+        item.done ? `  Готово: ${item.done}` : '',
+        item.snooze ? `  Отложить: ${item.snooze}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    ),
+    '',
+    'Настроить напоминания можно в профиле InNet.',
+  ].join('\n');
+  const html = [
+    '<p>Пора напомнить о себе:</p>',
+    '<ul>',
+    ...items.map(
+      (item) =>
+        `<li><a href="${escapeHtml(item.open)}">${escapeHtml(item.name)}</a>` +
+        (item.done ? ` — <a href="${escapeHtml(item.done)}">готово</a>` : '') +
+        (item.snooze ? ` · <a href="${escapeHtml(item.snooze)}">отложить</a>` : '') +
+        '</li>'
+    ),
+    '</ul>',
+    '<p style="color:#64748b">Настроить напоминания можно в профиле InNet.</p>',
+  ].join('');
+  return sendEmail({
+    to: row.email,
+    subject:
+      schedules.length === 1
+        ? reminderTitle(schedules[0])
+        : `Пора напомнить о себе: ${schedules.map((schedule) => schedule.contactName).join(', ')}`,
+    text,
+    html,
+  });
+}
+
+async function deliverTelegram(
+  row: DeliveryRow,
+  schedules: ContactReminderSchedule[]
+): Promise<ContactReminderSchedule[]> {
+  const delivered: ContactReminderSchedule[] = [];
+  if (!row.telegram_chat_id) return delivered;
+  for (const schedule of schedules) {
+    const buttons: TelegramButton[][] = [
+      [
+        { text: 'Готово', callback_data: `r:done:${schedule.contactId}` },
+        { text: 'Отложить', callback_data: `r:snooze:${schedule.contactId}` },
+      ],
+      [{ text: 'Открыть контакт', url: contactUrl(schedule) }],
+    ];
+    if (await sendTelegramMessage(row.telegram_chat_id, `${reminderTitle(schedule)}\n\n${REMINDER_BODY}`, buttons)) {
+      delivered.push(schedule);
+    }
+  }
+  return delivered;
+}
+
+function startOfUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Send the due reminders of one page of accounts. Each account's rows are
+ * fetched separately and only as many as it may still get today, so an
+ * account with a long overdue backlog never crowds out the others. Returns
+ * how many due rows it took on, so the caller can stop at `DELIVERY_BATCH`.
+ */
+async function deliverToAccounts(
+  client: SupabaseClient,
+  accounts: DeliveryRow[],
+  limit: number,
+  now: number,
+  summary: ReminderDeliverySummary
+): Promise<number> {
+  const profileIds = accounts.map((row) => row.profile_id);
+  const sentToday = await client
+    .from(SCHEDULES_TABLE)
+    .select('profile_id')
+    .in('profile_id', profileIds)
+    .gte('last_notified_at', new Date(startOfUtcDay(now)).toISOString())
+    .returns<{ profile_id: string }[]>();
+  if (sentToday.error) {
+    throw new Error(`Failed to count delivered reminders: ${sentToday.error.message}`);
+  }
+
+  const sentCount = new Map<string, number>();
+  (sentToday.data ?? []).forEach((row) => {
+    sentCount.set(row.profile_id, (sentCount.get(row.profile_id) ?? 0) + 1);
+  });
+
+  let handled = 0;
+  for (const row of accounts) {
+    if (handled >= limit) break;
+    const profileId = row.profile_id;
+    const settings = normalizeReminderSettings(row.settings ?? undefined);
+    // Accounts that stay on in-tab reminders are handled by the browser.
+    if (!isServerReminderChannel(row.channel) || !settings.enabled) continue;
+    const remaining = Math.max(0, REMINDER_DAILY_LIMIT - (sentCount.get(profileId) ?? 0));
+    if (!remaining) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    const { data: dueRows, error } = await client
+      .from(SCHEDULES_TABLE)
+      .select('*')
+      .eq('profile_id', profileId)
+      .eq('disabled', false)
+      .lte('next_reminder_at', new Date(now).toISOString())
+      .order('next_reminder_at', { ascending: true })
+      .limit(Math.min(remaining, limit - handled))
+      .returns<ScheduleRow[]>();
+    if (error) {
+      throw new Error(`Failed to list due reminders: ${error.message}`);
+    }
+    const batch = (dueRows ?? []).map(toSchedule);
+    handled += batch.length;
+    if (!batch.length) continue;
+
+    try {
+      let delivered: ContactReminderSchedule[] = [];
+      if (row.channel === 'push') {
+        const result = await deliverPush(row, batch);
+        delivered = result.delivered;
+        if (result.gone) {
+          await client
+            .from(DELIVERIES_TABLE)
+            .update({ push_subscription: null, channel: 'browser', updated_at: new Date(now).toISOString() })
+            .eq('profile_id', profileId);
+        }
+      } else if (row.channel === 'email') {
+        delivered = (await deliverEmail(row, batch)) ? batch : [];
+      } else if (row.channel === 'telegram') {
+        delivered = await deliverTelegram(row, batch);
+      }
+
+      summary.sent += delivered.length;
+      summary.failed += batch.length - delivered.length;
+      if (!delivered.length) continue;
+
+      const updates = delivered.map((schedule) =>
+        toScheduleRow(profileId, {
+          ...schedule,
+          lastNotifiedAt: now,
+          nextReminderAt: computeNextReminderTimestamp(settings, now, schedule.cadence),
+          updatedAt: now,
+        })
+      );
+      const { error: updateError } = await client
+        .from(SCHEDULES_TABLE)
+        .upsert(updates, { onConflict: 'profile_id,contact_id' });
+      if (updateError) {
+        console.error('[reminderDelivery] Failed to reschedule delivered reminders', { profileId, updateError });
+      }
+    } catch (deliveryError) {
+      summary.failed += batch.length;
+      console.error('[reminderDelivery] Failed to deliver reminders', { profileId, deliveryError });
+    }
+  }
+
+  return handled;
+}
+
+/**
+ * One pass of the delivery job: send reminders that are due through each
+ * account's channel, at most `REMINDER_DAILY_LIMIT` per account per day,
+ * and schedule the next one. Accounts are read `ACCOUNTS_PAGE` at a time
+ * until `DELIVERY_BATCH` due reminders were handled. Safe to run as often
+ * as the scheduler likes.
+ */
+export async function runReminderDelivery(now = Date.now()): Promise<ReminderDeliverySummary> {
+  const summary: ReminderDeliverySummary = { sent: 0, failed: 0, skipped: 0 };
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    console.warn('[reminderDelivery] Supabase is not configured, nothing to deliver');
+    return summary;
+  }
+
+  let handled = 0;
+  let after: string | null = null;
+  while (handled < DELIVERY_BATCH) {
+    // Accounts on in-tab reminders keep schedules here for the calendar feed
+    // only, and accounts that turned reminders off get none; leave both out.
+    // Stored settings without `enabled` count as off, as in `normalizeReminderSettings`.
+    let query = client
+      .from(DELIVERIES_TABLE)
+      .select('*')
+      .neq('channel', 'browser')
+      .or('settings.is.null,settings->>enabled.eq.true')
+      .order('profile_id', { ascending: true })
+      .limit(ACCOUNTS_PAGE);
+    if (after !== null) {
+      query = query.gt('profile_id', after);
+    }
+    const deliveries = await query.returns<DeliveryRow[]>();
+    if (deliveries.error) {
+      throw new Error(`Failed to load reminder delivery settings: ${deliveries.error.message}`);
+    }
+    const page = deliveries.data ?? [];
+    if (!page.length) break;
+
+    handled += await deliverToAccounts(client, page, DELIVERY_BATCH - handled, now, summary);
+    if (page.length < ACCOUNTS_PAGE) break;
+    after = page[page.length - 1].profile_id;
+  }
+
+  return summary;
+}
@@ -0,0 +1,108 @@
+import { chargeSavedPaymentMethod } from '../payments/yookassa';
+import { rememberPayment } from '../payments/store';
+import { PLAN_PRODUCT_CATALOG } from '../plans';
+import { handlePaymentNotification } from './paymentEvents';
+import {
+  expireSubscription,
+  listDueSubscriptions,
+  postponeSubscription,
+  recordRenewalFailure,
+  type Subscription,
+} from './subscriptions';
+
+export type RenewalSummary = {
+  renewed: number;
+  failed: number;
+  pending: number;
+  expired: number;
+};
+
+/** How long to wait for the webhook when YooKassa leaves a renewal pending. */
+const PENDING_RECHECK_MS = 60 * 60 * 1000;
+
+/**
+ * One pass of the renewal job: charge saved cards that are due, retry failed
+ * ones, and downgrade subscriptions whose grace period is over or that were
+ * canceled and reached the end of the paid period. Safe to run
+ * as often as the scheduler likes; each attempt uses its own idempotence key.
+ */
+export async function runRenewalCycle(now = Date.now()): Promise<RenewalSummary> {
+  const summary: RenewalSummary = { renewed: 0, failed: 0, pending: 0, expired: 0 };
+  const due = await listDueSubscriptions(now);
+
+  for (const subscription of due) {
+    try {
+      const canceledAndOver = subscription.status === 'canceled' && now >= subscription.currentPeriodEnd;
+      if (canceledAndOver || (subscription.graceUntil != null && now >= subscription.graceUntil)) {
+        const result = await expireSubscription(subscription);
+        if (result !== 'failed') summary.expired += 1;
+        continue;
+      }
+      if (subscription.status === 'canceled') {
+        await postponeSubscription(subscription, subscription.currentPeriodEnd);
+        continue;
+      }
+      const paymentMethodId = subscription.paymentMethodId;
+      if (!paymentMethodId) {
+        await recordRenewalFailure(subscription, 'no_payment_method', now);
+        summary.failed += 1;
+        continue;
+      }
+      const outcome = await chargeSubscription(subscription, paymentMethodId, now);
+      summary[outcome] += 1;
+    } catch (error) {
+      console.error('[renewals] Failed to process subscription', { userId: subscription.userId, error });
+    }
+  }
+
+  return summary;
+}
+
+async function chargeSubscription(
+  subscription: Subscription,
+  paymentMethodId: string,
+  now: number
+): Promise<'renewed' | 'failed' | 'pending'> {
+  const product = PLAN_PRODUCT_CATALOG[subscription.planProduct];
+  const metadata = { planId: subscription.planProduct, trialDays: '0', renewal: '1' };
+  let payment;
+  try {
+    payment = await chargeSavedPaymentMethod({
+      amount: product.amount,
+      description: product.description,
+      paymentMethodId,
+      userId: subscription.userId,
+      metadata,
+      idempotenceKey: `renewal:${subscription.userId}:${subscription.currentPeriodEnd}:${subscription.failedAttempts}`,
+    });
+  } catch (error) {
+    console.warn('[renewals] Charge request failed', { userId: subscription.userId, error });
+    await recordRenewalFailure(subscription, '', now);
+    return 'failed';
+  }
+
+  await rememberPayment({
+    paymentId: payment.id,
+    userId: subscription.userId,
+    planType: subscription.planProduct,
+    amount: product.amount,
+    currency: payment.amount?.currency,
+    status: 'pending',
+  });
+
+  if (payment.status === 'succeeded' || payment.status === 'canceled') {
+    // Same path as the webhook, which YooKassa will still send and which is then ignored.
+    const outcome = await handlePaymentNotification({
+      event: `payment.${payment.status}`,
+      object: { ...payment, metadata: { ...metadata, ...(payment.metadata ?? {}), userId: subscription.userId } },
+    });
+    if (outcome === 'retry') {
+      throw new Error(`Renewal ${payment.id} could not be applied`);
+    }
+    return payment.status === 'succeeded' ? 'renewed' : 'failed';
+  }
+
+  // Still processing at YooKassa: the webhook finishes it, the job only looks again later.
+  await postponeSubscription(subscription, now + PENDING_RECHECK_MS);
+  return 'pending';
+}
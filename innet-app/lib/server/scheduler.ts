@@ -0,0 +1,7 @@
+import type { NextApiRequest } from 'next';
+import { hasBearerSecret } from './bearerAuth';
+
+/** Scheduled jobs (cron, Vercel Cron, pg_cron) send `Authorization: Bearer $CRON_SECRET`. */
+export function isAuthorizedScheduler(req: NextApiRequest): boolean {
+  return hasBearerSecret(req, process.env.CRON_SECRET);
+}
@@ -0,0 +1,157 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Who is calling an API route. Issued by `/api/account/login` and
+ * `/api/account/register`; handlers read ids from here, never from the
+ * request body or query.
+ */
+export type Session = {
+  userId: string;
+  profileId: string;
+  email: string;
+};
+
+type SessionClaims = {
+  sub: string;
+  pid: string;
+  email: string;
+};
+
+type SessionHandler<T> = (
+  req: NextApiRequest,
+  res: NextApiResponse<T | { ok: false; message: string }>,
+  session: Session
+) => unknown | Promise<unknown>;
+
+type OptionalSessionHandler<T> = (
+  req: NextApiRequest,
+  res: NextApiResponse<T | { ok: false; message: string }>,
+  session: Session | null
+) => unknown | Promise<unknown>;
+
+export const SESSION_COOKIE = 'innet_session';
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const DEV_SECRET = 'innet-dev-session-secret';
+
+let warnedAboutDevSecret = false;
+
+function getSessionSecret(): string | null {
+  const secret = process.env.INNET_SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') return null;
+  if (!warnedAboutDevSecret) {
+    warnedAboutDevSecret = true;
+    console.warn('[session] INNET_SESSION_SECRET is not set, using a development secret');
+  }
+  return DEV_SECRET;
+}
+
+function serializeCookie(value: string, maxAge: number): string {
+  const parts = [
+    `${SESSION_COOKIE}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAge}`,
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure');
+  }
+  return parts.join('; ');
+}
+
+/** API requests and the `req` of `getServerSideProps` both carry these. */
+type SessionSource = Pick<NextApiRequest, 'headers' | 'cookies'>;
+
+function readToken(req: SessionSource): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  return req.cookies?.[SESSION_COOKIE] || null;
+}
+
+/**
+ * Sign a session for the account and set it as an httpOnly cookie.
+ * Returns false when no signing secret is configured.
+ */
+export function issueSession(res: NextApiResponse, session: Session): boolean {
+  const secret = getSessionSecret();
+  if (!secret) {
+    console.error('[session] INNET_SESSION_SECRET is required in production');
+    return false;
+  }
+  const claims: SessionClaims = { sub: session.userId, pid: session.profileId, email: session.email };
+  const token = jwt.sign(claims, secret, { expiresIn: SESSION_TTL_SECONDS });
+  res.setHeader('Set-Cookie', serializeCookie(token, SESSION_TTL_SECONDS));
+  return true;
+}
+
+export function clearSession(res: NextApiResponse): void {
+  res.setHeader('Set-Cookie', serializeCookie('', 0));
+}
+
+export function readSession(req: SessionSource): Session | null {
+  const token = readToken(req);
+  const secret = getSessionSecret();
+  if (!token || !secret) return null;
+  try {
+    const claims = jwt.verify(token, secret);
+    if (typeof claims !== 'object' || !claims) return null;
+    const { sub, pid, email } = claims as Partial<SessionClaims>;
+    if (typeof sub !== 'string' || typeof pid !== 'string' || !sub || !pid) return null;
+    return { userId: sub, profileId: pid, email: typeof email === 'string' ? email : '' };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a short-lived token for one purpose (`audience`), e.g. the
+ * snooze/done links of a reminder. It is not a session and cannot be
+ * used as one. Returns null when no signing secret is configured.
+ */
+export function signScopedToken(
+  claims: Record<string, string>,
+  audience: string,
+  ttlSeconds: number
+): string | null {
+  const secret = getSessionSecret();
+  if (!secret) return null;
+  return jwt.sign(claims, secret, { audience, expiresIn: ttlSeconds });
+}
+
+export function verifyScopedToken(token: string, audience: string): Record<string, unknown> | null {
+  const secret = getSessionSecret();
+  if (!token || !secret) return null;
+  try {
+    const claims = jwt.verify(token, secret, { audience });
+    return typeof claims === 'object' && claims ? (claims as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wrap an API handler so it only runs for signed-in callers. Requests
+ * without a valid session get 401.
+ */
+export function withSession<T>(handler: SessionHandler<T>) {
+  return async (req: NextApiRequest, res: NextApiResponse<T | { ok: false; message: string }>) => {
+    const session = readSession(req);
+    if (!session) {
+      return res.status(401).json({ ok: false, message: 'Войдите в аккаунт, чтобы продолжить.' });
+    }
+    return handler(req, res, session);
+  };
+}
+
+/**
+ * Same as `withSession`, for routes that also serve anonymous visitors
+ * (e.g. someone opening a shared QR link).
+ */
+export function withOptionalSession<T>(handler: OptionalSessionHandler<T>) {
+  return async (req: NextApiRequest, res: NextApiResponse<T | { ok: false; message: string }>) =>
+    handler(req, res, readSession(req));
+}
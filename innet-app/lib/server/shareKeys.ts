@@ -0,0 +1,117 @@
+import type { EscrowedShareKeys, PublicShareKeys, WrappedShareSecrets } from '../share';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+
+/**
+ * The signing and encryption keys of each profile (`share_keys`). Only the
+ * public halves are stored in the clear: recipients check `owner.key` of a
+ * token against them. The secret halves arrive wrapped with the account
+ * password on the device (`wrapShareSecrets`), so the server can hand them
+ * to the account's other devices but never use them itself.
+ */
+
+type ShareKeysRow = {
+  profile_id: string;
+  sign_public_key: string;
+  box_public_key: string;
+  wrapped_secret_keys: WrappedShareSecrets | null;
+};
+
+const KEYS_TABLE = 'share_keys';
+const UNIQUE_VIOLATION = '23505';
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: ключи подписи негде хранить.');
+  }
+  return client;
+}
+
+function toEscrowedKeys(row: ShareKeysRow): EscrowedShareKeys {
+  return {
+    signPublicKey: row.sign_public_key,
+    boxPublicKey: row.box_public_key,
+    wrapped: row.wrapped_secret_keys ?? null,
+  };
+}
+
+/** A wrapped-secrets blob with every field present, or null. */
+export function normalizeWrappedSecrets(raw: unknown): WrappedShareSecrets | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { salt, nonce, box, iterations } = raw as Partial<Record<keyof WrappedShareSecrets, unknown>>;
+  if (
+    typeof salt !== 'string' ||
+    typeof nonce !== 'string' ||
+    typeof box !== 'string' ||
+    typeof iterations !== 'number' ||
+    !Number.isInteger(iterations) ||
+    iterations < 100_000
+  ) {
+    return null;
+  }
+  return { salt, nonce, box, iterations };
+}
+
+async function loadRow(profileId: string): Promise<ShareKeysRow | null> {
+  const { data, error } = await requireClient()
+    .from(KEYS_TABLE)
+    .select('profile_id,sign_public_key,box_public_key,wrapped_secret_keys')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ShareKeysRow | null) ?? null;
+}
+
+/** Public keys and wrapped secrets, for devices of the profile's own account. */
+export async function loadEscrowedShareKeys(profileId: string): Promise<EscrowedShareKeys | null> {
+  const row = await loadRow(profileId);
+  return row ? toEscrowedKeys(row) : null;
+}
+
+/** What anyone may learn: the keys that tokens of this profile must carry. */
+export async function loadPublicShareKeys(profileId: string): Promise<PublicShareKeys | null> {
+  const row = await loadRow(profileId);
+  return row ? { signPublicKey: row.sign_public_key, boxPublicKey: row.box_public_key } : null;
+}
+
+/**
+ * Whether `signPublicKey` is the key bound to the profile. A profile with no
+ * stored pair yet has nothing to check against and passes.
+ */
+export async function isShareKeyAccepted(profileId: string, signPublicKey: string | undefined): Promise<boolean> {
+  const bound = await loadPublicShareKeys(profileId);
+  return !bound || bound.signPublicKey === signPublicKey;
+}
+
+/**
+ * Bind `keys` to the profile unless it already has a pair; either way the
+ * keys now bound to the profile are returned.
+ */
+export async function claimShareKeys(profileId: string, keys: EscrowedShareKeys): Promise<EscrowedShareKeys> {
+  const { error } = await requireClient().from(KEYS_TABLE).insert({
+    profile_id: profileId,
+    sign_public_key: keys.signPublicKey,
+    box_public_key: keys.boxPublicKey,
+    wrapped_secret_keys: keys.wrapped,
+  });
+  if (error && error.code !== UNIQUE_VIOLATION) throw error;
+  const stored = await loadEscrowedShareKeys(profileId);
+  if (!stored) {
+    throw new Error('[shareKeys] Keys vanished right after they were stored');
+  }
+  return stored;
+}
+
+/**
+ * Replace the wrapped secrets of the bound pair, e.g. after a password
+ * change. Only a device that holds the bound signing key can do this.
+ */
+export async function saveWrappedSecrets(profileId: string, wrapped: WrappedShareSecrets): Promise<boolean> {
+  const { data, error } = await requireClient()
+    .from(KEYS_TABLE)
+    .update({ wrapped_secret_keys: wrapped })
+    .eq('profile_id', profileId)
+    .select('profile_id');
+  if (error) throw error;
+  return Boolean(data?.length);
+}
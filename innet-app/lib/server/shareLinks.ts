@@ -0,0 +1,253 @@
+import crypto from 'node:crypto';
+import {
+  SHARE_LINK_LIFETIMES,
+  type ShareLinkInfo,
+  type ShareLinkLifetime,
+  type ShareLinkOptions,
+} from '../shareAliasClient';
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+
+type ShareLinkRow = {
+  slug: string;
+  token: string;
+  owner_user_id: string | null;
+  lifetime: ShareLinkLifetime | null;
+  max_opens: number | null;
+  open_count: number;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+};
+
+type ShareLinkOpenRow = {
+  slug: string;
+  opened_at: string;
+  device: string;
+};
+
+/** Result of `open_share_link`, see SUPABASE.md. */
+type OpenStatus = 'ok' | 'missing' | 'revoked' | 'expired' | 'exhausted';
+
+export type ShareLinkResolution =
+  | { ok: true; token: string; expiresAt: string | null }
+  | { ok: false; status: 404 | 410; message: string };
+
+const LINKS_TABLE = 'share_links';
+const OPENS_TABLE = 'share_link_opens';
+const OPEN_FUNCTION = 'open_share_link';
+const UNIQUE_VIOLATION = '23505';
+const SLUG_LENGTH = 9;
+const SLUG_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const INSERT_ATTEMPTS = 6;
+const RECENT_OPENS_LIMIT = 5;
+
+const OPEN_MESSAGES: Record<Exclude<OpenStatus, 'ok'>, { status: 404 | 410; message: string }> = {
+  missing: { status: 404, message: 'QR-код больше не действителен.' },
+  revoked: { status: 410, message: 'Владелец отозвал эту ссылку.' },
+  expired: { status: 410, message: 'Срок действия QR-кода истёк.' },
+  exhausted: { status: 410, message: 'Ссылку уже открыли максимальное число раз.' },
+};
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: короткие ссылки негде хранить.');
+  }
+  return client;
+}
+
+function generateSlug(length = SLUG_LENGTH): string {
+  const bytes = crypto.randomBytes(length);
+  const alphabetLength = SLUG_ALPHABET.length;
+  let slug = '';
+  for (let i = 0; i < length; i += 1) {
+    const index = bytes[i] % alphabetLength;
+    slug += SLUG_ALPHABET[index];
+  }
+  return slug;
+}
+
+/** Single-use links allow exactly one open whatever `maxOpens` says. */
+function resolveMaxOpens(options: ShareLinkOptions): number | null {
+  if (options.lifetime === 'single-use') return 1;
+  return options.maxOpens;
+}
+
+function isLinkActive(row: ShareLinkRow, now = Date.now()): boolean {
+  if (row.revoked_at) return false;
+  if (row.expires_at && Date.parse(row.expires_at) <= now) return false;
+  return row.max_opens == null || row.open_count < row.max_opens;
+}
+
+/**
+ * Boil a user agent down to device and browser family, e.g. «Android ·
+ * Chrome». The full string is never stored.
+ */
+export function describeUserAgent(userAgent: string | undefined): string {
+  const ua = userAgent ?? '';
+  if (!ua) return 'Неизвестное устройство';
+  if (/bot|crawler|spider|preview|TelegramBot|WhatsApp|facebookexternalhit|Slackbot/i.test(ua)) {
+    return 'Предпросмотр ссылки';
+  }
+
+  let device = 'Компьютер';
+  if (/iPhone/i.test(ua)) device = 'iPhone';
+  else if (/iPad/i.test(ua)) device = 'iPad';
+  else if (/Android/i.test(ua)) device = 'Android';
+  else if (/Mac OS X|Macintosh/i.test(ua)) device = 'Mac';
+  else if (/Windows/i.test(ua)) device = 'Windows';
+  else if (/Linux/i.test(ua)) device = 'Linux';
+
+  let browser = 'браузер';
+  if (/Telegram/i.test(ua)) browser = 'Telegram';
+  else if (/YaBrowser/i.test(ua)) browser = 'Яндекс Браузер';
+  else if (/Edg\//i.test(ua)) browser = 'Edge';
+  else if (/OPR\/|Opera/i.test(ua)) browser = 'Opera';
+  else if (/Firefox|FxiOS/i.test(ua)) browser = 'Firefox';
+  else if (/Chrome|CriOS/i.test(ua)) browser = 'Chrome';
+  else if (/Safari/i.test(ua)) browser = 'Safari';
+
+  return `${device} · ${browser}`;
+}
+
+/**
+ * Create a short link for `token` owned by `ownerUserId`. An active link
+ * with the same token and settings is reused, so re-rendering the QR page
+ * does not pile up aliases.
+ */
+export async function createShareLink(params: {
+  ownerUserId: string;
+  token: string;
+  options: ShareLinkOptions;
+}): Promise<{ slug: string; expiresAt: string | null }> {
+  const { ownerUserId, token, options } = params;
+  const client = requireClient();
+  const maxOpens = resolveMaxOpens(options);
+
+  let lookup = client
+    .from(LINKS_TABLE)
+    .select('*')
+    .eq('token', token)
+    .eq('owner_user_id', ownerUserId)
+    .eq('lifetime', options.lifetime)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  lookup = maxOpens == null ? lookup.is('max_opens', null) : lookup.eq('max_opens', maxOpens);
+  const { data: existing, error: lookupError } = await lookup;
+  if (lookupError) {
+    console.error('[shareLinks] Failed to lookup token', lookupError);
+  }
+  const reusable = ((existing ?? []) as ShareLinkRow[]).find((row) => isLinkActive(row));
+  if (reusable) {
+    return { slug: reusable.slug, expiresAt: reusable.expires_at };
+  }
+
+  const { ttlMs } = SHARE_LINK_LIFETIMES[options.lifetime];
+  const expiresAt = ttlMs == null ? null : new Date(Date.now() + ttlMs).toISOString();
+  for (let attempt = 0; attempt < INSERT_ATTEMPTS; attempt += 1) {
+    const slug = generateSlug();
+    const { error } = await client.from(LINKS_TABLE).insert({
+      slug,
+      token,
+      owner_user_id: ownerUserId,
+      lifetime: options.lifetime,
+      max_opens: maxOpens,
+      expires_at: expiresAt,
+    });
+    if (!error) {
+      return { slug, expiresAt };
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Не удалось создать короткую ссылку: ${error.message}`);
+    }
+  }
+  throw new Error('Не удалось подобрать свободный код для короткой ссылки.');
+}
+
+/**
+ * Resolve a slug for `/s/[slug]` and log the open. Revocation, expiry and
+ * the open limit are checked in the same transaction as the counter, so a
+ * single-use link cannot be opened twice by concurrent requests.
+ */
+export async function openShareLink(slug: string, userAgent: string | undefined): Promise<ShareLinkResolution> {
+  const { data, error } = await requireClient().rpc(OPEN_FUNCTION, {
+    p_slug: slug,
+    p_device: describeUserAgent(userAgent),
+  });
+  if (error) {
+    throw new Error(`Не удалось открыть короткую ссылку: ${error.message}`);
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { status: OpenStatus; token: string | null; expires_at: string | null }
+    | null;
+  if (!row || row.status !== 'ok' || !row.token) {
+    return { ok: false, ...(OPEN_MESSAGES[row?.status as Exclude<OpenStatus, 'ok'>] ?? OPEN_MESSAGES.missing) };
+  }
+  return { ok: true, token: row.token, expiresAt: row.expires_at };
+}
+
+/** The owner's links that still open, newest first, with the latest opens. */
+export async function listShareLinks(ownerUserId: string): Promise<ShareLinkInfo[]> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from(LINKS_TABLE)
+    .select('*')
+    .eq('owner_user_id', ownerUserId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+  if (error) {
+    throw new Error(`Не удалось получить короткие ссылки: ${error.message}`);
+  }
+  const now = Date.now();
+  const links = ((data ?? []) as ShareLinkRow[]).filter((row) => isLinkActive(row, now));
+  if (!links.length) return [];
+
+  const { data: opens, error: opensError } = await client
+    .from(OPENS_TABLE)
+    .select('slug,opened_at,device')
+    .in(
+      'slug',
+      links.map((link) => link.slug)
+    )
+    .order('opened_at', { ascending: false });
+  if (opensError) {
+    throw new Error(`Не удалось получить открытия ссылок: ${opensError.message}`);
+  }
+  const recentOpens = new Map<string, ShareLinkOpenRow[]>();
+  for (const open of (opens ?? []) as ShareLinkOpenRow[]) {
+    const list = recentOpens.get(open.slug) ?? [];
+    if (list.length < RECENT_OPENS_LIMIT) {
+      list.push(open);
+      recentOpens.set(open.slug, list);
+    }
+  }
+
+  return links.map((row) => ({
+    slug: row.slug,
+    lifetime: row.lifetime ?? '12h',
+    maxOpens: row.max_opens,
+    openCount: row.open_count,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    recentOpens: (recentOpens.get(row.slug) ?? []).map((open) => ({
+      openedAt: open.opened_at,
+      device: open.device,
+    })),
+  }));
+}
+
+/** Stop a link from opening. Returns false when it is not the owner's link. */
+export async function revokeShareLink(ownerUserId: string, slug: string): Promise<boolean> {
+  const { data, error } = await requireClient()
+    .from(LINKS_TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('slug', slug)
+    .eq('owner_user_id', ownerUserId)
+    .is('revoked_at', null)
+    .select('slug');
+  if (error) {
+    throw new Error(`Не удалось отозвать ссылку: ${error.message}`);
+  }
+  return Boolean(data?.length);
+}
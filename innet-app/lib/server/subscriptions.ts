@@ -0,0 +1,410 @@
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+import type { UserAccount } from '../storage';
+import { PLAN_PRODUCT_CATALOG, type PlanId, type PlanProduct } from '../plans';
+import { recordPlanChange } from '../payments/store';
+import type { YookassaPaymentMethod } from '../payments/yookassa';
+
+export type SubscriptionStatus = 'active' | 'past_due' | 'canceled' | 'expired';
+
+export type Subscription = {
+  userId: string;
+  planProduct: PlanProduct;
+  status: SubscriptionStatus;
+  /** Saved YooKassa card; null for one-off payments, which simply run out. */
+  paymentMethodId: string | null;
+  paymentMethodTitle: string | null;
+  currentPeriodEnd: number;
+  /** Set after the first failed renewal; the plan is downgraded once it passes. */
+  graceUntil: number | null;
+  failedAttempts: number;
+  nextAttemptAt: number | null;
+  /** In-app dunning message shown until the subscription is paid again. */
+  notice: string | null;
+};
+
+export type PlanUpdateResult = 'applied' | 'skipped' | 'failed';
+
+type SubscriptionRow = {
+  user_id: string;
+  plan_product: PlanProduct;
+  status: SubscriptionStatus;
+  payment_method_id: string | null;
+  payment_method_title: string | null;
+  current_period_end: string;
+  grace_until: string | null;
+  failed_attempts: number;
+  next_attempt_at: string | null;
+  notice: string | null;
+};
+
+type PersistedUser = Omit<UserAccount, 'password'>;
+
+const SUBSCRIPTIONS_TABLE = 'subscriptions';
+const ACCOUNTS_TABLE = 'user_accounts';
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+/** Saved cards are charged this long before the paid period ends. */
+export const RENEWAL_LEAD_MS = DAY_IN_MS;
+export const GRACE_PERIOD_MS = 7 * DAY_IN_MS;
+const RETRY_DELAYS_MS = [DAY_IN_MS, 2 * DAY_IN_MS, 3 * DAY_IN_MS];
+
+const FAILURE_REASONS: Record<string, string> = {
+  insufficient_funds: 'на карте недостаточно средств',
+  card_expired: 'срок действия карты истёк',
+  permission_revoked: 'вы отозвали разрешение на автоплатежи',
+  no_payment_method: 'карта для автопродления не привязана',
+};
+
+const toIso = (value: number | null) => (value == null ? null : new Date(value).toISOString());
+const fromIso = (value: string | null) => (value ? Date.parse(value) : null);
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    userId: row.user_id,
+    planProduct: row.plan_product,
+    status: row.status,
+    paymentMethodId: row.payment_method_id,
+    paymentMethodTitle: row.payment_method_title,
+    currentPeriodEnd: Date.parse(row.current_period_end),
+    graceUntil: fromIso(row.grace_until),
+    failedAttempts: row.failed_attempts ?? 0,
+    nextAttemptAt: fromIso(row.next_attempt_at),
+    notice: row.notice,
+  };
+}
+
+function toRow(subscription: Subscription): SubscriptionRow & { updated_at: string } {
+  return {
+    user_id: subscription.userId,
+    plan_product: subscription.planProduct,
+    status: subscription.status,
+    payment_method_id: subscription.paymentMethodId,
+    payment_method_title: subscription.paymentMethodTitle,
+    current_period_end: new Date(subscription.currentPeriodEnd).toISOString(),
+    grace_until: toIso(subscription.graceUntil),
+    failed_attempts: subscription.failedAttempts,
+    next_attempt_at: toIso(subscription.nextAttemptAt),
+    notice: subscription.notice,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: подписки негде сохранить.');
+  }
+  return client;
+}
+
+async function saveSubscription(subscription: Subscription): Promise<void> {
+  const { error } = await requireClient()
+    .from(SUBSCRIPTIONS_TABLE)
+    .upsert(toRow(subscription), { onConflict: 'user_id' });
+  if (error) {
+    throw new Error(`Не удалось сохранить подписку: ${error.message}`);
+  }
+}
+
+export async function getSubscription(userId: string): Promise<Subscription | null> {
+  const { data, error } = await requireClient()
+    .from(SUBSCRIPTIONS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Не удалось получить подписку: ${error.message}`);
+  }
+  return data ? toSubscription(data as SubscriptionRow) : null;
+}
+
+/** Subscriptions whose renewal charge or downgrade is due at `now`. */
+export async function listDueSubscriptions(now: number, limit = 100): Promise<Subscription[]> {
+  const { data, error } = await requireClient()
+    .from(SUBSCRIPTIONS_TABLE)
+    .select('*')
+    .in('status', ['active', 'past_due', 'canceled'])
+    .lte('next_attempt_at', new Date(now).toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+  if (error) {
+    throw new Error(`Не удалось получить подписки к продлению: ${error.message}`);
+  }
+  return (data ?? []).map((row: SubscriptionRow) => toSubscription(row));
+}
+
+/**
+ * Write the plan into the account row the client restores on login and log
+ * the change in the plan audit.
+ */
+export async function applyPlanToAccount(params: {
+  userId: string;
+  plan: PlanId;
+  planProduct: PlanProduct | null;
+  expiresAt: number | null;
+  paymentId: string | null;
+  reason: string;
+}): Promise<PlanUpdateResult> {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    console.warn('[subscriptions] Supabase client unavailable, skipping remote plan sync');
+    return 'skipped';
+  }
+
+  const { userId, plan, planProduct, expiresAt, paymentId, reason } = params;
+
+  try {
+    const { data, error } = await client.from(ACCOUNTS_TABLE).select('data').eq('id', userId).maybeSingle();
+
+    if (error) {
+      console.error('[subscriptions] Failed to load user account', { userId, paymentId, error });
+      return 'failed';
+    }
+
+    const rawUser = data?.data as PersistedUser | null | undefined;
+    if (!rawUser) {
+      console.warn('[subscriptions] User data missing in Supabase, cannot apply plan', { userId, paymentId });
+      return 'skipped';
+    }
+
+    const activatedAt = rawUser.plan === plan && rawUser.planActivatedAt ? rawUser.planActivatedAt : Date.now();
+    const updatedUser: PersistedUser = {
+      ...rawUser,
+      plan,
+      planActivatedAt: activatedAt,
+      planProduct,
+      planExpiresAt: expiresAt,
+    };
+
+    const { error: updateError } = await client
+      .from(ACCOUNTS_TABLE)
+      .update({
+        plan,
+        plan_activated_at: new Date(activatedAt).toISOString(),
+        data: updatedUser,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+
+    if (updateError) {
+      console.error('[subscriptions] Failed to update plan', { userId, paymentId, error: updateError });
+      return 'failed';
+    }
+
+    await recordPlanChange({
+      userId,
+      paymentId,
+      previousPlan: rawUser.plan ?? null,
+      nextPlan: plan,
+      previousProduct: rawUser.planProduct ?? null,
+      nextProduct: planProduct,
+      expiresAt,
+      reason,
+    });
+    return 'applied';
+  } catch (error) {
+    console.error('[subscriptions] Unexpected error while applying plan', { userId, paymentId, error });
+    return 'failed';
+  }
+}
+
+/**
+ * Start or extend a subscription after a successful payment. Renewals add a
+ * period to the current end so paying early loses nothing; a saved card
+ * schedules the next charge `RENEWAL_LEAD_MS` before the new end.
+ */
+export async function extendSubscription(params: {
+  userId: string;
+  planProduct: PlanProduct;
+  paymentId: string;
+  paymentMethod?: YookassaPaymentMethod;
+  trialDays?: number;
+}): Promise<PlanUpdateResult> {
+  const { userId, planProduct, paymentId, paymentMethod, trialDays } = params;
+  const now = Date.now();
+  const existing = await getSubscription(userId);
+  const base = existing && existing.status !== 'expired' ? Math.max(now, existing.currentPeriodEnd) : now;
+  const days = trialDays && trialDays > 0 ? trialDays : PLAN_PRODUCT_CATALOG[planProduct].periodDays;
+  const periodEnd = base + days * DAY_IN_MS;
+  const savedMethod = paymentMethod?.saved ? paymentMethod : null;
+  const paymentMethodId = savedMethod?.id ?? existing?.paymentMethodId ?? null;
+
+  const result = await applyPlanToAccount({
+    userId,
+    plan: 'pro',
+    planProduct,
+    expiresAt: periodEnd,
+    paymentId,
+    reason: existing && existing.status !== 'expired' ? 'subscription.renewed' : 'payment.succeeded',
+  });
+  if (result === 'failed') return result;
+
+  await saveSubscription({
+    userId,
+    planProduct,
+    status: 'active',
+    paymentMethodId,
+    paymentMethodTitle: savedMethod?.title ?? (paymentMethodId ? existing?.paymentMethodTitle ?? null : null),
+    currentPeriodEnd: periodEnd,
+    graceUntil: null,
+    failedAttempts: 0,
+    nextAttemptAt: paymentMethodId ? periodEnd - RENEWAL_LEAD_MS : periodEnd,
+    notice: null,
+  });
+  return result;
+}
+
+/**
+ * Add free Pro days (promo codes, referral rewards). They extend a running
+ * subscription like a payment would; without one, a card-less subscription
+ * starts that simply runs out.
+ */
+export async function grantProDays(params: {
+  userId: string;
+  days: number;
+  reason: string;
+}): Promise<{ result: PlanUpdateResult; periodEnd: number }> {
+  const { userId, days, reason } = params;
+  const now = Date.now();
+  const existing = await getSubscription(userId);
+  const running = existing && existing.status !== 'expired' ? existing : null;
+  const periodEnd = Math.max(now, running?.currentPeriodEnd ?? now) + days * DAY_IN_MS;
+  const planProduct = running?.planProduct ?? 'pro-monthly';
+
+  const result = await applyPlanToAccount({
+    userId,
+    plan: 'pro',
+    planProduct,
+    expiresAt: periodEnd,
+    paymentId: null,
+    reason,
+  });
+  if (result === 'failed') return { result, periodEnd };
+
+  const renews = running?.status !== 'canceled' && running?.paymentMethodId;
+  await saveSubscription({
+    userId,
+    planProduct,
+    status: running?.status === 'canceled' ? 'canceled' : 'active',
+    paymentMethodId: running?.paymentMethodId ?? null,
+    paymentMethodTitle: running?.paymentMethodTitle ?? null,
+    currentPeriodEnd: periodEnd,
+    graceUntil: null,
+    failedAttempts: 0,
+    nextAttemptAt: renews ? periodEnd - RENEWAL_LEAD_MS : periodEnd,
+    notice: null,
+  });
+  return { result, periodEnd };
+}
+
+/** Look at the subscription again at `nextAttemptAt` without changing anything else. */
+export async function postponeSubscription(subscription: Subscription, nextAttemptAt: number): Promise<void> {
+  await saveSubscription({ ...subscription, nextAttemptAt });
+}
+
+/**
+ * Note a failed renewal: schedule the next retry inside the grace period and
+ * leave a dunning notice for the app to show.
+ */
+export async function recordRenewalFailure(subscription: Subscription, reason: string, now = Date.now()): Promise<void> {
+  const failedAttempts = subscription.failedAttempts + 1;
+  const graceUntil = subscription.graceUntil ?? Math.max(subscription.currentPeriodEnd, now) + GRACE_PERIOD_MS;
+  const delay = RETRY_DELAYS_MS[Math.min(failedAttempts - 1, RETRY_DELAYS_MS.length - 1)];
+  const reasonText = FAILURE_REASONS[reason] ?? 'банк отклонил платёж';
+  const graceDate = new Date(graceUntil).toLocaleDateString('ru-RU');
+
+  await saveSubscription({
+    ...subscription,
+    status: 'past_due',
+    failedAttempts,
+    graceUntil,
+    nextAttemptAt: Math.min(now + delay, graceUntil),
+    notice: `Не удалось продлить подписку: ${reasonText}. Доступ сохранится до ${graceDate} — оплатите подписку, чтобы не потерять его.`,
+  });
+}
+
+/**
+ * The user turned auto-renewal off: forget the saved card and let the paid
+ * period run out. The renewal job expires the subscription at its end
+ * without a grace period or dunning.
+ */
+export async function cancelSubscription(subscription: Subscription): Promise<Subscription> {
+  const canceled: Subscription = {
+    ...subscription,
+    status: 'canceled',
+    paymentMethodId: null,
+    paymentMethodTitle: null,
+    graceUntil: null,
+    failedAttempts: 0,
+    nextAttemptAt: subscription.currentPeriodEnd,
+    notice: null,
+  };
+  await saveSubscription(canceled);
+  return canceled;
+}
+
+/**
+ * A plan payment was refunded: take its period back. If nothing paid is left
+ * the account goes back to the free plan at once.
+ */
+export async function revokeSubscriptionPeriod(params: {
+  userId: string;
+  planProduct: PlanProduct;
+  paymentId: string;
+}): Promise<PlanUpdateResult> {
+  const { userId, planProduct, paymentId } = params;
+  const subscription = await getSubscription(userId);
+  if (!subscription || subscription.status === 'expired') {
+    return 'skipped';
+  }
+
+  const periodEnd = subscription.currentPeriodEnd - PLAN_PRODUCT_CATALOG[planProduct].periodDays * DAY_IN_MS;
+  if (periodEnd <= Date.now()) {
+    return expireSubscription(subscription, {
+      paymentId,
+      reason: 'payment.refunded',
+      notice: 'Платёж возвращён, аккаунт переведён на бесплатный план.',
+    });
+  }
+
+  const result = await applyPlanToAccount({
+    userId,
+    plan: 'pro',
+    planProduct: subscription.planProduct,
+    expiresAt: periodEnd,
+    paymentId,
+    reason: 'payment.refunded',
+  });
+  if (result === 'failed') return result;
+
+  const renews = subscription.status !== 'canceled' && subscription.paymentMethodId;
+  await saveSubscription({
+    ...subscription,
+    currentPeriodEnd: periodEnd,
+    nextAttemptAt: renews ? periodEnd - RENEWAL_LEAD_MS : periodEnd,
+  });
+  return result;
+}
+
+/** The paid period (and grace period, if any) ran out: move the account back to the free plan. */
+export async function expireSubscription(
+  subscription: Subscription,
+  cause: { paymentId?: string; reason?: string; notice?: string } = {}
+): Promise<PlanUpdateResult> {
+  const result = await applyPlanToAccount({
+    userId: subscription.userId,
+    plan: 'free',
+    planProduct: null,
+    expiresAt: null,
+    paymentId: cause.paymentId ?? null,
+    reason: cause.reason ?? 'subscription.expired',
+  });
+  if (result === 'failed') return result;
+
+  await saveSubscription({
+    ...subscription,
+    status: 'expired',
+    nextAttemptAt: null,
+    notice: cause.notice ?? 'Подписка закончилась, аккаунт переведён на бесплатный план.',
+  });
+  return result;
+}
@@ -0,0 +1,32 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * The Supabase Auth user behind an access token the browser sent. Accounts
+ * are only linked to the uid Supabase itself vouches for, never to one the
+ * client names, because referral rewards trust that uid's email
+ * confirmation. Missing or invalid tokens resolve to `null`.
+ */
+export async function resolveSupabaseUid(client: SupabaseClient, accessToken: unknown): Promise<string | null> {
+  if (typeof accessToken !== 'string' || !accessToken.trim()) return null;
+  const { data, error } = await client.auth.getUser(accessToken.trim());
+  if (error || !data.user) {
+    console.warn('[supabaseAuth] Rejected Supabase access token', error?.message);
+    return null;
+  }
+  return data.user.id;
+}
+
+/** Whether another account already holds `supabaseUid`. */
+export async function isSupabaseUidTaken(
+  client: SupabaseClient,
+  supabaseUid: string,
+  exceptUserId?: string
+): Promise<boolean> {
+  let query = client.from('user_accounts').select('id').eq('supabase_uid', supabaseUid).limit(1);
+  if (exceptUserId) {
+    query = query.neq('id', exceptUserId);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+  return Boolean(data?.length);
+}
@@ -0,0 +1,65 @@
+/**
+ * Minimal Telegram Bot API client for reminder messages. Configure
+ * `TELEGRAM_BOT_TOKEN`, `TELEGRAM_BOT_USERNAME` and point the bot webhook
+ * at `/api/reminders/telegram` with `TELEGRAM_WEBHOOK_SECRET` as its secret token.
+ */
+
+export type TelegramButton = { text: string; callback_data?: string; url?: string };
+
+const API_ROOT = 'https://api.telegram.org';
+
+export function isTelegramConfigured(): boolean {
+  return Boolean(process.env.TELEGRAM_BOT_TOKEN && process.env.TELEGRAM_BOT_USERNAME);
+}
+
+/** Deep link that opens the bot and passes `code` to `/start`. */
+export function telegramStartLink(code: string): string | null {
+  const username = process.env.TELEGRAM_BOT_USERNAME;
+  return username ? `https://t.me/${username}?start=${encodeURIComponent(code)}` : null;
+}
+
+export function isTelegramWebhookAuthorized(secretHeader: string | string[] | undefined): boolean {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  return Boolean(secret) && secretHeader === secret;
+}
+
+async function callTelegram(method: string, body: Record<string, unknown>): Promise<boolean> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    console.warn('[telegram] TELEGRAM_BOT_TOKEN is not configured');
+    return false;
+  }
+  try {
+    const response = await fetch(`${API_ROOT}/bot${token}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      console.warn(`[telegram] ${method} failed`, response.status, await response.text());
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn(`[telegram] ${method} request failed`, error);
+    return false;
+  }
+}
+
+export function sendTelegramMessage(
+  chatId: string,
+  text: string,
+  buttons?: TelegramButton[][]
+): Promise<boolean> {
+  return callTelegram('sendMessage', {
+    chat_id: chatId,
+    text,
+    disable_web_page_preview: true,
+    ...(buttons ? { reply_markup: { inline_keyboard: buttons } } : {}),
+  });
+}
+
+/** Confirm a button press; `text` shows as a short toast in the chat. */
+export function answerTelegramCallback(callbackQueryId: string, text: string): Promise<boolean> {
+  return callTelegram('answerCallbackQuery', { callback_query_id: callbackQueryId, text });
+}
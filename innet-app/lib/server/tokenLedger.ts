@@ -0,0 +1,66 @@
+import { getSupabaseAdminClient } from '../supabaseAdmin';
+import { TOKEN_ACTION_MAP, type TokenActionId, type TokenChargeResult } from '../tokens';
+
+export type TokenLedgerReason = 'welcome' | 'purchase' | 'action' | 'refund' | 'promo' | 'referral';
+
+type TokenDeltaRow = {
+  ok: boolean;
+  balance: number;
+};
+
+const APPLY_DELTA_FUNCTION = 'apply_token_delta';
+
+function requireClient() {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error('Supabase не настроен: баланс токенов негде хранить.');
+  }
+  return client;
+}
+
+/**
+ * Change a balance and append the matching ledger row in one transaction
+ * (`apply_token_delta`, see SUPABASE.md). A debit that would take the
+ * balance below zero is refused; a delta tied to `paymentId` is applied once.
+ */
+export async function applyTokenDelta(params: {
+  userId: string;
+  delta: number;
+  reason: TokenLedgerReason;
+  action?: TokenActionId;
+  quantity?: number;
+  paymentId?: string;
+}): Promise<TokenDeltaRow> {
+  const { data, error } = await requireClient().rpc(APPLY_DELTA_FUNCTION, {
+    p_user_id: params.userId,
+    p_delta: Math.trunc(params.delta),
+    p_reason: params.reason,
+    p_action: params.action ?? null,
+    p_quantity: params.quantity ?? null,
+    p_payment_id: params.paymentId ?? null,
+  });
+  if (error) {
+    throw new Error(`Не удалось изменить баланс токенов: ${error.message}`);
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as TokenDeltaRow | null;
+  if (!row) {
+    throw new Error('Не удалось изменить баланс токенов: пустой ответ базы.');
+  }
+  return { ok: Boolean(row.ok), balance: Number(row.balance) || 0 };
+}
+
+/** Current balance; the first call opens the account with the welcome tokens. */
+export async function getTokenBalanceForUser(userId: string): Promise<number> {
+  const { balance } = await applyTokenDelta({ userId, delta: 0, reason: 'action' });
+  return balance;
+}
+
+export async function spendTokens(userId: string, action: TokenActionId, quantity = 1): Promise<TokenChargeResult> {
+  const units = Math.max(1, Math.floor(quantity));
+  const cost = TOKEN_ACTION_MAP[action].tokens * units;
+  const result = await applyTokenDelta({ userId, delta: -cost, reason: 'action', action, quantity: units });
+  if (!result.ok) {
+    return { ok: false, action, cost, balance: result.balance, deficit: cost - result.balance };
+  }
+  return { ok: true, action, cost, balance: result.balance };
+}
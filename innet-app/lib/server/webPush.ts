@@ -0,0 +1,128 @@
+import crypto from 'node:crypto';
+
+/** What `PushSubscription.toJSON()` returns in the browser. */
+export type WebPushSubscription = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+/** `gone` means the browser dropped the subscription; forget it. */
+export type WebPushResult = 'sent' | 'gone' | 'failed';
+
+const RECORD_SIZE = 4096;
+const TTL_SECONDS = 24 * 60 * 60;
+const VAPID_TTL_SECONDS = 12 * 60 * 60;
+
+type VapidConfig = { publicKey: string; privateKey: string; subject: string };
+
+function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT ?? 'mailto:support@innet.app' };
+}
+
+/** Key the browser needs for `pushManager.subscribe`; null when push is not configured. */
+export function getVapidPublicKey(): string | null {
+  return getVapidConfig()?.publicKey ?? null;
+}
+
+export function normalizeWebPushSubscription(raw: unknown): WebPushSubscription | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } };
+  if (typeof record.endpoint !== 'string' || !record.endpoint.startsWith('https://')) return null;
+  const p256dh = record.keys?.p256dh;
+  const auth = record.keys?.auth;
+  if (typeof p256dh !== 'string' || typeof auth !== 'string') return null;
+  return { endpoint: record.endpoint, keys: { p256dh, auth } };
+}
+
+/** RFC 8292: a JWT signed with the server's P-256 key, scoped to the push service origin. */
+function vapidAuthorization(endpoint: string, config: VapidConfig): string {
+  const publicKey = Buffer.from(config.publicKey, 'base64url');
+  const key = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+      d: config.privateKey,
+    },
+    format: 'jwk',
+  });
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + VAPID_TTL_SECONDS,
+      sub: config.subject,
+    })
+  ).toString('base64url');
+  const signature = crypto
+    .sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+  return `vapid t=${header}.${claims}.${signature}, k=${config.publicKey}`;
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/** RFC 8291 `aes128gcm` encryption of a single-record payload. */
+function encryptPayload(subscription: WebPushSubscription, payload: Buffer): Buffer {
+  const clientPublicKey = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record.
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final()]);
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    encrypted,
+    cipher.getAuthTag(),
+  ]);
+}
+
+export async function sendWebPush(subscription: WebPushSubscription, payload: unknown): Promise<WebPushResult> {
+  const config = getVapidConfig();
+  if (!config) {
+    console.warn('[webPush] VAPID keys are not configured');
+    return 'failed';
+  }
+  try {
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: vapidAuthorization(subscription.endpoint, config),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(TTL_SECONDS),
+        Urgency: 'normal',
+      },
+      body: new Uint8Array(encryptPayload(subscription, Buffer.from(JSON.stringify(payload)))),
+    });
+    if (response.status === 404 || response.status === 410) return 'gone';
+    if (!response.ok) {
+      console.warn('[webPush] Push service rejected the message', response.status, await response.text());
+      return 'failed';
+    }
+    return 'sent';
+  } catch (error) {
+    console.warn('[webPush] Failed to reach the push service', error);
+    return 'failed';
+  }
+}
@@ -0,0 +1,13 @@
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Register `public/sw.js`, which keeps the `/app` shell available offline.
+ * Skipped in development, where cached chunks would fight hot reloading.
+ */
+export function registerServiceWorker(): void {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+  if (process.env.NODE_ENV !== 'production') return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+    console.warn('[serviceWorker] Registration failed', error);
+  });
+}
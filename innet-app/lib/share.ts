@@ -1,21 +1,27 @@
 import { v4 as uuidv4 } from 'uuid';
 import { compressSync, decompressSync } from 'fflate';
+import nacl from 'tweetnacl';
 import {
   Contact,
   ContactGroup,
   createContact,
+  createContactInteraction,
   FACT_TEXT_LIMIT,
   loadContacts,
   saveContacts,
+  withContactInteraction,
 } from './storage';
+import { contactIdentityKeys } from './contactDedup';
 import type { PrivacyLevel } from './privacy';
 import { mapPrivacyLevel } from './privacy';
 
 export const SHARE_PREFIX = 'innet-share:';
 export const SHARE_ALIAS_PREFIX = 'innet-share-alias:';
-export const SHARE_VERSION = 1;
+export const SHARE_VERSION = 2;
+export const SHARE_LEGACY_VERSION = 1;
 export const MAX_SHARE_TOKEN_SIZE = 4096; // Soft threshold to keep QR-коды пригодными для сканирования
 const SHARE_TOKEN_COMPRESSED_PREFIX = 'c.';
+const SHARE_KEYS_STORAGE_KEY = 'innet_share_keys';
 
 export interface ShareFact {
   id: string;
@@ -29,6 +35,22 @@ export interface ShareGroup {
   facts: ShareFact[];
 }
 
+/**
+ * `bound` — verified, and the server confirms `owner.key` is the key of
+ * profile `owner.id` (see `confirmShareKeyBinding`).
+ * `verified` — the v2 token carries a valid Ed25519 signature by `owner.key`,
+ * but anyone can sign with a key they made up.
+ * `unverified` — a legacy v1 token; nothing proves who generated it.
+ */
+export type ShareVerification = 'bound' | 'verified' | 'unverified';
+
+/** Fact groups encrypted with `nacl.box` to the recipient's `boxKey`. */
+export interface SealedGroups {
+  to: string;
+  nonce: string;
+  data: string;
+}
+
 export interface SharePayload {
   v: number;
   owner: {
@@ -38,18 +60,95 @@ export interface SharePayload {
     phone?: string;
     telegram?: string;
     instagram?: string;
+    /** Ed25519 public key that signed the token (v2). */
+    key?: string;
+    /** X25519 public key others use to encrypt replies to this owner (v2). */
+    boxKey?: string;
   };
   groups: ShareGroup[];
   generatedAt: number;
   privacy?: PrivacyLevel;
+  sealed?: SealedGroups;
+  /** Set by `parseShareToken`; not part of the signed data. */
+  verification?: ShareVerification;
 }
 
 export interface MergeResult {
   contact: Contact;
   wasCreated: boolean;
   addedFacts: number;
+  /**
+   * The token's key is neither bound to the profile nor pinned to the
+   * contact, so only facts were added and the contact details were left
+   * untouched.
+   */
+  untrusted: boolean;
 }
 
+export type ShareTokenOptions = {
+  /** Encrypt the fact groups so that only the owner of this box key can read them. */
+  recipientBoxKey?: string;
+};
+
+type ShareEnvelope = {
+  v: number;
+  p: string;
+  s: string;
+};
+
+/** A profile's keypair as this device keeps it in localStorage. */
+export type StoredShareKeys = {
+  profileId: string;
+  signPublicKey: string;
+  signSecretKey: string;
+  boxPublicKey: string;
+  boxSecretKey: string;
+  /** Local only: the pair is the one the server stores for the profile. */
+  bound?: boolean;
+};
+
+export type PublicShareKeys = {
+  signPublicKey: string;
+  boxPublicKey: string;
+};
+
+/**
+ * The secret halves of a keypair sealed with `nacl.secretbox` under a key
+ * derived from the account password (PBKDF2-SHA-256) on the device. The
+ * server stores this blob but cannot open it.
+ */
+export type WrappedShareSecrets = {
+  salt: string;
+  nonce: string;
+  box: string;
+  iterations: number;
+};
+
+/** What `/api/share-keys` keeps for a profile: public keys and, once uploaded, the wrapped secrets. */
+export type EscrowedShareKeys = PublicShareKeys & {
+  wrapped: WrappedShareSecrets | null;
+};
+
+type ShareKeys = {
+  sign: nacl.SignKeyPair;
+  box: nacl.BoxKeyPair;
+};
+
+/**
+ * Proof that a device holds the signing key of `profileId`, sent when an
+ * account without a profile signs in and wants to keep the device's id.
+ */
+export type ProfileClaim = {
+  profileId: string;
+  /** Ed25519 public key that made `signature`. */
+  key: string;
+  issuedAt: number;
+  signature: string;
+};
+
+/** Claims older than this are refused, so a leaked one cannot be replayed later. */
+const PROFILE_CLAIM_TTL_MS = 10 * 60 * 1000;
+
 export function buildShareUrl(token: string, originOverride?: string): string {
   if (!token) return '';
   const origin = resolveShareOrigin(originOverride);
@@ -168,8 +267,39 @@ export function extractAliasSlug(token: string | null | undefined): string | nul
   return normalizeAliasSlug(token.slice(SHARE_ALIAS_PREFIX.length));
 }
 
-export function generateShareToken(payload: SharePayload): string {
-  const json = JSON.stringify(sanitizePayload(payload));
+/**
+ * Build an `innet-share:` token. In the browser the payload is signed with
+ * this profile's Ed25519 key (v2) and, with `recipientBoxKey`, the fact
+ * groups are encrypted to that recipient. Without a keypair (server side)
+ * a legacy unsigned v1 token is produced.
+ */
+export function generateShareToken(payload: SharePayload, options: ShareTokenOptions = {}): string {
+  const sanitized = sanitizePayload(payload);
+  const keys = getOrCreateShareKeys(sanitized.owner.id);
+
+  let json: string;
+  if (keys) {
+    const signed: SharePayload = {
+      ...sanitized,
+      v: SHARE_VERSION,
+      owner: {
+        ...sanitized.owner,
+        key: base64UrlEncodeBytes(keys.sign.publicKey),
+        boxKey: base64UrlEncodeBytes(keys.box.publicKey),
+      },
+    };
+    if (options.recipientBoxKey) {
+      signed.sealed = sealGroups(signed.groups, options.recipientBoxKey, keys.box.secretKey);
+      signed.groups = [];
+    }
+    const body = JSON.stringify(signed);
+    const signature = nacl.sign.detached(toUtf8Array(body), keys.sign.secretKey);
+    const envelope: ShareEnvelope = { v: SHARE_VERSION, p: body, s: base64UrlEncodeBytes(signature) };
+    json = JSON.stringify(envelope);
+  } else {
+    json = JSON.stringify(toLegacyPayload(sanitized));
+  }
+
   const encodedRaw = base64UrlEncode(json);
 
   let tokenBody = encodedRaw;
@@ -195,6 +325,11 @@ export function generateShareToken(payload: SharePayload): string {
   return token;
 }
 
+/**
+ * Decode a share token. v2 signatures are checked (a bad signature throws);
+ * sealed groups are decrypted when they were addressed to this device.
+ * v1 tokens still parse but come back as `unverified`.
+ */
 export function parseShareToken(token: string): SharePayload {
   if (!token.startsWith(SHARE_PREFIX)) {
     throw new Error('Неподдерживаемый формат QR-кода.');
@@ -213,26 +348,61 @@ export function parseShareToken(token: string): SharePayload {
   } else {
     json = base64UrlDecode(encoded);
   }
-  const parsed = JSON.parse(json) as SharePayload;
+  const parsed = JSON.parse(json) as SharePayload | ShareEnvelope;
   if (!parsed || typeof parsed !== 'object') {
     throw new Error('Не удалось разобрать данные QR-кода.');
   }
+  if (parsed.v === SHARE_LEGACY_VERSION) {
+    return { ...toLegacyPayload(sanitizePayload(parsed as SharePayload)), verification: 'unverified' };
+  }
   if (parsed.v !== SHARE_VERSION) {
     throw new Error('Версия QR-кода не поддерживается.');
   }
-  return sanitizePayload(parsed);
-}
 
+  const envelope = parsed as ShareEnvelope;
+  if (typeof envelope.p !== 'string' || typeof envelope.s !== 'string') {
+    throw new Error('Не удалось разобрать данные QR-кода.');
+  }
+  const inner = JSON.parse(envelope.p) as SharePayload;
+  const signerKey = inner?.owner?.key;
+  if (typeof signerKey !== 'string' || !verifySignature(envelope.p, envelope.s, signerKey)) {
+    throw new Error('Подпись QR-кода не прошла проверку. Попросите отправить новый код.');
+  }
+
+  const payload = sanitizePayload(inner);
+  if (payload.sealed) {
+    const opened = openSealedGroups(payload);
+    if (opened) {
+      payload.groups = opened;
+    }
+  }
+  return { ...payload, verification: 'verified' };
+}
 export function normalizeSharePayload(payload: SharePayload): SharePayload {
   return sanitizePayload(payload);
 }
 
+/**
+ * Add or update the contact behind a share payload. Only a token whose key
+ * is bound to the profile on the server, or matches the key already pinned
+ * to the contact, may rewrite an existing contact's name or channels; any
+ * other token only adds facts. A bound key is pinned to the contact.
+ *
+ * Without a `remoteId` match, a contact with the same phone or handle (for
+ * example one added manually) is reused instead of creating a duplicate.
+ */
 export function mergeContactFromShare(payload: SharePayload): MergeResult {
   const contacts = loadContacts();
-  const existing = contacts.find((contact) => contact.remoteId === payload.owner.id);
+  const bound = payload.verification === 'bound';
+  // Only the values the signature check sets count; a missing or unknown one is unsigned.
+  const signed = bound || payload.verification === 'verified';
+  const signerKey = signed ? payload.owner.key : undefined;
+  const existing =
+    contacts.find((contact) => contact.remoteId === payload.owner.id) ??
+    findContactByIdentity(contacts, payload, signerKey, bound);
 
   if (!existing) {
-    const contact = createContact({
+    const created = createContact({
       remoteId: payload.owner.id,
       name: payload.owner.name || 'Новый контакт',
       avatar: payload.owner.avatar,
@@ -240,18 +410,29 @@ export function mergeContactFromShare(payload: SharePayload): MergeResult {
       telegram: payload.owner.telegram,
       instagram: payload.owner.instagram,
       groups: payload.groups,
+      shareKey: bound ? signerKey : undefined,
     });
+    const contact = withContactInteraction(created, createContactInteraction('exchange', created.connectedAt));
     saveContacts([contact, ...contacts]);
-    return { contact, wasCreated: true, addedFacts: countFacts(payload.groups) };
+    return { contact, wasCreated: true, addedFacts: countFacts(payload.groups), untrusted: false };
   }
 
-  const { updatedContact, addedFacts } = mergeExistingContact(existing, payload);
+  const untrusted = !signerKey || !(bound || existing.shareKey === signerKey);
+  const merged = mergeExistingContact(existing, payload, !untrusted);
+  const { addedFacts } = merged;
+  // A token that fails the pinned-key check must not count as a touch with the real contact.
+  const updatedContact = untrusted
+    ? merged.updatedContact
+    : withContactInteraction(merged.updatedContact, createContactInteraction('exchange'));
+  if (bound) {
+    updatedContact.shareKey = signerKey;
+  }
   const updatedList = contacts.map((contact) =>
     contact.id === existing.id ? updatedContact : contact
   );
   saveContacts(updatedList);
 
-  return { contact: updatedContact, wasCreated: false, addedFacts };
+  return { contact: updatedContact, wasCreated: false, addedFacts, untrusted };
 }
 
 export function getOrCreateProfileId(): string {
@@ -272,7 +453,283 @@ export function getOrCreateProfileId(): string {
   return generated;
 }
 
-function mergeExistingContact(contact: Contact, payload: SharePayload): {
+/**
+ * Switch this device to the profile id bound to the signed-in account so
+ * every device of the account shares one identity.
+ */
+export function adoptProfileId(profileId: string): void {
+  if (typeof window === 'undefined' || !profileId) return;
+  localStorage.setItem('innet_profile_uid', profileId);
+}
+
+/**
+ * Validate a stored or uploaded keypair: every key must decode and the
+ * public halves must belong to the secret ones.
+ */
+export function normalizeStoredShareKeys(raw: unknown): StoredShareKeys | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Partial<Record<keyof StoredShareKeys, unknown>>;
+  const { profileId, signPublicKey, signSecretKey, boxPublicKey, boxSecretKey } = record;
+  if (
+    typeof profileId !== 'string' ||
+    !profileId ||
+    typeof signPublicKey !== 'string' ||
+    typeof signSecretKey !== 'string' ||
+    typeof boxPublicKey !== 'string' ||
+    typeof boxSecretKey !== 'string'
+  ) {
+    return null;
+  }
+  try {
+    const sign = nacl.sign.keyPair.fromSecretKey(base64UrlDecodeToBytes(signSecretKey));
+    const box = nacl.box.keyPair.fromSecretKey(base64UrlDecodeToBytes(boxSecretKey));
+    if (
+      base64UrlEncodeBytes(sign.publicKey) !== signPublicKey ||
+      base64UrlEncodeBytes(box.publicKey) !== boxPublicKey
+    ) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+  return { profileId, signPublicKey, signSecretKey, boxPublicKey, boxSecretKey, bound: record.bound === true };
+}
+
+const WRAP_ITERATIONS = 310_000;
+const WRAP_SALT_BYTES = 16;
+
+async function deriveWrappingKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  // WebCrypto wants buffers it owns, so copy the byte arrays.
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new Uint8Array(toUtf8Array(password)),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new Uint8Array(salt), iterations, hash: 'SHA-256' },
+    material,
+    nacl.secretbox.keyLength * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/** Seal the secret keys of `keys` with the account password before they leave the device. */
+export async function wrapShareSecrets(keys: StoredShareKeys, password: string): Promise<WrappedShareSecrets> {
+  const salt = nacl.randomBytes(WRAP_SALT_BYTES);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const key = await deriveWrappingKey(password, salt, WRAP_ITERATIONS);
+  const secrets = JSON.stringify({ signSecretKey: keys.signSecretKey, boxSecretKey: keys.boxSecretKey });
+  return {
+    salt: base64UrlEncodeBytes(salt),
+    nonce: base64UrlEncodeBytes(nonce),
+    box: base64UrlEncodeBytes(nacl.secretbox(toUtf8Array(secrets), nonce, key)),
+    iterations: WRAP_ITERATIONS,
+  };
+}
+
+/**
+ * Open escrowed secrets with the account password. Null when the password
+ * does not fit (it changed since they were wrapped) or the secrets do not
+ * belong to the escrowed public keys.
+ */
+export async function unwrapShareSecrets(
+  profileId: string,
+  escrowed: EscrowedShareKeys,
+  password: string
+): Promise<StoredShareKeys | null> {
+  if (!escrowed.wrapped) return null;
+  try {
+    const { salt, nonce, box, iterations } = escrowed.wrapped;
+    const key = await deriveWrappingKey(password, base64UrlDecodeToBytes(salt), iterations);
+    const opened = nacl.secretbox.open(base64UrlDecodeToBytes(box), base64UrlDecodeToBytes(nonce), key);
+    if (!opened) return null;
+    const secrets = JSON.parse(bytesToUtf8String(opened)) as Record<string, unknown>;
+    return normalizeStoredShareKeys({
+      profileId,
+      signPublicKey: escrowed.signPublicKey,
+      boxPublicKey: escrowed.boxPublicKey,
+      signSecretKey: secrets.signSecretKey,
+      boxSecretKey: secrets.boxSecretKey,
+    });
+  } catch (error) {
+    console.warn('[share] Failed to unwrap share keys', error);
+    return null;
+  }
+}
+
+/** This device's keypair for `profileId`, created if missing; null on the server. */
+export function loadShareKeyRecord(profileId: string): StoredShareKeys | null {
+  if (!getOrCreateShareKeys(profileId)) return null;
+  return readStoredShareKeys();
+}
+
+/** Use `keys` as this device's keypair and mark it as the one the account uses. */
+export function adoptShareKeys(keys: StoredShareKeys): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SHARE_KEYS_STORAGE_KEY, JSON.stringify({ ...keys, bound: true }));
+}
+
+function readStoredShareKeys(): StoredShareKeys | null {
+  try {
+    const raw = localStorage.getItem(SHARE_KEYS_STORAGE_KEY);
+    return raw ? normalizeStoredShareKeys(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.warn('[share] Failed to read share keys', error);
+    return null;
+  }
+}
+
+/**
+ * Signing and encryption keys for the given profile. A new pair is made on
+ * first use; devices that sign in with the password then unwrap the account's
+ * pair from `/api/share-keys` (`syncShareKeys`), so every device signs with one key.
+ */
+function getOrCreateShareKeys(profileId: string): ShareKeys | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(SHARE_KEYS_STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<StoredShareKeys>) : null;
+    if (
+      stored?.profileId === profileId &&
+      stored.signPublicKey &&
+      stored.signSecretKey &&
+      stored.boxPublicKey &&
+      stored.boxSecretKey
+    ) {
+      return {
+        sign: {
+          publicKey: base64UrlDecodeToBytes(stored.signPublicKey),
+          secretKey: base64UrlDecodeToBytes(stored.signSecretKey),
+        },
+        box: {
+          publicKey: base64UrlDecodeToBytes(stored.boxPublicKey),
+          secretKey: base64UrlDecodeToBytes(stored.boxSecretKey),
+        },
+      };
+    }
+  } catch (error) {
+    console.warn('[share] Failed to read share keys, generating new ones', error);
+  }
+
+  const keys: ShareKeys = { sign: nacl.sign.keyPair(), box: nacl.box.keyPair() };
+  const record: StoredShareKeys = {
+    profileId,
+    signPublicKey: base64UrlEncodeBytes(keys.sign.publicKey),
+    signSecretKey: base64UrlEncodeBytes(keys.sign.secretKey),
+    boxPublicKey: base64UrlEncodeBytes(keys.box.publicKey),
+    boxSecretKey: base64UrlEncodeBytes(keys.box.secretKey),
+  };
+  localStorage.setItem(SHARE_KEYS_STORAGE_KEY, JSON.stringify(record));
+  return keys;
+}
+
+function profileClaimMessage(profileId: string, issuedAt: number): string {
+  return `innet-profile-claim:${profileId}:${issuedAt}`;
+}
+
+/** Sign a claim on this device's profile id with its signing key; null on the server. */
+export function signProfileClaim(profileId: string): ProfileClaim | null {
+  const keys = getOrCreateShareKeys(profileId);
+  if (!keys) return null;
+  const issuedAt = Date.now();
+  const signature = nacl.sign.detached(toUtf8Array(profileClaimMessage(profileId, issuedAt)), keys.sign.secretKey);
+  return {
+    profileId,
+    key: base64UrlEncodeBytes(keys.sign.publicKey),
+    issuedAt,
+    signature: base64UrlEncodeBytes(signature),
+  };
+}
+
+/** A well-formed, fresh claim whose signature matches its `key`, or null. */
+export function verifyProfileClaim(raw: unknown, now = Date.now()): ProfileClaim | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { profileId, key, issuedAt, signature } = raw as Partial<Record<keyof ProfileClaim, unknown>>;
+  if (
+    typeof profileId !== 'string' ||
+    typeof key !== 'string' ||
+    typeof issuedAt !== 'number' ||
+    typeof signature !== 'string' ||
+    Math.abs(now - issuedAt) > PROFILE_CLAIM_TTL_MS
+  ) {
+    return null;
+  }
+  if (!verifySignature(profileClaimMessage(profileId, issuedAt), signature, key)) return null;
+  return { profileId, key, issuedAt, signature };
+}
+
+function verifySignature(body: string, signature: string, publicKey: string): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      toUtf8Array(body),
+      base64UrlDecodeToBytes(signature),
+      base64UrlDecodeToBytes(publicKey)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function sealGroups(groups: ShareGroup[], recipientBoxKey: string, senderSecretKey: Uint8Array): SealedGroups {
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const data = nacl.box(
+    toUtf8Array(JSON.stringify(groups)),
+    nonce,
+    base64UrlDecodeToBytes(recipientBoxKey),
+    senderSecretKey
+  );
+  return {
+    to: recipientBoxKey,
+    nonce: base64UrlEncodeBytes(nonce),
+    data: base64UrlEncodeBytes(data),
+  };
+}
+
+function openSealedGroups(payload: SharePayload): ShareGroup[] | null {
+  const { sealed } = payload;
+  const senderKey = payload.owner.boxKey;
+  if (!sealed || !senderKey || typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(SHARE_KEYS_STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<StoredShareKeys>) : null;
+    if (!stored?.boxSecretKey || stored.boxPublicKey !== sealed.to) return null;
+    const opened = nacl.box.open(
+      base64UrlDecodeToBytes(sealed.data),
+      base64UrlDecodeToBytes(sealed.nonce),
+      base64UrlDecodeToBytes(senderKey),
+      base64UrlDecodeToBytes(stored.boxSecretKey)
+    );
+    if (!opened) return null;
+    const groups = JSON.parse(bytesToUtf8String(opened)) as ShareGroup[];
+    return sanitizePayload({ ...payload, groups, sealed: undefined }).groups;
+  } catch (error) {
+    console.warn('[share] Failed to open sealed groups', error);
+    return null;
+  }
+}
+
+function findContactByIdentity(
+  contacts: Contact[],
+  payload: SharePayload,
+  signerKey: string | undefined,
+  bound: boolean
+): Contact | undefined {
+  const keys = new Set(contactIdentityKeys({ ...payload.owner, remoteId: undefined }));
+  if (!keys.size) return undefined;
+  return contacts.find(
+    (contact) =>
+      (bound || !contact.shareKey || contact.shareKey === signerKey) &&
+      contactIdentityKeys({ ...contact, remoteId: undefined }).some((key) => keys.has(key))
+  );
+}
+
+function mergeExistingContact(
+  contact: Contact,
+  payload: SharePayload,
+  updateDetails: boolean
+): {
   updatedContact: Contact;
   addedFacts: number;
 } {
@@ -313,19 +770,27 @@ function mergeExistingContact(contact: Contact, payload: SharePayload): {
         additions += 1;
       }
     });
-    existingGroup.name = group.name || existingGroup.name;
-    existingGroup.color = group.color || existingGroup.color;
+    if (updateDetails) {
+      existingGroup.name = group.name || existingGroup.name;
+      existingGroup.color = group.color || existingGroup.color;
+    }
   });
 
+  const details = updateDetails
+    ? {
+        name: payload.owner.name || contact.name,
+        avatar: payload.owner.avatar ?? contact.avatar,
+        phone: payload.owner.phone ?? contact.phone,
+        telegram: payload.owner.telegram ?? contact.telegram,
+        instagram: payload.owner.instagram ?? contact.instagram,
+      }
+    : {};
+
   return {
     addedFacts: additions,
     updatedContact: {
       ...contact,
-      name: payload.owner.name || contact.name,
-      avatar: payload.owner.avatar ?? contact.avatar,
-      phone: payload.owner.phone ?? contact.phone,
-      telegram: payload.owner.telegram ?? contact.telegram,
-      instagram: payload.owner.instagram ?? contact.instagram,
+      ...details,
       lastUpdated: Date.now(),
       groups: Array.from(map.values()),
     },
@@ -345,7 +810,10 @@ function sanitizePayload(payload: SharePayload): SharePayload {
       phone: sanitizeContactField(payload.owner?.phone),
       telegram: sanitizeContactField(payload.owner?.telegram),
       instagram: sanitizeContactField(payload.owner?.instagram),
+      key: sanitizeKey(payload.owner?.key),
+      boxKey: sanitizeKey(payload.owner?.boxKey),
     },
+    sealed: sanitizeSealed(payload.sealed),
     generatedAt: typeof payload.generatedAt === 'number' ? payload.generatedAt : Date.now(),
     privacy: mapPrivacyLevel(payload.privacy as string | null | undefined),
     groups: (payload.groups || []).map((group) => ({
@@ -451,6 +919,25 @@ function base64UrlDecodeToBytes(input: string): Uint8Array {
   return bytes;
 }
 
+function toLegacyPayload(payload: SharePayload): SharePayload {
+  const { key: _key, boxKey: _boxKey, ...owner } = payload.owner;
+  void _key;
+  void _boxKey;
+  return { ...payload, v: SHARE_LEGACY_VERSION, owner, sealed: undefined };
+}
+
+function sanitizeKey(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  return /^[A-Za-z0-9_-]{40,64}$/.test(value) ? value : undefined;
+}
+
+function sanitizeSealed(value: unknown): SealedGroups | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { to, nonce, data } = value as Partial<SealedGroups>;
+  if (!sanitizeKey(to) || typeof nonce !== 'string' || typeof data !== 'string') return undefined;
+  return { to: to as string, nonce, data };
+}
+
 function countFacts(groups: ShareGroup[]): number {
   return groups.reduce((acc, group) => acc + group.facts.length, 0);
 }
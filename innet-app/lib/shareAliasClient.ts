@@ -1,23 +1,109 @@
+import { fetchOrQueue } from './outbox';
 import { buildShareAliasUrl, extractAliasSlug } from './share';
 
+export type ShareLinkLifetime = 'single-use' | '1h' | '12h' | '1w' | 'never';
+
+export type ShareLinkOptions = {
+  lifetime: ShareLinkLifetime;
+  /** Opens allowed before the link stops working; null means unlimited. */
+  maxOpens: number | null;
+};
+
+export type ShareLinkOpen = {
+  openedAt: string;
+  /** Coarse device and browser, e.g. «iPhone · Safari». */
+  device: string;
+};
+
+export type ShareLinkInfo = {
+  slug: string;
+  lifetime: ShareLinkLifetime;
+  maxOpens: number | null;
+  openCount: number;
+  createdAt: string;
+  expiresAt: string | null;
+  recentOpens: ShareLinkOpen[];
+};
+
+export const SHARE_LINK_LIFETIMES: Record<ShareLinkLifetime, { label: string; ttlMs: number | null }> = {
+  'single-use': { label: 'Одноразовая', ttlMs: 7 * 24 * 60 * 60 * 1000 },
+  '1h': { label: '1 час', ttlMs: 60 * 60 * 1000 },
+  '12h': { label: '12 часов', ttlMs: 12 * 60 * 60 * 1000 },
+  '1w': { label: '1 неделя', ttlMs: 7 * 24 * 60 * 60 * 1000 },
+  never: { label: 'Бессрочная', ttlMs: null },
+};
+
+export const DEFAULT_SHARE_LINK_OPTIONS: ShareLinkOptions = { lifetime: '12h', maxOpens: null };
+
+export function isShareLinkLifetime(value: unknown): value is ShareLinkLifetime {
+  return typeof value === 'string' && value in SHARE_LINK_LIFETIMES;
+}
+
 type CreateAliasResponse =
   | { ok: true; slug: string; expiresAt?: string | null }
   | { ok: false; message: string };
 
+type ShareLinksResponse = { ok: true; links: ShareLinkInfo[] } | { ok: false; message: string };
+
+type RevokeResponse = { ok: true } | { ok: false; message: string };
+
 type ResolveAliasResponse =
   | { ok: true; token: string; expiresAt?: string | null }
   | { ok: false; message: string };
 
 const ENDPOINT = '/api/share-link';
+const OWNER_ENDPOINT = '/api/share-links';
 
-export async function createShareAliasLink(token: string): Promise<{
+export async function createShareAliasLink(
+  token: string,
+  options: ShareLinkOptions = DEFAULT_SHARE_LINK_OPTIONS
+): Promise<{
   slug: string;
   url: string;
 }> {
-  const slug = await requestShareAlias(token);
+  const slug = await requestShareAlias(token, options);
   return { slug, url: buildShareAliasUrl(slug) };
 }
 
+/** Active links of the signed-in owner, newest first, with their open counts. */
+export async function fetchShareLinks(): Promise<ShareLinksResponse> {
+  try {
+    const response = await fetch(OWNER_ENDPOINT);
+    const data = (await response.json().catch(() => null)) as ShareLinksResponse | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при загрузке ссылок.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось загрузить ссылки.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[shareAliasClient] fetchShareLinks failed', error);
+    return { ok: false, message: 'Ошибка сети при загрузке ссылок.' };
+  }
+}
+
+export async function revokeShareLink(slug: string): Promise<RevokeResponse> {
+  try {
+    const response = await fetch(OWNER_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'revoke', slug }),
+    });
+    const data = (await response.json().catch(() => null)) as RevokeResponse | null;
+    if (!data) {
+      return { ok: false, message: 'Сервер вернул пустой ответ при отзыве ссылки.' };
+    }
+    if (!response.ok && data.ok) {
+      return { ok: false, message: 'Не удалось отозвать ссылку.' };
+    }
+    return data;
+  } catch (error) {
+    console.warn('[shareAliasClient] revokeShareLink failed', error);
+    return { ok: false, message: 'Ошибка сети при отзыве ссылки.' };
+  }
+}
+
 export async function resolveAliasToken(token: string): Promise<string> {
   const slug = extractAliasSlug(token);
   if (!slug) {
@@ -41,15 +127,21 @@ export async function fetchAlias(slug: string): Promise<string> {
   return data.token;
 }
 
-async function requestShareAlias(token: string): Promise<string> {
+async function requestShareAlias(token: string, options: ShareLinkOptions): Promise<string> {
   if (!token) {
     throw new Error('Пустой токен QR-кода.');
   }
-  const response = await fetch(ENDPOINT, {
+  // Only the QR on screen matters, so a newer offline request replaces the queued one.
+  const response = await fetchOrQueue({
+    kind: 'share-alias',
+    url: ENDPOINT,
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ token }),
+    body: { token, ...options },
+    dedupeKey: 'share-alias',
   });
+  if (!response) {
+    throw new Error('Нет сети: короткая ссылка будет создана, когда связь вернётся.');
+  }
   const data = (await response.json().catch(() => ({}))) as CreateAliasResponse;
   if (!response.ok || !data || !('ok' in data) || !data.ok || !data.slug) {
     throw new Error(
@@ -0,0 +1,100 @@
+import {
+  adoptShareKeys,
+  getOrCreateProfileId,
+  loadShareKeyRecord,
+  signProfileClaim,
+  unwrapShareSecrets,
+  wrapShareSecrets,
+  type EscrowedShareKeys,
+  type PublicShareKeys,
+  type SharePayload,
+} from './share';
+
+type KeysResponse = { ok: true; keys: EscrowedShareKeys | null } | { ok: false; message: string };
+type PublicKeysResponse = { ok: true; publicKeys: PublicShareKeys | null } | { ok: false; message: string };
+
+const SHARE_KEYS_ENDPOINT = '/api/share-keys';
+
+async function requestKeys(init?: RequestInit): Promise<EscrowedShareKeys | null> {
+  const response = await fetch(SHARE_KEYS_ENDPOINT, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  const data = (await response.json().catch(() => null)) as KeysResponse | null;
+  if (!response.ok || !data?.ok) {
+    throw new Error(data && !data.ok ? data.message : `HTTP ${response.status}`);
+  }
+  return data.keys;
+}
+
+/**
+ * Make this device sign with the account's keypair. The server only keeps
+ * public keys plus secrets wrapped with the account password, so:
+ * a profile without keys gets this device's public keys (and, given the
+ * password, its wrapped secrets); a device holding the bound pair re-wraps
+ * it when the stored blob no longer opens with `password`; any other device
+ * unwraps the account's pair with `password` and adopts it. Without the
+ * password a device can only bind its own pair. Does nothing for guests.
+ */
+export async function syncShareKeys(options?: { signedIn?: boolean; password?: string }): Promise<void> {
+  if (typeof window === 'undefined') return;
+  // Right after login the flag is not set yet; the caller knows the session is open.
+  if (!options?.signedIn && localStorage.getItem('innet_logged_in') !== 'true') return;
+  const profileId = getOrCreateProfileId();
+  const local = loadShareKeyRecord(profileId);
+  const password = options?.password;
+  if (!local || (local.bound && !password)) return;
+  try {
+    let stored = await requestKeys();
+    if (!stored) {
+      stored = await requestKeys({
+        method: 'POST',
+        body: JSON.stringify({
+          keys: { signPublicKey: local.signPublicKey, boxPublicKey: local.boxPublicKey },
+          wrapped: password ? await wrapShareSecrets(local, password) : null,
+          claim: signProfileClaim(profileId),
+        }),
+      });
+    }
+    if (!stored) return;
+
+    if (stored.signPublicKey === local.signPublicKey && stored.boxPublicKey === local.boxPublicKey) {
+      if (!local.bound) adoptShareKeys(local);
+      if (password && !(await unwrapShareSecrets(profileId, stored, password))) {
+        await requestKeys({
+          method: 'PUT',
+          body: JSON.stringify({ wrapped: await wrapShareSecrets(local, password), claim: signProfileClaim(profileId) }),
+        });
+      }
+      return;
+    }
+
+    const unwrapped = password ? await unwrapShareSecrets(profileId, stored, password) : null;
+    if (unwrapped) {
+      adoptShareKeys(unwrapped);
+    } else if (password) {
+      console.warn('[shareKeysClient] The account keys could not be opened with this password');
+    }
+  } catch (error) {
+    console.warn('[shareKeysClient] syncShareKeys failed', error);
+  }
+}
+
+/**
+ * Upgrade a verified payload to `bound` when the server confirms its key
+ * belongs to `owner.id`. Anything else, including a failed lookup, comes
+ * back unchanged.
+ */
+export async function confirmShareKeyBinding(payload: SharePayload): Promise<SharePayload> {
+  if (payload.verification !== 'verified' || !payload.owner.key) return payload;
+  try {
+    const response = await fetch(`${SHARE_KEYS_ENDPOINT}?profileId=${encodeURIComponent(payload.owner.id)}`);
+    const data = (await response.json().catch(() => null)) as PublicKeysResponse | null;
+    if (response.ok && data?.ok && data.publicKeys?.signPublicKey === payload.owner.key) {
+      return { ...payload, verification: 'bound' };
+    }
+  } catch (error) {
+    console.warn('[shareKeysClient] confirmShareKeyBinding failed', error);
+  }
+  return payload;
+}
@@ -0,0 +1,301 @@
+import { v4 as uuidv4 } from 'uuid';
+import { mapPrivacyLevel, type PrivacyLevel } from './privacy';
+import type { ShareProfile } from './shareProfile';
+
+/** Card details a preset can leave out of the QR token; the name is always shared. */
+export const SHARE_PRESET_FIELDS = ['phone', 'telegram', 'instagram', 'avatar'] as const;
+
+export type SharePresetField = (typeof SHARE_PRESET_FIELDS)[number];
+
+/**
+ * A named way of sharing ("Конференция", "Рекрутер"): which fact groups and
+ * card fields go into the QR, under which name and privacy level.
+ */
+export type SharePreset = {
+  id: string;
+  name: string;
+  groupIds: string[];
+  fields: SharePresetField[];
+  /** Shown instead of the profile name, e.g. a stage name for events. */
+  displayName?: string;
+  privacy: PrivacyLevel;
+  updatedAt: number;
+};
+
+/** Ids of presets removed on this device mapped to the removal time. */
+export type SharePresetTombstones = Record<string, number>;
+
+export type SharePresetSnapshot = {
+  presets: SharePreset[];
+  deleted: SharePresetTombstones;
+};
+
+export type SharePresetSyncResult =
+  | { ok: true; presets: SharePreset[]; syncedAt: number }
+  | { ok: false; message: string };
+
+export const SHARE_PRESET_LIMIT = 20;
+export const SHARE_PRESET_NAME_MAX = 40;
+export const SHARE_PRESETS_UPDATED_EVENT = 'innet-share-presets-updated';
+
+export type SharePresetsUpdatedDetail = { source: 'local' | 'sync' };
+
+declare global {
+  interface WindowEventMap {
+    'innet-share-presets-updated': CustomEvent<SharePresetsUpdatedDetail>;
+  }
+}
+
+export const SHARE_PRESET_FIELD_LABELS: Record<SharePresetField, string> = {
+  phone: 'Телефон',
+  telegram: 'Telegram',
+  instagram: 'Instagram',
+  avatar: 'Аватар',
+};
+
+const PRESET_KEY = 'innet_share_presets';
+const PRESET_TOMBSTONE_KEY = 'innet_share_presets_deleted';
+// Which preset the QR screen shows is a per-device choice and is not synced.
+const ACTIVE_PRESET_KEY = 'innet_active_share_preset';
+const SHARE_PRESETS_ENDPOINT = '/api/share-presets';
+
+export const SHARE_PRESET_STORAGE_KEYS = [PRESET_KEY, PRESET_TOMBSTONE_KEY, ACTIVE_PRESET_KEY];
+
+function normalizeSharePreset(raw: unknown): SharePreset | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const id = typeof record.id === 'string' ? record.id.trim() : '';
+  const name = typeof record.name === 'string' ? record.name.trim().slice(0, SHARE_PRESET_NAME_MAX) : '';
+  if (!id || !name) return null;
+  const groupIds = Array.isArray(record.groupIds)
+    ? Array.from(new Set(record.groupIds.filter((value): value is string => typeof value === 'string')))
+    : [];
+  const fields = Array.isArray(record.fields)
+    ? SHARE_PRESET_FIELDS.filter((field) => (record.fields as unknown[]).includes(field))
+    : [...SHARE_PRESET_FIELDS];
+  const displayName =
+    typeof record.displayName === 'string' && record.displayName.trim()
+      ? record.displayName.trim().slice(0, SHARE_PRESET_NAME_MAX)
+      : undefined;
+  return {
+    id,
+    name,
+    groupIds,
+    fields,
+    displayName,
+    privacy: mapPrivacyLevel(typeof record.privacy === 'string' ? record.privacy : null),
+    updatedAt: typeof record.updatedAt === 'number' && Number.isFinite(record.updatedAt) ? record.updatedAt : 0,
+  };
+}
+
+export function normalizeSharePresets(raw: unknown): SharePreset[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw
+    .map((item) => normalizeSharePreset(item))
+    .filter((preset): preset is SharePreset => {
+      if (!preset || seen.has(preset.id)) return false;
+      seen.add(preset.id);
+      return true;
+    })
+    .slice(0, SHARE_PRESET_LIMIT);
+}
+
+export function normalizeSharePresetTombstones(raw: unknown): SharePresetTombstones {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  return Object.entries(raw as Record<string, unknown>).reduce<SharePresetTombstones>((acc, [id, value]) => {
+    if (id && typeof value === 'number' && Number.isFinite(value)) {
+      acc[id] = value;
+    }
+    return acc;
+  }, {});
+}
+
+export function createSharePreset(params: {
+  name: string;
+  groupIds: string[];
+  privacy: PrivacyLevel;
+}): SharePreset {
+  return {
+    id: uuidv4(),
+    name: params.name.trim().slice(0, SHARE_PRESET_NAME_MAX),
+    groupIds: [...params.groupIds],
+    fields: [...SHARE_PRESET_FIELDS],
+    privacy: params.privacy,
+    updatedAt: Date.now(),
+  };
+}
+
+export function loadSharePresets(): SharePreset[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(PRESET_KEY);
+    return raw ? normalizeSharePresets(JSON.parse(raw)) : [];
+  } catch (err) {
+    console.error('Failed to parse share presets', err);
+    return [];
+  }
+}
+
+/**
+ * Persist presets. Local edits get a fresh `updatedAt` and removed presets
+ * a tombstone; the sync passes `{ trackChanges: false }` to keep remote stamps.
+ */
+export function saveSharePresets(presets: SharePreset[], options?: { trackChanges?: boolean }): void {
+  if (typeof window === 'undefined') return;
+  const trackChanges = options?.trackChanges ?? true;
+  let next = presets;
+
+  if (trackChanges) {
+    const now = Date.now();
+    const previous = new Map(loadSharePresets().map((preset) => [preset.id, preset]));
+    next = presets.map((preset) => {
+      const before = previous.get(preset.id);
+      const changed =
+        !before || JSON.stringify({ ...before, updatedAt: 0 }) !== JSON.stringify({ ...preset, updatedAt: 0 });
+      return changed ? { ...preset, updatedAt: now } : preset;
+    });
+
+    const keptIds = new Set(presets.map((preset) => preset.id));
+    const removedIds = Array.from(previous.keys()).filter((id) => !keptIds.has(id));
+    if (removedIds.length) {
+      const tombstones = loadSharePresetTombstones();
+      removedIds.forEach((id) => {
+        tombstones[id] = now;
+      });
+      saveSharePresetTombstones(tombstones);
+    }
+  }
+
+  localStorage.setItem(PRESET_KEY, JSON.stringify(next));
+  window.dispatchEvent(
+    new CustomEvent<SharePresetsUpdatedDetail>(SHARE_PRESETS_UPDATED_EVENT, {
+      detail: { source: trackChanges ? 'local' : 'sync' },
+    })
+  );
+}
+
+export function loadSharePresetTombstones(): SharePresetTombstones {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = localStorage.getItem(PRESET_TOMBSTONE_KEY);
+    return raw ? normalizeSharePresetTombstones(JSON.parse(raw)) : {};
+  } catch (err) {
+    console.error('Failed to parse share preset tombstones', err);
+    return {};
+  }
+}
+
+function saveSharePresetTombstones(tombstones: SharePresetTombstones): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(PRESET_TOMBSTONE_KEY, JSON.stringify(tombstones));
+}
+
+export function loadActiveSharePresetId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(ACTIVE_PRESET_KEY) || null;
+}
+
+export function saveActiveSharePresetId(id: string | null): void {
+  if (typeof window === 'undefined') return;
+  if (id) {
+    localStorage.setItem(ACTIVE_PRESET_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PRESET_KEY);
+  }
+}
+
+/**
+ * Combine two preset snapshots: per preset the later edit wins, ties favour
+ * `local`, and a preset stays deleted unless it was edited after removal.
+ * Used both by the client and by `/api/share-presets`.
+ */
+export function mergeSharePresetSnapshots(
+  local: SharePresetSnapshot,
+  remote: SharePresetSnapshot
+): SharePresetSnapshot {
+  const deleted: SharePresetTombstones = { ...local.deleted };
+  Object.entries(remote.deleted).forEach(([id, deletedAt]) => {
+    deleted[id] = Math.max(deleted[id] ?? 0, deletedAt);
+  });
+
+  const merged = local.presets.map((preset) => ({ ...preset }));
+  const byId = new Map(merged.map((preset, index) => [preset.id, index]));
+  remote.presets.forEach((incoming) => {
+    const index = byId.get(incoming.id);
+    if (index === undefined) {
+      byId.set(incoming.id, merged.length);
+      merged.push(incoming);
+      return;
+    }
+    if (incoming.updatedAt > merged[index].updatedAt) {
+      merged[index] = incoming;
+    }
+  });
+
+  return {
+    presets: merged
+      .filter((preset) => !(typeof deleted[preset.id] === 'number' && deleted[preset.id] >= preset.updatedAt))
+      .slice(0, SHARE_PRESET_LIMIT),
+    deleted,
+  };
+}
+
+/**
+ * The card a preset puts into the QR token. Without a preset everything is
+ * shared; `direct-only` privacy drops the channels either way.
+ */
+export function applySharePreset(
+  profile: ShareProfile,
+  preset: SharePreset | null,
+  privacy: PrivacyLevel
+): ShareProfile {
+  const includes = (field: SharePresetField) => !preset || preset.fields.includes(field);
+  const channel = (field: 'phone' | 'telegram' | 'instagram') =>
+    privacy !== 'direct-only' && includes(field) ? profile[field] : undefined;
+  return {
+    name: preset?.displayName || profile.name,
+    avatar: includes('avatar') ? profile.avatar : undefined,
+    phone: channel('phone'),
+    telegram: channel('telegram'),
+    instagram: channel('instagram'),
+  };
+}
+
+type RemotePresetsResponse =
+  | { ok: true; presets: SharePreset[]; deleted: SharePresetTombstones; updatedAt?: string }
+  | { ok: false; message: string };
+
+/**
+ * Push local presets to the account, pull the ones saved on other devices
+ * and write the merged list back into localStorage.
+ */
+export async function syncSharePresets(): Promise<SharePresetSyncResult> {
+  let payload: RemotePresetsResponse;
+  try {
+    const response = await fetch(SHARE_PRESETS_ENDPOINT, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ presets: loadSharePresets(), deleted: loadSharePresetTombstones() }),
+    });
+    payload = (await response.json()) as RemotePresetsResponse;
+    if (!response.ok || !payload.ok) {
+      return {
+        ok: false,
+        message: ('message' in payload && payload.message) || 'Не удалось синхронизировать пресеты.',
+      };
+    }
+  } catch (error) {
+    console.warn('[sharePresets] syncSharePresets failed', error);
+    return { ok: false, message: 'Ошибка сети при синхронизации пресетов.' };
+  }
+
+  // Re-read local state: presets may have been edited while the request was in flight.
+  const result = mergeSharePresetSnapshots(
+    { presets: loadSharePresets(), deleted: loadSharePresetTombstones() },
+    { presets: normalizeSharePresets(payload.presets), deleted: normalizeSharePresetTombstones(payload.deleted) }
+  );
+  saveSharePresetTombstones(result.deleted);
+  saveSharePresets(result.presets, { trackChanges: false });
+  return { ok: true, presets: result.presets, syncedAt: Date.now() };
+}
@@ -1,5 +1,8 @@
-import type { FactGroup } from './storage';
-import type { ShareGroup } from './share';
+import type { Contact, FactGroup } from './storage';
+import type { ShareGroup, SharePayload } from './share';
+import { getOrCreateProfileId, SHARE_VERSION } from './share';
+import { loadShareProfile } from './shareProfile';
+import { getPrivacyLevel } from './privacy';
 
 export function groupToShare(group: FactGroup): ShareGroup {
   return {
@@ -22,3 +25,45 @@ export function syncSelection(current: string[], source: FactGroup[]): string[]
   });
   return merged;
 }
+
+/**
+ * Unsigned payload describing this profile with the given fact groups.
+ * Channels are left out for `direct-only` privacy, as on the QR page.
+ */
+export function buildOwnSharePayload(groups: FactGroup[]): SharePayload {
+  const profile = loadShareProfile();
+  const privacy = getPrivacyLevel();
+  const hideChannels = privacy === 'direct-only';
+  return {
+    v: SHARE_VERSION,
+    owner: {
+      id: getOrCreateProfileId(),
+      name: profile.name || 'Без имени',
+      avatar: profile.avatar,
+      phone: hideChannels ? undefined : profile.phone,
+      telegram: hideChannels ? undefined : profile.telegram,
+      instagram: hideChannels ? undefined : profile.instagram,
+    },
+    groups: groups.map(groupToShare),
+    generatedAt: Date.now(),
+    privacy,
+  };
+}
+
+/** Payload for passing a stored contact on to someone else, limited to `groupIds`. */
+export function contactToSharePayload(contact: Contact, groupIds: string[]): SharePayload {
+  const selected = new Set(groupIds);
+  return {
+    v: SHARE_VERSION,
+    owner: {
+      id: contact.remoteId,
+      name: contact.name,
+      avatar: contact.avatar,
+      phone: contact.phone,
+      telegram: contact.telegram,
+      instagram: contact.instagram,
+    },
+    groups: contact.groups.filter((group) => selected.has(group.id)).map(groupToShare),
+    generatedAt: Date.now(),
+  };
+}
@@ -1,6 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { FACT_CATEGORY_CONFIG, FACT_CATEGORY_LABELS, FACT_CATEGORY_COLORS } from './categories';
 import type { PlanId, PlanProduct } from './plans';
+import { normalizeReminderCadence, type ReminderCadence } from './reminders';
+import { putRecord, queryIndex, readCollection, readValue, writeCollection, writeValue } from './repository';
 
 /**
  * Types describing the core domain entities for InNet.
@@ -14,15 +16,30 @@ export interface Fact {
   text: string;
 }
 
+/**
+ * Who sees a fact group on the public profile page (`/u/<handle>`):
+ * everyone, only people the owner exchanged with, or nobody. QR shares are
+ * not affected; there the owner picks groups for each share.
+ */
+export type FactGroupVisibility = 'public' | 'contacts' | 'hidden';
+
+export const FACT_GROUP_VISIBILITIES: FactGroupVisibility[] = ['public', 'contacts', 'hidden'];
+
+/** Groups saved before visibility existed are not published to strangers. */
+export const DEFAULT_FACT_GROUP_VISIBILITY: FactGroupVisibility = 'contacts';
+
 export interface FactGroup {
   id: string;
   name: string;
   color: string;
   facts: Fact[];
+  visibility?: FactGroupVisibility;
 }
 export const FACT_TEXT_LIMIT = 4000;
 export const CONTACT_NOTE_LIMIT = 128;
 export const CONTACT_NOTE_MAX = 7;
+export const CONTACT_INTERACTION_NOTE_LIMIT = 280;
+export const CONTACT_INTERACTION_MAX = 200;
 
 export interface ContactGroup {
   id: string;
@@ -37,10 +54,47 @@ export interface ContactNote {
   createdAt: number;
 }
 
+/** How a touch with a contact happened. */
+export type ContactInteractionChannel = 'meeting' | 'call' | 'message' | 'email' | 'exchange' | 'reminder';
+
+export const CONTACT_INTERACTION_CHANNELS: ContactInteractionChannel[] = [
+  'meeting',
+  'call',
+  'message',
+  'email',
+  'exchange',
+  'reminder',
+];
+
+export const CONTACT_INTERACTION_LABELS: Record<ContactInteractionChannel, string> = {
+  meeting: 'Встреча вживую',
+  call: 'Звонок',
+  message: 'Сообщение',
+  email: 'Письмо',
+  exchange: 'Обмен QR',
+  reminder: 'Связался по напоминанию',
+};
+
+/**
+ * One entry of a contact's timeline. Unlike `Contact.lastUpdated`, which
+ * moves on every edit or merge, these record actual touches.
+ */
+export interface ContactInteraction {
+  id: string;
+  channel: ContactInteractionChannel;
+  at: number;
+  note?: string;
+}
+
 export interface ContactTag {
   id: string;
   label: string;
   color: string;
+  /**
+   * Reminder cadence for everyone with this tag. Tags are copied per
+   * contact, so the override is kept the same on every copy of a label.
+   */
+  reminderCadence?: ReminderCadence;
 }
 
 export const CONTACT_TAG_COLOR_PRESETS = [
@@ -92,7 +146,55 @@ export interface Contact {
   groups: ContactGroup[];
   notes: ContactNote[];
   tags: ContactTag[];
+  /** Newest first, at most `CONTACT_INTERACTION_MAX` entries. */
+  interactions?: ContactInteraction[];
   connections?: ContactConnection[];
+  /** Reminder cadence for this contact; wins over tag overrides and the global setting. */
+  reminderCadence?: ReminderCadence;
+  /** Ed25519 key pinned from the first signed share token of this contact. */
+  shareKey?: string;
+  /**
+   * Per-field modification timestamps used by the cross-device sync to
+   * merge concurrent edits. Missing entries fall back to `lastUpdated`.
+   */
+  fieldUpdatedAt?: Partial<Record<ContactSyncField, number>>;
+}
+
+/**
+ * Contact fields that are merged independently during sync. Identity
+ * fields (`id`, `remoteId`, `connectedAt`) are never overwritten.
+ */
+export const CONTACT_SYNC_FIELDS = [
+  'name',
+  'avatar',
+  'phone',
+  'telegram',
+  'instagram',
+  'groups',
+  'notes',
+  'tags',
+  'interactions',
+  'connections',
+  'reminderCadence',
+  'shareKey',
+] as const;
+
+export type ContactSyncField = (typeof CONTACT_SYNC_FIELDS)[number];
+
+/**
+ * Ids of contacts removed on this device mapped to the removal time, so
+ * the sync does not resurrect them from another device.
+ */
+export type ContactTombstones = Record<string, number>;
+
+export const CONTACTS_UPDATED_EVENT = 'innet-contacts-updated';
+
+export type ContactsUpdatedDetail = { source: 'local' | 'sync' };
+
+declare global {
+  interface WindowEventMap {
+    'innet-contacts-updated': CustomEvent<ContactsUpdatedDetail>;
+  }
 }
 
 export interface GraphData {
@@ -124,37 +226,25 @@ export interface UserAccount {
   supabaseUid?: string | null;
 }
 
-/* Key names used for persisting to localStorage */
-const FACT_KEY = 'innet_fact_groups';
-const CONTACT_KEY = 'innet_contacts';
-const USER_KEY = 'innet_users';
+/* Data lives in the IndexedDB repository (`repository.ts`); these are its key names. */
+const CONTACT_TOMBSTONE_KEY = 'innet_contacts_deleted';
 
 /**
- * Load fact groups from localStorage. If none exist, returns an empty
- * array. Each call parses the stored JSON and returns typed objects.
+ * Load fact groups from the repository. If none exist, returns an empty
+ * array. Each call returns fresh copies that are safe to mutate.
  */
 export function loadFactGroups(): FactGroup[] {
   if (typeof window === 'undefined') return [];
-  try {
-    const raw = localStorage.getItem(FACT_KEY);
-    if (!raw) return [];
-    const stored = JSON.parse(raw) as unknown;
-    if (!Array.isArray(stored)) return [];
-    return stored.map((item) => normalizeFactGroup(item));
-  } catch (err) {
-    console.error('Failed to parse fact groups', err);
-    return [];
-  }
+  return readCollection<FactGroup>('factGroups').map((item) => normalizeFactGroup(item));
 }
 
 /**
- * Persist the supplied fact groups to localStorage.  Use this after
- * creating, updating or deleting groups to ensure the UI stays in sync
- * after reload.
+ * Persist the supplied fact groups.  Use this after creating, updating or
+ * deleting groups to ensure the UI stays in sync after reload.
  */
 export function saveFactGroups(groups: FactGroup[]): void {
   if (typeof window === 'undefined') return;
-  localStorage.setItem(FACT_KEY, JSON.stringify(groups));
+  writeCollection('factGroups', groups);
 }
 
 export function normalizeFactGroups(raw: unknown): FactGroup[] {
@@ -162,32 +252,154 @@ export function normalizeFactGroups(raw: unknown): FactGroup[] {
   return raw.map((item) => normalizeFactGroup(item));
 }
 
+export function factGroupVisibility(group: FactGroup): FactGroupVisibility {
+  return group.visibility ?? DEFAULT_FACT_GROUP_VISIBILITY;
+}
+
 /**
- * Load contacts from localStorage. Returns an empty array if none exist.
+ * Load contacts from the repository. Returns an empty array if none exist.
  */
 export function loadContacts(): Contact[] {
   if (typeof window === 'undefined') return [];
-  try {
-    const raw = localStorage.getItem(CONTACT_KEY);
-    if (!raw) return [];
-    const stored = JSON.parse(raw) as unknown;
-    if (!Array.isArray(stored)) return [];
-    return stored
-      .map((item) => normalizeContact(item))
-      .filter((contact): contact is Contact => contact != null);
-  } catch (err) {
-    console.error('Failed to parse contacts', err);
-    return [];
-  }
+  return normalizeContacts(readCollection<Contact>('contacts'));
 }
 
 /**
- * Persist contacts to localStorage. Call this after modifying the
- * contacts array to ensure persistence across sessions.
+ * Persist contacts. Call this after modifying the contacts array to
+ * ensure persistence across sessions; only changed contacts are written.
+ *
+ * Local edits are diffed against the stored list: changed fields get a
+ * fresh `fieldUpdatedAt` stamp and removed contacts a tombstone. The sync
+ * engine passes `{ trackChanges: false }` when writing merged data so
+ * remote values keep their original timestamps.
  */
-export function saveContacts(contacts: Contact[]): void {
+export function saveContacts(
+  contacts: Contact[],
+  options?: { trackChanges?: boolean }
+): void {
+  if (typeof window === 'undefined') return;
+  const trackChanges = options?.trackChanges ?? true;
+  let next = contacts;
+
+  if (trackChanges) {
+    const now = Date.now();
+    const previous = new Map(loadContacts().map((contact) => [contact.id, contact]));
+    next = contacts.map((contact) => stampContactChanges(previous.get(contact.id), contact, now));
+
+    const keptIds = new Set(contacts.map((contact) => contact.id));
+    const removedIds = Array.from(previous.keys()).filter((id) => !keptIds.has(id));
+    if (removedIds.length) {
+      const tombstones = loadContactTombstones();
+      removedIds.forEach((id) => {
+        tombstones[id] = now;
+      });
+      saveContactTombstones(tombstones);
+    }
+  }
+
+  writeCollection('contacts', next);
+  dispatchContactsUpdated(trackChanges ? 'local' : 'sync');
+}
+
+function dispatchContactsUpdated(source: ContactsUpdatedDetail['source']): void {
+  window.dispatchEvent(
+    new CustomEvent<ContactsUpdatedDetail>(CONTACTS_UPDATED_EVENT, { detail: { source } })
+  );
+}
+
+export function normalizeContacts(raw: unknown): Contact[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((item) => normalizeContact(item))
+    .filter((contact): contact is Contact => contact != null);
+}
+
+export function loadContactTombstones(): ContactTombstones {
+  if (typeof window === 'undefined') return {};
+  return normalizeContactTombstones(readValue(CONTACT_TOMBSTONE_KEY));
+}
+
+export function saveContactTombstones(tombstones: ContactTombstones): void {
   if (typeof window === 'undefined') return;
-  localStorage.setItem(CONTACT_KEY, JSON.stringify(contacts));
+  writeValue(CONTACT_TOMBSTONE_KEY, tombstones);
+}
+
+/**
+ * Indexed lookups that skip loading the whole list. Without IndexedDB
+ * they fall back to filtering the cached contacts.
+ */
+export async function findContactsByRemoteId(remoteId: string): Promise<Contact[]> {
+  const found = await queryIndex<Contact>('contacts', 'remoteId', remoteId);
+  return found ? normalizeContacts(found) : loadContacts().filter((contact) => contact.remoteId === remoteId);
+}
+
+export async function findContactsByTag(label: string): Promise<Contact[]> {
+  const key = label.trim().toLowerCase();
+  const found = await queryIndex<Contact>('contacts', 'tags', key);
+  return found
+    ? normalizeContacts(found)
+    : loadContacts().filter((contact) => contact.tags.some((tag) => tag.label.toLowerCase() === key));
+}
+
+/** Cadence override already set on some copy of the tag `label`, if any. */
+export function findTagReminderCadence(label: string): ReminderCadence | undefined {
+  const key = label.trim().toLowerCase();
+  for (const contact of loadContacts()) {
+    const tag = contact.tags.find((item) => item.label.toLowerCase() === key && item.reminderCadence);
+    if (tag) return tag.reminderCadence;
+  }
+  return undefined;
+}
+
+/** Set or clear (`null`) the reminder cadence of the tag `label` on every contact that has it. */
+export async function setTagReminderCadence(label: string, cadence: ReminderCadence | null): Promise<void> {
+  const key = label.trim().toLowerCase();
+  const tagged = new Set((await findContactsByTag(label)).map((contact) => contact.id));
+  if (!tagged.size) return;
+  const contacts = loadContacts().map((contact) => {
+    if (!tagged.has(contact.id)) return contact;
+    return {
+      ...contact,
+      tags: contact.tags.map((tag) => {
+        if (tag.label.toLowerCase() !== key) return tag;
+        return cadence
+          ? { ...tag, reminderCadence: cadence }
+          : { id: tag.id, label: tag.label, color: tag.color };
+      }),
+    };
+  });
+  saveContacts(contacts);
+}
+
+export async function findContactsConnectedSince(since: number): Promise<Contact[]> {
+  const found = await queryIndex<Contact>('contacts', 'connectedAt', IDBKeyRange.lowerBound(since));
+  return found
+    ? normalizeContacts(found)
+    : loadContacts().filter((contact) => contact.connectedAt >= since);
+}
+
+export function normalizeContactTombstones(raw: unknown): ContactTombstones {
+  const record = toRecord(raw);
+  if (!record) return {};
+  return Object.entries(record).reduce<ContactTombstones>((acc, [id, value]) => {
+    if (id && isNumber(value)) {
+      acc[id] = value;
+    }
+    return acc;
+  }, {});
+}
+
+function stampContactChanges(previous: Contact | undefined, next: Contact, now: number): Contact {
+  if (!previous) return next;
+  const changed = CONTACT_SYNC_FIELDS.filter(
+    (field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+  );
+  if (!changed.length) return next;
+  const stamps = { ...previous.fieldUpdatedAt, ...next.fieldUpdatedAt };
+  changed.forEach((field) => {
+    stamps[field] = now;
+  });
+  return { ...next, fieldUpdatedAt: stamps };
 }
 
 const CATEGORY_CONFIG_MAP = FACT_CATEGORY_CONFIG.reduce<Record<string, { label: string; color: string }>>(
@@ -200,20 +412,12 @@ const CATEGORY_CONFIG_MAP = FACT_CATEGORY_CONFIG.reduce<Record<string, { label:
 
 export function loadUsers(): UserAccount[] {
   if (typeof window === 'undefined') return [];
-  try {
-    const raw = localStorage.getItem(USER_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (err) {
-    console.error('Failed to parse users', err);
-    return [];
-  }
+  return structuredClone(readCollection<UserAccount>('users'));
 }
 
 export function saveUsers(users: UserAccount[]): void {
   if (typeof window === 'undefined') return;
-  localStorage.setItem(USER_KEY, JSON.stringify(users));
+  writeCollection('users', users);
 }
 
 export function convertFactsToGroups(factsByCategory: Record<string, string[]>): FactGroup[] {
@@ -242,14 +446,17 @@ export function convertFactsToGroups(factsByCategory: Record<string, string[]>):
 
 /**
  * Generate a graph representation of the contact list. Each contact
- * becomes a node. For simplicity all nodes are connected to the
- * current user (assumed id 'me'), though edges can be extended later.
+ * becomes a node linked to the current user (assumed id 'me'); their
+ * `connections` add second-level nodes. A connection that is also one of
+ * the user's contacts links to that contact's node instead of a copy.
  */
 export function buildGraphData(currentUserId: string, contacts: Contact[]): GraphData {
   const nodes = new Map<string, { id: string; name: string; avatar?: string; level?: number; tagColor?: string }>();
   const links: GraphData['links'] = [];
 
   nodes.set(currentUserId, { id: currentUserId, name: 'Вы', avatar: undefined, level: 0, tagColor: '#38BDF8' });
+  const contactIdByRemoteId = new Map(contacts.map((contact) => [contact.remoteId, contact.id]));
+  const linked = new Set<string>();
 
   contacts.forEach((contact) => {
     nodes.set(contact.id, {
@@ -263,8 +470,11 @@ export function buildGraphData(currentUserId: string, contacts: Contact[]): Grap
 
     const secondary = contact.connections ?? [];
     secondary.forEach((connection) => {
-      const connectionId = connection.id;
-      if (!connectionId) return;
+      const connectionId = contactIdByRemoteId.get(connection.id) ?? connection.id;
+      if (!connectionId || connectionId === contact.id) return;
+      const edgeKey = [contact.id, connectionId].sort().join('|');
+      if (linked.has(edgeKey)) return;
+      linked.add(edgeKey);
 
       if (!nodes.has(connectionId)) {
         nodes.set(connectionId, {
@@ -323,6 +533,7 @@ export function createContact(data: {
   instagram?: string;
   groups: ContactGroup[];
   tags?: ContactTag[];
+  shareKey?: string;
 }): Contact {
   const id = uuidv4();
   const normalizedTags = Array.isArray(data.tags)
@@ -343,9 +554,45 @@ export function createContact(data: {
     groups: data.groups.map((group) => normalizeContactGroup(group)),
     tags: normalizedTags,
     notes: [],
+    shareKey: data.shareKey,
   };
 }
 
+export function createContactInteraction(
+  channel: ContactInteractionChannel,
+  at = Date.now(),
+  note?: string
+): ContactInteraction {
+  const text = (note ?? '').toString().trim().slice(0, CONTACT_INTERACTION_NOTE_LIMIT);
+  return text ? { id: uuidv4(), channel, at, note: text } : { id: uuidv4(), channel, at };
+}
+
+/** Add an interaction to a contact, keeping the timeline sorted and capped. */
+export function withContactInteraction(contact: Contact, interaction: ContactInteraction): Contact {
+  const interactions = [interaction, ...(contact.interactions ?? [])]
+    .sort((a, b) => b.at - a.at)
+    .slice(0, CONTACT_INTERACTION_MAX);
+  return { ...contact, interactions };
+}
+
+/**
+ * When the user last actually touched the contact: the newest interaction,
+ * or the moment the contact was added if nothing was logged yet.
+ */
+export function contactLastTouch(contact: Contact): number {
+  const latest = contact.interactions?.[0]?.at;
+  return typeof latest === 'number' ? Math.max(latest, contact.connectedAt) : contact.connectedAt;
+}
+
+/** Log an interaction for a stored contact; returns the updated contact. */
+export function logContactInteraction(contactId: string, interaction: ContactInteraction): Contact | null {
+  const contact = loadContacts().find((item) => item.id === contactId);
+  if (!contact) return null;
+  const updated = withContactInteraction(contact, interaction);
+  updateContact(updated);
+  return updated;
+}
+
 export function createContactNote(text: string): ContactNote {
   const value = (text ?? '').toString().trim().slice(0, CONTACT_NOTE_LIMIT);
   return {
@@ -355,17 +602,17 @@ export function createContactNote(text: string): ContactNote {
   };
 }
 
+/** Write a single known contact without rewriting the rest of the list. */
 export function updateContact(updated: Contact): void {
-  const contacts = loadContacts();
-  const next = contacts.map((contact) => (contact.id === updated.id ? updated : contact));
-  saveContacts(next);
+  if (typeof window === 'undefined') return;
+  const previous = readCollection<Contact>('contacts').find((contact) => contact.id === updated.id);
+  if (!previous) return;
+  putRecord('contacts', stampContactChanges(normalizeContact(previous) ?? undefined, updated, Date.now()));
+  dispatchContactsUpdated('local');
 }
 
-// TODO: Add persistence helpers for remote storage.
-// When integrating a backend, replace localStorage usage with API
-// calls (e.g. GraphQL or REST) and synchronize responses back into
-// your React state. For now, this module isolates all storage
-// concerns making it easier to swap implementations later.
+// Remote persistence lives in `contactSync.ts` (contacts) and
+// `factsRemote.ts` (fact groups); this module only owns the local copy.
 
 function normalizeFactGroup(raw: unknown): FactGroup {
   const record = toRecord(raw) ?? {};
@@ -376,7 +623,8 @@ function normalizeFactGroup(raw: unknown): FactGroup {
   const facts: Fact[] = factsSource
     .map((item) => normalizeFact(item))
     .filter((fact): fact is Fact => fact != null);
-  return { id, name, color, facts };
+  const visibility = FACT_GROUP_VISIBILITIES.find((value) => value === record.visibility);
+  return visibility ? { id, name, color, facts, visibility } : { id, name, color, facts };
 }
 
 function normalizeFact(raw: unknown): Fact | null {
@@ -416,6 +664,12 @@ function normalizeContact(raw: unknown): Contact | null {
   const tags = tagsSource
     .map((tag) => normalizeContactTag(tag))
     .filter((tag): tag is ContactTag => tag != null);
+  const interactionsSource = Array.isArray(record.interactions) ? record.interactions : [];
+  const interactions = interactionsSource
+    .map((interaction) => normalizeContactInteraction(interaction))
+    .filter((interaction): interaction is ContactInteraction => interaction != null)
+    .sort((a, b) => b.at - a.at)
+    .slice(0, CONTACT_INTERACTION_MAX);
 
   const connectionsSource = Array.isArray(record.connections) ? record.connections : [];
   const connections = connectionsSource
@@ -444,10 +698,27 @@ function normalizeContact(raw: unknown): Contact | null {
         })),
     notes,
     tags,
+    interactions: interactions.length ? interactions : undefined,
     connections,
+    reminderCadence: normalizeReminderCadence(record.reminderCadence) ?? undefined,
+    shareKey: isString(record.shareKey) ? record.shareKey : undefined,
+    fieldUpdatedAt: normalizeFieldStamps(record.fieldUpdatedAt),
   };
 }
 
+function normalizeFieldStamps(raw: unknown): Contact['fieldUpdatedAt'] {
+  const record = toRecord(raw);
+  if (!record) return undefined;
+  const stamps: Partial<Record<ContactSyncField, number>> = {};
+  CONTACT_SYNC_FIELDS.forEach((field) => {
+    const value = record[field];
+    if (isNumber(value)) {
+      stamps[field] = value;
+    }
+  });
+  return Object.keys(stamps).length ? stamps : undefined;
+}
+
 function normalizeContactGroup(raw: unknown): ContactGroup {
   const record = toRecord(raw) ?? {};
   const id = isString(record.id) ? record.id : uuidv4();
@@ -466,11 +737,28 @@ function normalizeContactTag(raw: unknown): ContactTag | null {
   const label = isString(record.label) ? record.label.trim() : '';
   if (!label) return null;
   const color = isString(record.color) ? record.color : undefined;
-  return {
+  const reminderCadence = normalizeReminderCadence(record.reminderCadence);
+  const tag: ContactTag = {
     id: isString(record.id) ? record.id : uuidv4(),
     label,
     color: pickTagColor(color),
   };
+  return reminderCadence ? { ...tag, reminderCadence } : tag;
+}
+
+function normalizeContactInteraction(raw: unknown): ContactInteraction | null {
+  const record = toRecord(raw);
+  if (!record || !isNumber(record.at)) return null;
+  const channel = CONTACT_INTERACTION_CHANNELS.find((value) => value === record.channel);
+  if (!channel) return null;
+  const note = isString(record.note) ? record.note.trim().slice(0, CONTACT_INTERACTION_NOTE_LIMIT) : '';
+  const interaction: ContactInteraction = {
+    // Entries without an id get one derived from their content, so every load and sync sees the same id.
+    id: isString(record.id) ? record.id : `${channel}-${record.at}`,
+    channel,
+    at: record.at,
+  };
+  return note ? { ...interaction, note } : interaction;
 }
 
 function normalizeContactNote(raw: unknown): ContactNote | null {
@@ -589,7 +877,7 @@ function generateTestName(random: () => number): string {
 }
 
 /**
- * Populate localStorage with synthetic contacts to quickly try the graph.
+ * Populate the repository with synthetic contacts to quickly try the graph.
  * Generates 20 first-level connections and 10 second-level nodes that
  * attach to random first-level contacts. Existing contacts are replaced.
  */
@@ -6,7 +6,7 @@ import {
   type PlanProduct,
 } from './plans';
 import { loadUsers, saveUsers, type UserAccount } from './storage';
-import { updateRemoteAccount } from './accountRemote';
+import type { SubscriptionInfo } from './payments/client';
 
 const PLAN_STORAGE_KEY = 'innet_current_plan';
 
@@ -62,7 +62,6 @@ export function setCurrentPlan(plan: PlanId, options?: PlanUpdateOptions): void
   if (storedUserId) {
     try {
       const users = loadUsers();
-      let remoteCandidate: UserAccount | undefined;
       const now = Date.now();
       const updated = users.map((user) => {
         if (user.id !== storedUserId) {
@@ -80,17 +79,11 @@ export function setCurrentPlan(plan: PlanId, options?: PlanUpdateOptions): void
           ...(options?.planProduct !== undefined ? { planProduct: options.planProduct ?? null } : {}),
           ...(options?.planExpiresAt !== undefined ? { planExpiresAt: options.planExpiresAt ?? null } : {}),
         };
-        remoteCandidate = next;
         return next;
       });
+      // Only the local cache changes here: the server owns the plan and
+      // ignores plan fields sent with account updates.
       saveUsers(updated);
-      if (remoteCandidate) {
-        void updateRemoteAccount(remoteCandidate).then((result) => {
-          if (!result.ok) {
-            console.warn('[subscription] Failed to sync plan with Supabase', result.message);
-          }
-        });
-      }
     } catch {
       /* ignore */
     }
@@ -99,6 +92,34 @@ export function setCurrentPlan(plan: PlanId, options?: PlanUpdateOptions): void
   window.dispatchEvent(new Event('innet-plan-updated'));
 }
 
+/**
+ * Bring the cached plan in line with the server-side subscription: renewals
+ * move `planExpiresAt` forward, and once the grace period after a failed
+ * renewal runs out the account drops back to the free plan.
+ */
+export function syncPlanWithSubscription(subscription: SubscriptionInfo | null): void {
+  if (typeof window === 'undefined' || !subscription) return;
+  const current = getCurrentPlan();
+  if (subscription.status === 'expired') {
+    if (current !== 'free') {
+      setCurrentPlan('free', { planProduct: null, planExpiresAt: null });
+    }
+    return;
+  }
+  const storedUserId = localStorage.getItem('innet_current_user_id');
+  const user = storedUserId ? loadUsers().find((item) => item.id === storedUserId) : undefined;
+  if (
+    current !== 'pro' ||
+    user?.planProduct !== subscription.planProduct ||
+    user?.planExpiresAt !== subscription.currentPeriodEnd
+  ) {
+    setCurrentPlan('pro', {
+      planProduct: subscription.planProduct,
+      planExpiresAt: subscription.currentPeriodEnd,
+    });
+  }
+}
+
 export function clearCachedPlan(): void {
   if (typeof window === 'undefined') return;
   localStorage.removeItem(PLAN_STORAGE_KEY);
@@ -18,3 +18,16 @@ export function getSupabaseClient(): SupabaseClient {
   return cached;
 }
 
+
+/**
+ * Access token of the current Supabase Auth session, sent along with account
+ * writes so the server can link the account to the verified auth user.
+ */
+export async function getSupabaseAccessToken(): Promise<string | null> {
+  try {
+    const { data } = await getSupabaseClient().auth.getSession();
+    return data.session?.access_token ?? null;
+  } catch {
+    return null;
+  }
+}
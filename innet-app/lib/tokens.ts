@@ -1,3 +1,5 @@
+import { readValue, REPOSITORY_CHANGED_EVENT, writeValue, type RepositoryChangedDetail } from './repository';
+
 export type TokenActionId = 'extra-contact' | 'extra-fact-group' | 'extra-fact';
 
 export type TokenActionMeta = {
@@ -18,17 +20,25 @@ export type TokenPack = {
   bestFor: string;
 };
 
-export type TokenPurchaseReceipt =
-  | { ok: true; pack: TokenPack; creditedTokens: number; balance: number }
-  | { ok: false; message: string };
-
 export type TokenChargeResult =
   | { ok: true; action: TokenActionId; cost: number; balance: number }
-  | { ok: false; action: TokenActionId; cost: number; balance: number; deficit: number };
-
+  | {
+      ok: false;
+      action: TokenActionId;
+      cost: number;
+      balance: number;
+      deficit: number;
+      /** Set when the server could not be asked at all. */
+      message?: string;
+    };
+
+// The balance lives in the server ledger (`/api/tokens`); this key only caches
+// the last known value for display.
 const TOKEN_STORAGE_KEY = 'innet_token_balance';
 const TOKEN_BALANCE_EVENT = 'innet-token-balance-updated';
+/** Welcome tokens of a new account; `apply_token_delta` in SUPABASE.md uses the same number. */
 const DEFAULT_TOKEN_BALANCE = 12;
+const TOKENS_ENDPOINT = '/api/tokens';
 
 const TOKEN_ACTIONS: TokenActionMeta[] = [
   {
@@ -96,14 +106,6 @@ export const TOKEN_PACKS: TokenPack[] = [
 
 let memoryBalance = DEFAULT_TOKEN_BALANCE;
 
-function getStorage(): Storage | null {
-  if (typeof window === 'undefined') return null;
-  try {
-    return window.localStorage;
-  } catch {
-    return null;
-  }
-}
 
 function dispatchBalanceEvent(next: number): void {
   if (typeof window === 'undefined') return;
@@ -115,44 +117,42 @@ function normalizeBalance(value: number): number {
   return Math.max(0, Math.floor(value));
 }
 
+/** Last balance reported by the server; refresh with `refreshTokenBalance`. */
 export function getTokenBalance(): number {
-  const storage = getStorage();
-  if (!storage) {
+  if (typeof window === 'undefined') {
     return memoryBalance;
   }
-  const raw = storage.getItem(TOKEN_STORAGE_KEY);
-  if (raw == null) {
-    storage.setItem(TOKEN_STORAGE_KEY, String(DEFAULT_TOKEN_BALANCE));
-    return DEFAULT_TOKEN_BALANCE;
-  }
-  const parsed = parseInt(raw, 10);
-  if (Number.isNaN(parsed)) {
-    storage.setItem(TOKEN_STORAGE_KEY, String(DEFAULT_TOKEN_BALANCE));
-    return DEFAULT_TOKEN_BALANCE;
-  }
-  return normalizeBalance(parsed);
+  const stored = readValue<number>(TOKEN_STORAGE_KEY);
+  return typeof stored === 'number' ? normalizeBalance(stored) : DEFAULT_TOKEN_BALANCE;
 }
 
-export function setTokenBalance(next: number): number {
+function cacheTokenBalance(next: number): number {
   const normalized = normalizeBalance(next);
-  const storage = getStorage();
-  if (!storage) {
+  if (typeof window === 'undefined') {
     memoryBalance = normalized;
     return normalized;
   }
-  storage.setItem(TOKEN_STORAGE_KEY, String(normalized));
+  writeValue(TOKEN_STORAGE_KEY, normalized);
   dispatchBalanceEvent(normalized);
   return normalized;
 }
 
-export function addTokens(amount: number): number {
-  if (!Number.isFinite(amount) || amount <= 0) {
-    return getTokenBalance();
+export async function refreshTokenBalance(): Promise<number | null> {
+  try {
+    const response = await fetch(TOKENS_ENDPOINT);
+    const data = (await response.json()) as { ok: true; balance: number } | { ok: false; message: string };
+    if (!response.ok || !data.ok) {
+      console.warn('[tokens] Failed to refresh balance', 'message' in data ? data.message : response.status);
+      return null;
+    }
+    return cacheTokenBalance(data.balance);
+  } catch (error) {
+    console.warn('[tokens] refreshTokenBalance failed', error);
+    return null;
   }
-  const current = getTokenBalance();
-  return setTokenBalance(current + Math.floor(amount));
 }
 
+/** UI hint based on the cached balance; the server decides on the actual charge. */
 export function canAffordAction(action: TokenActionId, quantity = 1): boolean {
   const rule = TOKEN_ACTION_MAP[action];
   if (!rule) return false;
@@ -160,19 +160,39 @@ export function canAffordAction(action: TokenActionId, quantity = 1): boolean {
   return getTokenBalance() >= cost;
 }
 
-export function spendTokensForAction(action: TokenActionId, quantity = 1): TokenChargeResult {
+/** Debit tokens for a paid action on the server; the debit is atomic and never overdraws. */
+export async function spendTokensForAction(action: TokenActionId, quantity = 1): Promise<TokenChargeResult> {
   const rule = TOKEN_ACTION_MAP[action];
+  const cost = (rule?.tokens ?? 0) * Math.max(1, quantity);
+  const failure = (message: string): TokenChargeResult => ({
+    ok: false,
+    action,
+    cost,
+    balance: getTokenBalance(),
+    deficit: 0,
+    message,
+  });
   if (!rule) {
-    return { ok: false, action, cost: 0, balance: getTokenBalance(), deficit: 0 };
+    return failure('Неизвестное действие.');
   }
-  const units = Math.max(1, quantity);
-  const cost = rule.tokens * units;
-  const current = getTokenBalance();
-  if (current < cost) {
-    return { ok: false, action, cost, balance: current, deficit: cost - current };
+  try {
+    const response = await fetch(TOKENS_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, quantity }),
+    });
+    const data = (await response.json()) as
+      | { ok: true; charge: TokenChargeResult }
+      | { ok: false; message: string };
+    if (!response.ok || !data.ok) {
+      return failure(('message' in data && data.message) || 'Не удалось списать токены.');
+    }
+    cacheTokenBalance(data.charge.balance);
+    return data.charge;
+  } catch (error) {
+    console.error('[tokens] spendTokensForAction failed', error);
+    return failure('Ошибка сети при списании токенов.');
   }
-  const balance = setTokenBalance(current - cost);
-  return { ok: true, action, cost, balance };
 }
 
 export function subscribeToTokenBalance(listener: () => void): () => void {
@@ -180,16 +200,16 @@ export function subscribeToTokenBalance(listener: () => void): () => void {
     return () => {};
   }
   const handler = () => listener();
-  const storageHandler = (event: StorageEvent) => {
-    if (!event.key || event.key === TOKEN_STORAGE_KEY) {
+  const repositoryHandler = (event: CustomEvent<RepositoryChangedDetail>) => {
+    if (event.detail.store === TOKEN_STORAGE_KEY && event.detail.source === 'tab') {
       listener();
     }
   };
   window.addEventListener(TOKEN_BALANCE_EVENT, handler as EventListener);
-  window.addEventListener('storage', storageHandler);
+  window.addEventListener(REPOSITORY_CHANGED_EVENT, repositoryHandler);
   return () => {
     window.removeEventListener(TOKEN_BALANCE_EVENT, handler as EventListener);
-    window.removeEventListener('storage', storageHandler);
+    window.removeEventListener(REPOSITORY_CHANGED_EVENT, repositoryHandler);
   };
 }
 
@@ -197,14 +217,8 @@ export function getTokenActionMeta(action: TokenActionId): TokenActionMeta {
   return TOKEN_ACTION_MAP[action];
 }
 
-export function simulateTokenPurchase(packId: string): TokenPurchaseReceipt {
-  const pack = TOKEN_PACKS.find((item) => item.id === packId);
-  if (!pack) {
-    return { ok: false, message: 'Неизвестный пакет токенов' };
-  }
-  const creditedTokens = pack.tokens + pack.bonusTokens;
-  const balance = addTokens(creditedTokens);
-  return { ok: true, pack, creditedTokens, balance };
+export function findTokenPack(packId: string | null | undefined): TokenPack | null {
+  return TOKEN_PACKS.find((item) => item.id === packId) ?? null;
 }
 
 export function formatTokenPrice(priceRub: number, tokens: number): string {
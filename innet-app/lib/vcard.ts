@@ -0,0 +1,504 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CONTACT_NOTE_MAX,
+  Contact,
+  ContactGroup,
+  createContact,
+  createContactNote,
+  createContactTag,
+  createFact,
+  createFactGroup,
+} from './storage';
+import type { ShareProfile } from './shareProfile';
+import { normalizePhone } from '../utils/contact';
+import { contactIdentityKeys } from './contactDedup';
+
+/**
+ * vCard (RFC 6350) import/export for contacts and the user's own profile.
+ * Standard properties carry what address books understand; fact groups are
+ * kept in `X-INNET-FACT` lines so a round trip through InNet is lossless,
+ * plus a plain NOTE summary for apps that drop unknown properties.
+ */
+
+export const VCARD_MIME = 'text/vcard;charset=utf-8';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const FACT_SUMMARY_PREFIX = 'InNet факты:';
+const DEFAULT_GROUP_COLOR = '#38BDF8';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HANDLE_PATTERN = /^[A-Za-z0-9_.]{2,64}$/;
+
+/** A contact read from a .vcf file, before it becomes a stored `Contact`. */
+export interface VCardEntry {
+  name: string;
+  phone?: string;
+  telegram?: string;
+  instagram?: string;
+  avatar?: string;
+  remoteId?: string;
+  notes: string[];
+  tags: string[];
+  groups: ContactGroup[];
+}
+
+export interface VCardImportPlan {
+  contacts: Contact[];
+  duplicates: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Export                                   */
+/* -------------------------------------------------------------------------- */
+
+export function contactToVCard(contact: Contact): string {
+  const lines = [...identityLines(contact.id, contact.name)];
+
+  if (contact.phone) lines.push(`TEL;VALUE=uri;TYPE=cell:tel:${phoneUri(contact.phone)}`);
+  lines.push(...socialLines(contact.telegram, contact.instagram));
+  if (contact.avatar) lines.push(`PHOTO:${contact.avatar}`);
+
+  contact.notes.forEach((note) => lines.push(`NOTE:${escapeText(note.text)}`));
+
+  const summary = factSummary(contact.groups);
+  if (summary) lines.push(`NOTE:${escapeText(summary)}`);
+  contact.groups.forEach((group) => {
+    const params = `X-GROUP=${paramValue(group.name)};X-COLOR=${paramValue(group.color)}`;
+    group.facts.forEach((fact) => lines.push(`X-INNET-FACT;${params}:${escapeText(fact.text)}`));
+  });
+
+  if (contact.tags.length) {
+    lines.push(`CATEGORIES:${contact.tags.map((tag) => escapeText(tag.label)).join(',')}`);
+  }
+  if (contact.remoteId) lines.push(`X-INNET-REMOTE-ID:${escapeText(contact.remoteId)}`);
+  lines.push(`REV:${formatTimestamp(contact.lastUpdated)}`);
+
+  return wrapCard(lines);
+}
+
+export function contactsToVCard(contacts: Contact[]): string {
+  return contacts.map((contact) => contactToVCard(contact)).join('');
+}
+
+/**
+ * Serialise the user's own card. `compact` drops the photo and revision so
+ * the result stays small enough for a QR code.
+ */
+export function profileToVCard(
+  profile: ShareProfile,
+  options?: { profileId?: string; compact?: boolean }
+): string {
+  const lines = [...identityLines(options?.profileId, profile.name)];
+  if (profile.phone) lines.push(`TEL;VALUE=uri;TYPE=cell:tel:${phoneUri(profile.phone)}`);
+  lines.push(...socialLines(profile.telegram, profile.instagram));
+  if (!options?.compact) {
+    if (profile.avatar) lines.push(`PHOTO:${profile.avatar}`);
+    if (options?.profileId) lines.push(`X-INNET-REMOTE-ID:${escapeText(options.profileId)}`);
+    lines.push(`REV:${formatTimestamp(Date.now())}`);
+  }
+  return wrapCard(lines);
+}
+
+/** Suggest a safe `.vcf` file name for a contact or profile name. */
+export function vCardFileName(name: string): string {
+  const base = name.replace(/[\\/:*?"<>|\r\n\t]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return `${base.slice(0, 60) || 'contact'}.vcf`;
+}
+
+export function downloadVCard(fileName: string, content: string): void {
+  if (typeof window === 'undefined') return;
+  const url = URL.createObjectURL(new Blob([content], { type: VCARD_MIME }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function identityLines(id: string | undefined, name: string): string[] {
+  const fullName = name.trim() || 'Без имени';
+  const [given, ...rest] = fullName.split(/\s+/);
+  const lines = ['VERSION:4.0'];
+  if (id) lines.push(`UID:${UUID_PATTERN.test(id) ? `urn:uuid:${id}` : escapeText(id)}`);
+  lines.push(`FN:${escapeText(fullName)}`);
+  lines.push(`N:${escapeText(rest.join(' '))};${escapeText(given)};;;`);
+  return lines;
+}
+
+function socialLines(telegram?: string, instagram?: string): string[] {
+  const lines: string[] = [];
+  const tg = cleanHandle(telegram);
+  if (tg) {
+    lines.push(`X-SOCIALPROFILE;TYPE=telegram:https://t.me/${tg}`);
+    lines.push(`URL;TYPE=telegram:https://t.me/${tg}`);
+  }
+  const ig = cleanHandle(instagram);
+  if (ig) {
+    lines.push(`X-SOCIALPROFILE;TYPE=instagram:https://instagram.com/${ig}`);
+    lines.push(`URL;TYPE=instagram:https://instagram.com/${ig}`);
+  }
+  return lines;
+}
+
+function factSummary(groups: ContactGroup[]): string {
+  const rows = groups
+    .filter((group) => group.facts.length > 0)
+    .map((group) => `${group.name}: ${group.facts.map((fact) => fact.text).join('; ')}`);
+  return rows.length ? [FACT_SUMMARY_PREFIX, ...rows].join('\n') : '';
+}
+
+function wrapCard(lines: string[]): string {
+  return ['BEGIN:VCARD', ...lines, 'END:VCARD'].map(foldLine).join(CRLF) + CRLF;
+}
+
+/** Fold a content line at 75 octets without splitting UTF-8 sequences. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+function paramValue(value: string): string {
+  const cleaned = value.replace(/["\r\n]/g, ' ');
+  return /[:;,\s]/.test(cleaned) || /[^\x20-\x7e]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function phoneUri(phone: string): string {
+  return normalizePhone(phone).replace(/[\s()]/g, '');
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Import                                   */
+/* -------------------------------------------------------------------------- */
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+};
+
+/**
+ * Parse every card in a .vcf file. Versions 2.1, 3.0 and 4.0 are accepted,
+ * including the quoted-printable names produced by Android exports.
+ */
+export function parseVCards(text: string): VCardEntry[] {
+  const entries: VCardEntry[] = [];
+  let card: ContentLine[] | null = null;
+
+  unfoldLines(text).forEach((raw) => {
+    const line = parseContentLine(raw);
+    if (!line) return;
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VCARD') {
+      card = [];
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VCARD') {
+      if (card) {
+        const entry = buildEntry(card);
+        if (entry) entries.push(entry);
+      }
+      card = null;
+    } else if (card) {
+      card.push(line);
+    }
+  });
+
+  return entries;
+}
+
+function unfoldLines(text: string): string[] {
+  const physical = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const lines: string[] = [];
+  physical.forEach((line) => {
+    const last = lines.length - 1;
+    if (last >= 0 && (line.startsWith(' ') || line.startsWith('\t'))) {
+      lines[last] += line.slice(1);
+    } else if (last >= 0 && isQuotedPrintable(lines[last]) && lines[last].endsWith('=')) {
+      lines[last] = lines[last].slice(0, -1) + line;
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  });
+  return lines;
+}
+
+function isQuotedPrintable(line: string): boolean {
+  const colon = findUnquoted(line, ':');
+  return colon > 0 && /QUOTED-PRINTABLE/i.test(line.slice(0, colon));
+}
+
+function parseContentLine(raw: string): ContentLine | null {
+  const colon = findUnquoted(raw, ':');
+  if (colon <= 0) return null;
+  const [nameWithGroup, ...paramParts] = splitUnquoted(raw.slice(0, colon), ';');
+  const name = nameWithGroup.replace(/^[^.]*\./, '').toUpperCase();
+  const params: Record<string, string[]> = {};
+
+  paramParts.forEach((part) => {
+    const eq = part.indexOf('=');
+    // vCard 2.1 allows bare parameters such as `TEL;CELL`.
+    const key = (eq === -1 ? 'TYPE' : part.slice(0, eq)).toUpperCase();
+    const rawValue = eq === -1 ? part : part.slice(eq + 1);
+    const values = splitUnquoted(rawValue, ',').map((value) => value.replace(/^"|"$/g, ''));
+    params[key] = [...(params[key] ?? []), ...values];
+  });
+
+  let value = raw.slice(colon + 1);
+  if (params.ENCODING?.some((encoding) => /QUOTED-PRINTABLE/i.test(encoding))) {
+    value = decodeQuotedPrintable(value);
+  }
+  return { name, params, value };
+}
+
+function findUnquoted(value: string, needle: string): number {
+  let quoted = false;
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (char === '"') quoted = !quoted;
+    else if (char === needle && !quoted) return index;
+  }
+  return -1;
+}
+
+function splitUnquoted(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let rest = value;
+  let index = findUnquoted(rest, separator);
+  while (index !== -1) {
+    parts.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+    index = findUnquoted(rest, separator);
+  }
+  parts.push(rest);
+  return parts;
+}
+
+/** Split a text value on unescaped separators, then unescape each part. */
+function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (char === '\\' && index + 1 < value.length) {
+      current += char + value[index + 1];
+      index += 1;
+    } else if (char === separator) {
+      parts.push(unescapeText(current));
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(unescapeText(current));
+  return parts;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+  for (let index = 0; index < value.length; index += 1) {
+    const hex = value.slice(index + 1, index + 3);
+    if (value[index] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(...Array.from(new TextEncoder().encode(value[index])));
+    }
+  }
+  return new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+}
+
+function hasType(line: ContentLine, type: string): boolean {
+  return (line.params.TYPE ?? []).some((value) => value.toLowerCase() === type);
+}
+
+function buildEntry(lines: ContentLine[]): VCardEntry | null {
+  const first = (name: string) => lines.find((line) => line.name === name);
+  const all = (name: string) => lines.filter((line) => line.name === name);
+
+  const entry: VCardEntry = { name: '', notes: [], tags: [], groups: [] };
+
+  const formatted = first('FN');
+  const structured = first('N');
+  if (formatted) {
+    entry.name = unescapeText(formatted.value).trim();
+  }
+  if (!entry.name && structured) {
+    const [family = '', given = ''] = splitEscaped(structured.value, ';');
+    entry.name = [given, family].map((part) => part.trim()).filter(Boolean).join(' ');
+  }
+  if (!entry.name && first('ORG')) {
+    entry.name = splitEscaped(first('ORG')!.value, ';')[0].trim();
+  }
+
+  const phones = all('TEL');
+  const phoneLine = phones.find((line) => hasType(line, 'cell')) ?? phones[0];
+  if (phoneLine) {
+    const phone = normalizePhone(phoneLine.value.replace(/^tel:/i, ''));
+    if (phone) entry.phone = phone;
+  }
+
+  lines.forEach((line) => {
+    const value = unescapeText(line.value).trim();
+    if (line.name === 'X-TELEGRAM') entry.telegram ??= handleFrom(value, 'telegram');
+    if (line.name === 'X-INSTAGRAM') entry.instagram ??= handleFrom(value, 'instagram');
+    if (line.name === 'X-SOCIALPROFILE' || line.name === 'URL' || line.name === 'IMPP') {
+      const serviceHint = [...(line.params.TYPE ?? []), ...(line.params['X-SERVICE-TYPE'] ?? [])]
+        .join(' ')
+        .toLowerCase();
+      if (/t\.me\/|telegram\.me\/|^tg:/i.test(value) || serviceHint.includes('telegram')) {
+        entry.telegram ??= handleFrom(value, 'telegram');
+      } else if (/instagram\.com\//i.test(value) || serviceHint.includes('instagram')) {
+        entry.instagram ??= handleFrom(value, 'instagram');
+      }
+    }
+  });
+
+  const photo = first('PHOTO');
+  if (photo) {
+    entry.avatar = photoFrom(photo);
+  }
+
+  const remoteId = first('X-INNET-REMOTE-ID');
+  if (remoteId) {
+    entry.remoteId = unescapeText(remoteId.value).trim() || undefined;
+  }
+
+  const facts = all('X-INNET-FACT');
+  const groups = new Map<string, ContactGroup>();
+  facts.forEach((line) => {
+    const text = unescapeText(line.value).trim();
+    if (!text) return;
+    const groupName = line.params['X-GROUP']?.[0]?.trim() || 'Факты';
+    let group = groups.get(groupName);
+    if (!group) {
+      group = createFactGroup(groupName, line.params['X-COLOR']?.[0] || DEFAULT_GROUP_COLOR);
+      groups.set(groupName, group);
+    }
+    group.facts.push(createFact(text));
+  });
+  entry.groups = Array.from(groups.values());
+
+  all('NOTE').forEach((line) => {
+    const text = unescapeText(line.value).trim();
+    if (!text) return;
+    // The fact summary is regenerated on export; keep only the real notes.
+    if (facts.length && text.startsWith(FACT_SUMMARY_PREFIX)) return;
+    entry.notes.push(text);
+  });
+
+  all('CATEGORIES').forEach((line) => {
+    splitEscaped(line.value, ',').forEach((label) => {
+      const trimmed = label.trim();
+      if (trimmed && !entry.tags.includes(trimmed)) entry.tags.push(trimmed);
+    });
+  });
+
+  if (!entry.name) {
+    entry.name = entry.phone || entry.telegram || entry.instagram || '';
+  }
+  return entry.name ? entry : null;
+}
+
+function handleFrom(value: string, network: 'telegram' | 'instagram'): string | undefined {
+  const patterns =
+    network === 'telegram'
+      ? [/(?:t\.me|telegram\.me)\/([^/?#\s]+)/i, /^tg:\/\/resolve\?domain=([^&\s]+)/i]
+      : [/instagram\.com\/([^/?#\s]+)/i];
+  const match = patterns.map((pattern) => value.match(pattern)).find(Boolean);
+  const handle = cleanHandle(match ? match[1] : value.replace(/^[a-z]+:/i, ''));
+  return handle ? `@${handle}` : undefined;
+}
+
+function photoFrom(line: ContentLine): string | undefined {
+  const value = line.value.trim();
+  if (/^(data:|https?:)/i.test(value)) return value;
+  const isBase64 = (line.params.ENCODING ?? []).some((encoding) => /^(b|base64)$/i.test(encoding));
+  if (!isBase64 || !value) return undefined;
+  const type = (line.params.TYPE ?? []).find((entry) => /^(jpe?g|png|gif|webp)$/i.test(entry));
+  const mime = type ? `image/${type.toLowerCase() === 'jpg' ? 'jpeg' : type.toLowerCase()}` : 'image/jpeg';
+  return `data:${mime};base64,${value.replace(/\s+/g, '')}`;
+}
+
+function cleanHandle(value?: string): string | undefined {
+  const handle = (value ?? '').trim().replace(/^@+/, '');
+  return HANDLE_PATTERN.test(handle) ? handle : undefined;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Deduplication                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Turn parsed cards into new contacts, skipping any that match an existing
+ * contact (or an earlier card in the same file) by phone, handle or InNet id.
+ */
+export function planVCardImport(entries: VCardEntry[], existing: Contact[]): VCardImportPlan {
+  const known = new Set(existing.flatMap((contact) => contactIdentityKeys(contact)));
+  const contacts: Contact[] = [];
+  let duplicates = 0;
+
+  entries.forEach((entry) => {
+    const keys = contactIdentityKeys(entry);
+    if (keys.some((key) => known.has(key))) {
+      duplicates += 1;
+      return;
+    }
+    keys.forEach((key) => known.add(key));
+
+    const contact = createContact({
+      remoteId: entry.remoteId || uuidv4(),
+      name: entry.name,
+      avatar: entry.avatar,
+      phone: entry.phone,
+      telegram: entry.telegram,
+      instagram: entry.instagram,
+      groups: entry.groups,
+      tags: entry.tags.map((label) => createContactTag(label)),
+    });
+    contact.notes = entry.notes
+      .slice(0, CONTACT_NOTE_MAX)
+      .map((text) => createContactNote(text));
+    contacts.push(contact);
+  });
+
+  return { contacts, duplicates };
+}
@@ -1,8 +1,35 @@
 import '../styles/globals.css';
 import type { AppProps } from 'next/app';
+import { useEffect, useState } from 'react';
+import Layout from '../components/Layout';
 import { ReminderProvider } from '../hooks/useReminders';
+import { useContactSync } from '../hooks/useContactSync';
+import { useOutboxReplay } from '../hooks/useOutbox';
+import { hydrateRepository } from '../lib/repository';
+import { registerServiceWorker } from '../lib/serviceWorker';
+
+/** Pages that read contacts, fact groups or accounts while rendering; `/s` is the short share link. */
+const REPOSITORY_ROUTES = /^\/(app|share|s|login|register)(\/|$)/;
+
+export default function MyApp({ Component, pageProps, router }: AppProps) {
+  const [repositoryReady, setRepositoryReady] = useState(false);
+  useContactSync();
+  useOutboxReplay();
+  useEffect(() => {
+    registerServiceWorker();
+    void hydrateRepository().then(() => setRepositoryReady(true));
+  }, []);
+
+  if (!repositoryReady && REPOSITORY_ROUTES.test(router.pathname)) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-10 text-gray-400">
+          Загрузка...
+        </div>
+      </Layout>
+    );
+  }
 
-export default function MyApp({ Component, pageProps }: AppProps) {
   return (
     <ReminderProvider>
       <Component {...pageProps} />
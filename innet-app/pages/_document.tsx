@@ -12,6 +12,7 @@ export default function Document() {
         <meta name="apple-mobile-web-app-status-bar-style" content="black" />
         <meta name="apple-mobile-web-app-title" content={seoConfig.siteName} />
         <link rel="icon" href="/favicon.svg" type="image/svg+xml" />
+        <link rel="manifest" href="/manifest.webmanifest" />
         <link rel="apple-touch-icon" href="/landing.png" />
       </Head>
       <body className="bg-background text-foreground antialiased">
@@ -3,15 +3,20 @@ import bcrypt from 'bcrypt';
 import { getSupabaseAdminClient } from '../../../lib/supabaseAdmin';
 import type { UserAccount } from '../../../lib/storage';
 import { isEmail, normalizePhone } from '../../../utils/contact';
+import { issueSession } from '../../../lib/server/session';
+import { resolveAccountProfileId } from '../../../lib/server/account-profile';
 
 type LoginRequest = {
   identifier?: string;
   password?: string;
+  /** Signed claim on the device's profile id (`signProfileClaim`). */
+  profileClaim?: unknown;
 };
 
 type LoginSuccess = {
   ok: true;
   user: Omit<UserAccount, 'password'>;
+  profileId: string;
 };
 
 type LoginError = {
@@ -30,7 +35,7 @@ export default async function handler(
     return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
   }
 
-  const { identifier, password } = req.body as LoginRequest;
+  const { identifier, password, profileClaim } = req.body as LoginRequest;
 
   if (typeof identifier !== 'string' || !identifier.trim()) {
     return res
@@ -65,7 +70,7 @@ export default async function handler(
   }
 
   try {
-    const query = client.from(TABLE_NAME).select('id,password_hash,data');
+    const query = client.from(TABLE_NAME).select('id,email,password_hash,data,profile_id');
     const { data, error } = useEmail
       ? await query.eq('email', normalizedEmail).maybeSingle()
       : await query.eq('phone', normalizedPhone).maybeSingle();
@@ -86,19 +91,37 @@ export default async function handler(
       return res.status(401).json({ ok: false, message: 'Неверный email или пароль.' });
     }
 
-    if (data.id) {
-      const now = new Date().toISOString();
-      const { error: updateError } = await client
-        .from(TABLE_NAME)
-        .update({ last_login_at: now, updated_at: now })
-        .eq('id', data.id);
-      if (updateError) {
-        console.warn('[api/account/login] Failed to record last login timestamp', updateError);
-      }
+    const accountId = data.id as string;
+    const storedProfileId = (data.profile_id as string | null) ?? null;
+    const profileId =
+      storedProfileId ?? (await resolveAccountProfileId(client, accountId, profileClaim));
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await client
+      .from(TABLE_NAME)
+      .update({
+        last_login_at: now,
+        updated_at: now,
+        ...(storedProfileId ? {} : { profile_id: profileId }),
+      })
+      .eq('id', accountId);
+    if (updateError) {
+      console.warn('[api/account/login] Failed to record login metadata', updateError);
+    }
+
+    const issued = issueSession(res, {
+      userId: accountId,
+      profileId,
+      email: data.email as string,
+    });
+    if (!issued) {
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Сервер не настроен для входа. Обратитесь к администратору.' });
     }
 
     const remoteUser = data.data as Omit<UserAccount, 'password'>;
-    return res.status(200).json({ ok: true, user: remoteUser });
+    return res.status(200).json({ ok: true, user: remoteUser, profileId });
   } catch (error) {
     console.error('[api/account/login] Unexpected failure', error);
     return res
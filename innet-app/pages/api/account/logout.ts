@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { clearSession } from '../../../lib/server/session';
+
+type LogoutResponse = { ok: true } | { ok: false; message: string };
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<LogoutResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  clearSession(res);
+  return res.status(200).json({ ok: true });
+}
@@ -4,15 +4,23 @@ import { getSupabaseAdminClient } from '../../../lib/supabaseAdmin';
 import type { UserAccount } from '../../../lib/storage';
 import { DEFAULT_PLAN } from '../../../lib/plans';
 import { normalizePhone } from '../../../utils/contact';
+import { issueSession } from '../../../lib/server/session';
+import { resolveAccountProfileId } from '../../../lib/server/account-profile';
+import { isSupabaseUidTaken, resolveSupabaseUid } from '../../../lib/server/supabaseAuth';
 
 type RegisterRequest = {
   user?: UserAccount;
   password?: string;
+  /** Signed claim on the device's profile id (`signProfileClaim`). */
+  profileClaim?: unknown;
+  /** Access token of the browser's Supabase Auth session, if it has one. */
+  supabaseAccessToken?: string;
 };
 
 type RegisterSuccess = {
   ok: true;
   user: Omit<UserAccount, 'password'>;
+  profileId: string;
 };
 
 type RegisterError = {
@@ -65,11 +73,11 @@ export default async function handler(
 
   const normalizedPhoneRaw = user.phone ? normalizePhone(user.phone) : '';
   const normalizedPhone = normalizedPhoneRaw || undefined;
-  const supabaseUid = user.supabaseUid?.trim() || null;
-  const plan = user.plan ?? DEFAULT_PLAN;
-  const planActivatedAt = user.planActivatedAt ?? Date.now();
-  const planProduct = user.planProduct ?? null;
-  const planExpiresAt = user.planExpiresAt ?? null;
+  // New accounts always start on the default plan; only payments change it.
+  const plan = DEFAULT_PLAN;
+  const planActivatedAt = Date.now();
+  const planProduct = null;
+  const planExpiresAt = null;
 
   try {
     const { data: existing, error: selectError } = await client
@@ -112,7 +120,16 @@ export default async function handler(
       }
     }
 
+    const supabaseUid = await resolveSupabaseUid(client, body.supabaseAccessToken);
+    if (supabaseUid && (await isSupabaseUidTaken(client, supabaseUid))) {
+      return res.status(409).json({
+        ok: false,
+        message: 'Этот вход уже привязан к другому аккаунту. Попробуйте войти.',
+      });
+    }
+
     const passwordHash = await bcrypt.hash(password, 10);
+    const profileId = await resolveAccountProfileId(client, user.id, body.profileClaim);
     const sanitizedUser = sanitizeUser({
       ...user,
       email: normalizedEmail,
@@ -131,6 +148,7 @@ export default async function handler(
       email: normalizedEmail,
       phone: normalizedPhone ?? null,
       supabase_uid: supabaseUid,
+      profile_id: profileId,
       password_hash: passwordHash,
       plan,
       plan_activated_at: new Date(planActivatedAt).toISOString(),
@@ -146,7 +164,14 @@ export default async function handler(
         .json({ ok: false, message: 'Не удалось сохранить аккаунт в Supabase.' });
     }
 
-    return res.status(201).json({ ok: true, user: sanitizedUser });
+    const issued = issueSession(res, { userId: user.id, profileId, email: normalizedEmail });
+    if (!issued) {
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Аккаунт создан, но сервер не смог открыть сессию. Войдите вручную.' });
+    }
+
+    return res.status(201).json({ ok: true, user: sanitizedUser, profileId });
   } catch (error) {
     console.error('[api/account/register] Unexpected failure', error);
     return res
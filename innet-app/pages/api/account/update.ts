@@ -2,12 +2,16 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import bcrypt from 'bcrypt';
 import { getSupabaseAdminClient } from '../../../lib/supabaseAdmin';
 import type { UserAccount } from '../../../lib/storage';
-import { DEFAULT_PLAN } from '../../../lib/plans';
+import { DEFAULT_PLAN, type PlanId } from '../../../lib/plans';
 import { normalizePhone } from '../../../utils/contact';
+import { issueSession, withSession } from '../../../lib/server/session';
+import { isSupabaseUidTaken, resolveSupabaseUid } from '../../../lib/server/supabaseAuth';
 
 type UpdateRequest = {
   user?: UserAccount;
   password?: string | null;
+  /** Access token of the browser's Supabase Auth session; links the account to that uid. */
+  supabaseAccessToken?: string | null;
 };
 
 type UpdateSuccess = {
@@ -21,22 +25,48 @@ type UpdateError = {
 
 const TABLE_NAME = 'user_accounts';
 
+type StoredAccountRow = {
+  supabase_uid: string | null;
+  plan: PlanId | null;
+  plan_activated_at: string | null;
+  data: Partial<UserAccount> | null;
+};
+
+/**
+ * Plan fields are owned by the server (payments and renewals write them), so
+ * an account update keeps whatever is stored and ignores the client's copy.
+ */
+function storedPlanFields(row: StoredAccountRow | null): Pick<
+  UserAccount,
+  'plan' | 'planActivatedAt' | 'planProduct' | 'planExpiresAt'
+> {
+  const stored = row?.data ?? {};
+  const activatedColumn = row?.plan_activated_at ? Date.parse(row.plan_activated_at) : NaN;
+  return {
+    plan: stored.plan ?? row?.plan ?? DEFAULT_PLAN,
+    planActivatedAt: stored.planActivatedAt ?? (Number.isNaN(activatedColumn) ? undefined : activatedColumn),
+    planProduct: stored.planProduct ?? null,
+    planExpiresAt: stored.planExpiresAt ?? null,
+  };
+}
+
 function sanitizeUser(user: UserAccount): Omit<UserAccount, 'password'> {
   const { password: _password, ...rest } = user;
   void _password;
   return rest;
 }
 
-export default async function handler(
+export default withSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<UpdateSuccess | UpdateError>
+  res: NextApiResponse<UpdateSuccess | UpdateError>,
+  session
 ) {
   if (req.method !== 'PUT') {
     res.setHeader('Allow', 'PUT');
     return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
   }
 
-  const { user, password } = req.body as UpdateRequest;
+  const { user, password, supabaseAccessToken } = req.body as UpdateRequest;
   if (!user || typeof user !== 'object') {
     return res.status(400).json({ ok: false, message: 'Отсутствуют данные пользователя.' });
   }
@@ -46,8 +76,8 @@ export default async function handler(
     return res.status(400).json({ ok: false, message: 'Необходимо указать email пользователя.' });
   }
 
-  if (!user.id) {
-    return res.status(400).json({ ok: false, message: 'Отсутствует идентификатор пользователя.' });
+  if (user.id && user.id !== session.userId) {
+    return res.status(403).json({ ok: false, message: 'Нельзя изменить чужой аккаунт.' });
   }
 
   const client = getSupabaseAdminClient();
@@ -65,21 +95,39 @@ export default async function handler(
 
     const normalizedPhoneRaw = user.phone ? normalizePhone(user.phone) : '';
     const normalizedPhone = normalizedPhoneRaw || undefined;
-    const supabaseUid = user.supabaseUid?.trim() || null;
-    const plan = user.plan ?? DEFAULT_PLAN;
-    const planActivatedAt = user.planActivatedAt ?? Date.now();
-    const planProduct = user.planProduct ?? null;
-    const planExpiresAt = user.planExpiresAt ?? null;
+
+    const { data: storedRow, error: loadError } = await client
+      .from(TABLE_NAME)
+      .select('supabase_uid,plan,plan_activated_at,data')
+      .eq('id', session.userId)
+      .maybeSingle();
+    if (loadError) {
+      console.error('[api/account/update] Failed to load user account', loadError);
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Не удалось обновить данные пользователя в Supabase.' });
+    }
+    const stored = storedRow as StoredAccountRow | null;
+
+    // The uid only changes to one a verified Supabase session vouches for.
+    let supabaseUid = stored?.supabase_uid ?? null;
+    const sessionUid = await resolveSupabaseUid(client, supabaseAccessToken);
+    if (sessionUid && sessionUid !== supabaseUid) {
+      if (await isSupabaseUidTaken(client, sessionUid, session.userId)) {
+        return res
+          .status(409)
+          .json({ ok: false, message: 'Этот вход уже привязан к другому аккаунту.' });
+      }
+      supabaseUid = sessionUid;
+    }
 
     const sanitizedUser = sanitizeUser({
       ...user,
+      id: session.userId,
       email: normalizedEmail,
       phone: normalizedPhone,
-      plan,
-      planActivatedAt,
       supabaseUid,
-      planProduct,
-      planExpiresAt,
+      ...storedPlanFields(stored),
     });
     const now = new Date().toISOString();
 
@@ -89,13 +137,11 @@ export default async function handler(
         email: normalizedEmail,
         phone: normalizedPhone ?? null,
         supabase_uid: supabaseUid,
-        plan,
-        plan_activated_at: new Date(planActivatedAt).toISOString(),
         ...(passwordHash ? { password_hash: passwordHash } : {}),
         data: sanitizedUser,
         updated_at: now,
       })
-      .eq('id', user.id);
+      .eq('id', session.userId);
 
     if (error) {
       console.error('[api/account/update] Failed to update user account', error);
@@ -104,6 +150,10 @@ export default async function handler(
         .json({ ok: false, message: 'Не удалось обновить данные пользователя в Supabase.' });
     }
 
+    if (normalizedEmail !== session.email) {
+      issueSession(res, { ...session, email: normalizedEmail });
+    }
+
     return res.status(200).json({ ok: true });
   } catch (error) {
     console.error('[api/account/update] Unexpected failure', error);
@@ -112,4 +162,4 @@ export default async function handler(
       message: 'Произошла непредвиденная ошибка при обновлении аккаунта.',
     });
   }
-}
+});
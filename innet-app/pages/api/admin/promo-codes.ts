@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { hasBearerSecret } from '../../../lib/server/bearerAuth';
+import { createPromoCode, listPromoCodes } from '../../../lib/server/promoCodes';
+import { normalizePromoCode, type PromoCode, type PromoKind } from '../../../lib/promoClient';
+
+type CreateBody = {
+  code?: string;
+  kind?: PromoKind;
+  value?: number;
+  maxRedemptions?: number | null;
+  /** ISO date or timestamp in milliseconds. */
+  expiresAt?: string | number | null;
+};
+
+type ListResponse = { ok: true; promoCodes: PromoCode[] };
+type CreateResponse = { ok: true; promo: PromoCode };
+type ErrorResponse = { ok: false; message: string };
+
+function isAuthorizedAdmin(req: NextApiRequest): boolean {
+  return hasBearerSecret(req, process.env.ADMIN_API_SECRET);
+}
+
+function parseExpiresAt(value: CreateBody['expiresAt']): number | null | undefined {
+  if (value == null || value === '') return null;
+  const timestamp = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(timestamp) ? timestamp : undefined;
+}
+
+/**
+ * Promo code administration for operators. Requires
+ * `Authorization: Bearer $ADMIN_API_SECRET`; there is no admin UI yet.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | CreateResponse | ErrorResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!isAuthorizedAdmin(req)) {
+    return res.status(401).json({ ok: false, message: 'Некорректная авторизация администратора' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, promoCodes: await listPromoCodes() });
+    }
+
+    const body = (req.body ?? {}) as CreateBody;
+    const code = normalizePromoCode(body.code);
+    if (!code) {
+      return res.status(400).json({ ok: false, message: 'Код: 3–32 символа, латинские буквы, цифры и дефис.' });
+    }
+    const expiresAt = parseExpiresAt(body.expiresAt);
+    if (expiresAt === undefined) {
+      return res.status(400).json({ ok: false, message: 'Некорректная дата окончания.' });
+    }
+    const maxRedemptions =
+      body.maxRedemptions == null ? null : Math.max(1, Math.floor(Number(body.maxRedemptions)) || 1);
+
+    const result = await createPromoCode({
+      code,
+      kind: body.kind as PromoKind,
+      value: Number(body.value),
+      maxRedemptions,
+      expiresAt,
+    });
+    return res.status(result.ok ? 201 : 400).json(result);
+  } catch (error) {
+    console.error('[api/admin/promo-codes] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать запрос.' });
+  }
+}
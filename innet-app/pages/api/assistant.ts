@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withSession } from '../../lib/server/session';
+import {
+  ASSISTANT_DAILY_LIMIT,
+  claimAssistantRequest,
+  generateAssistantSuggestions,
+  isAssistantAllowed,
+} from '../../lib/server/assistant';
+import { normalizeAssistantContact, type AssistantResponse } from '../../lib/assistant';
+
+type PostBody = {
+  contact?: unknown;
+};
+
+/** `POST { contact }` — message suggestions for a contact (Pro only, `ASSISTANT_DAILY_LIMIT` a day). */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AssistantResponse>,
+  session
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  const contact = normalizeAssistantContact((req.body as PostBody | undefined)?.contact);
+  if (!contact) {
+    return res.status(400).json({ ok: false, message: 'Не указан контакт для подсказок.' });
+  }
+
+  try {
+    if (!(await isAssistantAllowed(session.userId))) {
+      return res.status(403).json({ ok: false, message: 'ИИ-подсказки доступны на тарифе Pro.' });
+    }
+    if (!(await claimAssistantRequest(session.userId))) {
+      return res.status(429).json({
+        ok: false,
+        message: `Лимит ИИ-подсказок на сегодня исчерпан (${ASSISTANT_DAILY_LIMIT} в день). Попробуйте завтра.`,
+      });
+    }
+    const result = await generateAssistantSuggestions(contact);
+    return res.status(200).json({ ok: true, ...result });
+  } catch (error) {
+    console.error('[api/assistant] Failed to build suggestions', { contactId: contact.id, error });
+    return res.status(500).json({ ok: false, message: 'Не удалось подготовить подсказки.' });
+  }
+});
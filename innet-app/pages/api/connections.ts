@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import { loadSecondDegreeConnections } from '../../lib/server/connections';
+import type { ContactConnection } from '../../lib/storage';
+
+type SuccessResponse = {
+  ok: true;
+  /** Second-degree connections keyed by the profile id of the shared contact. */
+  connections: Record<string, ContactConnection[]>;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return res.status(200).json({ ok: true, connections: {} });
+  }
+
+  try {
+    const connections = await loadSecondDegreeConnections(client, session.profileId);
+    return res.status(200).json({ ok: true, connections });
+  } catch (error) {
+    console.error('[api/connections] Failed to build connections', error);
+    return res
+      .status(500)
+      .json({ ok: false, message: 'Не удалось получить связи контактов из Supabase.' });
+  }
+});
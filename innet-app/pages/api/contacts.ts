@@ -0,0 +1,92 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import type { Contact, ContactTombstones } from '../../lib/storage';
+import { normalizeContacts, normalizeContactTombstones } from '../../lib/storage';
+import { CONTACT_SYNC_BATCH_LIMIT } from '../../lib/contactSync';
+import { loadContactChanges, saveContactChanges } from '../../lib/server/contactRecords';
+
+type SuccessResponse = {
+  ok: true;
+  contacts: Contact[];
+  deleted: ContactTombstones;
+  /** Pull cursor, only on `GET`. */
+  revision?: number;
+  hasMore?: boolean;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+/**
+ * `GET ?since=<revision>` — contacts and tombstones changed after the
+ * cursor, a page at a time. `PUT { contacts, deleted }` — merge up to
+ * `CONTACT_SYNC_BATCH_LIMIT` changed records and return the stored result.
+ */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    res.setHeader('Allow', 'GET, PUT');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, contacts: [], deleted: {}, revision: 0, hasMore: false });
+    }
+    return res.status(200).json({
+      ok: false,
+      message: 'Supabase не настроен. Укажите ключи окружения для синхронизации.',
+    });
+  }
+
+  if (req.method === 'GET') {
+    const rawSince = Number(req.query.since);
+    const since = Number.isInteger(rawSince) && rawSince > 0 ? rawSince : 0;
+    try {
+      const page = await loadContactChanges(session.profileId, since);
+      return res.status(200).json({ ok: true, ...page });
+    } catch (error) {
+      console.error('[api/contacts] Failed to fetch remote contacts', error);
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Не удалось получить контакты из Supabase.' });
+    }
+  }
+
+  const incoming = {
+    contacts: normalizeContacts(req.body?.contacts),
+    deleted: normalizeContactTombstones(req.body?.deleted),
+  };
+  const ids = new Set([...incoming.contacts.map((contact) => contact.id), ...Object.keys(incoming.deleted)]);
+  if (ids.size > CONTACT_SYNC_BATCH_LIMIT) {
+    return res.status(413).json({
+      ok: false,
+      message: `За один запрос можно отправить не больше ${CONTACT_SYNC_BATCH_LIMIT} контактов.`,
+    });
+  }
+
+  try {
+    const stored = await saveContactChanges(session.profileId, incoming);
+    return res.status(200).json({ ok: true, ...stored });
+  } catch (error) {
+    console.error('[api/contacts] Failed to save contact records', error);
+    return res
+      .status(500)
+      .json({ ok: false, message: 'Не удалось сохранить контакты в Supabase.' });
+  }
+});
+
+export const config = {
+  api: {
+    // Clients cap batches at `CONTACT_SYNC_BYTE_LIMIT`; this leaves room for the JSON envelope.
+    bodyParser: { sizeLimit: '2mb' },
+  },
+};
@@ -1,14 +1,23 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
 import type { SharePayload } from '../../lib/share';
-import { normalizeSharePayload } from '../../lib/share';
+import { normalizeSharePayload, parseShareToken } from '../../lib/share';
+import { isShareKeyAccepted } from '../../lib/server/shareKeys';
+import { withSession } from '../../lib/server/session';
 
-type PostBody = {
-  initiatorId?: string;
+type SendBody = {
+  action?: 'send';
   targetId?: string;
-  payload?: SharePayload;
+  token?: string;
 };
 
+type SettleBody = {
+  action: 'accept' | 'decline';
+  ids?: string[];
+};
+
+type PostBody = SendBody | SettleBody;
+
 type PostSuccess = {
   ok: true;
 };
@@ -20,7 +29,11 @@ type GetSuccess = {
     initiatorId: string;
     createdAt: string;
     payload: SharePayload;
+    /** Original signed token; the recipient re-parses it to verify and decrypt. */
+    token?: string;
   }[];
+  /** Pass as `cursor` to load older pending exchanges; null on the last page. */
+  nextCursor: string | null;
 };
 
 type ErrorResponse = {
@@ -31,10 +44,36 @@ type ErrorResponse = {
 type ApiResponse = PostSuccess | GetSuccess | ErrorResponse;
 
 const EXCHANGE_TABLE = 'fact_exchanges';
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Page cursors are opaque `(created_at, id)` pairs: exchanges created in the
+ * same instant still fall on exactly one side of a page boundary.
+ */
+type ExchangeCursor = { createdAt: string; id: string };
+
+function encodeCursor(cursor: ExchangeCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
 
-export default async function handler(
+function decodeCursor(value: unknown): ExchangeCursor | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as unknown[];
+    if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) return null;
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+export default withSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse>
+  res: NextApiResponse<ApiResponse>,
+  session
 ) {
   if (req.method !== 'POST' && req.method !== 'GET') {
     res.setHeader('Allow', 'GET, POST');
@@ -44,7 +83,7 @@ export default async function handler(
   const client = getSupabaseAdminClient();
   if (!client) {
     if (req.method === 'GET') {
-      return res.status(200).json({ ok: true, exchanges: [] });
+      return res.status(200).json({ ok: true, exchanges: [], nextCursor: null });
     }
     return res.status(200).json({
       ok: false,
@@ -53,33 +92,84 @@ export default async function handler(
   }
 
   if (req.method === 'POST') {
-    const { initiatorId, targetId, payload } = req.body as PostBody;
+    const body = (req.body ?? {}) as PostBody;
+
+    if (body.action === 'accept' || body.action === 'decline') {
+      const ids = Array.isArray(body.ids)
+        ? body.ids.filter((id): id is string => typeof id === 'string' && Boolean(id.trim()))
+        : [];
+      if (!ids.length || ids.length > MAX_PAGE_SIZE) {
+        return res.status(400).json({ ok: false, message: 'Не указаны обмены для обработки.' });
+      }
+
+      // Only the recipient can settle an exchange, and only once.
+      const { error } = await client
+        .from(EXCHANGE_TABLE)
+        .update({
+          consumed_at: new Date().toISOString(),
+          status: body.action === 'accept' ? 'accepted' : 'declined',
+        })
+        .eq('target_profile_id', session.profileId)
+        .is('consumed_at', null)
+        .in('id', ids);
+
+      if (error) {
+        console.error('[api/exchange] Failed to settle exchanges', error);
+        return res
+          .status(500)
+          .json({ ok: false, message: 'Не удалось обновить обмены в Supabase.' });
+      }
+
+      return res.status(200).json({ ok: true });
+    }
 
-    if (!initiatorId || !targetId || !payload) {
+    const { targetId, token } = body as SendBody;
+
+    if (!targetId || typeof token !== 'string' || !token.trim()) {
       return res
         .status(400)
-        .json({ ok: false, message: 'Необходимо передать инициатора, получателя и данные обмена.' });
+        .json({ ok: false, message: 'Необходимо передать получателя и данные обмена.' });
     }
 
-    const trimmedInitiator = initiatorId.trim();
+    const trimmedInitiator = session.profileId;
     const trimmedTarget = targetId.trim();
 
-    if (!trimmedInitiator || !trimmedTarget) {
+    if (!trimmedTarget) {
       return res
         .status(400)
-        .json({ ok: false, message: 'Переданы пустые идентификаторы для обмена.' });
+        .json({ ok: false, message: 'Передан пустой идентификатор получателя.' });
     }
 
     if (trimmedInitiator === trimmedTarget) {
       return res.status(200).json({ ok: true });
     }
 
-    const sanitizedPayload = normalizeSharePayload(payload);
+    let sanitizedPayload: SharePayload;
+    try {
+      sanitizedPayload = parseShareToken(token.trim());
+    } catch (parseError) {
+      const message =
+        parseError instanceof Error ? parseError.message : 'Некорректный токен обмена.';
+      return res.status(400).json({ ok: false, message });
+    }
+
+    // The sender can only speak for themselves.
+    if (sanitizedPayload.owner.id !== trimmedInitiator) {
+      return res
+        .status(403)
+        .json({ ok: false, message: 'Токен обмена выписан для другого профиля.' });
+    }
+    if (!(await isShareKeyAccepted(trimmedInitiator, sanitizedPayload.owner.key))) {
+      return res
+        .status(403)
+        .json({ ok: false, message: 'Токен подписан не ключом этого профиля. Обновите страницу и попробуйте ещё раз.' });
+    }
 
     const { error } = await client.from(EXCHANGE_TABLE).insert({
       initiator_profile_id: trimmedInitiator,
       target_profile_id: trimmedTarget,
       payload: sanitizedPayload,
+      token: token.trim(),
       status: 'pending',
     });
 
@@ -93,30 +183,32 @@ export default async function handler(
     return res.status(200).json({ ok: true });
   }
 
-  const rawProfileId = req.query.profileId;
-
-  if (!rawProfileId || (Array.isArray(rawProfileId) && rawProfileId.length === 0)) {
-    return res
-      .status(400)
-      .json({ ok: false, message: 'Не передан идентификатор профиля для получения обмена.' });
-  }
-
-  const profileId = Array.isArray(rawProfileId) ? rawProfileId[0] : rawProfileId;
-  const trimmedProfileId = profileId.trim();
-
-  if (!trimmedProfileId) {
-    return res
-      .status(400)
-      .json({ ok: false, message: 'Пустой идентификатор профиля.' });
+  const cursor = decodeCursor(req.query.cursor);
+  if (req.query.cursor && !cursor) {
+    return res.status(400).json({ ok: false, message: 'Некорректный курсор списка обменов.' });
   }
-
-  const { data, error } = await client
+  const requestedLimit = Number(req.query.limit);
+  const limit =
+    Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+
+  // Listing never consumes: the client accepts or declines each exchange explicitly.
+  let query = client
     .from(EXCHANGE_TABLE)
-    .select('id,payload,initiator_profile_id,created_at')
-    .eq('target_profile_id', trimmedProfileId)
+    .select('id,payload,token,initiator_profile_id,created_at')
+    .eq('target_profile_id', session.profileId)
     .is('consumed_at', null)
-    .order('created_at', { ascending: true })
-    .limit(5);
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     console.error('[api/exchange] Failed to load pending exchanges', error);
@@ -125,29 +217,22 @@ export default async function handler(
       .json({ ok: false, message: 'Не удалось получить обмены из Supabase.' });
   }
 
-  if (!data || data.length === 0) {
-    return res.status(200).json({ ok: true, exchanges: [] });
-  }
-
-  const ids = data.map((item) => item.id);
-  const exchanges = data.map((item) => ({
+  const rows = data ?? [];
+  const page = rows.slice(0, limit);
+  const exchanges = page.map((item) => ({
     id: item.id,
     initiatorId: item.initiator_profile_id,
     createdAt: item.created_at,
     payload: normalizeSharePayload(item.payload as SharePayload),
+    token: typeof item.token === 'string' ? item.token : undefined,
   }));
 
-  const { error: updateError } = await client
-    .from(EXCHANGE_TABLE)
-    .update({
-      consumed_at: new Date().toISOString(),
-      status: 'delivered',
-    })
-    .in('id', ids);
-
-  if (updateError) {
-    console.error('[api/exchange] Failed to mark exchanges as delivered', updateError);
-  }
-
-  return res.status(200).json({ ok: true, exchanges });
-}
+  return res.status(200).json({
+    ok: true,
+    exchanges,
+    nextCursor:
+      rows.length > limit
+        ? encodeCursor({ createdAt: page[page.length - 1].created_at, id: page[page.length - 1].id })
+        : null,
+  });
+});
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
 import type { FactGroup } from '../../lib/storage';
 import { normalizeFactGroups } from '../../lib/storage';
 
@@ -7,6 +8,7 @@ type SuccessResponse = {
   ok: true;
   groups: FactGroup[];
   syncEnabled: boolean;
+  revision: number;
   updatedAt?: string;
 };
 
@@ -15,13 +17,35 @@ type ErrorResponse = {
   message: string;
 };
 
-type ApiResponse = SuccessResponse | ErrorResponse;
+/**
+ * Returned with 409 when the client's `baseRevision` is stale. Carries the
+ * current remote state so the client can merge without another round trip.
+ */
+type ConflictResponse = {
+  ok: false;
+  conflict: true;
+  message: string;
+  groups: FactGroup[];
+  syncEnabled: boolean;
+  revision: number;
+  updatedAt?: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse | ConflictResponse;
+
+type StoredCollection = {
+  groups: unknown;
+  sync_enabled: boolean | null;
+  revision: number | null;
+  updated_at: string | null;
+};
 
 const FACT_TABLE = 'fact_collections';
 
-export default async function handler(
+export default withSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse>
+  res: NextApiResponse<ApiResponse>,
+  session
 ) {
   if (req.method !== 'GET' && req.method !== 'PUT') {
     res.setHeader('Allow', 'GET, PUT');
@@ -35,6 +59,7 @@ export default async function handler(
         ok: true,
         groups: [],
         syncEnabled: false,
+        revision: 0,
       });
     }
     return res.status(200).json({
@@ -43,49 +68,31 @@ export default async function handler(
     });
   }
 
-  const rawProfileId =
-    req.method === 'GET' ? req.query.profileId : (req.body?.profileId as string | undefined);
+  const { data, error } = await client
+    .from(FACT_TABLE)
+    .select('groups,sync_enabled,revision,updated_at')
+    .eq('profile_id', session.profileId)
+    .maybeSingle<StoredCollection>();
 
-  if (!rawProfileId || (Array.isArray(rawProfileId) && rawProfileId.length === 0)) {
-    return res
-      .status(400)
-      .json({ ok: false, message: 'Не передан идентификатор профиля для синхронизации.' });
-  }
-
-  const profileId = Array.isArray(rawProfileId) ? rawProfileId[0] : rawProfileId;
-  const trimmedProfileId = profileId.trim();
-
-  if (!trimmedProfileId) {
+  if (error) {
+    console.error('[api/facts] Failed to fetch remote facts', error);
     return res
-      .status(400)
-      .json({ ok: false, message: 'Полученный идентификатор профиля пуст.' });
+      .status(500)
+      .json({ ok: false, message: 'Не удалось получить данные о фактах из Supabase.' });
   }
 
   if (req.method === 'GET') {
-    const { data, error } = await client
-      .from(FACT_TABLE)
-      .select('groups,sync_enabled,updated_at')
-      .eq('profile_id', trimmedProfileId)
-      .maybeSingle();
-
-    if (error) {
-      console.error('[api/facts] Failed to fetch remote facts', error);
-      return res
-        .status(500)
-        .json({ ok: false, message: 'Не удалось получить данные о фактах из Supabase.' });
-    }
-
     if (!data) {
       return res
         .status(200)
-        .json({ ok: true, groups: [], syncEnabled: false });
+        .json({ ok: true, groups: [], syncEnabled: false, revision: 0 });
     }
 
-    const groups = normalizeFactGroups(data.groups);
     return res.status(200).json({
       ok: true,
-      groups,
+      groups: normalizeFactGroups(data.groups),
       syncEnabled: Boolean(data.sync_enabled),
+      revision: data.revision ?? 0,
       updatedAt: data.updated_at ?? undefined,
     });
   }
@@ -93,29 +100,75 @@ export default async function handler(
   const groupsPayload = Array.isArray(req.body?.groups) ? req.body.groups : [];
   const groups = normalizeFactGroups(groupsPayload);
   const syncEnabled = Boolean(req.body?.syncEnabled);
+  const rawBaseRevision = Number(req.body?.baseRevision);
+  const baseRevision = Number.isInteger(rawBaseRevision) && rawBaseRevision >= 0 ? rawBaseRevision : 0;
+  const currentRevision = data ? data.revision ?? 0 : 0;
+
+  if (currentRevision !== baseRevision) {
+    return respondWithConflict(res, data);
+  }
 
   const record = {
-    profile_id: trimmedProfileId,
+    profile_id: session.profileId,
     groups,
     sync_enabled: syncEnabled,
+    revision: baseRevision + 1,
     updated_at: new Date().toISOString(),
   };
 
-  const { error } = await client.from(FACT_TABLE).upsert(record, {
-    onConflict: 'profile_id',
-  });
-
-  if (error) {
-    console.error('[api/facts] Failed to upsert fact collection', error);
+  // The revision filter makes the write conditional: if another device saved
+  // in between, nothing is updated and the client gets a conflict instead.
+  const { data: written, error: writeError } = data
+    ? await client
+        .from(FACT_TABLE)
+        .update(record)
+        .eq('profile_id', session.profileId)
+        .eq('revision', baseRevision)
+        .select('revision')
+    : await client.from(FACT_TABLE).insert(record).select('revision');
+
+  if (writeError && writeError.code !== '23505') {
+    console.error('[api/facts] Failed to save fact collection', writeError);
     return res
       .status(500)
       .json({ ok: false, message: 'Не удалось сохранить факты в Supabase.' });
   }
 
+  if (writeError || !written || written.length === 0) {
+    const { data: latest, error: latestError } = await client
+      .from(FACT_TABLE)
+      .select('groups,sync_enabled,revision,updated_at')
+      .eq('profile_id', session.profileId)
+      .maybeSingle<StoredCollection>();
+    if (latestError) {
+      console.error('[api/facts] Failed to reload facts after conflict', latestError);
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Не удалось получить данные о фактах из Supabase.' });
+    }
+    return respondWithConflict(res, latest);
+  }
+
   return res.status(200).json({
     ok: true,
     groups,
     syncEnabled,
+    revision: record.revision,
     updatedAt: record.updated_at,
   });
+});
+
+function respondWithConflict(
+  res: NextApiResponse<ApiResponse>,
+  current: StoredCollection | null
+) {
+  return res.status(409).json({
+    ok: false,
+    conflict: true,
+    message: 'Факты изменились на другом устройстве.',
+    groups: normalizeFactGroups(current?.groups),
+    syncEnabled: Boolean(current?.sync_enabled),
+    revision: current?.revision ?? 0,
+    updatedAt: current?.updated_at ?? undefined,
+  });
 }
@@ -0,0 +1,283 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import type { SharePayload } from '../../lib/share';
+import { normalizeSharePayload } from '../../lib/share';
+import { withSession } from '../../lib/server/session';
+import { hasAcceptedExchange, loadVisibleProfiles } from '../../lib/server/connections';
+import type { Introduction, IntroductionStatus } from '../../lib/introductionsClient';
+
+type PostBody =
+  | { action: 'request'; viaId?: string; targetId?: string; message?: string; payload?: SharePayload }
+  | { action: 'forward'; id?: string; requesterGroupIds?: string[]; targetPayload?: SharePayload }
+  | { action: 'decline'; id?: string }
+  | { action: 'ack'; id?: string };
+
+type GetSuccess = {
+  ok: true;
+  introductions: Introduction[];
+};
+
+type PostSuccess = {
+  ok: true;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+type ApiResponse = GetSuccess | PostSuccess | ErrorResponse;
+
+type IntroductionRow = {
+  id: string;
+  requester_profile_id: string;
+  via_profile_id: string;
+  target_profile_id: string;
+  target_name: string | null;
+  message: string | null;
+  status: IntroductionStatus;
+  requester_payload: SharePayload;
+  to_requester_payload: SharePayload | null;
+  to_target_payload: SharePayload | null;
+  requester_delivered_at: string | null;
+  target_delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const INTRODUCTION_TABLE = 'introductions';
+const MESSAGE_LIMIT = 280;
+const LIST_LIMIT = 50;
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, introductions: [] });
+    }
+    return res.status(200).json({
+      ok: false,
+      message: 'Supabase не настроен. Укажите ключ сервисного пользователя для знакомств.',
+    });
+  }
+
+  const me = session.profileId;
+
+  if (req.method === 'GET') {
+    const { data, error } = await client
+      .from(INTRODUCTION_TABLE)
+      .select('*')
+      .or(`requester_profile_id.eq.${me},via_profile_id.eq.${me},target_profile_id.eq.${me}`)
+      .order('created_at', { ascending: false })
+      .limit(LIST_LIMIT);
+
+    if (error) {
+      console.error('[api/introductions] Failed to load introductions', error);
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Не удалось получить запросы на знакомство.' });
+    }
+
+    const introductions = (data ?? [])
+      .map((row: IntroductionRow) => toIntroduction(row, me))
+      // The target only learns about an introduction once the mutual contact forwarded it.
+      .filter((item) => item.role !== 'target' || item.status === 'forwarded');
+    return res.status(200).json({ ok: true, introductions });
+  }
+
+  const body = (req.body ?? {}) as PostBody;
+
+  if (body.action === 'request') {
+    const viaId = body.viaId?.trim();
+    const targetId = body.targetId?.trim();
+    if (!viaId || !targetId || !body.payload) {
+      return res
+        .status(400)
+        .json({ ok: false, message: 'Укажите общего знакомого, адресата и данные о себе.' });
+    }
+    if (viaId === me || targetId === me || viaId === targetId) {
+      return res.status(400).json({ ok: false, message: 'Некорректный запрос на знакомство.' });
+    }
+
+    let targetName: string;
+    try {
+      const [knowsVia, viaKnowsTarget] = await Promise.all([
+        hasAcceptedExchange(client, me, viaId),
+        hasAcceptedExchange(client, viaId, targetId),
+      ]);
+      if (!knowsVia || !viaKnowsTarget) {
+        return res
+          .status(403)
+          .json({ ok: false, message: 'Познакомиться можно только через общий контакт.' });
+      }
+      const visible = await loadVisibleProfiles(client, [targetId]);
+      const target = visible.get(targetId);
+      if (!target) {
+        return res
+          .status(403)
+          .json({ ok: false, message: 'Этот человек не принимает знакомства через друзей.' });
+      }
+      targetName = target.name;
+    } catch (error) {
+      console.error('[api/introductions] Failed to check connections', error);
+      return res.status(500).json({ ok: false, message: 'Не удалось проверить связи.' });
+    }
+
+    const payload = normalizeSharePayload(body.payload);
+    payload.owner.id = me;
+    payload.sealed = undefined;
+
+    const { error } = await client.from(INTRODUCTION_TABLE).insert({
+      requester_profile_id: me,
+      via_profile_id: viaId,
+      target_profile_id: targetId,
+      target_name: targetName,
+      message: body.message?.toString().trim().slice(0, MESSAGE_LIMIT) || null,
+      status: 'pending',
+      requester_payload: payload,
+    });
+
+    if (error) {
+      console.error('[api/introductions] Failed to insert introduction', error);
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Не удалось сохранить запрос на знакомство.' });
+    }
+    return res.status(200).json({ ok: true });
+  }
+
+  const id = body.id?.trim();
+  if (!id) {
+    return res.status(400).json({ ok: false, message: 'Не указан запрос на знакомство.' });
+  }
+
+  const { data: row, error: loadError } = await client
+    .from(INTRODUCTION_TABLE)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (loadError) {
+    console.error('[api/introductions] Failed to load introduction', loadError);
+    return res.status(500).json({ ok: false, message: 'Не удалось получить запрос на знакомство.' });
+  }
+  const introduction = row as IntroductionRow | null;
+  if (!introduction) {
+    return res.status(404).json({ ok: false, message: 'Запрос на знакомство не найден.' });
+  }
+
+  const now = new Date().toISOString();
+
+  if (body.action === 'forward' || body.action === 'decline') {
+    if (introduction.via_profile_id !== me) {
+      return res
+        .status(403)
+        .json({ ok: false, message: 'Решение принимает только общий знакомый.' });
+    }
+    if (introduction.status !== 'pending') {
+      return res.status(409).json({ ok: false, message: 'Запрос уже обработан.' });
+    }
+
+    let update: Partial<IntroductionRow> = { status: 'declined', updated_at: now };
+    if (body.action === 'forward') {
+      if (!body.targetPayload) {
+        return res
+          .status(400)
+          .json({ ok: false, message: 'Передайте данные контакта, которого знакомите.' });
+      }
+      const groupIds = new Set(Array.isArray(body.requesterGroupIds) ? body.requesterGroupIds : []);
+      const requesterPayload = normalizeSharePayload(introduction.requester_payload);
+      const targetPayload = normalizeSharePayload(body.targetPayload);
+      // The mutual contact may trim facts but cannot speak for anyone else.
+      targetPayload.owner.id = introduction.target_profile_id;
+      targetPayload.sealed = undefined;
+      update = {
+        status: 'forwarded',
+        updated_at: now,
+        to_target_payload: {
+          ...requesterPayload,
+          groups: requesterPayload.groups.filter((group) => groupIds.has(group.id)),
+        },
+        to_requester_payload: targetPayload,
+      };
+    }
+
+    // Guard on the status too: a concurrent forward or decline may have won
+    // since the read above, and the first decision must stand.
+    const { data: updated, error } = await client
+      .from(INTRODUCTION_TABLE)
+      .update(update)
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) {
+      console.error('[api/introductions] Failed to update introduction', error);
+      return res.status(500).json({ ok: false, message: 'Не удалось сохранить решение.' });
+    }
+    if (!updated?.length) {
+      return res.status(409).json({ ok: false, message: 'Запрос уже обработан.' });
+    }
+    return res.status(200).json({ ok: true });
+  }
+
+  if (body.action === 'ack') {
+    const column =
+      introduction.requester_profile_id === me
+        ? 'requester_delivered_at'
+        : introduction.target_profile_id === me
+          ? 'target_delivered_at'
+          : null;
+    if (!column) {
+      return res.status(403).json({ ok: false, message: 'Запрос адресован другому профилю.' });
+    }
+    const { error } = await client
+      .from(INTRODUCTION_TABLE)
+      .update({ [column]: now })
+      .eq('id', id);
+    if (error) {
+      console.error('[api/introductions] Failed to mark introduction delivered', error);
+      return res.status(500).json({ ok: false, message: 'Не удалось подтвердить получение.' });
+    }
+    return res.status(200).json({ ok: true });
+  }
+
+  return res.status(400).json({ ok: false, message: 'Неизвестное действие.' });
+});
+
+function toIntroduction(row: IntroductionRow, me: string): Introduction {
+  const role =
+    row.requester_profile_id === me ? 'requester' : row.via_profile_id === me ? 'via' : 'target';
+  const delivery =
+    role === 'requester'
+      ? { payload: row.to_requester_payload, deliveredAt: row.requester_delivered_at }
+      : role === 'target'
+        ? { payload: row.to_target_payload, deliveredAt: row.target_delivered_at }
+        : { payload: null, deliveredAt: null };
+  return {
+    id: row.id,
+    role,
+    status: row.status,
+    requesterId: row.requester_profile_id,
+    viaId: row.via_profile_id,
+    targetId: row.target_profile_id,
+    targetName: row.target_name ?? undefined,
+    message: row.message ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    // The mutual contact needs the requester's facts to choose what to forward.
+    requesterPayload: role === 'via' ? normalizeSharePayload(row.requester_payload) : undefined,
+    delivery:
+      delivery.payload && !delivery.deliveredAt
+        ? normalizeSharePayload(delivery.payload)
+        : undefined,
+  };
+}
@@ -1,20 +1,37 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createPayment } from '../../../lib/payments/yookassa';
 import { rememberPayment } from '../../../lib/payments/store';
-import { normalizePlanProduct, type PlanProduct } from '../../../lib/plans';
+import { normalizePlanProduct, PLAN_PRODUCT_CATALOG, type PlanProduct } from '../../../lib/plans';
+import { withSession } from '../../../lib/server/session';
+import {
+  attachPromoReservation,
+  checkPromoCode,
+  releasePromoReservation,
+  reservePromoCode,
+} from '../../../lib/server/promoCodes';
+import { applyPromoDiscount, normalizePromoCode } from '../../../lib/promoClient';
+import { findTokenPack } from '../../../lib/tokens';
 
 type CreatePaymentBody = {
   returnUrl?: string;
-  userId?: string;
-  email?: string;
+  /** `plan` (default) buys `planId`, `pack` buys the token pack `packId`. */
+  product?: 'plan' | 'pack';
   planId?: string;
+  packId?: string;
+  /** Save the card with YooKassa so the subscription renews automatically. */
+  autoRenew?: boolean;
+  /** Percent promo code; reserved now, spent when the payment succeeds. Renewals are charged in full. */
+  promoCode?: string;
 };
 
 type SuccessResponse = {
   ok: true;
   paymentId: string;
   confirmationUrl: string;
-  planId: PlanProduct;
+  planId?: PlanProduct;
+  packId?: string;
+  /** Charged amount after the promo discount. */
+  amount: number;
 };
 
 type ErrorResponse = {
@@ -22,20 +39,10 @@ type ErrorResponse = {
   message: string;
 };
 
-const PLAN_CATALOG: Record<PlanProduct, { amount: number; description: string }> = {
-  'pro-monthly': {
-    amount: 190,
-    description: 'Пакет токенов «Стартовый 40»',
-  },
-  'pro-annual': {
-    amount: 1190,
-    description: 'Пакет токенов «Агент влияния 360»',
-  },
-};
-
-export default async function handler(
+export default withSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<SuccessResponse | ErrorResponse>
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
 ) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
@@ -43,47 +50,113 @@ export default async function handler(
   }
 
   const body = (req.body ?? {}) as CreatePaymentBody;
-  const userId = body.userId?.trim();
-  if (!userId) {
-    return res.status(400).json({ ok: false, message: 'Не указан идентификатор пользователя' });
-  }
-
-  const normalizedRequestedPlan = normalizePlanProduct(body.planId as string | undefined) ?? 'pro-monthly';
-  const plan = PLAN_CATALOG[normalizedRequestedPlan] ?? PLAN_CATALOG['pro-monthly'];
-  const planId: PlanProduct = PLAN_CATALOG[normalizedRequestedPlan] ? normalizedRequestedPlan : 'pro-monthly';
+  const userId = session.userId;
 
   const returnUrl =
     body.returnUrl?.trim() ||
     `${process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000'}/app/qr?purchase=success`;
 
-  try {
-    const payment = await createPayment({
+  let product: {
+    amount: number;
+    description: string;
+    metadata: Record<string, string>;
+    planId?: PlanProduct;
+    packId?: string;
+  };
+  if (body.product === 'pack') {
+    const pack = findTokenPack(body.packId);
+    if (!pack) {
+      return res.status(400).json({ ok: false, message: 'Неизвестный пакет токенов' });
+    }
+    product = {
+      amount: pack.priceRub,
+      description: `Пакет токенов «${pack.name}»`,
+      metadata: { product: 'pack', packId: pack.id },
+      packId: pack.id,
+    };
+  } else {
+    const normalizedRequestedPlan = normalizePlanProduct(body.planId as string | undefined) ?? 'pro-monthly';
+    const planId: PlanProduct = PLAN_PRODUCT_CATALOG[normalizedRequestedPlan] ? normalizedRequestedPlan : 'pro-monthly';
+    const plan = PLAN_PRODUCT_CATALOG[planId];
+    product = {
       amount: plan.amount,
       description: plan.description,
+      metadata: { product: 'plan', planId, trialDays: '0' },
+      planId,
+    };
+  }
+
+  let promoCode: string | null = null;
+  if (body.promoCode) {
+    promoCode = normalizePromoCode(body.promoCode);
+    if (!promoCode) {
+      return res.status(400).json({ ok: false, message: 'Некорректный промокод' });
+    }
+    try {
+      const check = await checkPromoCode(promoCode, userId);
+      if (!check.ok) {
+        return res.status(409).json({ ok: false, message: check.message });
+      }
+      if (check.promo.kind !== 'percent') {
+        return res.status(409).json({ ok: false, message: 'Этот промокод не даёт скидку — активируйте его отдельно.' });
+      }
+      const reservation = await reservePromoCode(promoCode, userId);
+      if (!reservation.ok) {
+        return res.status(409).json({ ok: false, message: reservation.message });
+      }
+      product = {
+        ...product,
+        amount: applyPromoDiscount(product.amount, check.promo.value),
+        metadata: { ...product.metadata, promoCode },
+      };
+    } catch (error) {
+      console.error('[payments/create] Failed to check promo code', { promoCode, error });
+      return res.status(500).json({ ok: false, message: 'Не удалось проверить промокод.' });
+    }
+  }
+
+  try {
+    const payment = await createPayment({
+      amount: product.amount,
+      description: product.description,
       returnUrl,
       userId,
-      email: body.email,
-      metadata: {
-        planId,
-        trialDays: '0',
-      },
+      email: session.email || undefined,
+      savePaymentMethod: !product.packId && body.autoRenew === true,
+      metadata: product.metadata,
     });
 
     if (!payment?.id || payment?.confirmation?.type !== 'redirect') {
       throw new Error('ЮKassa вернула неожиданный ответ.');
     }
+    if (promoCode) {
+      await attachPromoReservation(promoCode, userId, payment.id);
+    }
 
-    rememberPayment(payment.id, userId, planId);
+    await rememberPayment({
+      paymentId: payment.id,
+      userId,
+      planType: product.planId ?? null,
+      packId: product.packId ?? null,
+      amount: product.amount,
+      currency: payment.amount?.currency,
+      status: payment.status,
+    });
 
     return res.status(200).json({
       ok: true,
       paymentId: payment.id,
       confirmationUrl: (payment.confirmation as { confirmation_url: string }).confirmation_url,
-      planId,
+      planId: product.planId,
+      packId: product.packId,
+      amount: product.amount,
     });
   } catch (error) {
+    if (promoCode) {
+      await releasePromoReservation(promoCode, userId, null);
+    }
     const message =
       error instanceof Error ? error.message : 'Не удалось создать платёж. Попробуйте позже.';
     return res.status(500).json({ ok: false, message });
   }
-}
+});
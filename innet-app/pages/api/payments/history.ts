@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../../lib/supabaseAdmin';
+import { listUserPayments } from '../../../lib/payments/store';
+import type { BillingHistoryEntry } from '../../../lib/payments/client';
+import { withSession } from '../../../lib/server/session';
+
+type SuccessResponse = {
+  ok: true;
+  payments: BillingHistoryEntry[];
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    return res.status(200).json({ ok: true, payments: [] });
+  }
+
+  try {
+    const payments = await listUserPayments(session.userId);
+    return res.status(200).json({
+      ok: true,
+      payments: payments.map((payment) => ({
+        paymentId: payment.paymentId,
+        planId: payment.planType,
+        packId: payment.packId,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        createdAt: payment.createdAt,
+        refundedAt: payment.refundedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('[payments/history] Failed to load payments', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось получить историю платежей.' });
+  }
+});
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { confirmLocalPayment, isLocalYookassa } from '../../../lib/payments/yookassaLocal';
+import { handlePaymentNotification } from '../../../lib/server/paymentEvents';
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+/**
+ * Confirmation page of the local YooKassa stand-in (`YOOKASSA_MODE=local`):
+ * marks the payment as paid, delivers the `payment.succeeded` notification
+ * in-process and sends the user back to `return_url`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ErrorResponse>) {
+  if (!isLocalYookassa()) {
+    return res.status(404).json({ ok: false, message: 'Страница доступна только в локальном режиме ЮKassa' });
+  }
+
+  const paymentId = typeof req.query.paymentId === 'string' ? req.query.paymentId.trim() : '';
+  const confirmed = paymentId ? confirmLocalPayment(paymentId) : null;
+  if (!confirmed) {
+    return res.status(404).json({ ok: false, message: 'Платёж не найден или уже оплачен' });
+  }
+
+  const outcome = await handlePaymentNotification({ event: 'payment.succeeded', object: confirmed.payment });
+  if (outcome === 'retry') {
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать оплату' });
+  }
+
+  res.redirect(302, confirmed.returnUrl ?? '/app/upgrade');
+}
@@ -0,0 +1,97 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPayment, type PaymentStatus } from '../../../lib/payments/store';
+import { PLAN_REFUND_WINDOW_DAYS } from '../../../lib/plans';
+import { createRefund } from '../../../lib/payments/yookassa';
+import { handlePaymentNotification } from '../../../lib/server/paymentEvents';
+import { withSession } from '../../../lib/server/session';
+
+type RefundBody = {
+  paymentId?: string;
+};
+
+type SuccessResponse = {
+  ok: true;
+  /** `refunded` once YooKassa confirmed; `succeeded` while the refund is still processing. */
+  status: PaymentStatus;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  const body = (req.body ?? {}) as RefundBody;
+  const paymentId = typeof body.paymentId === 'string' ? body.paymentId.trim() : '';
+  if (!paymentId) {
+    return res.status(400).json({ ok: false, message: 'Не указан paymentId' });
+  }
+
+  let payment: Awaited<ReturnType<typeof getPayment>>;
+  try {
+    payment = await getPayment(paymentId);
+  } catch (error) {
+    console.error('[payments/refund] Failed to load payment', { paymentId, error });
+    return res.status(500).json({ ok: false, message: 'Не удалось получить платёж.' });
+  }
+
+  if (!payment || payment.userId !== session.userId) {
+    return res.status(404).json({ ok: false, message: 'Платёж не найден' });
+  }
+  if (payment.status === 'refunded') {
+    return res.status(200).json({ ok: true, status: 'refunded' });
+  }
+  if (payment.status !== 'succeeded') {
+    return res.status(409).json({ ok: false, message: 'Вернуть можно только оплаченный платёж.' });
+  }
+  if (!payment.planType) {
+    return res
+      .status(409)
+      .json({ ok: false, message: 'Возврат пакета токенов оформляется через поддержку.' });
+  }
+  if (Date.now() - Date.parse(payment.createdAt) > PLAN_REFUND_WINDOW_DAYS * DAY_IN_MS) {
+    return res.status(409).json({
+      ok: false,
+      message: `Вернуть оплату подписки можно в течение ${PLAN_REFUND_WINDOW_DAYS} дней. Напишите в поддержку.`,
+    });
+  }
+
+  try {
+    const refund = await createRefund({
+      paymentId,
+      amount: payment.amount,
+      description: 'Возврат оплаты подписки InNet Pro',
+      idempotenceKey: `refund:${paymentId}`,
+    });
+
+    if (refund.status === 'succeeded') {
+      // Same path as the webhook, which YooKassa will still send and which is then ignored.
+      const outcome = await handlePaymentNotification({ event: 'refund.succeeded', object: refund });
+      if (outcome === 'retry') {
+        return res.status(500).json({ ok: false, message: 'Возврат оформлен, но подписка ещё не обновлена.' });
+      }
+      return res.status(200).json({ ok: true, status: 'refunded' });
+    }
+    if (refund.status === 'canceled') {
+      return res.status(502).json({ ok: false, message: 'ЮKassa отклонила возврат. Напишите в поддержку.' });
+    }
+    return res.status(200).json({ ok: true, status: payment.status });
+  } catch (error) {
+    console.error('[payments/refund] Failed to create refund', { paymentId, error });
+    return res.status(500).json({
+      ok: false,
+      message: error instanceof Error ? error.message : 'Не удалось оформить возврат.',
+    });
+  }
+});
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runRenewalCycle, type RenewalSummary } from '../../../lib/server/renewals';
+import { isAuthorizedScheduler } from '../../../lib/server/scheduler';
+
+type SuccessResponse = { ok: true } & RenewalSummary;
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+/**
+ * Renewal job entry point for the scheduler (cron, Vercel Cron, pg_cron).
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuccessResponse | ErrorResponse>
+) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!isAuthorizedScheduler(req)) {
+    return res.status(401).json({ ok: false, message: 'Некорректная авторизация планировщика' });
+  }
+
+  try {
+    const summary = await runRenewalCycle();
+    console.info('[renewals] cycle finished', summary);
+    return res.status(200).json({ ok: true, ...summary });
+  } catch (error) {
+    console.error('[renewals] cycle failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось продлить подписки' });
+  }
+}
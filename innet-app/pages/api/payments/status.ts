@@ -1,12 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getPayment } from '../../../lib/payments/store';
+import { getPayment, type PaymentStatus } from '../../../lib/payments/store';
 import type { PlanProduct } from '../../../lib/plans';
+import { withSession } from '../../../lib/server/session';
 
 type SuccessResponse = {
   ok: true;
-  status: 'pending' | 'succeeded' | 'canceled' | 'unknown';
+  status: PaymentStatus | 'unknown';
   userId?: string;
   planId?: PlanProduct;
+  packId?: string;
 };
 
 type ErrorResponse = {
@@ -14,9 +16,10 @@ type ErrorResponse = {
   message: string;
 };
 
-export default function handler(
+export default withSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<SuccessResponse | ErrorResponse>
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
 ) {
   if (req.method !== 'GET') {
     res.setHeader('Allow', 'GET');
@@ -28,8 +31,14 @@ export default function handler(
     return res.status(400).json({ ok: false, message: 'Не указан paymentId' });
   }
 
-  const entry = getPayment(paymentId);
-  if (!entry) {
+  let entry: Awaited<ReturnType<typeof getPayment>>;
+  try {
+    entry = await getPayment(paymentId);
+  } catch (error) {
+    console.error('[payments/status] Failed to load payment', { paymentId, error });
+    return res.status(500).json({ ok: false, message: 'Не удалось получить статус платежа.' });
+  }
+  if (!entry || entry.userId !== session.userId) {
     return res.status(200).json({ ok: true, status: 'unknown' });
   }
 
@@ -37,6 +46,7 @@ export default function handler(
     ok: true,
     status: entry.status,
     userId: entry.userId,
-    planId: entry.planType,
+    planId: entry.planType ?? undefined,
+    packId: entry.packId ?? undefined,
   });
-}
+});
@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../../lib/supabaseAdmin';
+import { cancelSubscription, getSubscription, type Subscription } from '../../../lib/server/subscriptions';
+import type { SubscriptionInfo } from '../../../lib/payments/client';
+import { withSession } from '../../../lib/server/session';
+
+type SuccessResponse = {
+  ok: true;
+  subscription: SubscriptionInfo | null;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+type SubscriptionActionBody = {
+  action?: 'cancel';
+};
+
+function toSubscriptionInfo(subscription: Subscription): SubscriptionInfo {
+  return {
+    planProduct: subscription.planProduct,
+    status: subscription.status,
+    autoRenew: Boolean(subscription.paymentMethodId),
+    paymentMethodTitle: subscription.paymentMethodTitle,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    graceUntil: subscription.graceUntil,
+    notice: subscription.notice,
+  };
+}
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    if (req.method === 'POST') {
+      return res.status(503).json({ ok: false, message: 'Подписки недоступны: Supabase не настроен.' });
+    }
+    return res.status(200).json({ ok: true, subscription: null });
+  }
+
+  try {
+    const subscription = await getSubscription(session.userId);
+
+    if (req.method === 'POST') {
+      const body = (req.body ?? {}) as SubscriptionActionBody;
+      if (body.action !== 'cancel') {
+        return res.status(400).json({ ok: false, message: 'Неизвестное действие' });
+      }
+      if (!subscription || subscription.status === 'expired') {
+        return res.status(404).json({ ok: false, message: 'Активной подписки нет' });
+      }
+      const canceled = subscription.status === 'canceled' ? subscription : await cancelSubscription(subscription);
+      return res.status(200).json({ ok: true, subscription: toSubscriptionInfo(canceled) });
+    }
+
+    return res.status(200).json({ ok: true, subscription: subscription ? toSubscriptionInfo(subscription) : null });
+  } catch (error) {
+    console.error('[payments/subscription] Failed to load subscription', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось получить подписку.' });
+  }
+});
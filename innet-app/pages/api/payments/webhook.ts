@@ -1,26 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import crypto from 'node:crypto';
-import { markPaymentStatus, getPayment } from '../../../lib/payments/store';
-import { getSupabaseAdminClient } from '../../../lib/supabaseAdmin';
-import type { UserAccount } from '../../../lib/storage';
-import { normalizePlanProduct, type PlanProduct } from '../../../lib/plans';
-
-type YookassaWebhook = {
-  event?: string;
-  object?: {
-    id?: string;
-    status?: string;
-    metadata?: Record<string, string>;
-  };
-};
+import { handlePaymentNotification, type PaymentNotification } from '../../../lib/server/paymentEvents';
 
 type WebhookResponse = { ok: true };
 type WebhookError = { ok: false; message: string };
 
-type PersistedUser = Omit<UserAccount, 'password'>;
-
-const TABLE_NAME = 'user_accounts';
-const DAY_IN_MS = 24 * 60 * 60 * 1000;
 const MAX_BODY_SIZE = 1 * 1024 * 1024; // 1mb
 
 async function readRawBody(req: NextApiRequest): Promise<Buffer> {
@@ -74,81 +58,6 @@ function verifyContentHmac(req: NextApiRequest, rawBody: Buffer): boolean {
   });
 }
 
-async function applySuccessfulPaymentUpdate(params: {
-  userId: string;
-  planProduct: PlanProduct;
-  paymentId: string;
-  metadata?: Record<string, string>;
-}): Promise<void> {
-  const client = getSupabaseAdminClient();
-  if (!client) {
-    console.warn('[yookassa] Supabase client unavailable, skipping remote subscription sync');
-    return;
-  }
-
-  const { userId, planProduct, metadata, paymentId } = params;
-
-  try {
-    const { data, error } = await client
-      .from(TABLE_NAME)
-      .select('data')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (error) {
-      console.error('[yookassa] Failed to load user account for payment', { userId, paymentId, error });
-      return;
-    }
-
-    const rawUser = data?.data as PersistedUser | null | undefined;
-    if (!rawUser) {
-      console.warn('[yookassa] User data missing in Supabase, cannot apply subscription', { userId, paymentId });
-      return;
-    }
-
-    const activatedAt = Date.now();
-    const trialDaysRaw = metadata?.trialDays;
-    const parsedTrialDays = trialDaysRaw ? Number.parseInt(trialDaysRaw, 10) : Number.NaN;
-    const hasTrial = Number.isFinite(parsedTrialDays) && parsedTrialDays > 0;
-    const expiresAt = hasTrial ? activatedAt + parsedTrialDays * DAY_IN_MS : null;
-
-    const updatedUser: PersistedUser = {
-      ...rawUser,
-      plan: 'pro',
-      planActivatedAt: activatedAt,
-      planProduct,
-      planExpiresAt: expiresAt,
-    };
-
-    const nowIso = new Date().toISOString();
-    const updatePayload: Record<string, unknown> = {
-      plan: 'pro',
-      plan_activated_at: new Date(activatedAt).toISOString(),
-      data: updatedUser,
-      updated_at: nowIso,
-    };
-
-    const { error: updateError } = await client
-      .from(TABLE_NAME)
-      .update(updatePayload)
-      .eq('id', userId);
-
-    if (updateError) {
-      console.error('[yookassa] Failed to update subscription state after payment', {
-        userId,
-        paymentId,
-        error: updateError,
-      });
-    }
-  } catch (error) {
-    console.error('[yookassa] Unexpected error while syncing subscription', {
-      userId,
-      paymentId,
-      error,
-    });
-  }
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<WebhookResponse | WebhookError>
@@ -171,10 +80,10 @@ export default async function handler(
     return res.status(401).json({ ok: false, message: 'Некорректная авторизация вебхука' });
   }
 
-  let payload: YookassaWebhook;
+  let payload: PaymentNotification;
   try {
     const text = rawBody.toString('utf8') || '{}';
-    payload = JSON.parse(text) as YookassaWebhook;
+    payload = JSON.parse(text) as PaymentNotification;
   } catch (error) {
     console.error('[yookassa] Failed to parse webhook payload', error);
     return res.status(400).json({ ok: false, message: 'Невалидный JSON вебхука' });
@@ -184,45 +93,13 @@ export default async function handler(
     return res.status(400).json({ ok: false, message: 'Неверный формат вебхука' });
   }
 
-  const paymentId = payload?.object?.id;
-
-  if (!paymentId) {
+  // YooKassa repeats a notification until it gets 200, so each event is processed once.
+  const outcome = await handlePaymentNotification(payload);
+  if (outcome === 'invalid') {
     return res.status(400).json({ ok: false, message: 'Отсутствует идентификатор платежа' });
   }
-
-  const storedEntry = getPayment(paymentId);
-  const metadata = payload.object?.metadata ?? {};
-  const metadataPlan = normalizePlanProduct(metadata.planId);
-  const resolvedPlanProduct = metadataPlan ?? storedEntry?.planType ?? null;
-  const resolvedUserId = metadata.userId ?? storedEntry?.userId ?? null;
-
-  if (payload.event === 'payment.succeeded') {
-    markPaymentStatus(paymentId, 'succeeded');
-    console.info('[yookassa] payment succeeded', paymentId, metadata);
-    if (resolvedUserId && resolvedPlanProduct) {
-      await applySuccessfulPaymentUpdate({
-        userId: resolvedUserId,
-        planProduct: resolvedPlanProduct,
-        paymentId,
-        metadata,
-      });
-    } else {
-      console.warn('[yookassa] Missing user or plan metadata for payment', {
-        paymentId,
-        metadata,
-        storedEntry,
-      });
-    }
-  } else if (payload.event === 'payment.canceled') {
-    markPaymentStatus(paymentId, 'canceled');
-    console.info('[yookassa] payment canceled', paymentId);
-  } else {
-    console.info('[yookassa] received event', payload.event);
-  }
-
-  const entry = getPayment(paymentId);
-  if (!entry) {
-    console.warn('[yookassa] payment not found in store', paymentId);
+  if (outcome === 'retry') {
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать уведомление' });
   }
 
   return res.status(200).json({ ok: true });
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import { redeemPromoCode } from '../../lib/server/promoCodes';
+import { normalizePromoCode, type PromoRedemption } from '../../lib/promoClient';
+
+type PostBody = {
+  code?: string;
+};
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PromoRedemption>,
+  session
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    return res.status(503).json({ ok: false, message: 'Промокоды недоступны: Supabase не настроен.' });
+  }
+
+  const code = normalizePromoCode((req.body as PostBody | undefined)?.code);
+  if (!code) {
+    return res.status(400).json({ ok: false, message: 'Введите промокод: латинские буквы, цифры и дефис.' });
+  }
+
+  try {
+    const redemption = await redeemPromoCode(code, session.userId);
+    return res.status(redemption.ok ? 200 : 409).json(redemption);
+  } catch (error) {
+    console.error('[api/promo] Failed to redeem promo code', { code, error });
+    return res.status(500).json({ ok: false, message: 'Не удалось применить промокод.' });
+  }
+});
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import {
+  claimPublicProfile,
+  getPublicProfileSettings,
+  hasSyncedFacts,
+  removePublicProfile,
+} from '../../lib/server/publicProfiles';
+import { mapPrivacyLevel } from '../../lib/privacy';
+import { normalizeHandle, type PublicProfileSettings } from '../../lib/publicProfileClient';
+
+type SettingsResponse = { ok: true; settings: PublicProfileSettings | null; factsSynced: boolean };
+type SaveResponse = { ok: true; settings: PublicProfileSettings };
+type RemoveResponse = { ok: true };
+type ErrorResponse = { ok: false; message: string };
+
+/**
+ * `GET` — the signed-in account's public page (`/u/<handle>`), if any.
+ * `POST { handle, privacy }` — claim or change the handle and publish the
+ * privacy level. `DELETE` — take the page down.
+ */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SettingsResponse | SaveResponse | RemoveResponse | ErrorResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, settings: null, factsSynced: false });
+    }
+    return res.status(503).json({ ok: false, message: 'Публичные страницы недоступны: Supabase не настроен.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const [settings, factsSynced] = await Promise.all([
+        getPublicProfileSettings(session.userId),
+        hasSyncedFacts(session.profileId),
+      ]);
+      return res.status(200).json({ ok: true, settings, factsSynced });
+    }
+
+    if (req.method === 'DELETE') {
+      await removePublicProfile(session.userId);
+      return res.status(200).json({ ok: true });
+    }
+
+    const handle = normalizeHandle(req.body?.handle);
+    if (!handle) {
+      return res.status(400).json({
+        ok: false,
+        message: 'Адрес: от 3 до 30 латинских букв, цифр, «-» или «_», начиная с буквы или цифры.',
+      });
+    }
+    const result = await claimPublicProfile({
+      userId: session.userId,
+      profileId: session.profileId,
+      handle,
+      privacy: mapPrivacyLevel(req.body?.privacy),
+    });
+    return res.status(result.ok ? 200 : 409).json(result);
+  } catch (error) {
+    console.error('[api/public-profile] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать публичную страницу.' });
+  }
+});
@@ -1,14 +1,18 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { parseShareToken } from '../../lib/share';
 import { appendQuickEngagement } from '../../lib/server/quick-engagement-store';
+import { recordReferral } from '../../lib/server/referrals';
+import { loadPublicShareKeys } from '../../lib/server/shareKeys';
 import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withOptionalSession } from '../../lib/server/session';
 
 type SuccessResponse = { ok: true };
 type ErrorResponse = { ok: false; message: string };
 
-export default async function handler(
+export default withOptionalSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<SuccessResponse | ErrorResponse>
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
 ) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
@@ -32,8 +36,10 @@ export default async function handler(
     return res.status(400).json({ ok: false, message: 'Некорректный токен обмена.' });
   }
 
+  // Signed-in receivers are identified by their session, anonymous ones by what they typed.
   const receiverEmail =
-    typeof user?.email === 'string' && user.email.trim() ? user.email.trim().toLowerCase() : undefined;
+    session?.email ||
+    (typeof user?.email === 'string' && user.email.trim() ? user.email.trim().toLowerCase() : undefined);
   const receiverName =
     typeof user?.name === 'string' && user.name.trim() ? user.name.trim() : undefined;
   const normalizedContactId =
@@ -81,7 +87,19 @@ export default async function handler(
     } catch (error) {
       console.warn('[api/quick-engagement] Supabase insert skipped', error);
     }
+
+    // Only a token signed with the key bound to the profile proves whose QR code brought the new account in.
+    if (mode === 'quick-signup' && session && parsed.verification === 'verified' && parsed.owner?.id) {
+      try {
+        const bound = await loadPublicShareKeys(parsed.owner.id);
+        if (bound?.signPublicKey === parsed.owner.key) {
+          await recordReferral({ refereeUserId: session.userId, referrerProfileId: parsed.owner.id });
+        }
+      } catch (error) {
+        console.warn('[api/quick-engagement] Referral not recorded', error);
+      }
+    }
   }
 
   return res.status(200).json({ ok: true });
-}
+});
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import { getReferralStats, settleReferral, type SettleOutcome } from '../../lib/server/referrals';
+import type { ReferralStats } from '../../lib/referralsClient';
+
+type StatsResponse = { ok: true; stats: ReferralStats };
+type SettleResponse = { ok: true; outcome: SettleOutcome };
+type ErrorResponse = { ok: false; message: string };
+
+/**
+ * `GET` — how many people the signed-in user brought in and how many of them
+ * earned a reward. `POST` — reward whoever referred the signed-in user, once
+ * their email is confirmed; clients call it after sign-in.
+ */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<StatsResponse | SettleResponse | ErrorResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    if (req.method === 'POST') {
+      return res.status(200).json({ ok: true, outcome: 'none' });
+    }
+    return res.status(200).json({ ok: true, stats: { invited: 0, rewarded: 0 } });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, stats: await getReferralStats(session.userId) });
+    }
+    return res.status(200).json({ ok: true, outcome: await settleReferral(session.userId) });
+  } catch (error) {
+    console.error('[api/referrals] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать приглашения.' });
+  }
+});
@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withSession } from '../../lib/server/session';
+import {
+  loadReminderDelivery,
+  saveReminderDelivery,
+  syncReminderSchedules,
+} from '../../lib/server/reminderDelivery';
+import { normalizeWebPushSubscription } from '../../lib/server/webPush';
+import {
+  normalizeReminderSchedules,
+  normalizeReminderSettings,
+  REMINDER_CHANNELS,
+} from '../../lib/reminders';
+import type {
+  ReminderDeliveryResponse,
+  ReminderDeliverySaveResponse,
+  ReminderSchedulesResponse,
+} from '../../lib/remindersRemote';
+
+type ApiResponse = ReminderDeliveryResponse | ReminderDeliverySaveResponse | ReminderSchedulesResponse;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * `GET` — how reminders reach the signed-in account. `POST { channel,
+ * settings, email?, subscription? }` — choose the channel. `PUT
+ * { schedules }` — merge this device's reminder schedules with the stored ones.
+ */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PUT') {
+    res.setHeader('Allow', 'GET, POST, PUT');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const result = await loadReminderDelivery(session.profileId);
+      return res.status(result.ok ? 200 : 500).json(result);
+    }
+
+    if (req.method === 'PUT') {
+      const result = await syncReminderSchedules(
+        session.profileId,
+        normalizeReminderSchedules(req.body?.schedules)
+      );
+      return res.status(result.ok ? 200 : 500).json(result);
+    }
+
+    const channel = REMINDER_CHANNELS.find((value) => value === req.body?.channel);
+    if (!channel) {
+      return res.status(400).json({ ok: false, message: 'Неизвестный способ доставки.' });
+    }
+    const rawEmail = typeof req.body?.email === 'string' ? req.body.email.trim() : undefined;
+    if (rawEmail && !EMAIL_PATTERN.test(rawEmail)) {
+      return res.status(400).json({ ok: false, message: 'Проверьте адрес почты.' });
+    }
+    const email = rawEmail === undefined ? undefined : rawEmail || session.email || null;
+    const subscription =
+      req.body?.subscription === undefined ? undefined : normalizeWebPushSubscription(req.body.subscription);
+    const result = await saveReminderDelivery(session.profileId, {
+      channel,
+      settings: normalizeReminderSettings(req.body?.settings),
+      email,
+      subscription,
+    });
+    return res.status(result.ok ? 200 : 400).json(result);
+  } catch (error) {
+    console.error('[api/reminders] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать напоминания.' });
+  }
+});
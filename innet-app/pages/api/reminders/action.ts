@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { escapeHtml } from '../../../lib/server/email';
+import { applyReminderAction, readReminderActionToken } from '../../../lib/server/reminderDelivery';
+import { REMINDER_ACTIONS, type ReminderAction } from '../../../lib/remindersRemote';
+
+type ApiResponse = { ok: true } | { ok: false; message: string };
+
+const ACTION_LABELS: Record<ReminderAction, string> = {
+  done: 'Отметить напоминание выполненным',
+  snooze: 'Отложить напоминание',
+  disable: 'Отключить напоминания об этом контакте',
+};
+
+/**
+ * Email clients and link scanners open links on their own, so a GET only
+ * shows a button; the form posts back here and only then is the action applied.
+ */
+function renderConfirmation(token: string, action: ReminderAction): string {
+  const label = escapeHtml(ACTION_LABELS[action]);
+  return `<!doctype html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${label}</title>
+</head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 48px auto; padding: 0 16px;">
+<h1 style="font-size: 20px;">${label}?</h1>
+<form method="post" action="/api/reminders/action">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+<input type="hidden" name="action" value="${action}">
+<button type="submit" style="padding: 10px 20px; font-size: 16px;">Подтвердить</button>
+</form>
+</body>
+</html>`;
+}
+
+/**
+ * Snooze or "done" from a delivered reminder. Push notifications `POST
+ * { token, action }`; email links `GET ?token=&action=` to a confirmation
+ * page whose form posts back and lands on the contact card. The signed
+ * token stands in for the session here.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse | string>) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  const source = req.method === 'GET' ? req.query : (req.body ?? {});
+  const token = typeof source.token === 'string' ? source.token : '';
+  const action = REMINDER_ACTIONS.find((value) => value === source.action);
+  const target = readReminderActionToken(token);
+  if (!target || !action) {
+    return res.status(400).json({ ok: false, message: 'Ссылка напоминания устарела или повреждена.' });
+  }
+
+  if (req.method === 'GET') {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(renderConfirmation(token, action));
+  }
+
+  const fromForm = (req.headers['content-type'] ?? '').startsWith('application/x-www-form-urlencoded');
+  try {
+    const result = await applyReminderAction(target.profileId, target.contactId, action);
+    if (fromForm) {
+      const location = result.ok
+        ? `/app/contacts/${encodeURIComponent(target.contactId)}?reminder=${action}`
+        : '/app/profile?reminder=failed';
+      res.setHeader('Location', location);
+      return res.status(303).end();
+    }
+    return res.status(result.ok ? 200 : 404).json(result.ok ? { ok: true } : result);
+  } catch (error) {
+    console.error('[api/reminders/action] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обновить напоминание.' });
+  }
+}
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withOptionalSession } from '../../../lib/server/session';
+import { loadReminderCalendar, updateReminderCalendarFeed } from '../../../lib/server/reminderDelivery';
+import { buildCalendar, ICAL_MIME, reminderCalendarEvents } from '../../../lib/ical';
+import type { ReminderCalendarAction, ReminderDeliveryResponse } from '../../../lib/remindersRemote';
+
+const CALENDAR_ACTIONS: ReminderCalendarAction[] = ['enable', 'rotate', 'disable'];
+
+/**
+ * `GET ?token=` — the iCalendar feed of upcoming reminders; the secret
+ * token stands in for the session so calendar apps can poll it. `POST
+ * { action: 'enable' | 'rotate' | 'disable' }` — manage the feed of the
+ * signed-in account.
+ */
+export default withOptionalSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReminderDeliveryResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      const result = await loadReminderCalendar(token);
+      if (!result.ok) {
+        return res.status(404).json(result);
+      }
+      const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000';
+      res.setHeader('Content-Type', ICAL_MIME);
+      res.setHeader('Content-Disposition', 'inline; filename="innet-reminders.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=900');
+      return res
+        .status(200)
+        .end(buildCalendar(reminderCalendarEvents(result.schedules, siteUrl), 'InNet — напоминания'));
+    }
+
+    if (!session) {
+      return res.status(401).json({ ok: false, message: 'Войдите в аккаунт, чтобы продолжить.' });
+    }
+    const action = CALENDAR_ACTIONS.find((value) => value === req.body?.action);
+    if (!action) {
+      return res.status(400).json({ ok: false, message: 'Неизвестное действие с календарём.' });
+    }
+    const result = await updateReminderCalendarFeed(session.profileId, action);
+    return res.status(result.ok ? 200 : 500).json(result);
+  } catch (error) {
+    console.error('[api/reminders/calendar] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать календарь.' });
+  }
+});
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runReminderDelivery, type ReminderDeliverySummary } from '../../../lib/server/reminderDelivery';
+import { isAuthorizedScheduler } from '../../../lib/server/scheduler';
+
+type SuccessResponse = { ok: true } & ReminderDeliverySummary;
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+/**
+ * Reminder delivery job for the scheduler, e.g. every 15 minutes.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuccessResponse | ErrorResponse>
+) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!isAuthorizedScheduler(req)) {
+    return res.status(401).json({ ok: false, message: 'Некорректная авторизация планировщика' });
+  }
+
+  try {
+    const summary = await runReminderDelivery();
+    console.info('[reminders] delivery finished', summary);
+    return res.status(200).json({ ok: true, ...summary });
+  } catch (error) {
+    console.error('[reminders] delivery failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось разослать напоминания' });
+  }
+}
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  applyReminderAction,
+  findProfileByTelegramChat,
+  linkTelegramChat,
+} from '../../../lib/server/reminderDelivery';
+import {
+  answerTelegramCallback,
+  isTelegramWebhookAuthorized,
+  sendTelegramMessage,
+} from '../../../lib/server/telegram';
+import { REMINDER_ACTIONS } from '../../../lib/remindersRemote';
+
+type TelegramUpdate = {
+  message?: { chat?: { id?: number }; text?: string };
+  callback_query?: { id: string; data?: string; message?: { chat?: { id?: number } } };
+};
+
+const ACTION_REPLIES = {
+  done: 'Отлично! Следующее напоминание придёт по расписанию.',
+  snooze: 'Отложили на несколько дней.',
+  disable: 'Больше не напоминаем об этом контакте.',
+} as const;
+
+/**
+ * Telegram bot webhook: `/start <code>` links the chat to the account that
+ * picked Telegram on its profile page; the reminder buttons send
+ * `r:<action>:<contactId>` callbacks.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<{ ok: boolean }>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ ok: false });
+  }
+  if (!isTelegramWebhookAuthorized(req.headers['x-telegram-bot-api-secret-token'])) {
+    return res.status(401).json({ ok: false });
+  }
+
+  const update = (req.body ?? {}) as TelegramUpdate;
+  try {
+    const text = update.message?.text?.trim() ?? '';
+    const messageChatId = update.message?.chat?.id;
+    if (messageChatId != null && text.startsWith('/start')) {
+      const code = text.slice('/start'.length).trim();
+      const linked = await linkTelegramChat(code, String(messageChatId));
+      await sendTelegramMessage(
+        String(messageChatId),
+        linked
+          ? 'Готово! Напоминания о контактах InNet будут приходить сюда.'
+          : 'Не получилось связать чат. Выберите Telegram в профиле InNet и откройте ссылку ещё раз.'
+      );
+    }
+
+    const callback = update.callback_query;
+    const callbackChatId = callback?.message?.chat?.id;
+    if (callback && callbackChatId != null) {
+      const [prefix, rawAction, contactId] = (callback.data ?? '').split(':');
+      const action = REMINDER_ACTIONS.find((value) => value === rawAction);
+      const profileId = await findProfileByTelegramChat(String(callbackChatId));
+      if (prefix !== 'r' || !action || !contactId || !profileId) {
+        await answerTelegramCallback(callback.id, 'Это напоминание больше не действует.');
+      } else {
+        const result = await applyReminderAction(profileId, contactId, action);
+        await answerTelegramCallback(callback.id, result.ok ? ACTION_REPLIES[action] : result.message);
+      }
+    }
+  } catch (error) {
+    console.error('[api/reminders/telegram] Failed to handle update', error);
+  }
+  // Telegram retries non-2xx updates, so failures are only logged.
+  return res.status(200).json({ ok: true });
+}
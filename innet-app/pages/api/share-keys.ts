@@ -0,0 +1,92 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withOptionalSession } from '../../lib/server/session';
+import {
+  claimShareKeys,
+  loadEscrowedShareKeys,
+  loadPublicShareKeys,
+  normalizeWrappedSecrets,
+  saveWrappedSecrets,
+} from '../../lib/server/shareKeys';
+import { verifyProfileClaim, type EscrowedShareKeys, type PublicShareKeys } from '../../lib/share';
+
+type ApiResponse =
+  | { ok: true; keys: EscrowedShareKeys | null }
+  | { ok: true; publicKeys: PublicShareKeys | null }
+  | { ok: false; message: string };
+
+type WriteBody = {
+  keys?: Partial<PublicShareKeys>;
+  wrapped?: unknown;
+  /** `signProfileClaim` by the signing key being bound or re-wrapped. */
+  claim?: unknown;
+};
+
+/**
+ * `GET ?profileId=` — public keys bound to a profile, for checking tokens.
+ * `GET` — the signed-in profile's public keys and password-wrapped secrets.
+ * `POST { keys, wrapped, claim }` — bind this device's public keys unless
+ * the profile already has some; returns the keys in effect.
+ * `PUT { wrapped, claim }` — re-wrap the bound secrets, e.g. after a
+ * password change. Writes must be signed by the key in question.
+ */
+export default withOptionalSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PUT') {
+    res.setHeader('Allow', 'GET, POST, PUT');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    return res.status(503).json({ ok: false, message: 'Ключи подписи недоступны: Supabase не настроен.' });
+  }
+
+  try {
+    if (req.method === 'GET' && typeof req.query.profileId === 'string') {
+      const publicKeys = await loadPublicShareKeys(req.query.profileId.trim());
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      return res.status(200).json({ ok: true, publicKeys });
+    }
+
+    if (!session) {
+      return res.status(401).json({ ok: false, message: 'Войдите в аккаунт, чтобы продолжить.' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, keys: await loadEscrowedShareKeys(session.profileId) });
+    }
+
+    const body = (req.body ?? {}) as WriteBody;
+    const claim = verifyProfileClaim(body.claim);
+    if (!claim || claim.profileId !== session.profileId) {
+      return res.status(403).json({ ok: false, message: 'Нет подтверждения ключа подписи.' });
+    }
+
+    if (req.method === 'PUT') {
+      const wrapped = normalizeWrappedSecrets(body.wrapped);
+      const bound = await loadPublicShareKeys(session.profileId);
+      if (!wrapped || bound?.signPublicKey !== claim.key) {
+        return res.status(409).json({ ok: false, message: 'Ключи этого устройства не привязаны к профилю.' });
+      }
+      await saveWrappedSecrets(session.profileId, wrapped);
+      return res.status(200).json({ ok: true, keys: await loadEscrowedShareKeys(session.profileId) });
+    }
+
+    const { signPublicKey, boxPublicKey } = body.keys ?? {};
+    if (signPublicKey !== claim.key || typeof boxPublicKey !== 'string' || !boxPublicKey) {
+      return res.status(400).json({ ok: false, message: 'Некорректные ключи подписи.' });
+    }
+    const keys = await claimShareKeys(session.profileId, {
+      signPublicKey,
+      boxPublicKey,
+      wrapped: normalizeWrappedSecrets(body.wrapped),
+    });
+    return res.status(200).json({ ok: true, keys });
+  } catch (error) {
+    console.error('[api/share-keys] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать ключи подписи.' });
+  }
+});
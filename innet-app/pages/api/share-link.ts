@@ -1,32 +1,31 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import crypto from 'node:crypto';
 import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
 import { SHARE_PREFIX } from '../../lib/share';
+import { DEFAULT_SHARE_LINK_OPTIONS, isShareLinkLifetime, type ShareLinkOptions } from '../../lib/shareAliasClient';
+import { withOptionalSession } from '../../lib/server/session';
+import { createShareLink, openShareLink } from '../../lib/server/shareLinks';
 
 type PostResponse =
-  | { ok: true; slug: string; expiresAt: string }
+  | { ok: true; slug: string; expiresAt: string | null }
   | { ok: false; message: string };
 
 type GetResponse =
   | { ok: true; token: string; expiresAt: string | null }
   | { ok: false; message: string };
 
-const TABLE = 'share_links';
-const SLUG_LENGTH = 9;
-const TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
-const SLUG_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const MAX_OPENS_LIMIT = 10000;
 
-export default async function handler(
+export default withOptionalSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<PostResponse | GetResponse>
+  res: NextApiResponse<PostResponse | GetResponse>,
+  session
 ) {
   if (req.method !== 'POST' && req.method !== 'GET') {
     res.setHeader('Allow', 'GET, POST');
     return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
   }
 
-  const client = getSupabaseAdminClient();
-  if (!client) {
+  if (!getSupabaseAdminClient()) {
     return res.status(200).json({
       ok: false,
       message:
@@ -35,52 +34,30 @@ export default async function handler(
   }
 
   if (req.method === 'POST') {
+    // Resolving a slug is public, creating one is only for signed-in owners.
+    if (!session) {
+      return res.status(401).json({ ok: false, message: 'Войдите в аккаунт, чтобы продолжить.' });
+    }
     const token = typeof req.body?.token === 'string' ? req.body.token.trim() : '';
     if (!token || !token.startsWith(SHARE_PREFIX)) {
       return res
         .status(400)
         .json({ ok: false, message: 'Некорректный токен для короткой ссылки.' });
     }
-
-    const nowIso = new Date().toISOString();
-    const expiresAt = new Date(Date.now() + TTL_MS).toISOString();
-
-    const { data: existing, error: lookupError } = await client
-      .from(TABLE)
-      .select('slug, expires_at')
-      .eq('token', token)
-      .gt('expires_at', nowIso)
-      .maybeSingle();
-
-    if (lookupError && lookupError.code !== 'PGRST116') {
-      console.error('[api/share-link] Failed to lookup token', lookupError);
+    const options = parseOptions(req.body);
+    if (!options) {
+      return res.status(400).json({ ok: false, message: 'Некорректные настройки короткой ссылки.' });
     }
 
-    if (existing?.slug) {
-      return res.status(200).json({ ok: true, slug: existing.slug, expiresAt: existing.expires_at });
-    }
-
-    for (let attempt = 0; attempt < 6; attempt += 1) {
-      const slug = generateSlug();
-      const { error } = await client.from(TABLE).insert({
-        slug,
-        token,
-        expires_at: expiresAt,
-      });
-      if (!error) {
-        return res.status(200).json({ ok: true, slug, expiresAt });
-      }
-      if (error.code !== '23505' && error.code !== '409') {
-        console.error('[api/share-link] Failed to insert alias', error);
-        return res
-          .status(500)
-          .json({ ok: false, message: 'Не удалось создать короткую ссылку для QR-кода.' });
-      }
+    try {
+      const link = await createShareLink({ ownerUserId: session.userId, token, options });
+      return res.status(200).json({ ok: true, ...link });
+    } catch (error) {
+      console.error('[api/share-link] Failed to create alias', error);
+      return res
+        .status(500)
+        .json({ ok: false, message: 'Не удалось создать короткую ссылку для QR-кода.' });
     }
-
-    return res
-      .status(500)
-      .json({ ok: false, message: 'Короткие ссылки временно недоступны. Попробуйте позже.' });
   }
 
   const rawSlug = req.query.slug;
@@ -94,39 +71,27 @@ export default async function handler(
     return res.status(400).json({ ok: false, message: 'Пустой короткий код QR.' });
   }
 
-  const { data, error } = await client
-    .from(TABLE)
-    .select('token, expires_at')
-    .eq('slug', trimmedSlug)
-    .maybeSingle();
-
-  if (error) {
+  try {
+    const resolution = await openShareLink(trimmedSlug, req.headers['user-agent']);
+    if (!resolution.ok) {
+      return res.status(resolution.status).json({ ok: false, message: resolution.message });
+    }
+    return res.status(200).json({ ok: true, token: resolution.token, expiresAt: resolution.expiresAt });
+  } catch (error) {
     console.error('[api/share-link] Failed to resolve slug', error);
     return res.status(500).json({ ok: false, message: 'Не удалось получить короткую ссылку.' });
   }
-
-  if (!data) {
-    return res.status(404).json({ ok: false, message: 'QR-код больше не действителен.' });
-  }
-
-  if (data.expires_at && new Date(data.expires_at).getTime() < Date.now()) {
-    return res.status(410).json({ ok: false, message: 'Срок действия QR-кода истёк.' });
-  }
-
-  return res.status(200).json({
-    ok: true,
-    token: data.token,
-    expiresAt: data.expires_at ?? null,
-  });
-}
-
-function generateSlug(length = SLUG_LENGTH): string {
-  const bytes = crypto.randomBytes(length);
-  const alphabetLength = SLUG_ALPHABET.length;
-  let slug = '';
-  for (let i = 0; i < length; i += 1) {
-    const index = bytes[i] % alphabetLength;
-    slug += SLUG_ALPHABET[index];
+});
+
+/** Missing settings keep the old behaviour: a 12-hour link without an open limit. */
+function parseOptions(body: unknown): ShareLinkOptions | null {
+  const raw = (body ?? {}) as { lifetime?: unknown; maxOpens?: unknown };
+  const lifetime = raw.lifetime ?? DEFAULT_SHARE_LINK_OPTIONS.lifetime;
+  if (!isShareLinkLifetime(lifetime)) return null;
+  if (raw.maxOpens == null) {
+    return { lifetime, maxOpens: null };
   }
-  return slug;
+  const maxOpens = Number(raw.maxOpens);
+  if (!Number.isInteger(maxOpens) || maxOpens < 1 || maxOpens > MAX_OPENS_LIMIT) return null;
+  return { lifetime, maxOpens };
 }
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import { listShareLinks, revokeShareLink } from '../../lib/server/shareLinks';
+import type { ShareLinkInfo } from '../../lib/shareAliasClient';
+
+type ListResponse = { ok: true; links: ShareLinkInfo[] };
+type RevokeResponse = { ok: true };
+type ErrorResponse = { ok: false; message: string };
+
+/**
+ * `GET` — the signed-in owner's short links that still open, with open
+ * counts. `POST { action: 'revoke', slug }` — stop one of them at once.
+ */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | RevokeResponse | ErrorResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, links: [] });
+    }
+    return res.status(503).json({ ok: false, message: 'Короткие ссылки недоступны: Supabase не настроен.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, links: await listShareLinks(session.userId) });
+    }
+
+    const action = req.body?.action;
+    const slug = typeof req.body?.slug === 'string' ? req.body.slug.trim() : '';
+    if (action !== 'revoke' || !slug) {
+      return res.status(400).json({ ok: false, message: 'Некорректный запрос.' });
+    }
+    if (!(await revokeShareLink(session.userId, slug))) {
+      return res.status(404).json({ ok: false, message: 'Ссылка не найдена или уже отозвана.' });
+    }
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    console.error('[api/share-links] Request failed', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось обработать короткие ссылки.' });
+  }
+});
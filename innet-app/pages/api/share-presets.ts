@@ -0,0 +1,104 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import {
+  mergeSharePresetSnapshots,
+  normalizeSharePresets,
+  normalizeSharePresetTombstones,
+  type SharePreset,
+  type SharePresetTombstones,
+} from '../../lib/sharePresets';
+
+type SuccessResponse = {
+  ok: true;
+  presets: SharePreset[];
+  deleted: SharePresetTombstones;
+  updatedAt?: string;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+const PRESET_TABLE = 'share_preset_collections';
+
+/**
+ * `GET` — share presets saved to the account. `PUT { presets, deleted }` —
+ * merge this device's presets into the stored ones and return the result.
+ */
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    res.setHeader('Allow', 'GET, PUT');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, presets: [], deleted: {} });
+    }
+    return res.status(200).json({
+      ok: false,
+      message: 'Supabase не настроен. Укажите ключи окружения для синхронизации.',
+    });
+  }
+
+  const { data, error } = await client
+    .from(PRESET_TABLE)
+    .select('presets,deleted,updated_at')
+    .eq('profile_id', session.profileId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[api/share-presets] Failed to fetch presets', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось получить пресеты из Supabase.' });
+  }
+
+  const stored = {
+    presets: normalizeSharePresets(data?.presets),
+    deleted: normalizeSharePresetTombstones(data?.deleted),
+  };
+
+  if (req.method === 'GET') {
+    return res.status(200).json({
+      ok: true,
+      ...stored,
+      updatedAt: data?.updated_at ?? undefined,
+    });
+  }
+
+  const incoming = {
+    presets: normalizeSharePresets(req.body?.presets),
+    deleted: normalizeSharePresetTombstones(req.body?.deleted),
+  };
+  const merged = mergeSharePresetSnapshots(stored, incoming);
+
+  const record = {
+    profile_id: session.profileId,
+    presets: merged.presets,
+    deleted: merged.deleted,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error: upsertError } = await client.from(PRESET_TABLE).upsert(record, {
+    onConflict: 'profile_id',
+  });
+
+  if (upsertError) {
+    console.error('[api/share-presets] Failed to upsert presets', upsertError);
+    return res.status(500).json({ ok: false, message: 'Не удалось сохранить пресеты в Supabase.' });
+  }
+
+  return res.status(200).json({
+    ok: true,
+    ...merged,
+    updatedAt: record.updated_at,
+  });
+});
@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
+import { getTokenBalanceForUser, spendTokens } from '../../lib/server/tokenLedger';
+import { TOKEN_ACTION_MAP, type TokenActionId, type TokenChargeResult } from '../../lib/tokens';
+
+type PostBody = {
+  action?: string;
+  quantity?: number;
+};
+
+type BalanceResponse = {
+  ok: true;
+  balance: number;
+};
+
+type ChargeResponse = {
+  ok: true;
+  charge: TokenChargeResult;
+};
+
+type ErrorResponse = {
+  ok: false;
+  message: string;
+};
+
+type ApiResponse = BalanceResponse | ChargeResponse | ErrorResponse;
+
+const MAX_QUANTITY = 100;
+
+export default withSession(async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>,
+  session
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ ok: false, message: 'Метод не поддерживается.' });
+  }
+
+  if (!getSupabaseAdminClient()) {
+    return res.status(200).json({
+      ok: false,
+      message: 'Supabase не настроен. Укажите ключ сервисного пользователя для токенов.',
+    });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const balance = await getTokenBalanceForUser(session.userId);
+      return res.status(200).json({ ok: true, balance });
+    } catch (error) {
+      console.error('[api/tokens] Failed to load balance', error);
+      return res.status(500).json({ ok: false, message: 'Не удалось получить баланс токенов.' });
+    }
+  }
+
+  const body = (req.body ?? {}) as PostBody;
+  const action = body.action as TokenActionId;
+  if (!action || !TOKEN_ACTION_MAP[action]) {
+    return res.status(400).json({ ok: false, message: 'Неизвестное действие для списания токенов.' });
+  }
+  const quantity = Number.isInteger(body.quantity) ? Number(body.quantity) : 1;
+  if (quantity < 1 || quantity > MAX_QUANTITY) {
+    return res.status(400).json({ ok: false, message: 'Некорректное количество.' });
+  }
+
+  try {
+    const charge = await spendTokens(session.userId, action, quantity);
+    return res.status(200).json({ ok: true, charge });
+  } catch (error) {
+    console.error('[api/tokens] Failed to spend tokens', error);
+    return res.status(500).json({ ok: false, message: 'Не удалось списать токены.' });
+  }
+});
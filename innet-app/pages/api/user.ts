@@ -1,8 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { withSession } from '../../lib/server/session';
 
 type UpsertPayload = {
-  email: string;
   name?: string;
   surname?: string;
   phone?: string;
@@ -20,17 +20,19 @@ type ErrorResponse = {
   message: string;
 };
 
-export default async function handler(
+export default withSession(async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<SuccessResponse | ErrorResponse>
+  res: NextApiResponse<SuccessResponse | ErrorResponse>,
+  session
 ) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
     return res.status(405).json({ ok: false, message: 'Метод не поддерживается' });
   }
 
-  const { email, name, surname, phone, telegram, instagram } = req.body as UpsertPayload;
-  if (typeof email !== 'string' || !email.trim()) {
+  const { name, surname, phone, telegram, instagram } = req.body as UpsertPayload;
+  const email = session.email;
+  if (!email) {
     return res
       .status(400)
       .json({ ok: false, message: 'Необходимо указать корректный email для синхронизации' });
@@ -65,4 +67,4 @@ export default async function handler(
   }
 
   return res.status(200).json({ ok: true, synced: true });
-}
+});
@@ -1,20 +1,60 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
 import Layout from '../../components/Layout';
 import OnboardingHint from '../../components/onboarding/OnboardingHint';
-import { loadContacts } from '../../lib/storage';
+import { contactLastTouch, CONTACTS_UPDATED_EVENT, loadContacts, saveContacts } from '../../lib/storage';
+import type { Contact } from '../../lib/storage';
 import Link from 'next/link';
 import { usePlan } from '../../hooks/usePlan';
 import { isUnlimited } from '../../lib/plans';
+import { spendTokensForAction } from '../../lib/tokens';
+import { contactsToVCard, downloadVCard, parseVCards, planVCardImport } from '../../lib/vcard';
+import { findDuplicateContacts } from '../../lib/contactDedup';
+import { formatRelative } from '../../utils/time';
+
+type ContactSort = 'added' | 'touch-recent' | 'touch-oldest';
+type TouchFilter = 'all' | 'month' | 'quarter' | 'stale';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SORT_OPTIONS: { value: ContactSort; label: string }[] = [
+  { value: 'added', label: 'Сначала новые' },
+  { value: 'touch-recent', label: 'Недавно общались' },
+  { value: 'touch-oldest', label: 'Давно не общались' },
+];
+
+const TOUCH_FILTERS: { value: TouchFilter; label: string }[] = [
+  { value: 'all', label: 'Все' },
+  { value: 'month', label: 'Общались за месяц' },
+  { value: 'quarter', label: '1–3 месяца назад' },
+  { value: 'stale', label: 'Больше 3 месяцев' },
+];
+
+function matchesTouchFilter(lastTouch: number, filter: TouchFilter, now: number): boolean {
+  const age = now - lastTouch;
+  if (filter === 'month') return age <= 30 * DAY_MS;
+  if (filter === 'quarter') return age > 30 * DAY_MS && age <= 90 * DAY_MS;
+  if (filter === 'stale') return age > 90 * DAY_MS;
+  return true;
+}
 
 /**
- * Contacts list page. Displays all contacts sorted by most recent first,
- * highlights those added within the last 7 days and provides a simple
- * search filter. Clicking a contact navigates to their detail page.
+ * Contacts list page. Displays all contacts sorted by most recent first
+ * or by the last logged interaction, highlights those added within the
+ * last 7 days and provides search and last-touch filters. Clicking a contact navigates to their detail page.
+ * The whole list can be exported to or imported from a .vcf file, and
+ * likely duplicates link to the merge screen.
  */
 export default function ContactsPage() {
   const [contacts, setContacts] = useState(loadContacts());
   const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<ContactSort>('added');
+  const [touchFilter, setTouchFilter] = useState<TouchFilter>('all');
   const [filtered, setFiltered] = useState(contacts);
+  const [importNotice, setImportNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { entitlements } = usePlan();
   const contactLimitInfo = useMemo(() => {
     if (isUnlimited(entitlements.contactLimit)) {
@@ -29,16 +69,94 @@ export default function ContactsPage() {
     };
   }, [contacts.length, entitlements.contactLimit]);
 
+  const duplicateCount = useMemo(
+    () => findDuplicateContacts(contacts).reduce((sum, cluster) => sum + cluster.contacts.length - 1, 0),
+    [contacts]
+  );
+
   useEffect(() => {
     setContacts(loadContacts());
+    const handleContactsUpdated = () => setContacts(loadContacts());
+    window.addEventListener(CONTACTS_UPDATED_EVENT, handleContactsUpdated);
+    return () => {
+      window.removeEventListener(CONTACTS_UPDATED_EVENT, handleContactsUpdated);
+    };
   }, []);
 
   useEffect(() => {
     const q = query.toLowerCase();
+    const reference = Date.now();
     setFiltered(
-      contacts.filter((c) => c.name.toLowerCase().includes(q)).sort((a, b) => b.connectedAt - a.connectedAt)
+      contacts
+        .filter((c) => c.name.toLowerCase().includes(q))
+        .filter((c) => matchesTouchFilter(contactLastTouch(c), touchFilter, reference))
+        .sort((a, b) => {
+          if (sort === 'touch-recent') return contactLastTouch(b) - contactLastTouch(a);
+          if (sort === 'touch-oldest') return contactLastTouch(a) - contactLastTouch(b);
+          return b.connectedAt - a.connectedAt;
+        })
     );
-  }, [query, contacts]);
+  }, [query, contacts, sort, touchFilter]);
+
+  const handleExport = () => {
+    const stored = loadContacts();
+    if (stored.length === 0) return;
+    downloadVCard('innet-contacts.vcf', contactsToVCard(stored));
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error('[contacts] Failed to read vCard file', error);
+      setImportNotice({ type: 'error', message: 'Не удалось прочитать файл.' });
+      return;
+    }
+
+    const entries = parseVCards(text);
+    if (entries.length === 0) {
+      setImportNotice({ type: 'error', message: 'В файле не найдено ни одной визитки vCard.' });
+      return;
+    }
+
+    const stored = loadContacts();
+    const plan = planVCardImport(entries, stored);
+    const limit = isUnlimited(entitlements.contactLimit)
+      ? Number.POSITIVE_INFINITY
+      : entitlements.contactLimit ?? 0;
+    const accepted: Contact[] = [];
+    let spent = 0;
+    let tokenShortage: string | null = null;
+    for (const contact of plan.contacts) {
+      if (stored.length + accepted.length >= limit) {
+        const charge = await spendTokensForAction('extra-contact');
+        if (!charge.ok) {
+          tokenShortage = charge.message ?? `Для остальных нужны ${charge.cost} токена(ов) за контакт, на балансе ${charge.balance}.`;
+          break;
+        }
+        spent += charge.cost;
+      }
+      accepted.push(contact);
+    }
+
+    if (accepted.length) {
+      saveContacts([...accepted, ...stored]);
+    }
+
+    const parts = [`Импортировано контактов: ${accepted.length}.`];
+    if (plan.duplicates) parts.push(`Пропущено дубликатов: ${plan.duplicates}.`);
+    if (spent) parts.push(`Списано ${spent} токенов.`);
+    if (tokenShortage) parts.push(tokenShortage);
+    setImportNotice({
+      type: tokenShortage && accepted.length === 0 ? 'error' : 'success',
+      message: parts.join(' '),
+    });
+  };
 
   const now = Date.now();
   const oneWeek = 7 * 24 * 60 * 60 * 1000;
@@ -78,7 +196,7 @@ export default function ContactsPage() {
             {contactLimitInfo.reached ? ' — лимит достигнут' : ''}
           </p>
         </div>
-        <div className="mb-4">
+        <div className="mb-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <input
             type="text"
             placeholder="Поиск по имени..."
@@ -86,10 +204,87 @@ export default function ContactsPage() {
             onChange={(e) => setQuery(e.target.value)}
             className="w-full md:w-1/2 px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
           />
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as ContactSort)}
+              aria-label="Сортировка"
+              className="rounded-md border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={touchFilter}
+              onChange={(e) => setTouchFilter(e.target.value as TouchFilter)}
+              aria-label="Последний контакт"
+              className="rounded-md border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {TOUCH_FILTERS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href="/app/inbox"
+              className="rounded-md border border-gray-600 px-3 py-2 text-sm text-gray-200 transition hover:bg-gray-700"
+            >
+              Входящие
+            </Link>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="rounded-md border border-gray-600 px-3 py-2 text-sm text-gray-200 transition hover:bg-gray-700"
+            >
+              Импорт .vcf
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={contacts.length === 0}
+              className="rounded-md border border-gray-600 px-3 py-2 text-sm text-gray-200 transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Экспорт всех
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".vcf,text/vcard,text/x-vcard"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
         </div>
+        {importNotice && (
+          <p
+            className={`mb-4 text-sm ${
+              importNotice.type === 'error' ? 'text-red-400' : 'text-green-400'
+            }`}
+          >
+            {importNotice.message}
+          </p>
+        )}
+        {duplicateCount > 0 && (
+          <Link
+            href="/app/contacts/duplicates"
+            className="mb-4 block rounded-md border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-100 transition hover:bg-amber-500/20"
+          >
+            Похоже, некоторые люди записаны несколько раз (лишних записей: {duplicateCount}). Объединить →
+          </Link>
+        )}
         <div className="space-y-3">
           {filtered.length === 0 && (
-            <p className="text-gray-400 text-sm">Контактов пока нет. Добавьте новые, отсканировав чей‑то QR‑код.</p>
+            <p className="text-gray-400 text-sm">
+              {contacts.length === 0
+                ? 'Контактов пока нет. Добавьте новые, отсканировав чей‑то QR‑код.'
+                : 'Никого не нашли — измените поиск или фильтр.'}
+            </p>
           )}
           {filtered.map((contact) => {
             const isRecent = now - contact.connectedAt < oneWeek;
@@ -104,7 +299,8 @@ export default function ContactsPage() {
                   <div>
                     <p className="font-semibold">{contact.name}</p>
                     <p className="text-xs text-gray-400">
-                      Добавлен {new Date(contact.connectedAt).toLocaleDateString()}
+                      Добавлен {new Date(contact.connectedAt).toLocaleDateString()} · последний контакт{' '}
+                      {formatRelative(contactLastTouch(contact))}
                     </p>
                     {contact.tags && contact.tags.length > 0 && (
                       <div className="mt-1.5 flex flex-wrap gap-1.5">
@@ -4,20 +4,37 @@ import type { ChangeEvent, FormEvent } from 'react';
 import Layout from '../../../components/Layout';
 import {
   Contact,
+  CONTACT_INTERACTION_LABELS,
+  CONTACT_INTERACTION_NOTE_LIMIT,
   CONTACT_NOTE_LIMIT,
   CONTACT_NOTE_MAX,
   CONTACT_TAG_COLOR_PRESETS,
+  contactLastTouch,
+  createContactInteraction,
   createContactNote,
   createContactTag,
+  findTagReminderCadence,
   loadContacts,
   loadFactGroups,
   saveContacts,
+  setTagReminderCadence,
   updateContact,
+  withContactInteraction,
+  type ContactInteractionChannel,
 } from '../../../lib/storage';
+import {
+  resolveContactCadence,
+  type ReminderCadence,
+  type ReminderCadenceUnit,
+} from '../../../lib/reminders';
+import { useReminders } from '../../../hooks/useReminders';
 import { formatRelative } from '../../../utils/time';
 import Link from 'next/link';
 import { usePlan } from '../../../hooks/usePlan';
-import { buildAiSuggestions } from '../../../lib/assistant';
+import type { AiSuggestion, AssistantSource } from '../../../lib/assistant';
+import { fetchAssistantSuggestions } from '../../../lib/assistantClient';
+import { contactToVCard, downloadVCard, vCardFileName } from '../../../lib/vcard';
+import { buildCalendar, calendarFileName, contactMeetingEvent, downloadCalendar } from '../../../lib/ical';
 
 const withAlpha = (hex: string, alpha: number) => {
   if (!hex || !hex.startsWith('#')) return hex;
@@ -50,6 +67,7 @@ export default function ContactDetail() {
   const [tagColor, setTagColor] = useState<string>(CONTACT_TAG_COLOR_PRESETS[0]);
   const [tagError, setTagError] = useState<string | null>(null);
   const [tagMessage, setTagMessage] = useState<string | null>(null);
+  const [meetingOpen, setMeetingOpen] = useState(false);
 
   const handleNoteChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
     const raw = event.target.value;
@@ -74,6 +92,17 @@ export default function ContactDetail() {
     setContact(found);
   }, [id]);
 
+  // "Готово" in a reminder email lands here with `?reminder=done`.
+  const reminderDoneRef = useRef(false);
+  useEffect(() => {
+    if (!contact || router.query.reminder !== 'done' || reminderDoneRef.current) return;
+    reminderDoneRef.current = true;
+    const updated = withContactInteraction(contact, createContactInteraction('reminder'));
+    updateContact(updated);
+    setContact(updated);
+    void router.replace(`/app/contacts/${contact.id}`, undefined, { shallow: true });
+  }, [contact, router]);
+
   useEffect(() => {
     if (!contact) return;
     setEditPhone(contact.phone ?? '');
@@ -103,10 +132,35 @@ export default function ContactDetail() {
   }, [tagMessage]);
 
   const knownGroups = useMemo(() => loadFactGroups(), []);
-  const aiSuggestions = useMemo(
-    () => (contact && entitlements.allowAiSuggestions ? buildAiSuggestions(contact) : []),
-    [contact, entitlements.allowAiSuggestions]
-  );
+  const [aiSuggestions, setAiSuggestions] = useState<AiSuggestion[]>([]);
+  const [aiSource, setAiSource] = useState<AssistantSource | null>(null);
+  const [aiLoading, setAiLoading] = useState(false);
+  const latestContactRef = useRef<Contact | null>(null);
+  const aiRequestRef = useRef(0);
+  latestContactRef.current = contact;
+  const contactId = contact?.id;
+
+  // Ask once per opened contact; edits on the card do not re-query the provider.
+  const loadAiSuggestions = useCallback(async () => {
+    const current = latestContactRef.current;
+    if (!current) return;
+    const requestId = ++aiRequestRef.current;
+    setAiLoading(true);
+    const result = await fetchAssistantSuggestions(current);
+    if (requestId !== aiRequestRef.current) return;
+    setAiSuggestions(result.suggestions);
+    setAiSource(result.source);
+    setAiLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!contactId || !entitlements.allowAiSuggestions) {
+      setAiSuggestions([]);
+      setAiSource(null);
+      return;
+    }
+    void loadAiSuggestions();
+  }, [contactId, entitlements.allowAiSuggestions, loadAiSuggestions]);
 
   const handleDeleteContact = () => {
     if (!contact) return;
@@ -115,6 +169,11 @@ export default function ContactDetail() {
     router.push('/app/contacts');
   };
 
+  const handleExportContact = () => {
+    if (!contact) return;
+    downloadVCard(vCardFileName(contact.name), contactToVCard(contact));
+  };
+
   const handleAddNote = (event: React.FormEvent) => {
     event.preventDefault();
     if (!contact) return;
@@ -228,6 +287,9 @@ export default function ContactDetail() {
 
     setTagError(null);
     const newTag = createContactTag(label, tagColor);
+    // Keep the tag's reminder cadence shared with its other copies.
+    const tagCadence = findTagReminderCadence(label);
+    if (tagCadence) newTag.reminderCadence = tagCadence;
     const updated: Contact = {
       ...contact,
       tags: [newTag, ...contact.tags],
@@ -312,7 +374,24 @@ export default function ContactDetail() {
               <p className="text-sm text-slate-400">Знакомство состоялось {connectedLabel}</p>
             </div>
           </div>
+          <div className="flex flex-wrap gap-2 self-start md:self-center">
+            <button
+              type="button"
+              onClick={() => setMeetingOpen((open) => !open)}
+              className="rounded-full border border-slate-600 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-primary hover:text-primary"
+            >
+              Встреча в календарь
+            </button>
+            <button
+              type="button"
+              onClick={handleExportContact}
+              className="rounded-full border border-slate-600 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-primary hover:text-primary"
+            >
+              Скачать .vcf
+            </button>
+          </div>
         </header>
+        {meetingOpen && <MeetingInviteForm contact={contact} onDone={() => setMeetingOpen(false)} />}
 
         <div className="mt-5 rounded-xl border border-slate-800 bg-slate-900/60 p-4">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -386,6 +465,8 @@ export default function ContactDetail() {
           )}
         </div>
 
+        <InteractionTimeline contact={contact} onContactChange={(updated) => setContact(updated)} />
+
         <section className="mt-6 rounded-xl border border-slate-800 bg-slate-900/70 p-5 shadow">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
             <h2 className="text-xl font-semibold text-slate-100">Теги контакта</h2>
@@ -482,17 +563,35 @@ export default function ContactDetail() {
           )}
         </section>
 
+        <ReminderCadenceSection
+          contact={contact}
+          onContactChange={(updated) => setContact(updated)}
+        />
+
         {entitlements.allowAiSuggestions ? (
           <section className="mt-6 rounded-xl border border-slate-800 bg-slate-900/70 p-5 shadow">
             <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
               <div>
                 <h2 className="text-xl font-semibold text-slate-100">ИИ-помощник</h2>
                 <p className="text-sm text-slate-400">
-                  Подсказывает, что написать контакту или как позвать на встречу. Выберите вариант и
-                  скопируйте текст одним нажатием.
+                  Подсказывает, что написать контакту или как позвать на встречу, опираясь на факты,
+                  заметки и теги. Выберите вариант и скопируйте текст одним нажатием.
                 </p>
               </div>
+              <button
+                type="button"
+                onClick={() => void loadAiSuggestions()}
+                disabled={aiLoading}
+                className="inline-flex items-center justify-center rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-primary hover:text-primary disabled:opacity-50"
+              >
+                {aiLoading ? 'Готовим…' : 'Обновить'}
+              </button>
             </div>
+            {aiSource === 'templates' && !aiLoading && (
+              <p className="mt-3 text-xs text-slate-500">
+                Помощник сейчас недоступен — показаны готовые шаблоны.
+              </p>
+            )}
             {aiError && <p className="mt-3 text-xs text-red-400">{aiError}</p>}
             <div className="mt-4 grid gap-4 md:grid-cols-3">
               {aiSuggestions.map((suggestion) => (
@@ -641,6 +740,380 @@ export default function ContactDetail() {
   );
 }
 
+const CADENCE_LIMIT = 12;
+
+const MEETING_DURATIONS = [30, 60, 90];
+
+function toDateTimeInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = `${date.getHours()}`.padStart(2, '0');
+  const minutes = `${date.getMinutes()}`.padStart(2, '0');
+  return `${toDateInputValue(timestamp)}T${hours}:${minutes}`;
+}
+
+/** One-off `.ics` invite with the contact's phone and handles, for any calendar app. */
+function MeetingInviteForm({ contact, onDone }: { contact: Contact; onDone: () => void }) {
+  const [start, setStart] = useState(() => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(10, 0, 0, 0);
+    return toDateTimeInputValue(tomorrow.getTime());
+  });
+  const [duration, setDuration] = useState(60);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const startAt = new Date(start).getTime();
+    if (Number.isNaN(startAt)) {
+      setError('Укажите дату и время встречи.');
+      return;
+    }
+    const meeting = contactMeetingEvent(contact, startAt, duration, window.location.origin);
+    downloadCalendar(calendarFileName(meeting.summary), buildCalendar([meeting], meeting.summary));
+    onDone();
+  };
+
+  return (
+    <form
+      onSubmit={handleDownload}
+      className="mt-4 flex flex-col gap-2 rounded-xl border border-slate-800 bg-slate-900/60 p-4 sm:flex-row sm:items-center"
+    >
+      <input
+        type="datetime-local"
+        value={start}
+        onChange={(event) => {
+          setStart(event.target.value);
+          setError(null);
+        }}
+        className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+      />
+      <select
+        value={duration}
+        onChange={(event) => setDuration(Number(event.target.value))}
+        className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+      >
+        {MEETING_DURATIONS.map((minutes) => (
+          <option key={minutes} value={minutes}>
+            {minutes} мин
+          </option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        className="rounded-full bg-primary px-4 py-2 text-xs font-semibold text-slate-950 transition hover:bg-secondary"
+      >
+        Скачать .ics
+      </button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+}
+
+const LOGGABLE_CHANNELS: ContactInteractionChannel[] = ['meeting', 'call', 'message', 'email'];
+
+function toDateInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function InteractionTimeline({
+  contact,
+  onContactChange,
+}: {
+  contact: Contact;
+  onContactChange: (contact: Contact) => void;
+}) {
+  const today = toDateInputValue(Date.now());
+  const [channel, setChannel] = useState<ContactInteractionChannel>('message');
+  const [date, setDate] = useState(today);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const interactions = contact.interactions ?? [];
+
+  const handleLog = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const [year, month, day] = date.split('-').map(Number);
+    // Today's entries keep the current time; past days are logged at noon.
+    const at = date === today ? Date.now() : new Date(year, month - 1, day, 12).getTime();
+    if (!year || Number.isNaN(at) || at > Date.now()) {
+      setError('Выберите дату не позже сегодняшней.');
+      return;
+    }
+    setError(null);
+    const updated = withContactInteraction(contact, createContactInteraction(channel, at, note));
+    updateContact(updated);
+    onContactChange(updated);
+    setNote('');
+    setDate(today);
+  };
+
+  const handleRemove = (interactionId: string) => {
+    const updated: Contact = {
+      ...contact,
+      interactions: interactions.filter((interaction) => interaction.id !== interactionId),
+    };
+    updateContact(updated);
+    onContactChange(updated);
+  };
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-800 bg-slate-900/70 p-5 shadow">
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-baseline sm:justify-between">
+        <h2 className="text-xl font-semibold text-slate-100">История общения</h2>
+        <p className="text-xs text-slate-400">Последний контакт: {formatRelative(contactLastTouch(contact))}</p>
+      </div>
+      <p className="mt-1 text-sm text-slate-400">
+        Отмечайте встречи, звонки и переписку — напоминание о человеке отсчитывается от последней записи.
+      </p>
+      <form onSubmit={handleLog} className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center">
+        <select
+          value={channel}
+          onChange={(event) => setChannel(event.target.value as ContactInteractionChannel)}
+          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+        >
+          {LOGGABLE_CHANNELS.map((value) => (
+            <option key={value} value={value}>
+              {CONTACT_INTERACTION_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={date}
+          max={today}
+          onChange={(event) => setDate(event.target.value)}
+          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+        />
+        <input
+          type="text"
+          value={note}
+          maxLength={CONTACT_INTERACTION_NOTE_LIMIT}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="О чём говорили (необязательно)"
+          className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+        />
+        <button
+          type="submit"
+          className="rounded-full bg-primary px-4 py-2 text-xs font-semibold text-slate-950 transition hover:bg-secondary"
+        >
+          Отметить
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      {interactions.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">Пока ничего не отмечено.</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {interactions.map((interaction) => (
+            <li
+              key={interaction.id}
+              className="flex items-start justify-between rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-2 text-sm text-slate-200"
+            >
+              <div>
+                <p>
+                  <span className="font-medium">{CONTACT_INTERACTION_LABELS[interaction.channel]}</span>
+                  <span className="ml-2 text-xs text-slate-500">{formatRelative(interaction.at)}</span>
+                </p>
+                {interaction.note && <p className="mt-1 text-slate-300">{interaction.note}</p>}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(interaction.id)}
+                className="ml-3 text-xs text-red-400 hover:text-red-300"
+              >
+                удалить
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function formatCadence(cadence: ReminderCadence): string {
+  const { value, unit } = cadence;
+  const mod10 = value % 10;
+  const mod100 = value % 100;
+  const form = mod10 === 1 && mod100 !== 11 ? 0 : mod10 >= 2 && mod10 <= 4 && (mod100 < 10 || mod100 >= 20) ? 1 : 2;
+  const words = unit === 'week' ? ['неделю', 'недели', 'недель'] : ['месяц', 'месяца', 'месяцев'];
+  return value === 1 ? `раз в ${words[0]}` : `раз в ${value} ${words[form]}`;
+}
+
+function CadenceFields({
+  value,
+  unit,
+  onValueChange,
+  onUnitChange,
+}: {
+  value: number;
+  unit: ReminderCadenceUnit;
+  onValueChange: (value: number) => void;
+  onUnitChange: (unit: ReminderCadenceUnit) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        min={1}
+        max={CADENCE_LIMIT}
+        value={value}
+        onChange={(event) => onValueChange(Number(event.target.value))}
+        className="w-20 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+      />
+      <select
+        value={unit}
+        onChange={(event) => onUnitChange(event.target.value === 'month' ? 'month' : 'week')}
+        className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+      >
+        <option value="week">недель</option>
+        <option value="month">месяцев</option>
+      </select>
+    </div>
+  );
+}
+
+function ReminderCadenceSection({
+  contact,
+  onContactChange,
+}: {
+  contact: Contact;
+  onContactChange: (contact: Contact) => void;
+}) {
+  const { settings } = useReminders();
+  const effective = resolveContactCadence(contact, settings);
+  const [contactValue, setContactValue] = useState(effective.cadence.value);
+  const [contactUnit, setContactUnit] = useState<ReminderCadenceUnit>(effective.cadence.unit);
+  const [tagLabel, setTagLabel] = useState(contact.tags[0]?.label ?? '');
+  const selectedTag = contact.tags.find((tag) => tag.label === tagLabel) ?? contact.tags[0];
+  const tagCadence = selectedTag?.reminderCadence ?? settings.cadence;
+  const [tagValue, setTagValue] = useState(tagCadence.value);
+  const [tagUnit, setTagUnit] = useState<ReminderCadenceUnit>(tagCadence.unit);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), 2500);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const toCadence = (value: number, unit: ReminderCadenceUnit): ReminderCadence => ({
+    value: Math.min(CADENCE_LIMIT, Math.max(1, Math.round(value) || 1)),
+    unit,
+  });
+
+  const saveContactCadence = (cadence: ReminderCadence | undefined) => {
+    const updated: Contact = { ...contact, reminderCadence: cadence, lastUpdated: Date.now() };
+    updateContact(updated);
+    onContactChange(updated);
+    setMessage(cadence ? 'Частота для контакта сохранена' : 'Контакт снова следует тегам и профилю');
+  };
+
+  const saveTagCadence = async (cadence: ReminderCadence | null) => {
+    if (!selectedTag) return;
+    await setTagReminderCadence(selectedTag.label, cadence);
+    const reloaded = loadContacts().find((item) => item.id === contact.id);
+    if (reloaded) onContactChange(reloaded);
+    setMessage(
+      cadence
+        ? `Частота для тега «${selectedTag.label}» сохранена`
+        : `Тег «${selectedTag.label}» снова следует профилю`
+    );
+  };
+
+  const selectTag = (label: string) => {
+    const tag = contact.tags.find((item) => item.label === label);
+    const cadence = tag?.reminderCadence ?? settings.cadence;
+    setTagLabel(label);
+    setTagValue(cadence.value);
+    setTagUnit(cadence.unit);
+  };
+
+  const sourceText =
+    effective.source === 'contact'
+      ? 'личная настройка контакта'
+      : effective.source === 'tag'
+        ? `из тега «${effective.tagLabel}»`
+        : 'общая настройка профиля';
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-800 bg-slate-900/70 p-5 shadow">
+      <h2 className="text-xl font-semibold text-slate-100">Напоминания</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Напоминаем {formatCadence(effective.cadence)} с небольшим разбросом — {sourceText}.
+        {!settings.enabled && ' Сейчас напоминания выключены в профиле.'}
+      </p>
+      <p className="mt-1 text-xs text-slate-500">
+        Личная частота важнее частоты тегов, а та — общей настройки профиля.
+      </p>
+
+      <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-3">
+        <span className="text-sm text-slate-300">Для этого контакта:</span>
+        <CadenceFields
+          value={contactValue}
+          unit={contactUnit}
+          onValueChange={setContactValue}
+          onUnitChange={setContactUnit}
+        />
+        <button
+          type="button"
+          onClick={() => saveContactCadence(toCadence(contactValue, contactUnit))}
+          className="rounded-full bg-primary px-4 py-2 text-xs font-semibold text-slate-950 transition hover:bg-secondary"
+        >
+          Сохранить
+        </button>
+        {contact.reminderCadence && (
+          <button
+            type="button"
+            onClick={() => saveContactCadence(undefined)}
+            className="text-xs text-slate-400 hover:text-slate-100"
+          >
+            Сбросить
+          </button>
+        )}
+      </div>
+
+      {selectedTag && (
+        <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-3">
+          <span className="text-sm text-slate-300">Для всех с тегом</span>
+          <select
+            value={selectedTag.label}
+            onChange={(event) => selectTag(event.target.value)}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-primary"
+          >
+            {contact.tags.map((tag) => (
+              <option key={tag.id} value={tag.label}>
+                {tag.reminderCadence ? `${tag.label} · ${formatCadence(tag.reminderCadence)}` : tag.label}
+              </option>
+            ))}
+          </select>
+          <CadenceFields value={tagValue} unit={tagUnit} onValueChange={setTagValue} onUnitChange={setTagUnit} />
+          <button
+            type="button"
+            onClick={() => void saveTagCadence(toCadence(tagValue, tagUnit))}
+            className="rounded-full border border-slate-600 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-primary hover:text-primary"
+          >
+            Задать для тега
+          </button>
+          {selectedTag.reminderCadence && (
+            <button
+              type="button"
+              onClick={() => void saveTagCadence(null)}
+              className="text-xs text-slate-400 hover:text-slate-100"
+            >
+              Сбросить
+            </button>
+          )}
+        </div>
+      )}
+      {message && <p className="mt-3 text-xs text-emerald-300">{message}</p>}
+    </section>
+  );
+}
+
 function resolveGroupLabel(
   groupId: string,
   knownGroups: ReturnType<typeof loadFactGroups>,
@@ -0,0 +1,133 @@
+import { useRouter } from 'next/router';
+import { useEffect, useMemo, useState } from 'react';
+import Layout from '../../../components/Layout';
+import { CONTACTS_UPDATED_EVENT, loadContacts } from '../../../lib/storage';
+import type { Contact } from '../../../lib/storage';
+import {
+  findDuplicateContacts,
+  mergeDuplicateContacts,
+  type DuplicateReason,
+} from '../../../lib/contactDedup';
+import { formatRelative } from '../../../utils/time';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  remote: 'один и тот же профиль InNet',
+  phone: 'совпадает телефон',
+  telegram: 'совпадает Telegram',
+  instagram: 'совпадает Instagram',
+  name: 'похожее имя',
+};
+
+/**
+ * Lists groups of contacts that look like the same person and lets the
+ * user pick which record to keep before merging the rest into it.
+ */
+export default function DuplicateContactsPage() {
+  const router = useRouter();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [primaryByCluster, setPrimaryByCluster] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setContacts(loadContacts());
+    const handleContactsUpdated = () => setContacts(loadContacts());
+    window.addEventListener(CONTACTS_UPDATED_EVENT, handleContactsUpdated);
+    return () => {
+      window.removeEventListener(CONTACTS_UPDATED_EVENT, handleContactsUpdated);
+    };
+  }, []);
+
+  const clusters = useMemo(
+    () =>
+      findDuplicateContacts(contacts).map((cluster) => ({
+        ...cluster,
+        key: cluster.contacts.map((contact) => contact.id).join(':'),
+      })),
+    [contacts]
+  );
+
+  const handleMerge = (clusterKey: string, members: Contact[]) => {
+    const primaryId = primaryByCluster[clusterKey] ?? members[0].id;
+    const merged = mergeDuplicateContacts(
+      primaryId,
+      members.map((contact) => contact.id)
+    );
+    if (merged) {
+      setMessage(`Объединили ${members.length} записи в контакт «${merged.name}».`);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="px-4 py-8 mx-auto w-full max-w-4xl">
+        <button
+          onClick={() => router.back()}
+          className="mb-4 text-sm text-primary hover:underline"
+        >
+          ← Назад
+        </button>
+        <h1 className="text-3xl font-bold text-slate-100">Возможные дубликаты</h1>
+        <p className="mt-2 text-sm text-slate-400">
+          Выберите запись, которую нужно оставить. Группы фактов, заметки, теги, связи и напоминания остальных
+          записей перейдут в неё.
+        </p>
+        {message && <p className="mt-4 text-sm text-emerald-300">{message}</p>}
+        {clusters.length === 0 && (
+          <p className="mt-6 text-sm text-gray-400">Дубликатов не найдено.</p>
+        )}
+        <div className="mt-6 space-y-4">
+          {clusters.map((cluster) => {
+            const selectedId = primaryByCluster[cluster.key] ?? cluster.contacts[0].id;
+            return (
+              <div key={cluster.key} className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+                <p className="text-xs uppercase tracking-wide text-slate-400">
+                  {cluster.reasons.map((reason) => REASON_LABELS[reason]).join(', ')}
+                </p>
+                <div className="mt-3 space-y-2">
+                  {cluster.contacts.map((contact) => (
+                    <label
+                      key={contact.id}
+                      className={`flex cursor-pointer items-start gap-3 rounded-lg border px-3 py-2 transition ${
+                        selectedId === contact.id
+                          ? 'border-primary bg-primary/10'
+                          : 'border-slate-700 hover:border-primary/60'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name={cluster.key}
+                        className="mt-1 h-4 w-4 accent-primary"
+                        checked={selectedId === contact.id}
+                        onChange={() =>
+                          setPrimaryByCluster((prev) => ({ ...prev, [cluster.key]: contact.id }))
+                        }
+                      />
+                      <div className="text-sm">
+                        <p className="font-semibold text-slate-100">{contact.name}</p>
+                        <p className="text-xs text-slate-400">
+                          {[contact.phone, contact.telegram, contact.instagram].filter(Boolean).join(' · ') ||
+                            'Без контактов'}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          Добавлен {formatRelative(contact.connectedAt)} · групп фактов: {contact.groups.length} ·
+                          заметок: {contact.notes.length}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleMerge(cluster.key, cluster.contacts)}
+                  className="mt-4 rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary"
+                >
+                  Объединить
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Layout>
+  );
+}
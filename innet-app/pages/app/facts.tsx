@@ -5,14 +5,24 @@ import Layout from '../../components/Layout';
 import OnboardingHint from '../../components/onboarding/OnboardingHint';
 import {
   FactGroup,
+  FactGroupVisibility,
+  FACT_GROUP_VISIBILITIES,
   FACT_TEXT_LIMIT,
+  factGroupVisibility,
   loadFactGroups,
   saveFactGroups,
   createFactGroup,
   createFact,
 } from '../../lib/storage';
 import { FACT_CATEGORY_CONFIG } from '../../lib/categories';
-import { fetchRemoteFacts, upsertRemoteFacts } from '../../lib/factsRemote';
+import {
+  fetchRemoteFacts,
+  mergeFactGroups,
+  mergeFetchedFacts,
+  pushFactsWithMerge,
+  resolveFactConflict,
+  type FactConflict,
+} from '../../lib/factsRemote';
 import { getOrCreateProfileId } from '../../lib/share';
 import { usePlan } from '../../hooks/usePlan';
 import { isUnlimited } from '../../lib/plans';
@@ -28,6 +38,11 @@ const COLOR_OPTIONS = [
 ] as const;
 
 const GROUP_NAME_LIMIT = 30;
+const VISIBILITY_LABELS: Record<FactGroupVisibility, string> = {
+  public: 'Видно всем',
+  contacts: 'Только контактам',
+  hidden: 'Скрыто',
+};
 const EXTRA_FACT_RULE = getTokenActionMeta('extra-fact');
 
 type FocusRequest = { groupId: string; factId: string } | null;
@@ -52,9 +67,11 @@ const [profileId, setProfileId] = useState('');
 const [syncEnabled, setSyncEnabled] = useState(false);
 const [syncLoading, setSyncLoading] = useState(false);
 const [syncError, setSyncError] = useState<string | null>(null);
+const [conflicts, setConflicts] = useState<FactConflict[]>([]);
 const [isFinePointer, setIsFinePointer] = useState(false);
   const holdTimerRef = useRef<NodeJS.Timeout | null>(null);
   const pendingSyncRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const groupsRef = useRef<FactGroup[]>([]);
   const { entitlements } = usePlan();
   const [newGroupName, setNewGroupName] = useState('');
   const [renamingGroupId, setRenamingGroupId] = useState<string | null>(null);
@@ -146,12 +163,14 @@ useEffect(() => {
     const loadRemoteFacts = async () => {
       setSyncError(null);
       setSyncLoading(true);
-      const response = await fetchRemoteFacts(profileId);
+      const response = await fetchRemoteFacts();
       if (cancelled) return;
       if (response.ok) {
         if (response.syncEnabled && entitlements.allowSyncAcrossDevices) {
-          setGroups(response.groups);
-          saveFactGroups(response.groups);
+          const merged = mergeFetchedFacts(loadFactGroups(), response);
+          setGroups(merged.groups);
+          saveFactGroups(merged.groups);
+          setConflicts(merged.conflicts);
         }
         const effectiveSync = response.syncEnabled && entitlements.allowSyncAcrossDevices;
         setSyncEnabled(effectiveSync);
@@ -181,18 +200,34 @@ useEffect(() => {
     }
   }, []);
 
+  useEffect(() => {
+    groupsRef.current = groups;
+  }, [groups]);
+
+  const applySyncedGroups = useCallback((pushed: FactGroup[], synced: FactGroup[]) => {
+    // Edits made while the request was in flight are replayed on top of the synced state.
+    const latest = groupsRef.current;
+    const next = latest === pushed ? synced : mergeFactGroups(pushed, latest, synced).groups;
+    if (JSON.stringify(next) === JSON.stringify(latest)) return;
+    setGroups(next);
+    saveFactGroups(next);
+  }, []);
+
   useEffect(() => {
     if (!profileId || !syncEnabled) return;
     if (pendingSyncRef.current) {
       clearTimeout(pendingSyncRef.current);
     }
     pendingSyncRef.current = setTimeout(() => {
-      void upsertRemoteFacts(profileId, groups, true).then((result) => {
+      void pushFactsWithMerge(groups, true).then((result) => {
         if (!result.ok) {
           setSyncError(result.message);
+          return;
         }
-        if (result.ok) {
-          setSyncError(null);
+        setSyncError(null);
+        applySyncedGroups(groups, result.groups);
+        if (result.conflicts.length > 0) {
+          setConflicts((prev) => [...prev, ...result.conflicts]);
         }
       });
     }, 750);
@@ -203,7 +238,7 @@ useEffect(() => {
         pendingSyncRef.current = null;
       }
     };
-  }, [groups, profileId, syncEnabled]);
+  }, [groups, profileId, syncEnabled, applySyncedGroups]);
 
   const availableCategories = useMemo(() => {
     const used = new Set(
@@ -233,19 +268,7 @@ useEffect(() => {
     [selectedCategoryId]
   );
 
-  const handleAddGroup = () => {
-    let tokenInfo: string | null = null;
-    if (!isUnlimited(factGroupLimit) && factGroupLimit !== null && groups.length >= factGroupLimit) {
-      const charge = spendTokensForAction('extra-fact-group');
-      if (!charge.ok) {
-        setLimitNotice(
-          `Нужно ${charge.cost} токенов, чтобы открыть новую группу фактов. На балансе ${charge.balance}. Пополните вкладку «Токены».`
-        );
-        return;
-      }
-      tokenInfo = `Списано ${charge.cost} токенов за новую группу. Остаток: ${charge.balance}.`;
-    }
-
+  const handleAddGroup = async () => {
     let baseName = '';
     if (canUseCustomNames) {
       const trimmed = newGroupName.trim();
@@ -262,6 +285,19 @@ useEffect(() => {
       baseName = selectedCategory.label.slice(0, GROUP_NAME_LIMIT);
     }
 
+    let tokenInfo: string | null = null;
+    if (!isUnlimited(factGroupLimit) && factGroupLimit !== null && groups.length >= factGroupLimit) {
+      const charge = await spendTokensForAction('extra-fact-group');
+      if (!charge.ok) {
+        setLimitNotice(
+          charge.message ??
+            `Нужно ${charge.cost} токенов, чтобы открыть новую группу фактов. На балансе ${charge.balance}. Пополните вкладку «Токены».`
+        );
+        return;
+      }
+      tokenInfo = `Списано ${charge.cost} токенов за новую группу. Остаток: ${charge.balance}.`;
+    }
+
     const group = createFactGroup(baseName, newGroupColor);
     const updated = [...groups, group];
     setGroups(updated);
@@ -271,26 +307,27 @@ useEffect(() => {
     setLimitNotice(tokenInfo ?? null);
   };
 
-  const handleAddFact = (groupId: string, text: string): string | null => {
+  const handleAddFact = async (groupId: string, text: string): Promise<string | null> => {
     const targetGroup = groups.find((group) => group.id === groupId);
     if (!targetGroup) return null;
+    const content = sanitizeFactText(text);
+    if (!content) return null;
     let tokenMessage: string | null = null;
     if (
       !isUnlimited(factsPerGroupLimit) &&
       factsPerGroupLimit !== null &&
       targetGroup.facts.length >= factsPerGroupLimit
     ) {
-      const charge = spendTokensForAction('extra-fact');
+      const charge = await spendTokensForAction('extra-fact');
       if (!charge.ok) {
         setLimitNotice(
-          `Нужны ${charge.cost} токена(ов), чтобы добавить факт сверх лимита. На балансе ${charge.balance}. Пополните вкладку «Токены».`
+          charge.message ??
+            `Нужны ${charge.cost} токена(ов), чтобы добавить факт сверх лимита. На балансе ${charge.balance}. Пополните вкладку «Токены».`
         );
         return null;
       }
       tokenMessage = `Списано ${charge.cost} токенов за новый факт. Остаток: ${charge.balance}.`;
     }
-    const content = sanitizeFactText(text);
-    if (!content) return null;
 
     let createdId: string | null = null;
     const updated = groups.map((group) => {
@@ -330,38 +367,39 @@ useEffect(() => {
     }
 
     if (target) {
-      const remote = await fetchRemoteFacts(profileId);
+      const remote = await fetchRemoteFacts();
       if (!remote.ok) {
         setSyncError(remote.message);
         setSyncLoading(false);
         return;
       }
 
-      let nextGroups = groups;
-      if (remote.groups.length > 0) {
-        nextGroups = remote.groups;
-        setGroups(remote.groups);
-        saveFactGroups(remote.groups);
-      }
-
-      const upsert = await upsertRemoteFacts(profileId, nextGroups, true);
+      const merged = mergeFetchedFacts(groups, remote);
+      const upsert = await pushFactsWithMerge(merged.groups, true);
       if (!upsert.ok) {
         setSyncError(upsert.message);
         setSyncLoading(false);
         return;
       }
 
+      setGroups(upsert.groups);
+      saveFactGroups(upsert.groups);
+      setConflicts([...merged.conflicts, ...upsert.conflicts]);
+
       setSyncEnabled(true);
       if (typeof window !== 'undefined') {
         localStorage.setItem(FACT_SYNC_STORAGE_KEY, 'true');
       }
     } else {
-      const upsert = await upsertRemoteFacts(profileId, groups, false);
+      const upsert = await pushFactsWithMerge(groups, false);
       if (!upsert.ok) {
         setSyncError(upsert.message);
         setSyncLoading(false);
         return;
       }
+      setGroups(upsert.groups);
+      saveFactGroups(upsert.groups);
+      setConflicts(upsert.conflicts);
       setSyncEnabled(false);
       if (typeof window !== 'undefined') {
         localStorage.setItem(FACT_SYNC_STORAGE_KEY, 'false');
@@ -371,6 +409,19 @@ useEffect(() => {
     setSyncLoading(false);
   };
 
+  const handleResolveConflict = (conflict: FactConflict, choice: 'local' | 'remote') => {
+    const updated = resolveFactConflict(groups, conflict, choice);
+    setGroups(updated);
+    saveFactGroups(updated);
+    setConflicts((prev) => prev.filter((item) => item !== conflict));
+  };
+
+  const handleVisibilityChange = (groupId: string, visibility: FactGroupVisibility) => {
+    const updated = groups.map((group) => (group.id === groupId ? { ...group, visibility } : group));
+    setGroups(updated);
+    saveFactGroups(updated);
+  };
+
   const handleUpdateFact = (groupId: string, factId: string, text: string) => {
     let changed = false;
     const updated = groups.map((group) => {
@@ -551,6 +602,51 @@ const handleHoldConfirm = () => {
           <p className="mb-6 text-sm text-red-400">{syncError}</p>
         )}
 
+        {conflicts.length > 0 && (
+          <div className="mb-6 rounded-xl border border-amber-500/40 bg-gray-800 p-4 shadow">
+            <h2 className="text-lg font-semibold text-amber-300">Конфликты синхронизации</h2>
+            <p className="mb-3 text-sm text-slate-400">
+              Эти факты изменились сразу на двух устройствах. Пока сохранена ваша версия — выберите, какую оставить.
+            </p>
+            <ul className="space-y-3">
+              {conflicts.map((conflict, index) => (
+                <li
+                  key={`${conflict.groupId}-${conflict.kind === 'fact' ? conflict.factId : 'group'}-${index}`}
+                  className="rounded-lg bg-gray-900/60 p-3"
+                >
+                  <p className="text-xs uppercase tracking-wide text-slate-500">{conflict.groupName}</p>
+                  <div className="mt-2 grid gap-2 text-sm md:grid-cols-2">
+                    <div>
+                      <p className="text-xs text-slate-500">Это устройство</p>
+                      <p className="text-slate-200">{describeConflictSide(conflict, 'local')}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-slate-500">Другое устройство</p>
+                      <p className="text-slate-200">{describeConflictSide(conflict, 'remote')}</p>
+                    </div>
+                  </div>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleResolveConflict(conflict, 'local')}
+                      className="rounded-full bg-primary px-4 py-1.5 text-xs font-semibold text-slate-900 hover:bg-secondary"
+                    >
+                      Оставить моё
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleResolveConflict(conflict, 'remote')}
+                      className="rounded-full bg-slate-700 px-4 py-1.5 text-xs font-semibold text-slate-200 hover:bg-slate-600"
+                    >
+                      Взять с другого устройства
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mb-8 rounded-xl bg-gray-800 p-4 shadow">
           <h2 className="mb-4 text-xl font-semibold">Добавить группу фактов</h2>
           {errors && <p className="mb-2 text-sm text-red-500">{errors}</p>}
@@ -636,7 +732,7 @@ const handleHoldConfirm = () => {
               </div>
             </div>
             <button
-              onClick={handleAddGroup}
+              onClick={() => void handleAddGroup()}
               disabled={interactionsLocked || availableCategories.length === 0}
               className={`rounded-md px-5 py-2 text-sm font-medium transition-colors ${
                 interactionsLocked || availableCategories.length === 0
@@ -710,6 +806,23 @@ const handleHoldConfirm = () => {
                   </div>
                   {renamingGroupId !== group.id && (
                     <div className="flex items-center gap-2">
+                      <select
+                        value={factGroupVisibility(group)}
+                        disabled={interactionsLocked}
+                        onChange={(event) =>
+                          handleVisibilityChange(group.id, event.target.value as FactGroupVisibility)
+                        }
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onPointerUp={(event) => event.stopPropagation()}
+                        title="Кто видит группу на публичной странице профиля"
+                        className="rounded-full border border-gray-600 bg-gray-900 px-3 py-1 text-xs font-semibold text-gray-200 focus:border-primary focus:outline-none disabled:cursor-not-allowed disabled:text-gray-500"
+                      >
+                        {FACT_GROUP_VISIBILITIES.map((value) => (
+                          <option key={value} value={value}>
+                            {VISIBILITY_LABELS[value]}
+                          </option>
+                        ))}
+                      </select>
                       {isFinePointer && (
                         <button
                           type="button"
@@ -822,7 +935,7 @@ function FactQuickAdd({
   onLimitNotice,
   maxLength,
 }: {
-  onCommit: (value: string) => string | null;
+  onCommit: (value: string) => Promise<string | null>;
   onFocusRequest: (factId: string) => void;
   accentColor: string;
   disabled: boolean;
@@ -832,6 +945,8 @@ function FactQuickAdd({
 }) {
   const [value, setValue] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // A paid fact is charged on the server; keystrokes during that request must not commit again.
+  const committingRef = useRef(false);
   const effectiveLimit =
     typeof maxLength === 'number' && Number.isFinite(maxLength) && maxLength > 0
       ? maxLength
@@ -875,7 +990,7 @@ function FactQuickAdd({
     handleAttemptLimitNotice();
   };
 
-  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+  const handleChange = async (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     if (disabled || limitReached) {
       if (limitReached) {
         handleAttemptLimitNotice();
@@ -886,11 +1001,14 @@ function FactQuickAdd({
     const nextValue = effectiveLimit ? rawValue.slice(0, effectiveLimit) : rawValue;
     setValue(nextValue);
 
-    if (!nextValue.trim()) {
+    if (!nextValue.trim() || committingRef.current) {
       return;
     }
 
-    const newId = onCommit(nextValue);
+    committingRef.current = true;
+    const newId = await onCommit(nextValue).finally(() => {
+      committingRef.current = false;
+    });
     if (!newId) {
       return;
     }
@@ -907,7 +1025,7 @@ function FactQuickAdd({
       ref={textareaRef}
       value={value}
       rows={1}
-      onChange={handleChange}
+      onChange={(event) => void handleChange(event)}
       maxLength={effectiveLimit ?? undefined}
       onMouseDown={handleMouseDown}
       onFocus={handleFocus}
@@ -984,7 +1102,7 @@ function EditableFactRow({
     onFocusComplete();
   }, [autoFocus, onFocusComplete]);
 
-  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+  const handleChange = async (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     const raw = event.target.value;
     const next = effectiveLimit ? raw.slice(0, effectiveLimit) : raw;
     onChange(next);
@@ -1107,3 +1225,12 @@ function adjustTextareaHeight(node: HTMLTextAreaElement | null) {
   node.style.height = 'auto';
   node.style.height = `${node.scrollHeight}px`;
 }
+
+function describeConflictSide(conflict: FactConflict, side: 'local' | 'remote'): string {
+  if (conflict.kind === 'fact') {
+    return conflict[side] ?? 'Факт удалён';
+  }
+  const group = conflict[side];
+  if (!group) return 'Группа удалена';
+  return `${group.name}: ${group.facts.length} факт(ов)`;
+}
@@ -1,12 +1,21 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { useRouter } from 'next/router';
+import Link from 'next/link';
 import Layout from '../../components/Layout';
 import {
   buildGraphData,
+  CONTACTS_UPDATED_EVENT,
   loadContacts,
+  loadFactGroups,
+  type Contact,
+  type FactGroup,
   type GraphData,
 } from '../../lib/storage';
+import { REPOSITORY_CHANGED_EVENT, type RepositoryChangedDetail } from '../../lib/repository';
+import { refreshContactConnections } from '../../lib/contactSync';
+import { requestIntroduction } from '../../lib/introductionsClient';
+import { buildOwnSharePayload } from '../../lib/shareUtils';
 import type {
   ForceGraphMethods,
   NodeObject,
@@ -153,6 +162,7 @@ export default function GraphPage() {
   const containerRef = useRef<HTMLDivElement>(null);
   const fgRef = useRef<ForceGraphMethods<GraphNode, GraphLink> | undefined>(undefined);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [introTarget, setIntroTarget] = useState<{ id: string; name: string; via: Contact[] } | null>(null);
 
   const refreshGraph = useCallback(() => {
     if (typeof window === 'undefined') return;
@@ -163,20 +173,33 @@ export default function GraphPage() {
     refreshGraph();
     if (typeof window === 'undefined') return;
 
-    const handleStorage = (event: StorageEvent) => {
-      if (!event.key || event.key === 'innet_contacts') {
+    const handleRepository = (event: CustomEvent<RepositoryChangedDetail>) => {
+      if (event.detail.store === 'contacts' && event.detail.source === 'tab') {
         refreshGraph();
       }
     };
 
-    window.addEventListener('storage', handleStorage);
+    window.addEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
     window.addEventListener('focus', refreshGraph);
+    window.addEventListener(CONTACTS_UPDATED_EVENT, refreshGraph);
     return () => {
-      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
       window.removeEventListener('focus', refreshGraph);
+      window.removeEventListener(CONTACTS_UPDATED_EVENT, refreshGraph);
     };
   }, [refreshGraph]);
 
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+    // Saving refreshed connections fires CONTACTS_UPDATED_EVENT, which redraws the graph.
+    void refreshContactConnections().then((result) => {
+      if (!result.ok) {
+        console.warn('[graph] Failed to refresh connections', result.message);
+      }
+    });
+  }, []);
+
   useEffect(() => {
     const element = containerRef.current;
     if (!element) return;
@@ -202,7 +225,16 @@ export default function GraphPage() {
     (node: GraphNode) => {
       const nodeId = typeof node.id === 'number' ? String(node.id) : node.id;
       const level = typeof node.level === 'number' ? node.level : nodeId === 'me' ? 0 : 1;
-      if (!nodeId || level === 0 || level >= 2) return;
+      if (!nodeId || level === 0) return;
+      if (level >= 2) {
+        const via = loadContacts().filter((contact) =>
+          (contact.connections ?? []).some((connection) => connection.id === nodeId)
+        );
+        if (via.length) {
+          setIntroTarget({ id: nodeId, name: node.name ?? 'Контакт', via });
+        }
+        return;
+      }
       router.push(`/app/contacts/${nodeId}`);
     },
     [router]
@@ -252,7 +284,11 @@ export default function GraphPage() {
             <h1 className="text-3xl font-semibold text-slate-50">Моя сеть</h1>
             <p className="mt-1 text-sm text-slate-400">
               Карта ваших контактов занимает всё пространство — масштаб и положение подстраиваются автоматически.
+              Нажмите на друга друга, чтобы попросить познакомить вас.
             </p>
+            <Link href="/app/introductions" className="mt-2 inline-block text-sm text-primary hover:underline">
+              Запросы на знакомство →
+            </Link>
           </div>
         </div>
         <div ref={containerRef} className="relative flex-1 min-h-[360px] overflow-hidden bg-slate-950">
@@ -322,10 +358,131 @@ export default function GraphPage() {
           )}
         </div>
       </div>
+      {introTarget && (
+        <IntroductionModal
+          targetId={introTarget.id}
+          targetName={introTarget.name}
+          via={introTarget.via}
+          onClose={() => setIntroTarget(null)}
+        />
+      )}
     </Layout>
   );
 }
 
+function IntroductionModal({
+  targetId,
+  targetName,
+  via,
+  onClose,
+}: {
+  targetId: string;
+  targetName: string;
+  via: Contact[];
+  onClose: () => void;
+}) {
+  const [groups] = useState<FactGroup[]>(() => loadFactGroups());
+  const [viaId, setViaId] = useState(via[0]?.remoteId ?? '');
+  const [selected, setSelected] = useState<string[]>(() => groups.map((group) => group.id));
+  const [message, setMessage] = useState('');
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const handleToggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((gid) => gid !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = async () => {
+    setSending(true);
+    setStatus(null);
+    const payload = buildOwnSharePayload(groups.filter((group) => selected.includes(group.id)));
+    const result = await requestIntroduction(viaId, targetId, payload, message);
+    setSending(false);
+    if (!result.ok) {
+      setStatus({ type: 'error', text: result.message });
+      return;
+    }
+    const viaName = via.find((contact) => contact.remoteId === viaId)?.name ?? 'контакт';
+    setStatus({ type: 'success', text: `Запрос отправлен. ${viaName} решит, чем поделиться с ${targetName}.` });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/75 px-4">
+      <div className="w-full max-w-md rounded-xl border border-slate-700 bg-slate-900 p-6 text-slate-100 shadow-lg">
+        <h3 className="text-lg font-semibold">Познакомиться с {targetName}</h3>
+        <p className="mt-1 text-sm text-slate-400">
+          Запрос уйдёт общему знакомому. Он выберет, какие факты передать каждому из вас.
+        </p>
+        {via.length > 1 && (
+          <label className="mt-4 block space-y-1 text-sm text-slate-300">
+            <span>Через кого</span>
+            <select
+              value={viaId}
+              onChange={(event) => setViaId(event.target.value)}
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+            >
+              {via.map((contact) => (
+                <option key={contact.id} value={contact.remoteId}>
+                  {contact.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {groups.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm text-slate-300">Какие факты о себе предложить</p>
+            {groups.map((group) => (
+              <label key={group.id} className="flex items-center gap-2 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={selected.includes(group.id)}
+                  onChange={() => handleToggle(group.id)}
+                />
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} />
+                {group.name}
+              </label>
+            ))}
+          </div>
+        )}
+        <textarea
+          value={message}
+          onChange={(event) => setMessage(event.target.value.slice(0, 280))}
+          placeholder="Пара слов, зачем вы хотите познакомиться"
+          className="mt-4 h-20 w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-primary"
+        />
+        {status && (
+          <p className={`mt-3 text-sm ${status.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+            {status.text}
+          </p>
+        )}
+        <div className="mt-6 flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-primary hover:text-primary"
+          >
+            {status?.type === 'success' ? 'Закрыть' : 'Отмена'}
+          </button>
+          {status?.type !== 'success' && (
+            <button
+              type="button"
+              onClick={() => void handleSubmit()}
+              disabled={sending || !viaId}
+              className={`rounded-md px-4 py-2 text-sm font-semibold transition ${
+                sending ? 'cursor-not-allowed bg-slate-700 text-slate-400' : 'bg-primary text-slate-950 hover:bg-secondary'
+              }`}
+            >
+              {sending ? 'Отправляем...' : 'Попросить познакомить'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function EmptyState() {
   return (
     <div className="flex h-full flex-col items-center justify-center gap-6 px-6 text-center text-slate-300">
@@ -0,0 +1,202 @@
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Layout from '../../components/Layout';
+import { loadContacts } from '../../lib/storage';
+import type { SharePayload } from '../../lib/share';
+import {
+  acceptExchange,
+  declineExchanges,
+  fetchPendingExchanges,
+  readExchangePayload,
+  type RemoteExchange,
+} from '../../lib/exchangeClient';
+import { usePlan } from '../../hooks/usePlan';
+import { isUnlimited } from '../../lib/plans';
+import { spendTokensForAction } from '../../lib/tokens';
+import { formatRelative } from '../../utils/time';
+
+type Notice = { type: 'success' | 'error'; text: string };
+
+type InboxItem = {
+  exchange: RemoteExchange;
+  /** Null when the token fails to verify or decrypt; such exchanges can only be declined. */
+  payload: SharePayload | null;
+};
+
+function toInboxItem(exchange: RemoteExchange): InboxItem {
+  try {
+    return { exchange, payload: readExchangePayload(exchange) };
+  } catch (error) {
+    console.warn('[inbox] Failed to read exchange token', error);
+    return { exchange, payload: null };
+  }
+}
+
+/**
+ * Exchanges other people sent to this profile. Nothing is added to contacts
+ * until the user accepts it here (or on the QR page while it is open).
+ */
+export default function InboxPage() {
+  const [exchanges, setExchanges] = useState<RemoteExchange[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const { entitlements } = usePlan();
+
+  const items = useMemo(() => exchanges.map(toInboxItem), [exchanges]);
+
+  const loadPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    const result = await fetchPendingExchanges({ cursor });
+    setIsLoading(false);
+    if (!result.ok) {
+      setNotice({ type: 'error', text: result.message });
+      return;
+    }
+    setExchanges((prev) => {
+      const base = cursor ? prev : [];
+      const known = new Set(base.map((item) => item.id));
+      return [...base, ...result.exchanges.filter((item) => !known.has(item.id))];
+    });
+    setNextCursor(result.nextCursor);
+  }, []);
+
+  useEffect(() => {
+    void loadPage(null);
+  }, [loadPage]);
+
+  const removeExchanges = (ids: string[]) => {
+    setExchanges((prev) => prev.filter((item) => !ids.includes(item.id)));
+  };
+
+  const runWithBusy = async (ids: string[], action: () => Promise<void>) => {
+    setBusyIds((prev) => [...prev, ...ids]);
+    await action();
+    setBusyIds((prev) => prev.filter((id) => !ids.includes(id)));
+  };
+
+  const handleAccept = (item: InboxItem) =>
+    runWithBusy([item.exchange.id], async () => {
+      if (!item.payload) return;
+      const contacts = loadContacts();
+      const known = contacts.some((contact) => contact.remoteId === item.payload?.owner.id);
+      let tokenMessage = '';
+      if (!known && !isUnlimited(entitlements.contactLimit) && contacts.length >= (entitlements.contactLimit ?? 0)) {
+        const charge = await spendTokensForAction('extra-contact');
+        if (!charge.ok) {
+          setNotice({
+            type: 'error',
+            text:
+              charge.message ??
+              `Недостаточно токенов, чтобы добавить новый контакт. Нужно ${charge.cost}, на балансе ${charge.balance}.`,
+          });
+          return;
+        }
+        tokenMessage = `Списано ${charge.cost} токенов. `;
+      }
+      try {
+        const outcome = await acceptExchange(item.exchange);
+        removeExchanges([item.exchange.id]);
+        setNotice({
+          type: 'success',
+          text: outcome.wasCreated
+            ? `${tokenMessage}Контакт «${outcome.contact.name}» добавлен.`
+            : `${tokenMessage}Контакт «${outcome.contact.name}» обновлён: добавлено фактов: ${outcome.addedFacts}.`,
+        });
+      } catch (error) {
+        console.error('[inbox] Failed to accept exchange', error);
+        setNotice({ type: 'error', text: 'Не удалось добавить контакт из обмена.' });
+      }
+    });
+
+  const handleDecline = (id: string) =>
+    runWithBusy([id], async () => {
+      const result = await declineExchanges([id]);
+      if (!result.ok) {
+        setNotice({ type: 'error', text: result.message });
+        return;
+      }
+      removeExchanges([id]);
+      setNotice({ type: 'success', text: 'Обмен отклонён.' });
+    });
+
+  return (
+    <Layout>
+      <div className="px-4 py-8 mx-auto w-full max-w-4xl">
+        <h1 className="text-3xl font-bold text-slate-100">Входящие обмены</h1>
+        <p className="mt-2 text-sm text-slate-400">
+          Люди, которые отсканировали ваш QR-код и ответили своими фактами. Примите обмен, чтобы добавить
+          человека в контакты, или отклоните его.
+        </p>
+        {notice && (
+          <p className={`mt-4 text-sm ${notice.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+            {notice.text}
+          </p>
+        )}
+
+        <div className="mt-6 space-y-3">
+          {items.map(({ exchange, payload }) => {
+            const busy = busyIds.includes(exchange.id);
+            const groups = payload?.groups ?? [];
+            return (
+              <div key={exchange.id} className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+                <div className="flex items-baseline justify-between gap-3">
+                  <p className="font-semibold text-slate-100">{payload?.owner.name ?? exchange.payload.owner.name}</p>
+                  <p className="text-xs text-slate-500">{formatRelative(Date.parse(exchange.createdAt))}</p>
+                </div>
+                {payload ? (
+                  <p className="mt-1 text-sm text-slate-400">
+                    {groups.length
+                      ? `Группы фактов: ${groups.map((group) => group.name).join(', ')}`
+                      : 'Только контактные данные'}
+                    {payload.verification === 'unverified' ? ' · без подписи' : ''}
+                  </p>
+                ) : (
+                  <p className="mt-1 text-sm text-red-400">Не удалось проверить подпись или расшифровать обмен — его можно только отклонить.</p>
+                )}
+                <div className="mt-3 flex flex-col gap-2 sm:flex-row">
+                  <button
+                    type="button"
+                    disabled={busy || !payload}
+                    onClick={() => void handleAccept({ exchange, payload })}
+                    className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Принять
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void handleDecline(exchange.id)}
+                    className="rounded-md border border-slate-600 px-4 py-2 text-sm text-slate-200 transition hover:border-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    Отклонить
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {isLoading && <p className="mt-6 text-sm text-gray-400">Загружаем обмены...</p>}
+
+        {!isLoading && items.length === 0 && (
+          <p className="mt-6 text-sm text-gray-400">
+            Новых обменов нет. <Link href="/app/qr" className="text-primary hover:underline">Покажите свой QR-код</Link>,
+            чтобы люди могли ответить.
+          </p>
+        )}
+
+        {nextCursor && !isLoading && (
+          <button
+            type="button"
+            onClick={() => void loadPage(nextCursor)}
+            className="mt-6 rounded-md border border-slate-600 px-4 py-2 text-sm text-slate-200 transition hover:bg-slate-800"
+          >
+            Загрузить ещё
+          </button>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from 'react';
+import Layout from '../../components/Layout';
+import { loadContacts } from '../../lib/storage';
+import type { SharePayload } from '../../lib/share';
+import {
+  applyIntroductionDeliveries,
+  declineIntroduction,
+  fetchIntroductions,
+  forwardIntroduction,
+  type Introduction,
+} from '../../lib/introductionsClient';
+import { contactToSharePayload } from '../../lib/shareUtils';
+import { usePlan } from '../../hooks/usePlan';
+import { isUnlimited } from '../../lib/plans';
+import { spendTokensForAction } from '../../lib/tokens';
+import { formatRelative } from '../../utils/time';
+
+const STATUS_LABELS: Record<Introduction['status'], string> = {
+  pending: 'ждёт решения',
+  forwarded: 'знакомство состоялось',
+  declined: 'отклонено',
+};
+
+/**
+ * Introductions between second-degree contacts. The mutual contact picks
+ * which fact groups each side receives; forwarded contacts are merged here
+ * as soon as the page loads.
+ */
+export default function IntroductionsPage() {
+  const [introductions, setIntroductions] = useState<Introduction[]>([]);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { entitlements } = usePlan();
+
+  const canAddContact = useCallback(
+    async (payload: SharePayload) => {
+      const contacts = loadContacts();
+      if (isUnlimited(entitlements.contactLimit)) return true;
+      if (contacts.some((contact) => contact.remoteId === payload.owner.id)) return true;
+      if (contacts.length < (entitlements.contactLimit ?? 0)) return true;
+      return (await spendTokensForAction('extra-contact')).ok;
+    },
+    [entitlements.contactLimit]
+  );
+
+  const refresh = useCallback(async () => {
+    const result = await fetchIntroductions();
+    setIsLoading(false);
+    if (!result.ok) {
+      setNotice({ type: 'error', text: result.message });
+      return;
+    }
+    setIntroductions(result.introductions);
+    const merged = await applyIntroductionDeliveries(result.introductions, canAddContact);
+    if (merged.length) {
+      setNotice({
+        type: 'success',
+        text: `Новые знакомства: ${merged.map((item) => item.contact.name).join(', ')}.`,
+      });
+    }
+  }, [canAddContact]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleDecline = async (id: string) => {
+    const result = await declineIntroduction(id);
+    setNotice(result.ok ? { type: 'success', text: 'Запрос отклонён.' } : { type: 'error', text: result.message });
+    void refresh();
+  };
+
+  const handleForward = async (introduction: Introduction, requesterGroupIds: string[], targetGroupIds: string[]) => {
+    const target = loadContacts().find((contact) => contact.remoteId === introduction.targetId);
+    if (!target) {
+      setNotice({ type: 'error', text: 'Контакт, которого просят представить, не найден на этом устройстве.' });
+      return;
+    }
+    const result = await forwardIntroduction(
+      introduction.id,
+      requesterGroupIds,
+      contactToSharePayload(target, targetGroupIds)
+    );
+    setNotice(
+      result.ok
+        ? { type: 'success', text: `Вы познакомили ${introduction.requesterPayload?.owner.name ?? 'контакт'} и ${target.name}.` }
+        : { type: 'error', text: result.message }
+    );
+    void refresh();
+  };
+
+  const incoming = introductions.filter((item) => item.role === 'via' && item.status === 'pending');
+  const history = introductions.filter((item) => item.role !== 'via' || item.status !== 'pending');
+
+  return (
+    <Layout>
+      <div className="px-4 py-8 mx-auto w-full max-w-4xl">
+        <h1 className="text-3xl font-bold text-slate-100">Знакомства</h1>
+        <p className="mt-2 text-sm text-slate-400">
+          Друзья ваших друзей могут попросить вас их представить. Вы решаете, какими фактами поделиться с каждой
+          стороной.
+        </p>
+        {notice && (
+          <p className={`mt-4 text-sm ${notice.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+            {notice.text}
+          </p>
+        )}
+        {isLoading && <p className="mt-6 text-sm text-gray-400">Загружаем запросы...</p>}
+
+        {incoming.length > 0 && (
+          <section className="mt-6 space-y-4">
+            <h2 className="text-lg font-semibold text-slate-100">Просят познакомить</h2>
+            {incoming.map((introduction) => (
+              <IncomingIntroduction
+                key={introduction.id}
+                introduction={introduction}
+                onForward={handleForward}
+                onDecline={handleDecline}
+              />
+            ))}
+          </section>
+        )}
+
+        {!isLoading && history.length > 0 && (
+          <section className="mt-8 space-y-2">
+            <h2 className="text-lg font-semibold text-slate-100">История</h2>
+            {history.map((introduction) => (
+              <div key={introduction.id} className="rounded-lg border border-slate-800 bg-slate-900/60 px-4 py-3 text-sm">
+                <p className="text-slate-200">
+                  {introduction.role === 'requester'
+                    ? `Вы попросили познакомить с ${introduction.targetName ?? 'контактом'}`
+                    : introduction.role === 'target'
+                      ? 'Вас познакомили с новым человеком'
+                      : `Запрос на знакомство с ${introduction.targetName ?? 'контактом'}`}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {STATUS_LABELS[introduction.status]} · {formatRelative(Date.parse(introduction.updatedAt))}
+                </p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {!isLoading && introductions.length === 0 && (
+          <p className="mt-6 text-sm text-gray-400">
+            Запросов пока нет. Откройте «Мою сеть» и нажмите на друга друга, чтобы попросить знакомство.
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+function IncomingIntroduction({
+  introduction,
+  onForward,
+  onDecline,
+}: {
+  introduction: Introduction;
+  onForward: (introduction: Introduction, requesterGroupIds: string[], targetGroupIds: string[]) => Promise<void>;
+  onDecline: (id: string) => Promise<void>;
+}) {
+  const requesterGroups = introduction.requesterPayload?.groups ?? [];
+  const [target] = useState(() => loadContacts().find((contact) => contact.remoteId === introduction.targetId));
+  const [requesterSelection, setRequesterSelection] = useState(() => requesterGroups.map((group) => group.id));
+  const [targetSelection, setTargetSelection] = useState(() => target?.groups.map((group) => group.id) ?? []);
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter((item) => item !== id) : [...list, id];
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    await action();
+    setBusy(false);
+  };
+
+  const requesterName = introduction.requesterPayload?.owner.name ?? 'Контакт';
+  const targetName = target?.name ?? introduction.targetName ?? 'контакт';
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+      <p className="text-sm text-slate-200">
+        <span className="font-semibold">{requesterName}</span> просит познакомить с{' '}
+        <span className="font-semibold">{targetName}</span>
+      </p>
+      {introduction.message && <p className="mt-1 text-sm italic text-slate-400">«{introduction.message}»</p>}
+      <p className="text-xs text-slate-500">{formatRelative(Date.parse(introduction.createdAt))}</p>
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wide text-slate-400">Передать {targetName}</p>
+          {requesterGroups.length === 0 && <p className="text-xs text-slate-500">Фактов не предложено.</p>}
+          {requesterGroups.map((group) => (
+            <label key={group.id} className="flex items-center gap-2 text-sm text-slate-200">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={requesterSelection.includes(group.id)}
+                onChange={() => setRequesterSelection((prev) => toggle(prev, group.id))}
+              />
+              {group.name}
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wide text-slate-400">Передать {requesterName}</p>
+          {!target && <p className="text-xs text-slate-500">Контакт не найден на этом устройстве.</p>}
+          {target?.groups.map((group) => (
+            <label key={group.id} className="flex items-center gap-2 text-sm text-slate-200">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={targetSelection.includes(group.id)}
+                onChange={() => setTargetSelection((prev) => toggle(prev, group.id))}
+              />
+              {group.name}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="mt-4 flex flex-col gap-2 sm:flex-row">
+        <button
+          type="button"
+          disabled={busy || !target}
+          onClick={() => void run(() => onForward(introduction, requesterSelection, targetSelection))}
+          className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Познакомить
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => void run(() => onDecline(introduction.id))}
+          className="rounded-md border border-slate-600 px-4 py-2 text-sm text-slate-200 transition hover:border-red-400 hover:text-red-300 disabled:opacity-50"
+        >
+          Отклонить
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import Layout from '../../components/Layout';
+import { buildShareAliasUrl } from '../../lib/share';
+import {
+  SHARE_LINK_LIFETIMES,
+  fetchShareLinks,
+  revokeShareLink,
+  type ShareLinkInfo,
+} from '../../lib/shareAliasClient';
+import { formatRelative } from '../../utils/time';
+
+type Notice = { type: 'success' | 'error'; text: string };
+
+function describeLimits(link: ShareLinkInfo): string {
+  const parts = [SHARE_LINK_LIFETIMES[link.lifetime]?.label ?? link.lifetime];
+  if (link.expiresAt) {
+    parts.push(`до ${new Date(link.expiresAt).toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' })}`);
+  }
+  if (link.maxOpens != null && link.lifetime !== 'single-use') {
+    parts.push(`не больше ${link.maxOpens} открытий`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Short QR links the owner has handed out and that still open. A link shown
+ * on a slide or sent to the wrong chat can be revoked here at once.
+ */
+export default function LinksPage() {
+  const [links, setLinks] = useState<ShareLinkInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busySlugs, setBusySlugs] = useState<string[]>([]);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchShareLinks();
+    setIsLoading(false);
+    if (!result.ok) {
+      setNotice({ type: 'error', text: result.message });
+      return;
+    }
+    setLinks(result.links);
+  }, []);
+
+  useEffect(() => {
+    void loadLinks();
+  }, [loadLinks]);
+
+  const handleRevoke = async (slug: string) => {
+    setBusySlugs((prev) => [...prev, slug]);
+    const result = await revokeShareLink(slug);
+    setBusySlugs((prev) => prev.filter((item) => item !== slug));
+    if (!result.ok) {
+      setNotice({ type: 'error', text: result.message });
+      return;
+    }
+    setLinks((prev) => prev.filter((link) => link.slug !== slug));
+    setNotice({ type: 'success', text: 'Ссылка отозвана и больше не откроется.' });
+  };
+
+  return (
+    <Layout>
+      <div className="px-4 py-8 mx-auto w-full max-w-4xl">
+        <h1 className="text-3xl font-bold text-slate-100">Мои ссылки</h1>
+        <p className="mt-2 text-sm text-slate-400">
+          Короткие ссылки на ваш QR-код, которые ещё открываются. Мы храним только время открытия и тип
+          устройства — без IP-адресов и имён.
+        </p>
+        {notice && (
+          <p className={`mt-4 text-sm ${notice.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+            {notice.text}
+          </p>
+        )}
+
+        <div className="mt-6 space-y-3">
+          {links.map((link) => {
+            const busy = busySlugs.includes(link.slug);
+            return (
+              <div key={link.slug} className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+                <div className="flex items-baseline justify-between gap-3">
+                  <p className="break-all font-mono text-sm text-slate-100">{buildShareAliasUrl(link.slug)}</p>
+                  <p className="shrink-0 text-xs text-slate-500">{formatRelative(Date.parse(link.createdAt))}</p>
+                </div>
+                <p className="mt-1 text-sm text-slate-400">{describeLimits(link)}</p>
+                <p className="mt-1 text-sm text-slate-300">Открыли: {link.openCount}</p>
+                {link.recentOpens.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                    {link.recentOpens.map((open) => (
+                      <li key={`${open.openedAt}-${open.device}`}>
+                        {formatRelative(Date.parse(open.openedAt))} — {open.device}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void handleRevoke(link.slug)}
+                  className="mt-3 rounded-md border border-slate-600 px-4 py-2 text-sm text-slate-200 transition hover:border-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Отозвать
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {isLoading && <p className="mt-6 text-sm text-gray-400">Загружаем ссылки...</p>}
+
+        {!isLoading && links.length === 0 && (
+          <p className="mt-6 text-sm text-gray-400">
+            Активных ссылок нет. <Link href="/app/qr" className="text-primary hover:underline">Откройте свой QR-код</Link>,
+            чтобы создать новую.
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -7,10 +7,56 @@ import { syncProfileToSupabase } from '../../lib/profileSync';
 import { usePlan } from '../../hooks/usePlan';
 import { usePrivacy, PrivacyLevel } from '../../hooks/usePrivacy';
 import { useReminders } from '../../hooks/useReminders';
+import { storeSubscription, useSubscription } from '../../hooks/useSubscription';
 import { formatRelative } from '../../utils/time';
 import { isEmail } from '../../utils/contact';
 import { recoverSupabaseEmailAndUpdateLocal } from '../../lib/userEmailRecovery';
 import { updateRemoteAccount } from '../../lib/accountRemote';
+import {
+  downloadBackup,
+  parseBackupArchive,
+  restoreBackupArchive,
+  summarizeBackup,
+  type BackupArchive,
+  type BackupRestoreMode,
+} from '../../lib/backup';
+import {
+  cancelSubscription,
+  fetchBillingHistory,
+  fetchSubscription,
+  requestRefund,
+  type BillingHistoryEntry,
+} from '../../lib/payments/client';
+import { PLAN_REFUND_WINDOW_DAYS, type PlanProduct } from '../../lib/plans';
+import { findTokenPack } from '../../lib/tokens';
+import {
+  fetchReferralStats,
+  REFERRAL_REWARD_PRO_DAYS,
+  REFERRAL_REWARD_TOKENS,
+  type ReferralStats,
+} from '../../lib/referralsClient';
+import {
+  fetchPublicProfileSettings,
+  normalizeHandle,
+  publicProfilePath,
+  removePublicProfile,
+  savePublicProfile,
+  type PublicProfileSettings,
+} from '../../lib/publicProfileClient';
+import {
+  isServerReminderChannel,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_CHANNELS,
+  type ReminderChannel,
+} from '../../lib/reminders';
+import {
+  fetchReminderDelivery,
+  saveReminderDelivery,
+  subscribeToReminderPush,
+  updateReminderCalendarFeed,
+  type ReminderCalendarAction,
+  type ReminderDelivery,
+} from '../../lib/remindersRemote';
 
 type ProfileInfo = {
   id: string;
@@ -39,6 +85,22 @@ const PRESET_AVATAR_LABELS: Record<string, string> = {
   midnight: 'Midnight',
 };
 
+const PLAN_PRODUCT_LABELS: Record<PlanProduct, string> = {
+  'pro-monthly': 'Pro на месяц',
+  'pro-annual': 'Pro на год',
+};
+
+const BILLING_STATUS_LABELS: Record<BillingHistoryEntry['status'], string> = {
+  created: 'Создан',
+  pending: 'Ожидает оплаты',
+  waiting_for_capture: 'Ожидает подтверждения',
+  succeeded: 'Оплачен',
+  canceled: 'Отменён',
+  refunded: 'Возвращён',
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
 const PRIVACY_COPY: Record<PrivacyLevel, { title: string; description: string }> = {
   public: {
     title: 'Показывать всем',
@@ -101,6 +163,10 @@ export default function ProfilePage() {
   } | null>(null);
   const [isSavingReminders, setIsSavingReminders] = useState(false);
   const [isTestingReminder, setIsTestingReminder] = useState(false);
+  const [compressBackup, setCompressBackup] = useState(true);
+  const [pendingBackup, setPendingBackup] = useState<BackupArchive | null>(null);
+  const [backupFeedback, setBackupFeedback] =
+    useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   useEffect(() => {
     setReminderEnabled(reminderSettings.enabled);
@@ -487,14 +553,24 @@ const persistAvatar = useCallback(
     setReminderValue(normalizedValue);
     setIsSavingReminders(true);
     try {
+      const cadence = { value: normalizedValue, unit: reminderUnit };
       updateReminderSettings((prev) => ({
         ...prev,
         enabled: reminderEnabled,
-        cadence: {
-          value: normalizedValue,
-          unit: reminderUnit,
-        },
+        cadence,
       }));
+      // The server schedules deliveries with its own copy of the cadence.
+      const channel = reminderSettings.channel;
+      if (channel && isServerReminderChannel(channel)) {
+        const result = await saveReminderDelivery({
+          channel,
+          settings: { ...reminderSettings, enabled: reminderEnabled, cadence },
+        });
+        if (!result.ok) {
+          setReminderFeedback({ type: 'error', text: result.message });
+          return;
+        }
+      }
       let permissionState = reminderPermission;
       if (reminderEnabled && permissionState === 'default') {
         permissionState = await ensureReminderPermission();
@@ -524,6 +600,7 @@ const persistAvatar = useCallback(
     ensureReminderPermission,
     reminderEnabled,
     reminderPermission,
+    reminderSettings,
     reminderUnit,
     reminderValue,
     updateReminderSettings,
@@ -563,6 +640,60 @@ const persistAvatar = useCallback(
     }
   }, [ensureReminderPermission, reminderPermission, triggerTestReminder]);
 
+  const handleDownloadBackup = () => {
+    setBackupFeedback(null);
+    try {
+      downloadBackup({ compress: compressBackup });
+    } catch (error) {
+      console.error('[profile] Failed to create backup', error);
+      setBackupFeedback({ type: 'error', text: 'Не удалось создать резервную копию.' });
+    }
+  };
+
+  const handleBackupFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setBackupFeedback(null);
+    setPendingBackup(null);
+
+    let bytes: Uint8Array;
+    try {
+      bytes = new Uint8Array(await file.arrayBuffer());
+    } catch (error) {
+      console.error('[profile] Failed to read backup file', error);
+      setBackupFeedback({ type: 'error', text: 'Не удалось прочитать файл.' });
+      return;
+    }
+
+    const result = parseBackupArchive(bytes);
+    if (!result.ok) {
+      setBackupFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    setPendingBackup(result.archive);
+  };
+
+  const handleRestoreBackup = (mode: BackupRestoreMode) => {
+    if (!pendingBackup) return;
+    if (
+      mode === 'replace' &&
+      !window.confirm('Все данные на этом устройстве будут заменены данными из копии. Продолжить?')
+    ) {
+      return;
+    }
+    try {
+      restoreBackupArchive(pendingBackup, mode);
+      // Hooks read their state once on mount, so reload to pick up the restored keys.
+      window.location.reload();
+    } catch (error) {
+      console.error('[profile] Failed to restore backup', error);
+      setBackupFeedback({ type: 'error', text: 'Не удалось восстановить данные из копии.' });
+    }
+  };
+
+  const pendingBackupSummary = pendingBackup ? summarizeBackup(pendingBackup) : null;
+
   const handleSaveContacts = () => {
     if (!profile) return;
     setContactsFeedback(null);
@@ -644,7 +775,6 @@ const persistAvatar = useCallback(
 
       if (isEmail(profile.email)) {
         void syncProfileToSupabase({
-          email: profile.email,
           name: profile.name,
           surname: profile.surname,
           phone: phoneValue || undefined,
@@ -948,6 +1078,7 @@ const persistAvatar = useCallback(
                   {isTestingReminder ? 'Запускаем...' : 'Запустить тест'}
                 </button>
               </div>
+              <ReminderChannelSection />
             </section>
 
             <section className="rounded-xl bg-gray-800 p-6 shadow space-y-4">
@@ -1027,6 +1158,96 @@ const persistAvatar = useCallback(
                 </button>
               </div>
             </section>
+
+            <section className="rounded-xl bg-gray-800 p-6 shadow space-y-4">
+              <h3 className="text-xl font-semibold">Резервная копия</h3>
+              <p className="text-sm text-gray-400">
+                Сохраните факты, контакты, напоминания и настройки в один файл, чтобы перенести их на другое
+                устройство или восстановить после очистки браузера. Храните файл в надёжном месте — в нём есть
+                ключи подписи ваших QR-кодов.
+              </p>
+              {backupFeedback && (
+                <div
+                  className={`rounded-md border px-4 py-3 text-sm ${
+                    backupFeedback.type === 'success'
+                      ? 'border-emerald-500/40 bg-emerald-500/10 text-emerald-100'
+                      : 'border-red-500/40 bg-red-500/10 text-red-200'
+                  }`}
+                >
+                  {backupFeedback.text}
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={compressBackup}
+                  onChange={(event) => setCompressBackup(event.target.checked)}
+                />
+                <span>Сжать файл (.json.gz)</span>
+              </label>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                  type="button"
+                  onClick={handleDownloadBackup}
+                  className="w-full sm:w-auto rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary"
+                >
+                  Скачать копию
+                </button>
+                <label className="w-full sm:w-auto cursor-pointer rounded-md border border-primary/60 px-4 py-2 text-center text-sm font-medium text-primary transition-colors hover:bg-primary/10">
+                  Восстановить из файла
+                  <input
+                    type="file"
+                    accept=".json,.gz,application/json,application/gzip"
+                    onChange={(event) => void handleBackupFile(event)}
+                    className="sr-only"
+                  />
+                </label>
+              </div>
+              {pendingBackupSummary && (
+                <div className="rounded-md bg-gray-900/40 px-4 py-3 text-sm text-gray-300 space-y-3">
+                  <p>
+                    Копия от {new Date(pendingBackupSummary.exportedAt).toLocaleString()}:{' '}
+                    {formatPlural(pendingBackupSummary.factGroups, 'группа фактов', 'группы фактов', 'групп фактов')},{' '}
+                    {formatPlural(pendingBackupSummary.contacts, 'контакт', 'контакта', 'контактов')},{' '}
+                    {formatPlural(pendingBackupSummary.settings, 'настройка', 'настройки', 'настроек')}.
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    «Объединить» добавит недостающее и оставит более свежие версии контактов. «Заменить» удалит
+                    текущие данные на этом устройстве.
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleRestoreBackup('merge')}
+                      className="w-full sm:w-auto rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary"
+                    >
+                      Объединить
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRestoreBackup('replace')}
+                      className="w-full sm:w-auto rounded-md border border-red-500/60 px-4 py-2 text-sm font-medium text-red-200 transition-colors hover:bg-red-500/10"
+                    >
+                      Заменить
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPendingBackup(null)}
+                      className="w-full sm:w-auto rounded-md border border-gray-600 px-4 py-2 text-sm font-medium text-gray-300 transition-colors hover:border-primary hover:text-primary"
+                    >
+                      Отмена
+                    </button>
+                  </div>
+                </div>
+              )}
+            </section>
+
+            <PublicProfileSection privacy={privacyLevel} />
+
+            <ReferralSection />
+
+            <BillingSection />
           </div>
         )}
       </div>
@@ -1044,6 +1265,516 @@ const persistAvatar = useCallback(
   );
 }
 
+function ReminderChannelSection() {
+  const { settings, updateSettings } = useReminders();
+  const [delivery, setDelivery] = useState<ReminderDelivery | null>(null);
+  const [channelDraft, setChannelDraft] = useState<ReminderChannel>('browser');
+  const [emailDraft, setEmailDraft] = useState('');
+  const [telegramLink, setTelegramLink] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [calendarCopied, setCalendarCopied] = useState(false);
+
+  useEffect(() => {
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+    void fetchReminderDelivery().then((result) => {
+      if (!result.ok) return;
+      setDelivery(result.delivery);
+      setChannelDraft(result.delivery.channel);
+      setEmailDraft(result.delivery.email ?? '');
+      // The feed may have been turned on from another device; keep schedules flowing to it.
+      const calendarFeed = Boolean(result.delivery.calendarFeedUrl);
+      updateSettings((prev) => (prev.calendarFeed === calendarFeed ? prev : { ...prev, calendarFeed }));
+    });
+  }, [updateSettings]);
+
+  const handleCalendar = async (action: ReminderCalendarAction) => {
+    if (action === 'rotate' && !window.confirm('Старая ссылка перестанет работать во всех календарях. Продолжить?')) {
+      return;
+    }
+    setBusy(true);
+    setFeedback(null);
+    setCalendarCopied(false);
+    const result = await updateReminderCalendarFeed(action);
+    setBusy(false);
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    setDelivery(result.delivery);
+    updateSettings((prev) => ({ ...prev, calendarFeed: Boolean(result.delivery.calendarFeedUrl) }));
+  };
+
+  const handleCopyCalendar = async () => {
+    if (!delivery?.calendarFeedUrl) return;
+    try {
+      await navigator.clipboard.writeText(delivery.calendarFeedUrl);
+      setCalendarCopied(true);
+    } catch {
+      setFeedback({ type: 'error', text: 'Не удалось скопировать ссылку. Выделите её вручную.' });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!delivery) return;
+    setFeedback(null);
+    setTelegramLink(null);
+    let subscription: PushSubscriptionJSON | undefined;
+    if (channelDraft === 'push') {
+      if (!delivery.vapidPublicKey) {
+        setFeedback({ type: 'error', text: 'Push-уведомления пока не настроены на сервере.' });
+        return;
+      }
+      if ('Notification' in window && Notification.permission !== 'granted') {
+        const permission = await Notification.requestPermission();
+        if (permission !== 'granted') {
+          setFeedback({ type: 'error', text: 'Разрешите уведомления для сайта в настройках браузера.' });
+          return;
+        }
+      }
+      const subscribed = await subscribeToReminderPush(delivery.vapidPublicKey);
+      if (!subscribed.ok) {
+        setFeedback({ type: 'error', text: subscribed.message });
+        return;
+      }
+      subscription = subscribed.subscription;
+    }
+    const email = emailDraft.trim();
+    if (channelDraft === 'email' && !isEmail(email)) {
+      setFeedback({ type: 'error', text: 'Укажите корректную почту для напоминаний.' });
+      return;
+    }
+    setBusy(true);
+    const result = await saveReminderDelivery({
+      channel: channelDraft,
+      settings: { ...settings, channel: channelDraft },
+      email: channelDraft === 'email' ? email : undefined,
+      subscription,
+    });
+    setBusy(false);
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    setDelivery(result.delivery);
+    updateSettings((prev) => ({ ...prev, channel: channelDraft }));
+    setTelegramLink(result.telegramLink);
+    setFeedback({
+      type: 'success',
+      text: result.telegramLink
+        ? 'Откройте бота и нажмите «Start», чтобы он мог присылать напоминания.'
+        : isServerReminderChannel(channelDraft)
+          ? 'Напоминания будут приходить, даже когда приложение закрыто.'
+          : 'Напоминания будут появляться, пока открыта вкладка с приложением.',
+    });
+  };
+
+  if (!delivery) return null;
+
+  return (
+    <div className="space-y-3 border-t border-gray-700 pt-4">
+      <h4 className="text-sm font-semibold text-gray-200">Куда присылать напоминания</h4>
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <select
+          value={channelDraft}
+          onChange={(event) => setChannelDraft(event.target.value as ReminderChannel)}
+          className="w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary sm:w-60"
+        >
+          {REMINDER_CHANNELS.map((channel) => (
+            <option
+              key={channel}
+              value={channel}
+              disabled={channel !== 'browser' && !delivery.available[channel]}
+            >
+              {REMINDER_CHANNEL_LABELS[channel]}
+            </option>
+          ))}
+        </select>
+        {channelDraft === 'email' && (
+          <input
+            type="email"
+            value={emailDraft}
+            onChange={(event) => setEmailDraft(event.target.value)}
+            placeholder="you@example.com"
+            className="w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary sm:w-60"
+          />
+        )}
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => void handleSave()}
+          className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary disabled:opacity-50"
+        >
+          {busy ? 'Сохраняем...' : 'Сохранить'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        {delivery.channel === 'telegram' && delivery.telegramLinked
+          ? 'Telegram подключён. '
+          : delivery.channel === 'push' && delivery.pushSubscribed
+            ? 'Push-уведомления включены на этом аккаунте. '
+            : ''}
+        Из уведомления можно отметить «Готово» или отложить напоминание на несколько дней.
+      </p>
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-200">Календарь</h4>
+        <p className="text-xs text-gray-400">
+          Секретная ссылка для Google Calendar, Outlook или Apple Calendar: каждое напоминание появится событием со
+          ссылкой на карточку контакта. Не делитесь ссылкой — по ней видны имена ваших контактов.
+        </p>
+        {delivery.calendarFeedUrl ? (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <input
+              type="text"
+              readOnly
+              value={delivery.calendarFeedUrl}
+              onFocus={(event) => event.target.select()}
+              className="w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-300 focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              type="button"
+              onClick={() => void handleCopyCalendar()}
+              className="rounded-md border border-primary/60 px-3 py-2 text-xs font-medium text-primary transition-colors hover:bg-primary/10"
+            >
+              {calendarCopied ? 'Скопировано' : 'Копировать'}
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void handleCalendar('rotate')}
+              className="text-xs text-gray-300 hover:underline disabled:opacity-50"
+            >
+              Новая ссылка
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void handleCalendar('disable')}
+              className="text-xs text-red-300 hover:underline disabled:opacity-50"
+            >
+              Отключить
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void handleCalendar('enable')}
+            className="rounded-md border border-primary/60 px-4 py-2 text-sm font-medium text-primary transition-colors hover:bg-primary/10 disabled:opacity-50"
+          >
+            Получить ссылку на календарь
+          </button>
+        )}
+      </div>
+      {feedback && (
+        <p className={`text-sm ${feedback.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+          {feedback.text}{' '}
+          {telegramLink && (
+            <a href={telegramLink} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+              Открыть бота
+            </a>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function PublicProfileSection({ privacy }: { privacy: PrivacyLevel }) {
+  const [settings, setSettings] = useState<PublicProfileSettings | null>(null);
+  const [factsSynced, setFactsSynced] = useState(true);
+  const [handleDraft, setHandleDraft] = useState('');
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [available, setAvailable] = useState(false);
+
+  useEffect(() => {
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+    void fetchPublicProfileSettings().then((result) => {
+      if (!result.ok) return;
+      setAvailable(true);
+      setSettings(result.settings);
+      setFactsSynced(result.factsSynced);
+      setHandleDraft(result.settings?.handle ?? '');
+    });
+  }, []);
+
+  // The page is rendered with the privacy level published here, so keep it current.
+  useEffect(() => {
+    if (!settings || settings.privacy === privacy) return;
+    void savePublicProfile({ handle: settings.handle, privacy }).then((result) => {
+      if (result.ok) setSettings(result.settings);
+    });
+  }, [privacy, settings]);
+
+  const handleSave = async () => {
+    const handle = normalizeHandle(handleDraft);
+    if (!handle) {
+      setFeedback({
+        type: 'error',
+        text: 'Адрес: от 3 до 30 латинских букв, цифр, «-» или «_», начиная с буквы или цифры.',
+      });
+      return;
+    }
+    setBusy(true);
+    setFeedback(null);
+    const result = await savePublicProfile({ handle, privacy });
+    setBusy(false);
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    setSettings(result.settings);
+    setHandleDraft(result.settings.handle);
+    setFeedback({ type: 'success', text: 'Адрес сохранён.' });
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm('Удалить публичную страницу? Адрес освободится, и ссылка перестанет открываться.')) return;
+    setBusy(true);
+    setFeedback(null);
+    const result = await removePublicProfile();
+    setBusy(false);
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    setSettings(null);
+    setHandleDraft('');
+    setFeedback({ type: 'success', text: 'Публичная страница удалена.' });
+  };
+
+  if (!available) return null;
+
+  return (
+    <section className="rounded-xl bg-gray-800 p-6 shadow space-y-3">
+      <h3 className="text-xl font-semibold">Публичная страница</h3>
+      <p className="text-sm text-gray-400">
+        Постоянный адрес для бейджа или подписи: страница показывает ваши актуальные факты. Какие группы видны всем, а
+        какие только контактам, выбирается в разделе «Мои факты»; уровень приватности действует и здесь.
+      </p>
+      {!factsSynced && (
+        <p className="text-sm text-amber-300">
+          Включите синхронизацию в разделе «Мои факты» — без неё факты на страницу не попадут.
+        </p>
+      )}
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <span className="text-sm text-gray-400">/u/</span>
+        <input
+          type="text"
+          value={handleDraft}
+          onChange={(event) => setHandleDraft(event.target.value)}
+          placeholder="ivan-petrov"
+          maxLength={31}
+          className="w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary sm:w-60"
+        />
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => void handleSave()}
+          className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary disabled:opacity-50"
+        >
+          {settings ? 'Сменить адрес' : 'Занять адрес'}
+        </button>
+      </div>
+      {settings && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <a
+            href={publicProfilePath(settings.handle)}
+            target="_blank"
+            rel="noreferrer"
+            className="text-primary hover:underline"
+          >
+            {`${window.location.origin}${publicProfilePath(settings.handle)}`}
+          </a>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void handleRemove()}
+            className="text-red-300 hover:underline disabled:opacity-50"
+          >
+            Удалить страницу
+          </button>
+        </div>
+      )}
+      {feedback && (
+        <p className={`text-sm ${feedback.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+          {feedback.text}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function ReferralSection() {
+  const [stats, setStats] = useState<ReferralStats | null>(null);
+
+  useEffect(() => {
+    if (localStorage.getItem('innet_logged_in') !== 'true') return;
+    void fetchReferralStats().then((result) => {
+      if (result.ok) setStats(result.stats);
+    });
+  }, []);
+
+  return (
+    <section className="rounded-xl bg-gray-800 p-6 shadow space-y-3">
+      <h3 className="text-xl font-semibold">Приглашения</h3>
+      <p className="text-sm text-gray-400">
+        Когда человек сканирует ваш QR-код, регистрируется в пару кликов и подтверждает почту, вы получаете{' '}
+        {REFERRAL_REWARD_TOKENS} токенов, а при подписке Pro — {REFERRAL_REWARD_PRO_DAYS} дней Pro.
+      </p>
+      {stats && (
+        <p className="text-sm text-gray-300">
+          Пришли по вашему коду: {stats.invited} · награда получена за {stats.rewarded}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function BillingSection() {
+  const subscription = useSubscription();
+  const [payments, setPayments] = useState<BillingHistoryEntry[] | null>(null);
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    const result = await fetchBillingHistory();
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      setPayments([]);
+      return;
+    }
+    setPayments(result.payments);
+  }, []);
+
+  useEffect(() => {
+    if (localStorage.getItem('innet_logged_in') !== 'true') {
+      setPayments([]);
+      return;
+    }
+    void loadHistory();
+  }, [loadHistory]);
+
+  const handleCancel = async () => {
+    if (!window.confirm('Отключить автопродление? Pro останется до конца оплаченного периода.')) return;
+    setBusyId('subscription');
+    setFeedback(null);
+    const result = await cancelSubscription();
+    setBusyId(null);
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    storeSubscription(result.subscription);
+    setFeedback({
+      type: 'success',
+      text: result.subscription
+        ? `Автопродление отключено. Pro действует до ${new Date(result.subscription.currentPeriodEnd).toLocaleDateString('ru-RU')}.`
+        : 'Автопродление отключено.',
+    });
+  };
+
+  const handleRefund = async (payment: BillingHistoryEntry) => {
+    if (!window.confirm(`Вернуть ${payment.amount} ₽? Оплаченный этим платежом период будет отменён.`)) return;
+    setBusyId(payment.paymentId);
+    setFeedback(null);
+    const result = await requestRefund(payment.paymentId);
+    setBusyId(null);
+    if (!result.ok) {
+      setFeedback({ type: 'error', text: result.message });
+      return;
+    }
+    setFeedback({
+      type: 'success',
+      text:
+        result.status === 'refunded'
+          ? 'Деньги возвращены на карту, обычно они приходят в течение нескольких дней.'
+          : 'Возврат оформлен, ЮKassa подтвердит его в ближайшее время.',
+    });
+    const refreshed = await fetchSubscription();
+    if (refreshed.ok) storeSubscription(refreshed.subscription);
+    await loadHistory();
+  };
+
+  const now = Date.now();
+  const canCancel = subscription != null && subscription.status !== 'canceled' && subscription.status !== 'expired';
+
+  return (
+    <section className="rounded-xl bg-gray-800 p-6 shadow space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Платежи</h3>
+          <p className="text-sm text-gray-400">
+            Подписки и пакеты токенов. Оплату подписки можно вернуть в течение {PLAN_REFUND_WINDOW_DAYS} дней.
+          </p>
+        </div>
+        {canCancel && (
+          <button
+            type="button"
+            onClick={() => void handleCancel()}
+            disabled={busyId === 'subscription'}
+            className="w-full sm:w-auto rounded-md border border-red-500/60 px-4 py-2 text-sm font-medium text-red-200 transition-colors hover:bg-red-500/10 disabled:opacity-60"
+          >
+            {busyId === 'subscription' ? 'Отключаем...' : 'Отключить автопродление'}
+          </button>
+        )}
+      </div>
+      {feedback && (
+        <div
+          className={`rounded-md border px-4 py-3 text-sm ${
+            feedback.type === 'success'
+              ? 'border-emerald-500/40 bg-emerald-500/10 text-emerald-100'
+              : 'border-red-500/40 bg-red-500/10 text-red-200'
+          }`}
+        >
+          {feedback.text}
+        </div>
+      )}
+      {payments === null ? (
+        <p className="text-sm text-gray-400">Загружаем платежи...</p>
+      ) : payments.length === 0 ? (
+        <p className="text-sm text-gray-400">Платежей пока не было.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {payments.map((payment) => {
+            const title = payment.planId
+              ? PLAN_PRODUCT_LABELS[payment.planId]
+              : findTokenPack(payment.packId)?.name ?? 'Пакет токенов';
+            const refundable =
+              payment.planId != null &&
+              payment.status === 'succeeded' &&
+              now - Date.parse(payment.createdAt) <= PLAN_REFUND_WINDOW_DAYS * DAY_IN_MS;
+            return (
+              <li key={payment.paymentId} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="text-sm">
+                  <p className="font-medium text-white">
+                    {title} · {payment.amount} {payment.currency === 'RUB' ? '₽' : payment.currency}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {new Date(payment.createdAt).toLocaleString('ru-RU')} · {BILLING_STATUS_LABELS[payment.status]}
+                    {payment.refundedAt && ` ${new Date(payment.refundedAt).toLocaleDateString('ru-RU')}`}
+                  </p>
+                </div>
+                {refundable && (
+                  <button
+                    type="button"
+                    onClick={() => void handleRefund(payment)}
+                    disabled={busyId === payment.paymentId}
+                    className="w-full sm:w-auto rounded-md border border-gray-600 px-4 py-2 text-sm font-medium text-gray-300 transition-colors hover:border-primary hover:text-primary disabled:opacity-60"
+                  >
+                    {busyId === payment.paymentId ? 'Оформляем...' : 'Вернуть деньги'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
 function pluralWord(value: number, one: string, two: string, many: string): string {
   const mod10 = value % 10;
   const mod100 = value % 100;
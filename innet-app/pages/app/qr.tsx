@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { FormEvent, RefObject } from 'react';
 import { useRouter } from 'next/router';
+import Link from 'next/link';
 import QRCode from 'react-qr-code';
 import Layout from '../../components/Layout';
 import ToggleBar from '../../components/ToggleBar';
@@ -20,24 +21,48 @@ import {
 import {
   generateShareToken,
   getOrCreateProfileId,
-  mergeContactFromShare,
   ShareGroup,
   SHARE_PREFIX,
+  SHARE_VERSION,
   buildShareUrl,
 } from '../../lib/share';
-import { fetchPendingExchanges } from '../../lib/exchangeClient';
+import { acceptExchange, fetchPendingExchanges } from '../../lib/exchangeClient';
+import { syncShareKeys } from '../../lib/shareKeysClient';
 import { v4 as uuidv4 } from 'uuid';
 import { usePlan } from '../../hooks/usePlan';
 import { usePrivacy } from '../../hooks/usePrivacy';
+import { useSharePresets } from '../../hooks/useSharePresets';
 import { isUnlimited } from '../../lib/plans';
+import { mapPrivacyLevel, sanityCheckPrivacyLevel, type PrivacyLevel } from '../../lib/privacy';
 import { ShareProfile, loadShareProfile, SHARE_PROFILE_STORAGE_KEYS } from '../../lib/shareProfile';
 import { groupToShare, syncSelection } from '../../lib/shareUtils';
-import { createShareAliasLink } from '../../lib/shareAliasClient';
+import {
+  DEFAULT_SHARE_LINK_OPTIONS,
+  SHARE_LINK_LIFETIMES,
+  createShareAliasLink,
+  fetchShareLinks,
+  isShareLinkLifetime,
+  type ShareLinkOptions,
+} from '../../lib/shareAliasClient';
+import {
+  SHARE_PRESET_FIELD_LABELS,
+  SHARE_PRESET_FIELDS,
+  SHARE_PRESET_LIMIT,
+  SHARE_PRESET_NAME_MAX,
+  applySharePreset,
+  createSharePreset,
+  type SharePreset,
+} from '../../lib/sharePresets';
+import { REPOSITORY_CHANGED_EVENT, type RepositoryChangedDetail } from '../../lib/repository';
 import { spendTokensForAction } from '../../lib/tokens';
+import { downloadVCard, profileToVCard, vCardFileName } from '../../lib/vcard';
 
 const RESPONSE_OVERLAY_CLOSE_DELAY = 80;
 const EXCHANGE_POLL_INTERVAL = 5000;
+const EXCHANGE_POLL_BATCH = 5;
 const QR_VALUE_SAFE_LIMIT = 2953;
+const SHARE_LINK_POLL_INTERVAL = 30000;
+const SHARE_LINK_OPTIONS_KEY = 'innet_share_link_options';
 
 type LinkState = {
   link: string;
@@ -45,6 +70,17 @@ type LinkState = {
   pending: boolean;
 };
 
+type ShareLinkStats = {
+  slug: string;
+  openCount: number | null;
+};
+
+const PRIVACY_LABELS: Record<PrivacyLevel, string> = {
+  public: 'Всем',
+  'second-degree': 'Друзьям и их друзьям',
+  'direct-only': 'Только прямым контактам',
+};
+
 type ManualNotice = {
   type: 'success' | 'error';
   message: string;
@@ -69,18 +105,28 @@ export default function QRPage() {
     message: string;
   } | null>(null);
   const [exchangeError, setExchangeError] = useState<string | null>(null);
+  // 'vcard' shows a plain contact card for people without InNet.
+  const [qrMode, setQrMode] = useState<'innet' | 'vcard'>('innet');
   const [shareLinkState, setShareLinkState] = useState<LinkState>({
     link: '',
     overflow: false,
     pending: false,
   });
+  const [linkOptions, setLinkOptions] = useState<ShareLinkOptions>(DEFAULT_SHARE_LINK_OPTIONS);
+  const [shareLinkStats, setShareLinkStats] = useState<ShareLinkStats | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  // Bumped when the current link stops opening, so a fresh one is issued.
+  const [shareLinkGeneration, setShareLinkGeneration] = useState(0);
   const [responseLinkState, setResponseLinkState] = useState<LinkState>({
     link: '',
     overflow: false,
     pending: false,
   });
   const { entitlements } = usePlan();
-  const { level: privacyLevel } = usePrivacy(entitlements);
+  const { level: privacyLevel, options: privacyOptions } = usePrivacy(entitlements);
+  const { presets, activePreset, setActiveId: setActivePresetId, savePreset, removePreset } = useSharePresets();
+  // Preset being created or edited; not yet saved while the editor is open.
+  const [presetDraft, setPresetDraft] = useState<SharePreset | null>(null);
   const [contacts, setContacts] = useState(loadContacts());
   const isContactLimitExceeded = useCallback(
     (remoteId?: string) => {
@@ -102,11 +148,13 @@ export default function QRPage() {
 
   useEffect(() => {
     setProfile(loadShareProfile());
-    setProfileId(getOrCreateProfileId());
+    // Sign with the account's key from the first QR on, not a device key replaced moments later.
+    void syncShareKeys().finally(() => setProfileId(getOrCreateProfileId()));
     const loadedGroups = loadFactGroups();
     setGroups(loadedGroups);
     setSelectedGroups(loadedGroups.map((group) => group.id));
     setContacts(loadContacts());
+    setLinkOptions(loadLinkOptions());
     setIsReady(true);
   }, []);
 
@@ -127,23 +175,28 @@ export default function QRPage() {
         setContacts(loadContacts());
         return;
       }
-      if (event.key === 'innet_fact_groups') {
+      if (SHARE_PROFILE_STORAGE_KEYS.includes(event.key)) {
+        updateProfile();
+      }
+    };
+    const handleRepository = (event: CustomEvent<RepositoryChangedDetail>) => {
+      if (event.detail.source !== 'tab') return;
+      if (event.detail.store === 'factGroups') {
         updateGroups();
       }
-      if (event.key === 'innet_contacts') {
+      if (event.detail.store === 'contacts') {
         setContacts(loadContacts());
       }
-      if (event.key && SHARE_PROFILE_STORAGE_KEYS.includes(event.key)) {
-        updateProfile();
-      }
     };
     const handleProfileEvent = () => updateProfile();
 
     window.addEventListener('storage', handleStorage);
+    window.addEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
     window.addEventListener('innet-profile-updated', handleProfileEvent as EventListener);
     window.addEventListener('focus', handleProfileEvent as EventListener);
     return () => {
       window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
       window.removeEventListener('innet-profile-updated', handleProfileEvent as EventListener);
       window.removeEventListener('focus', handleProfileEvent as EventListener);
     };
@@ -154,19 +207,21 @@ export default function QRPage() {
     setResponseSelection((prev) => syncSelection(prev, groups));
   }, [groups]);
 
+  // An active preset keeps its own group choice; without one the toggles below apply.
+  const shareSelection = activePreset ? activePreset.groupIds : selectedGroups;
+  const sharePrivacy = activePreset
+    ? sanityCheckPrivacyLevel(activePreset.privacy, entitlements)
+    : privacyLevel;
+
   const shareGroups = useMemo<ShareGroup[]>(() => {
     return groups
-      .filter((group) => selectedGroups.includes(group.id))
+      .filter((group) => shareSelection.includes(group.id))
       .map(groupToShare);
-  }, [groups, selectedGroups]);
-
-  const ownerContact = useMemo(
-    () => ({
-      phone: privacyLevel === 'direct-only' ? undefined : profile.phone,
-      telegram: privacyLevel === 'direct-only' ? undefined : profile.telegram,
-      instagram: privacyLevel === 'direct-only' ? undefined : profile.instagram,
-    }),
-    [privacyLevel, profile.instagram, profile.phone, profile.telegram]
+  }, [groups, shareSelection]);
+
+  const shareOwner = useMemo(
+    () => applySharePreset(profile, activePreset, sharePrivacy),
+    [profile, activePreset, sharePrivacy]
   );
 
   const sharePayloadSignature = useMemo(() => {
@@ -178,24 +233,15 @@ export default function QRPage() {
     }));
     return JSON.stringify({
       profileId,
-      name: profile.name ?? '',
-      avatar: profile.avatar ?? '',
-      phone: ownerContact.phone ?? '',
-      telegram: ownerContact.telegram ?? '',
-      instagram: ownerContact.instagram ?? '',
-      privacy: privacyLevel,
+      name: shareOwner.name ?? '',
+      avatar: shareOwner.avatar ?? '',
+      phone: shareOwner.phone ?? '',
+      telegram: shareOwner.telegram ?? '',
+      instagram: shareOwner.instagram ?? '',
+      privacy: sharePrivacy,
       groups: normalizedGroups,
     });
-  }, [
-    profileId,
-    profile.name,
-    profile.avatar,
-    ownerContact.phone,
-    ownerContact.telegram,
-    ownerContact.instagram,
-    privacyLevel,
-    shareGroups,
-  ]);
+  }, [profileId, shareOwner, sharePrivacy, shareGroups]);
 
   const shareGeneratedAt = useMemo(() => Date.now(), [sharePayloadSignature]);
 
@@ -203,25 +249,25 @@ export default function QRPage() {
     if (!profileId) return { token: SHARE_PREFIX, error: null as string | null };
     try {
       const token = generateShareToken({
-        v: 1,
+        v: SHARE_VERSION,
         owner: {
           id: profileId,
-          name: profile.name || 'Без имени',
-          avatar: profile.avatar,
-          phone: ownerContact.phone,
-          telegram: ownerContact.telegram,
-          instagram: ownerContact.instagram,
+          name: shareOwner.name || 'Без имени',
+          avatar: shareOwner.avatar,
+          phone: shareOwner.phone,
+          telegram: shareOwner.telegram,
+          instagram: shareOwner.instagram,
         },
         groups: shareGroups,
         generatedAt: shareGeneratedAt,
-        privacy: privacyLevel,
+        privacy: sharePrivacy,
       });
       return { token, error: null as string | null };
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Не удалось создать QR-код.';
       return { token: SHARE_PREFIX, error: message };
     }
-  }, [profileId, profile, shareGroups, ownerContact, privacyLevel, shareGeneratedAt]);
+  }, [profileId, shareOwner, shareGroups, sharePrivacy, shareGeneratedAt]);
 
   useEffect(() => {
     if (!shareTokenInfo.token || shareTokenInfo.token === SHARE_PREFIX) {
@@ -235,24 +281,83 @@ export default function QRPage() {
     let cancelled = false;
     const fallbackLink = buildShareUrl(shareTokenInfo.token);
     const fallbackOverflow = fallbackLink.length > QR_VALUE_SAFE_LIMIT;
+    // A full-token link cannot expire or be revoked, so it only stands in for the default alias.
+    const canFallBack =
+      linkOptions.lifetime === DEFAULT_SHARE_LINK_OPTIONS.lifetime && linkOptions.maxOpens == null;
     setShareLinkState({ link: fallbackLink, overflow: fallbackOverflow, pending: true });
+    setShareLinkStats(null);
+    setShareLinkError(null);
 
     void (async () => {
       try {
-        const { url } = await createShareAliasLink(shareTokenInfo.token);
+        const { slug, url } = await createShareAliasLink(shareTokenInfo.token, linkOptions);
         if (cancelled) return;
         setShareLinkState({ link: url, overflow: url.length > QR_VALUE_SAFE_LIMIT, pending: false });
+        setShareLinkStats({ slug, openCount: null });
       } catch (err) {
         if (cancelled) return;
         console.warn('[qr] Failed to create share alias', err);
-        setShareLinkState({ link: fallbackLink, overflow: fallbackOverflow, pending: false });
+        if (canFallBack) {
+          setShareLinkState({ link: fallbackLink, overflow: fallbackOverflow, pending: false });
+          return;
+        }
+        setShareLinkState({ link: '', overflow: false, pending: false });
+        setShareLinkError(
+          err instanceof Error
+            ? navigator.onLine
+              ? `${err.message} Ссылка с ограничениями работает только после входа в аккаунт.`
+              : err.message
+            : 'Не удалось создать ссылку с ограничениями.'
+        );
       }
     })();
 
     return () => {
       cancelled = true;
     };
-  }, [shareTokenInfo.token, isReady]);
+  }, [shareTokenInfo.token, isReady, linkOptions, shareLinkGeneration]);
+
+  useEffect(() => {
+    // A link requested offline was queued; ask again so this page gets its slug.
+    const handleOnline = () => setShareLinkGeneration((value) => value + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  const currentShareSlug = shareLinkStats?.slug ?? null;
+
+  useEffect(() => {
+    if (!currentShareSlug) return;
+    let cancelled = false;
+
+    const refreshStats = async () => {
+      const result = await fetchShareLinks();
+      if (cancelled || !result.ok) return;
+      const current = result.links.find((link) => link.slug === currentShareSlug);
+      if (!current) {
+        // Opened its last time, expired or revoked from the links page.
+        setShareLinkGeneration((value) => value + 1);
+        return;
+      }
+      setShareLinkStats({ slug: currentShareSlug, openCount: current.openCount });
+    };
+
+    void refreshStats();
+    const timer = setInterval(() => void refreshStats(), SHARE_LINK_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [currentShareSlug]);
+
+  const handleLinkOptionsChange = useCallback((next: ShareLinkOptions) => {
+    setLinkOptions(next);
+    try {
+      localStorage.setItem(SHARE_LINK_OPTIONS_KEY, JSON.stringify(next));
+    } catch {
+      // Settings still apply to this visit.
+    }
+  }, []);
 
   useEffect(() => {
     if (shareTokenInfo.error) {
@@ -308,7 +413,7 @@ export default function QRPage() {
     if (!responseOpen || !profileId) return '';
     try {
       return generateShareToken({
-        v: 1,
+        v: SHARE_VERSION,
         owner: {
           id: profileId,
           name: profile.name || 'Без имени',
@@ -382,35 +487,44 @@ export default function QRPage() {
     let cancelled = false;
     let timer: ReturnType<typeof setTimeout> | null = null;
     let fetching = false;
+    // Exchanges this page could not merge stay pending in the inbox instead of being retried.
+    const skipped = new Set<string>();
 
     const fetchPending = async () => {
       if (fetching || cancelled) return;
       fetching = true;
       try {
-        const result = await fetchPendingExchanges(profileId);
+        const result = await fetchPendingExchanges({ limit: EXCHANGE_POLL_BATCH });
         if (cancelled || !result) return;
 
         if (result.ok) {
           let limitBlocked = false;
           if (result.exchanges.length > 0) {
             for (const exchange of result.exchanges) {
+              if (skipped.has(exchange.id)) continue;
               try {
                 let tokenMessage: string | null = null;
                 if (isContactLimitExceeded(exchange.payload.owner?.id)) {
-                  const charge = spendTokensForAction('extra-contact');
+                  const charge = await spendTokensForAction('extra-contact');
                   if (!charge.ok) {
                     setExchangeError(
-                      `Недостаточно токенов, чтобы добавить новый контакт. Нужно ${charge.cost}, на балансе ${charge.balance}.`
+                      charge.message
+                        ? `${charge.message} Обмен сохранён во входящих.`
+                        : `Недостаточно токенов, чтобы добавить новый контакт. Нужно ${charge.cost}, на балансе ${charge.balance}. Обмен сохранён во входящих.`
                     );
+                    skipped.add(exchange.id);
                     limitBlocked = true;
                     continue;
                   }
                   tokenMessage = `Списано ${charge.cost} токенов. Остаток: ${charge.balance}.`;
                 }
-                const outcome = mergeContactFromShare(exchange.payload);
+                const outcome = await acceptExchange(exchange);
+                if (cancelled) return;
                 setContacts(loadContacts());
                 setLastContactId(outcome.contact.id);
-                const message = outcome.wasCreated
+                const message = outcome.untrusted
+                  ? `Ответ от «${outcome.contact.name}» подписан другим ключом: добавлены только факты.`
+                  : outcome.wasCreated
                   ? `Контакт «${outcome.contact.name}» добавлен автоматически.`
                   : outcome.addedFacts > 0
                     ? `Контакт «${outcome.contact.name}» обновлён: добавлено ${outcome.addedFacts} фактов.`
@@ -418,6 +532,7 @@ export default function QRPage() {
                 const combinedMessage = tokenMessage ? `${tokenMessage} ${message}` : message;
                 setIncomingExchange({ contactId: outcome.contact.id, message: combinedMessage });
               } catch (err) {
+                skipped.add(exchange.id);
                 console.error('[qr] Failed to merge incoming exchange', err);
               }
             }
@@ -456,12 +571,42 @@ export default function QRPage() {
     };
   }, [profileId, shareTokenInfo.token, isContactLimitExceeded]);
 
+  const plainVCard = useMemo(() => profileToVCard(profile, { compact: true }), [profile]);
+
+  const handleProfileExport = () => {
+    downloadVCard(vCardFileName(profile.name), profileToVCard(loadShareProfile(), { profileId }));
+  };
+
   const handleGroupToggle = (id: string) => {
+    if (activePreset) {
+      const groupIds = activePreset.groupIds.includes(id)
+        ? activePreset.groupIds.filter((gid) => gid !== id)
+        : [...activePreset.groupIds, id];
+      savePreset({ ...activePreset, groupIds });
+      return;
+    }
     setSelectedGroups((prev) =>
       prev.includes(id) ? prev.filter((gid) => gid !== id) : [...prev, id]
     );
   };
 
+  const handleNewPreset = () => {
+    setPresetDraft(createSharePreset({ name: '', groupIds: shareSelection, privacy: sharePrivacy }));
+  };
+
+  const handlePresetSave = (preset: SharePreset) => {
+    // Groups may have been toggled while the editor was open; keep those.
+    const stored = presets.find((item) => item.id === preset.id);
+    savePreset(stored ? { ...preset, groupIds: stored.groupIds } : preset);
+    setActivePresetId(preset.id);
+    setPresetDraft(null);
+  };
+
+  const handlePresetRemove = (id: string) => {
+    removePreset(id);
+    setPresetDraft(null);
+  };
+
   const handleResponseToggle = (id: string) => {
     setResponseSelection((prev) =>
       prev.includes(id) ? prev.filter((gid) => gid !== id) : [...prev, id]
@@ -478,14 +623,16 @@ export default function QRPage() {
   };
 
   const handleManualContactCreate = useCallback(
-    (payload: ManualContactPayload) => {
+    async (payload: ManualContactPayload) => {
       let tokenMessage: string | null = null;
       if (isContactLimitExceeded()) {
-        const charge = spendTokensForAction('extra-contact');
+        const charge = await spendTokensForAction('extra-contact');
         if (!charge.ok) {
           setManualNotice({
             type: 'error',
-            message: `Нужны ${charge.cost} токена(ов), на балансе ${charge.balance}. Пополните баланс во вкладке «Токены».`,
+            message:
+              charge.message ??
+              `Нужны ${charge.cost} токена(ов), на балансе ${charge.balance}. Пополните баланс во вкладке «Токены».`,
           });
           return;
         }
@@ -544,8 +691,22 @@ export default function QRPage() {
         <section className="mx-auto mt-6 flex w-full max-w-lg flex-col items-center gap-6 rounded-2xl bg-gray-800 px-6 py-8 shadow-lg">
           {/* <ProfileSummary profile={profile} /> */}
           <div className="rounded-[28px] border border-cyan-500/20 bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/60 p-6 shadow-[0_35px_80px_rgba(8,145,178,0.35)] backdrop-blur-xl">
-            {shareError ? (
-              <p className="max-w-xs text-center text-sm text-red-400">{shareError}</p>
+            {qrMode === 'vcard' ? (
+              <div className="rounded-2xl bg-slate-950/40 p-4 shadow-inner">
+                <QRCode
+                  value={plainVCard}
+                  fgColor="#80F2E3"
+                  bgColor="transparent"
+                  level="L"
+                  style={{
+                    width: 'min(80vw, 320px)',
+                    height: 'min(80vw, 320px)',
+                    filter: 'drop-shadow(0 20px 40px rgba(8,145,178,0.35))',
+                  }}
+                />
+              </div>
+            ) : shareError || shareLinkError ? (
+              <p className="max-w-xs text-center text-sm text-red-400">{shareError ?? shareLinkError}</p>
             ) : (
               <div
                 className="relative rounded-2xl bg-slate-950/40 p-4 shadow-inner"
@@ -577,6 +738,48 @@ export default function QRPage() {
             )}
           </div>
 
+          <div className="flex flex-col items-center gap-3">
+            <div className="inline-flex rounded-full border border-slate-700 bg-slate-900/70 p-1 text-xs font-semibold">
+              {(
+                [
+                  ['innet', 'InNet'],
+                  ['vcard', 'Визитка vCard'],
+                ] as const
+              ).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setQrMode(mode)}
+                  className={`rounded-full px-3 py-1 transition ${
+                    qrMode === mode ? 'bg-primary text-background' : 'text-slate-300 hover:text-primary'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {qrMode === 'innet' && (
+              <ShareLinkSettings
+                options={linkOptions}
+                onChange={handleLinkOptionsChange}
+                stats={shareLinkStats}
+              />
+            )}
+            {qrMode === 'vcard' && (
+              <p className="max-w-xs text-center text-xs text-slate-400">
+                Камера телефона предложит сохранить ваше имя, телефон и соцсети в адресную книгу —
+                приложение InNet не нужно. Факты в визитку не попадают.
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={handleProfileExport}
+              className="text-xs font-semibold text-primary underline-offset-4 hover:underline"
+            >
+              Скачать мою визитку .vcf
+            </button>
+          </div>
+
           {incomingExchange && (
             <div className="w-full rounded-xl border border-primary/40 bg-primary/10 px-4 py-3 text-sm text-primary">
               <p>{incomingExchange.message}</p>
@@ -604,7 +807,10 @@ export default function QRPage() {
 
           {exchangeError && (
             <div className="w-full rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-400">
-              {exchangeError}
+              <p>{exchangeError}</p>
+              <Link href="/app/inbox" className="mt-2 inline-block text-xs font-semibold underline-offset-4 hover:underline">
+                Открыть входящие
+              </Link>
             </div>
           )}
 
@@ -612,6 +818,24 @@ export default function QRPage() {
             <h2 className="text-center text-lg font-semibold text-slate-100">
               Чем вы хотите поделиться
             </h2>
+            <SharePresetBar
+              presets={presets}
+              activeId={activePreset?.id ?? null}
+              onSelect={setActivePresetId}
+              onCreate={handleNewPreset}
+              onEdit={() => activePreset && setPresetDraft(activePreset)}
+            />
+            {presetDraft && (
+              <SharePresetEditor
+                key={presetDraft.id}
+                preset={presetDraft}
+                privacyOptions={privacyOptions}
+                isNew={!presets.some((preset) => preset.id === presetDraft.id)}
+                onSave={handlePresetSave}
+                onRemove={handlePresetRemove}
+                onCancel={() => setPresetDraft(null)}
+              />
+            )}
             <ul className="space-y-3">
               {groups.length === 0 && (
                 <li className="rounded-xl border border-dashed border-slate-700 px-4 py-5 text-center text-sm text-slate-400">
@@ -619,7 +843,7 @@ export default function QRPage() {
                 </li>
               )}
               {groups.map((group) => {
-                const active = selectedGroups.includes(group.id);
+                const active = shareSelection.includes(group.id);
                 return (
                   <li
                     key={group.id}
@@ -710,6 +934,285 @@ export default function QRPage() {
   );
 }
 
+function loadLinkOptions(): ShareLinkOptions {
+  try {
+    const raw = localStorage.getItem(SHARE_LINK_OPTIONS_KEY);
+    if (!raw) return DEFAULT_SHARE_LINK_OPTIONS;
+    const parsed = JSON.parse(raw) as Partial<ShareLinkOptions>;
+    if (!isShareLinkLifetime(parsed.lifetime)) return DEFAULT_SHARE_LINK_OPTIONS;
+    const maxOpens =
+      typeof parsed.maxOpens === 'number' && Number.isInteger(parsed.maxOpens) && parsed.maxOpens > 0
+        ? parsed.maxOpens
+        : null;
+    return { lifetime: parsed.lifetime, maxOpens };
+  } catch {
+    return DEFAULT_SHARE_LINK_OPTIONS;
+  }
+}
+
+function ShareLinkSettings({
+  options,
+  onChange,
+  stats,
+}: {
+  options: ShareLinkOptions;
+  onChange: (next: ShareLinkOptions) => void;
+  stats: ShareLinkStats | null;
+}) {
+  const [maxOpensDraft, setMaxOpensDraft] = useState(options.maxOpens ? String(options.maxOpens) : '');
+
+  useEffect(() => {
+    setMaxOpensDraft(options.maxOpens ? String(options.maxOpens) : '');
+  }, [options.maxOpens]);
+
+  const commitMaxOpens = () => {
+    const parsed = Number.parseInt(maxOpensDraft, 10);
+    const maxOpens = Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+    if (maxOpens !== options.maxOpens) {
+      onChange({ ...options, maxOpens });
+    } else {
+      setMaxOpensDraft(maxOpens ? String(maxOpens) : '');
+    }
+  };
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-2 text-xs text-slate-400">
+      <label className="flex items-center justify-between gap-3">
+        <span>Срок ссылки</span>
+        <select
+          value={options.lifetime}
+          onChange={(event) => {
+            const lifetime = event.target.value;
+            if (isShareLinkLifetime(lifetime)) {
+              onChange({ ...options, lifetime });
+            }
+          }}
+          className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-slate-200 focus:border-primary focus:outline-none"
+        >
+          {Object.entries(SHARE_LINK_LIFETIMES).map(([value, { label }]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {options.lifetime !== 'single-use' && (
+        <label className="flex items-center justify-between gap-3">
+          <span>Открытий не больше</span>
+          <input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            placeholder="без ограничений"
+            value={maxOpensDraft}
+            onChange={(event) => setMaxOpensDraft(event.target.value)}
+            onBlur={commitMaxOpens}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') commitMaxOpens();
+            }}
+            className="w-32 rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-right text-slate-200 focus:border-primary focus:outline-none"
+          />
+        </label>
+      )}
+      <div className="flex items-center justify-between gap-3">
+        <span>
+          {stats
+            ? `Открыли: ${stats.openCount ?? '…'}`
+            : 'Открытия считаются после входа в аккаунт'}
+        </span>
+        <Link href="/app/links" className="font-semibold text-primary underline-offset-4 hover:underline">
+          Все ссылки
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+function SharePresetBar({
+  presets,
+  activeId,
+  onSelect,
+  onCreate,
+  onEdit,
+}: {
+  presets: SharePreset[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onEdit: () => void;
+}) {
+  const chipClass = (active: boolean) =>
+    `rounded-full border px-3 py-1 text-xs font-semibold transition ${
+      active
+        ? 'border-primary bg-primary text-background'
+        : 'border-slate-700 text-slate-300 hover:border-primary hover:text-primary'
+    }`;
+  const activePreset = presets.find((preset) => preset.id === activeId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap justify-center gap-2">
+        <button type="button" onClick={() => onSelect(null)} className={chipClass(!activePreset)}>
+          Без пресета
+        </button>
+        {presets.map((preset) => (
+          <button
+            key={preset.id}
+            type="button"
+            onClick={() => onSelect(preset.id)}
+            className={chipClass(preset.id === activeId)}
+          >
+            {preset.name}
+          </button>
+        ))}
+        {presets.length < SHARE_PRESET_LIMIT && (
+          <button
+            type="button"
+            onClick={onCreate}
+            className="rounded-full border border-dashed border-slate-600 px-3 py-1 text-xs font-semibold text-slate-400 transition hover:border-primary hover:text-primary"
+          >
+            + Пресет
+          </button>
+        )}
+      </div>
+      {activePreset && (
+        <p className="text-center text-xs text-slate-400">
+          Переключатели ниже меняют пресет «{activePreset.name}».{' '}
+          <button
+            type="button"
+            onClick={onEdit}
+            className="font-semibold text-primary underline-offset-4 hover:underline"
+          >
+            Настроить
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function SharePresetEditor({
+  preset,
+  privacyOptions,
+  isNew,
+  onSave,
+  onRemove,
+  onCancel,
+}: {
+  preset: SharePreset;
+  privacyOptions: PrivacyLevel[];
+  isNew: boolean;
+  onSave: (preset: SharePreset) => void;
+  onRemove: (id: string) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(preset);
+  const name = draft.name.trim();
+
+  const toggleField = (field: SharePreset['fields'][number]) => {
+    setDraft((prev) => ({
+      ...prev,
+      fields: prev.fields.includes(field)
+        ? prev.fields.filter((item) => item !== field)
+        : SHARE_PRESET_FIELDS.filter((item) => item === field || prev.fields.includes(item)),
+    }));
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name) return;
+    onSave({ ...draft, name, displayName: draft.displayName?.trim() || undefined });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-xl border border-slate-700 bg-gray-900/70 px-4 py-4 text-sm text-slate-300"
+    >
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Название</span>
+        <input
+          value={draft.name}
+          maxLength={SHARE_PRESET_NAME_MAX}
+          placeholder="Например, Конференция"
+          onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+          className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 focus:border-primary focus:outline-none"
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Имя в QR-коде</span>
+        <input
+          value={draft.displayName ?? ''}
+          maxLength={SHARE_PRESET_NAME_MAX}
+          placeholder="Как в профиле"
+          onChange={(event) => setDraft((prev) => ({ ...prev, displayName: event.target.value }))}
+          className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100 focus:border-primary focus:outline-none"
+        />
+      </label>
+      <fieldset className="space-y-1">
+        <legend className="text-xs text-slate-400">Что передавать</legend>
+        <div className="flex flex-wrap gap-3">
+          {SHARE_PRESET_FIELDS.map((field) => (
+            <label key={field} className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.fields.includes(field)}
+                onChange={() => toggleField(field)}
+                className="accent-primary"
+              />
+              {SHARE_PRESET_FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-xs text-slate-400">Контакты видны</span>
+        <select
+          value={draft.privacy}
+          onChange={(event) => setDraft((prev) => ({ ...prev, privacy: mapPrivacyLevel(event.target.value) }))}
+          className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-slate-200 focus:border-primary focus:outline-none"
+        >
+          {privacyOptions.map((level) => (
+            <option key={level} value={level}>
+              {PRIVACY_LABELS[level]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-slate-500">
+        {isNew
+          ? 'Группы фактов берутся из текущего выбора, потом их можно менять переключателями.'
+          : 'Группы фактов меняются переключателями ниже, пока пресет выбран.'}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="submit"
+          disabled={!name}
+          className="rounded-full bg-primary px-4 py-1.5 text-xs font-semibold text-background transition hover:bg-secondary disabled:opacity-50"
+        >
+          Сохранить
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-slate-600 px-4 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-primary hover:text-primary"
+        >
+          Отмена
+        </button>
+        {!isNew && (
+          <button
+            type="button"
+            onClick={() => onRemove(preset.id)}
+            className="ml-auto rounded-full border border-slate-600 px-4 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-red-400 hover:text-red-300"
+          >
+            Удалить
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
 function ShareControls({
   onCopy,
   copyState,
@@ -1,19 +1,41 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState, type FormEvent } from 'react';
 import Layout from '../../components/Layout';
 import { usePlan } from '../../hooks/usePlan';
 import { useTokens } from '../../hooks/useTokens';
-import { TOKEN_PACKS, TOKEN_ACTIONS_LIST, simulateTokenPurchase, formatTokenPrice } from '../../lib/tokens';
+import { storeSubscription, useSubscription } from '../../hooks/useSubscription';
+import { TOKEN_PACKS, TOKEN_ACTIONS_LIST, findTokenPack, formatTokenPrice, refreshTokenBalance } from '../../lib/tokens';
 import { legalContactInfo } from '../../data/legal';
+import { fetchSubscription, getPaymentStatus, startPayment, type SubscriptionInfo } from '../../lib/payments/client';
+import { applyPromoDiscount, redeemPromoCode } from '../../lib/promoClient';
 
 type Notice = { type: 'success' | 'error'; message: string } | null;
 
+const SUBSCRIPTION_STATUS_LABELS: Record<SubscriptionInfo['status'], string> = {
+  active: 'Активна',
+  past_due: 'Не удалось продлить',
+  canceled: 'Автопродление отменено',
+  expired: 'Закончилась',
+};
+
+/** Payment the user left for on YooKassa; checked when they come back. */
+const PENDING_PACK_PAYMENT_KEY = 'innet_pending_pack_payment';
+const PAYMENT_POLL_ATTEMPTS = 10;
+const PAYMENT_POLL_INTERVAL_MS = 3000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export default function TokenWalletPage() {
   const { entitlements } = usePlan();
   const { balance } = useTokens();
+  const subscription = useSubscription();
   const [notice, setNotice] = useState<Notice>(null);
   const [pendingPack, setPendingPack] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoBusy, setPromoBusy] = useState(false);
+  /** Percent code waiting for the next payment. */
+  const [discount, setDiscount] = useState<{ code: string; percent: number } | null>(null);
 
   const allowanceCards = [
     { label: 'Контактов бесплатно', value: entitlements.contactLimit },
@@ -21,20 +43,101 @@ export default function TokenWalletPage() {
     { label: 'Фактов в группе', value: entitlements.factsPerGroupLimit },
   ];
 
-  const handleSimulatePurchase = (packId: string) => {
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const paymentId = window.sessionStorage.getItem(PENDING_PACK_PAYMENT_KEY);
+    if (!paymentId) return;
+    let cancelled = false;
+
+    const checkPayment = async () => {
+      setNotice({ type: 'success', message: 'Проверяем оплату...' });
+      for (let attempt = 0; attempt < PAYMENT_POLL_ATTEMPTS && !cancelled; attempt += 1) {
+        try {
+          const { status, packId } = await getPaymentStatus(paymentId);
+          if (status === 'succeeded') {
+            window.sessionStorage.removeItem(PENDING_PACK_PAYMENT_KEY);
+            const nextBalance = await refreshTokenBalance();
+            const pack = findTokenPack(packId);
+            const credited = pack ? `Зачислено ${pack.tokens + pack.bonusTokens} токенов. ` : '';
+            if (!cancelled) {
+              setNotice({
+                type: 'success',
+                message: `${credited}Текущий баланс: ${nextBalance ?? '—'} токенов.`,
+              });
+            }
+            return;
+          }
+          if (status === 'canceled' || status === 'unknown') {
+            window.sessionStorage.removeItem(PENDING_PACK_PAYMENT_KEY);
+            if (!cancelled) {
+              setNotice({ type: 'error', message: 'Оплата не прошла, токены не списаны и не зачислены.' });
+            }
+            return;
+          }
+        } catch (error) {
+          console.warn('[upgrade] Failed to check payment', error);
+        }
+        await wait(PAYMENT_POLL_INTERVAL_MS);
+      }
+      if (!cancelled) {
+        setNotice({
+          type: 'error',
+          message: 'Платёж ещё обрабатывается. Токены появятся на балансе, как только банк подтвердит оплату.',
+        });
+      }
+    };
+
+    void checkPayment();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handlePurchase = async (packId: string) => {
     setPendingPack(packId);
     setNotice(null);
-    const receipt = simulateTokenPurchase(packId);
-    if (!receipt.ok) {
-      setNotice({ type: 'error', message: receipt.message });
+    try {
+      const returnUrl = `${window.location.origin}/app/upgrade`;
+      const payment = await startPayment({ product: 'pack', packId, returnUrl, promoCode: discount?.code });
+      window.sessionStorage.setItem(PENDING_PACK_PAYMENT_KEY, payment.paymentId);
+      window.location.assign(payment.confirmationUrl);
+    } catch (error) {
+      setNotice({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Не удалось создать платёж. Попробуйте позже.',
+      });
       setPendingPack(null);
+    }
+  };
+
+  const handleRedeemPromo = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!promoInput.trim()) return;
+    setPromoBusy(true);
+    setNotice(null);
+    const result = await redeemPromoCode(promoInput);
+    setPromoBusy(false);
+    if (!result.ok) {
+      setNotice({ type: 'error', message: result.message });
       return;
     }
+    setPromoInput('');
+    if (result.kind === 'percent') {
+      setDiscount({ code: result.code, percent: result.percent });
+      setNotice({ type: 'success', message: `Скидка ${result.percent}% применится к следующей оплате.` });
+      return;
+    }
+    if (result.kind === 'tokens') {
+      await refreshTokenBalance();
+      setNotice({ type: 'success', message: `Зачислено ${result.tokens} токенов. Текущий баланс: ${result.balance}.` });
+      return;
+    }
+    const refreshed = await fetchSubscription();
+    if (refreshed.ok) storeSubscription(refreshed.subscription);
     setNotice({
       type: 'success',
-      message: `Зачислено ${receipt.creditedTokens} токенов. Текущий баланс: ${receipt.balance} токенов.`,
+      message: `Pro подключён ещё на ${result.days} дн. — до ${new Date(result.planExpiresAt).toLocaleDateString('ru-RU')}.`,
     });
-    setPendingPack(null);
   };
 
   return (
@@ -44,8 +147,8 @@ export default function TokenWalletPage() {
           <p className="text-xs uppercase tracking-[0.3em] text-primary">Монетизация</p>
           <h1 className="text-3xl font-semibold">Кошелёк токенов</h1>
           <p className="text-sm text-gray-400">
-            Pay as you go: 20 контактов бесплатно, дальше платите токенами только за фактический рост сети. Оплата пока в
-            демо-режиме — используем локальные зачисления, чтобы протестировать экономику.
+            Pay as you go: 20 контактов бесплатно, дальше платите токенами только за фактический рост сети. Токены
+            покупаются через YooKassa и зачисляются на баланс после подтверждения оплаты.
           </p>
         </header>
 
@@ -65,6 +168,24 @@ export default function TokenWalletPage() {
           ))}
         </section>
 
+        {subscription && (
+          <section className="rounded-2xl border border-gray-700 bg-gray-900/70 p-6 space-y-2 text-sm text-gray-300">
+            <h2 className="text-lg font-semibold text-white">Подписка</h2>
+            <p>
+              {SUBSCRIPTION_STATUS_LABELS[subscription.status]} ·{' '}
+              {subscription.status === 'expired'
+                ? 'бесплатный план'
+                : `оплачено до ${new Date(subscription.currentPeriodEnd).toLocaleDateString('ru-RU')}`}
+            </p>
+            <p className="text-xs text-gray-400">
+              {subscription.autoRenew
+                ? `Автопродление с карты ${subscription.paymentMethodTitle ?? ''}`.trim()
+                : 'Автопродление выключено: карта не сохранена.'}
+            </p>
+            {subscription.notice && <p className="text-amber-200">{subscription.notice}</p>}
+          </section>
+        )}
+
         {notice && (
           <div
             className={`rounded-xl border px-4 py-3 text-sm ${
@@ -77,17 +198,46 @@ export default function TokenWalletPage() {
           </div>
         )}
 
+        <form
+          onSubmit={(event) => void handleRedeemPromo(event)}
+          className="rounded-2xl border border-gray-700 bg-gray-900/70 p-6 flex flex-col gap-3 md:flex-row md:items-center"
+        >
+          <div className="md:flex-1">
+            <h2 className="text-lg font-semibold text-white">Промокод</h2>
+            <p className="text-xs text-gray-400">
+              {discount
+                ? `Промокод ${discount.code}: скидка ${discount.percent}% на следующую оплату.`
+                : 'Скидка на оплату, дни Pro или токены в подарок.'}
+            </p>
+          </div>
+          <input
+            type="text"
+            value={promoInput}
+            onChange={(event) => setPromoInput(event.target.value)}
+            placeholder="Например, SPRING-25"
+            maxLength={32}
+            className="rounded-md border border-gray-700 bg-gray-950 px-3 py-2 text-sm uppercase text-white placeholder:normal-case placeholder:text-gray-500 focus:border-primary focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={promoBusy || !promoInput.trim()}
+            className="rounded-md border border-primary/60 px-4 py-2 text-sm font-semibold text-primary transition hover:bg-primary/10 disabled:opacity-50"
+          >
+            {promoBusy ? 'Проверяем...' : 'Применить'}
+          </button>
+        </form>
+
         <section className="rounded-2xl border border-gray-700 bg-gray-900/70 p-6 space-y-4">
           <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
             <div>
               <h2 className="text-2xl font-semibold text-white">Пакеты токенов</h2>
               <p className="text-sm text-gray-400">
-                Выберите объём пополнения — каждый следующий пакет выгоднее предыдущего. После релиза здесь появится
-                интеграция с YooKassa.
+                Выберите объём пополнения — каждый следующий пакет выгоднее предыдущего. Оплата проходит
+                через YooKassa.
               </p>
             </div>
             <span className="rounded-full border border-primary/40 px-3 py-1 text-xs text-primary">
-              демо-режим оплаты
+              оплата через YooKassa
             </span>
           </div>
           <div className="grid gap-4 md:grid-cols-3">
@@ -102,7 +252,10 @@ export default function TokenWalletPage() {
                     <p className="text-sm text-gray-400 mt-1">{pack.description}</p>
                   </div>
                   <div className="flex items-baseline justify-between">
-                    <p className="text-3xl font-bold text-primary">{pack.priceRub} ₽</p>
+                    <p className="text-3xl font-bold text-primary">
+                      {discount ? applyPromoDiscount(pack.priceRub, discount.percent) : pack.priceRub} ₽
+                      {discount && <span className="ml-2 text-sm text-gray-500 line-through">{pack.priceRub} ₽</span>}
+                    </p>
                     <p className="text-xs text-gray-500">{formatTokenPrice(pack.priceRub, totalTokens)}</p>
                   </div>
                   <ul className="text-sm text-gray-300 space-y-1">
@@ -111,13 +264,13 @@ export default function TokenWalletPage() {
                   </ul>
                   <button
                     type="button"
-                    onClick={() => handleSimulatePurchase(pack.id)}
+                    onClick={() => void handlePurchase(pack.id)}
                     disabled={isPending}
                     className={`mt-auto rounded-md px-4 py-2 text-sm font-semibold transition ${
                       isPending ? 'border border-gray-700 text-gray-500' : 'bg-primary text-gray-900 hover:bg-secondary'
                     }`}
                   >
-                    {isPending ? 'Зачисляем...' : `Пополнить ${totalTokens} токенов`}
+                    {isPending ? 'Переходим к оплате...' : `Пополнить ${totalTokens} токенов`}
                   </button>
                 </article>
               );
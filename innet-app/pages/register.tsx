@@ -899,7 +899,6 @@ export default function Register() {
 
     if (effectiveEmail) {
       void syncProfileToSupabase({
-        email: effectiveEmail,
         name: currentUser.name,
         surname: currentUser.surname,
         phone: currentUser.phone,
@@ -914,7 +913,6 @@ export default function Register() {
               : prev
           );
           void syncProfileToSupabase({
-            email: result.email,
             name: result.user.name,
             surname: result.user.surname,
             phone: result.user.phone,
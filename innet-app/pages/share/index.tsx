@@ -6,6 +6,7 @@ import Layout from '../../components/Layout';
 import ToggleBar from '../../components/ToggleBar';
 import {
   extractShareToken,
+  generateShareToken,
   getOrCreateProfileId,
   mergeContactFromShare,
   parseShareToken,
@@ -28,11 +29,13 @@ import { v4 as uuidv4 } from 'uuid';
 import { usePlan } from '../../hooks/usePlan';
 import { DEFAULT_PLAN, isUnlimited } from '../../lib/plans';
 import { registerRemoteAccount } from '../../lib/accountRemote';
+import { REPOSITORY_CHANGED_EVENT, type RepositoryChangedDetail } from '../../lib/repository';
 import { loadShareProfile, ShareProfile, SHARE_PROFILE_STORAGE_KEYS } from '../../lib/shareProfile';
 import { usePrivacy } from '../../hooks/usePrivacy';
 import { groupToShare, syncSelection } from '../../lib/shareUtils';
 import { sendExchange } from '../../lib/exchangeClient';
 import { resolveAliasToken } from '../../lib/shareAliasClient';
+import { confirmShareKeyBinding, syncShareKeys } from '../../lib/shareKeysClient';
 import { spendTokensForAction } from '../../lib/tokens';
 
 type PageStatus = 'loading' | 'ready' | 'adding' | 'added' | 'error';
@@ -80,20 +83,24 @@ export default function ShareLandingPage() {
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const handleStorage = (event: StorageEvent) => {
-      if (!event.key || event.key === 'innet_fact_groups') {
-        setResponseGroups(loadFactGroups());
-      }
       if (!event.key || SHARE_PROFILE_STORAGE_KEYS.includes(event.key)) {
         setProfile(loadShareProfile());
       }
     };
+    const handleRepository = (event: CustomEvent<RepositoryChangedDetail>) => {
+      if (event.detail.store === 'factGroups' && event.detail.source === 'tab') {
+        setResponseGroups(loadFactGroups());
+      }
+    };
     const handleProfileEvent = () => setProfile(loadShareProfile());
 
     window.addEventListener('storage', handleStorage);
+    window.addEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
     window.addEventListener('innet-profile-updated', handleProfileEvent as EventListener);
     window.addEventListener('focus', handleProfileEvent as EventListener);
     return () => {
       window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(REPOSITORY_CHANGED_EVENT, handleRepository);
       window.removeEventListener('innet-profile-updated', handleProfileEvent as EventListener);
       window.removeEventListener('focus', handleProfileEvent as EventListener);
     };
@@ -142,7 +149,7 @@ export default function ShareLandingPage() {
   }, [ownerContact]);
 
   const sendReciprocalShare = useCallback(
-    async (targetProfileId?: string) => {
+    async (targetProfileId?: string, recipientBoxKey?: string) => {
       if (!targetProfileId || !profileId || selectedShareGroups.length === 0) {
         setReciprocalError(null);
         return;
@@ -162,7 +169,9 @@ export default function ShareLandingPage() {
           generatedAt: Date.now(),
           privacy: privacyLevel,
         };
-        const response = await sendExchange(profileId, targetProfileId, payload);
+        await syncShareKeys();
+        const token = generateShareToken(payload, { recipientBoxKey });
+        const response = await sendExchange(targetProfileId, token);
         if (!response.ok) {
           throw new Error(response.message);
         }
@@ -235,7 +244,7 @@ export default function ShareLandingPage() {
       try {
         const resolvedToken = await resolveAliasToken(normalizedToken);
         if (cancelled) return;
-        const payload = parseShareToken(resolvedToken);
+        const payload = await confirmShareKeyBinding(parseShareToken(resolvedToken));
         setShareToken(resolvedToken);
         setSharePayload(payload);
         setProgressMessage(null);
@@ -298,12 +307,13 @@ export default function ShareLandingPage() {
             ? existingContacts.some((contact) => contact.remoteId === remoteId)
             : false;
           if (limit > 0 && !alreadyExists && existingContacts.length >= limit) {
-            const charge = spendTokensForAction('extra-contact');
+            const charge = await spendTokensForAction('extra-contact');
             if (!charge.ok) {
               setProgressMessage(null);
               setStatus('ready');
               setError(
-                `Недостаточно токенов. Нужно ${charge.cost}, на балансе ${charge.balance}. Пополните баланс во вкладке «Токены».`
+                charge.message ??
+                  `Недостаточно токенов. Нужно ${charge.cost}, на балансе ${charge.balance}. Пополните баланс во вкладке «Токены».`
               );
               return;
             }
@@ -313,7 +323,11 @@ export default function ShareLandingPage() {
           }
         }
         const result = mergeContactFromShare(sharePayload);
-        setProgressMessage(`Контакт «${result.contact.name}» добавлен в вашу сеть.`);
+        setProgressMessage(
+          result.untrusted
+            ? `QR-код подписан другим ключом: в карточку «${result.contact.name}» добавлены только факты, контакты не изменены.`
+            : `Контакт «${result.contact.name}» добавлен в вашу сеть.`
+        );
         const userInfo = userHint ?? getCurrentUserSignature();
         await handleRecordEngagement({
           mode,
@@ -322,7 +336,7 @@ export default function ShareLandingPage() {
           ownerId: sharePayload.owner?.id,
           ownerName: sharePayload.owner?.name,
         });
-        await sendReciprocalShare(sharePayload.owner?.id);
+        await sendReciprocalShare(sharePayload.owner?.id, sharePayload.owner?.boxKey);
         redirectToContact(result.contact.id);
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Не удалось добавить контакт.';
@@ -407,7 +421,6 @@ export default function ShareLandingPage() {
         setHasAccount(true);
 
         await syncProfileToSupabase({
-          email: persistedUser.email,
           name: persistedUser.name,
         });
 
@@ -609,6 +622,19 @@ function ShareSummary({ payload, groups }: { payload: SharePayload; groups: Shar
       <p className="mt-2 text-sm text-slate-400">
         Они готовы поделиться {factsCount} фактами в {groups.length} группах. После регистрации вы сможете сохранить их и добавить заметки.
       </p>
+      {payload.verification === 'bound' ? (
+        <p className="mt-3 inline-flex items-center gap-2 rounded-full bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-300">
+          Подпись QR-кода проверена
+        </p>
+      ) : payload.verification === 'verified' ? (
+        <p className="mt-3 inline-flex items-center gap-2 rounded-full bg-amber-500/10 px-3 py-1 text-xs font-medium text-amber-300">
+          Ключ подписи не подтверждён сервером — в уже сохранённый контакт добавятся только факты
+        </p>
+      ) : (
+        <p className="mt-3 inline-flex items-center gap-2 rounded-full bg-amber-500/10 px-3 py-1 text-xs font-medium text-amber-300">
+          QR-код старого формата без подписи — убедитесь, что получили его от владельца
+        </p>
+      )}
       {privacyNote && (
         <div className="mt-4 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
           {privacyNote}
@@ -0,0 +1,233 @@
+import type { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Layout from '../../components/Layout';
+import type { SchemaEntity, SeoHeadProps } from '../../components/SeoHead';
+import { usePlan } from '../../hooks/usePlan';
+import { isUnlimited } from '../../lib/plans';
+import {
+  normalizeHandle,
+  publicProfilePath,
+  publicProfileRemoteId,
+  publicProfileToSharePayload,
+  type PublicProfileView,
+} from '../../lib/publicProfileClient';
+import { seoConfig } from '../../lib/seo';
+import { readSession } from '../../lib/server/session';
+import { loadPublicProfileView } from '../../lib/server/publicProfiles';
+import { hydrateRepository } from '../../lib/repository';
+import { mergeContactFromShare } from '../../lib/share';
+import { loadContacts } from '../../lib/storage';
+import { getSupabaseAdminClient } from '../../lib/supabaseAdmin';
+import { spendTokensForAction } from '../../lib/tokens';
+
+type PageProps = {
+  profile: PublicProfileView;
+};
+
+type Notice = { type: 'success' | 'error'; text: string };
+
+export const getServerSideProps: GetServerSideProps<PageProps> = async ({ params, req, res }) => {
+  const handle = normalizeHandle(params?.handle);
+  if (!handle || !getSupabaseAdminClient()) {
+    return { notFound: true };
+  }
+  if (params?.handle !== handle) {
+    return { redirect: { destination: publicProfilePath(handle), permanent: true } };
+  }
+
+  try {
+    const profile = await loadPublicProfileView(handle, readSession(req));
+    if (!profile) {
+      return { notFound: true };
+    }
+    // What the page shows depends on who is looking, so shared caches must not keep it.
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return { props: { profile } };
+  } catch (error) {
+    console.error('[u/handle] Failed to load public profile', { handle, error });
+    throw error;
+  }
+};
+
+function buildSeo(profile: PublicProfileView): SeoHeadProps {
+  const url = `${seoConfig.siteUrl}${publicProfilePath(profile.handle)}`;
+  const sameAs = [
+    profile.telegram ? `https://t.me/${profile.telegram.replace(/^@/, '')}` : null,
+    profile.instagram ? `https://instagram.com/${profile.instagram.replace(/^@/, '')}` : null,
+  ].filter((value): value is string => Boolean(value));
+  const person: SchemaEntity = {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: profile.name,
+    url,
+    ...(profile.avatar ? { image: profile.avatar } : {}),
+    ...(profile.indexable && sameAs.length ? { sameAs } : {}),
+  };
+  return {
+    title: `${profile.name} — InNet`,
+    description: profile.description,
+    canonical: publicProfilePath(profile.handle),
+    image: profile.avatar ?? undefined,
+    noIndex: !profile.indexable,
+    structuredData: profile.indexable ? person : undefined,
+  };
+}
+
+/**
+ * Public profile at a stable address. Unlike a QR token it is rendered from
+ * the owner's synced facts on every visit, so a printed link never goes stale.
+ */
+export default function PublicProfilePage({ profile }: PageProps) {
+  const router = useRouter();
+  const { entitlements } = usePlan();
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const seo = useMemo(() => buildSeo(profile), [profile]);
+
+  useEffect(() => {
+    setIsLoggedIn(localStorage.getItem('innet_logged_in') === 'true');
+  }, []);
+
+  const handleAdd = useCallback(async () => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      // This page is not gated on the repository, so make sure contacts have loaded.
+      await hydrateRepository();
+      const contacts = loadContacts();
+      const known = contacts.some((contact) => contact.remoteId === publicProfileRemoteId(profile.handle));
+      const limit = entitlements.contactLimit ?? 0;
+      if (!known && !isUnlimited(entitlements.contactLimit) && contacts.length >= limit) {
+        const charge = await spendTokensForAction('extra-contact');
+        if (!charge.ok) {
+          setNotice({
+            type: 'error',
+            text:
+              charge.message ??
+              `Недостаточно токенов, чтобы добавить новый контакт. Нужно ${charge.cost}, на балансе ${charge.balance}.`,
+          });
+          return;
+        }
+      }
+      const result = mergeContactFromShare(publicProfileToSharePayload(profile));
+      setNotice({
+        type: 'success',
+        text: result.untrusted
+          ? `В карточку «${result.contact.name}» добавлены только факты: контакт подтверждён другим ключом.`
+          : `Контакт «${result.contact.name}» добавлен в вашу сеть.`,
+      });
+      void router.push(`/app/contacts/${result.contact.id}`);
+    } catch (error) {
+      console.error('[u/handle] Failed to add contact', error);
+      setNotice({ type: 'error', text: 'Не удалось добавить контакт.' });
+    } finally {
+      setBusy(false);
+    }
+  }, [entitlements.contactLimit, profile, router]);
+
+  const channels = [profile.phone, profile.telegram, profile.instagram].filter(
+    (value): value is string => Boolean(value)
+  );
+
+  return (
+    <Layout seo={seo}>
+      <div className="mx-auto w-full max-w-3xl space-y-6 px-4 py-12">
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-lg">
+          <div className="flex items-center gap-4">
+            {profile.avatar ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={profile.avatar} alt="" className="h-16 w-16 rounded-full object-cover" />
+            ) : (
+              <div className="flex h-16 w-16 items-center justify-center rounded-full bg-slate-800 text-2xl font-semibold text-primary">
+                {profile.name.slice(0, 1).toUpperCase()}
+              </div>
+            )}
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-100">{profile.name}</h1>
+              <p className="text-sm text-slate-500">@{profile.handle}</p>
+            </div>
+          </div>
+
+          {channels.length > 0 && (
+            <ul className="mt-4 flex flex-wrap gap-2 text-sm text-slate-300">
+              {channels.map((channel) => (
+                <li key={channel} className="rounded-full border border-slate-700 px-3 py-1">
+                  {channel}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {profile.restricted && (
+            <p className="mt-4 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+              Часть данных владелец показывает только знакомым. Обменяйтесь QR-кодами при встрече, чтобы увидеть всё.
+            </p>
+          )}
+
+          {profile.relation === 'self' ? (
+            <p className="mt-6 text-sm text-slate-400">
+              Так вашу страницу видят контакты. Видимость групп настраивается в разделе{' '}
+              <Link href="/app/facts" className="text-primary hover:underline">
+                «Мои факты»
+              </Link>
+              .
+            </p>
+          ) : isLoggedIn ? (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void handleAdd()}
+              className="mt-6 rounded-md bg-primary px-4 py-2 text-sm font-medium text-background transition-colors hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Добавить в мою сеть
+            </button>
+          ) : (
+            <p className="mt-6 text-sm text-slate-400">
+              <Link href="/register" className="text-primary hover:underline">
+                Создайте аккаунт
+              </Link>{' '}
+              или{' '}
+              <Link href="/login" className="text-primary hover:underline">
+                войдите
+              </Link>
+              , чтобы добавить {profile.name} в свою сеть.
+            </p>
+          )}
+
+          {notice && (
+            <p className={`mt-3 text-sm ${notice.type === 'error' ? 'text-red-400' : 'text-emerald-300'}`}>
+              {notice.text}
+            </p>
+          )}
+        </section>
+
+        {profile.groups.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            {profile.groups.map((group) => (
+              <article key={group.id} className="rounded-xl border border-slate-800 bg-slate-950/80 p-4">
+                <h2 className="mb-3 text-lg font-semibold" style={{ color: group.color }}>
+                  {group.name}
+                </h2>
+                <ul className="space-y-2">
+                  {group.facts.map((fact) => (
+                    <li
+                      key={fact.id}
+                      className="rounded-lg border border-slate-800 bg-slate-900/70 px-3 py-2 text-sm text-slate-200"
+                    >
+                      {fact.text}
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Владелец пока не открыл факты для этой страницы.</p>
+        )}
+      </div>
+    </Layout>
+  );
+}
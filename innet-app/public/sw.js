@@ -0,0 +1,192 @@
+/*
+ * InNet service worker. Keeps the /app shell and the build's static chunks
+ * available offline; API calls always go to the network, and writes made
+ * offline wait in the IndexedDB outbox (lib/outbox.ts) instead. It also
+ * shows reminder pushes sent by lib/server/reminderDelivery.ts.
+ */
+const SHELL_CACHE = 'innet-shell-v1';
+const STATIC_CACHE = 'innet-static-v1';
+const STATIC_CACHE_LIMIT = 200;
+const APP_SHELL = [
+  '/app/qr',
+  '/app/contacts',
+  '/app/facts',
+  '/app/graph',
+  '/app/inbox',
+  '/app/profile',
+];
+const STATIC_ASSET = /\/_next\/static\/[^"'\s)]+/g;
+
+const OFFLINE_PAGE = `<!doctype html>
+<html lang="ru">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Нет сети — InNet</title></head>
+<body style="margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#050608;color:#e2e8f0;font-family:system-ui,sans-serif;text-align:center">
+<main style="padding:24px;max-width:360px">
+<h1 style="font-size:20px">Нет сети</h1>
+<p style="color:#94a3b8;font-size:14px">Эта страница ещё не сохранена на устройстве. QR-код, контакты и факты доступны офлайн.</p>
+<a href="/app/qr" style="color:#80F2E3">Открыть мой QR</a>
+</main>
+</body>
+</html>`;
+
+async function precacheShell() {
+  const shell = await caches.open(SHELL_CACHE);
+  const statics = await caches.open(STATIC_CACHE);
+  await Promise.all(
+    APP_SHELL.map(async (path) => {
+      try {
+        const response = await fetch(path, { cache: 'no-cache' });
+        if (!response.ok) return;
+        await shell.put(path, response.clone());
+        // The page is useless offline without the chunks it loads.
+        const html = await response.text();
+        const assets = Array.from(new Set(html.match(STATIC_ASSET) || []));
+        await Promise.all(assets.map((asset) => statics.add(asset).catch(() => undefined)));
+      } catch {
+        // Precaching is best effort; pages are also cached as they are visited.
+      }
+    })
+  );
+}
+
+async function trimCache(name, limit) {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    return (
+      cached ||
+      new Response(OFFLINE_PAGE, {
+        status: 503,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      })
+    );
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    void trimCache(STATIC_CACHE, STATIC_CACHE_LIMIT);
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== STATIC_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    if (url.pathname.startsWith('/app')) {
+      event.respondWith(networkFirst(request));
+    }
+    return;
+  }
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (url.pathname === '/manifest.webmanifest' || /\.(svg|png|ico)$/.test(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    return;
+  }
+  if (data.type !== 'reminder') return;
+  event.waitUntil(
+    self.registration.showNotification(data.title, {
+      body: data.body,
+      tag: data.tag,
+      icon: '/favicon.svg',
+      data: { url: data.url, token: data.token },
+      actions: data.token
+        ? [
+            { action: 'done', title: 'Готово' },
+            { action: 'snooze', title: 'Отложить' },
+          ]
+        : [],
+    })
+  );
+});
+
+async function openApp(url) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const existing = windows.find((client) => new URL(client.url).pathname.startsWith('/app'));
+  if (existing) {
+    await existing.focus();
+    return existing.navigate(url);
+  }
+  return self.clients.openWindow(url);
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const { url, token } = event.notification.data || {};
+  event.notification.close();
+  if ((event.action === 'done' || event.action === 'snooze') && token) {
+    event.waitUntil(
+      fetch('/api/reminders/action', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, action: event.action }),
+      }).catch(() => undefined)
+    );
+    return;
+  }
+  event.waitUntil(openApp(url || '/app/contacts'));
+});